@@ -0,0 +1,172 @@
+"""
+Alert rules on brand visibility, checked when a web run completes.
+
+A rule looks at the brand mentions of one intent (or of every intent) in the
+new run. It fires when its condition holds for the new run but did not hold
+for the user's previous run of that intent, so a schedule that keeps finding
+the same problem notifies once instead of on every run.
+
+Rule types:
+- rank_drop: my brand's best rank is outside the top `threshold` (or unranked)
+- competitor_overtakes: a competitor (or the rule's `competitor`) ranks above
+  my brand
+- negative_sentiment: net sentiment of my brand's mentions is below zero
+- share_of_voice_below: my brand has less than `threshold` % of all mentions
+
+Fired rules land in the notifications table (the in-app inbox); the Dashboard
+turns new inbox entries into browser notifications.
+
+Example:
+    >>> evaluate_alert_rules(conn, user_id, "2025-11-05T10-00-00Z")
+    [{'id': 4, 'rule_id': 2, 'title': 'Top 3 on best-tools', 'message': '...'}]
+"""
+
+import sqlite3
+
+from .storage.db import (
+    ALERT_RULE_TYPES,
+    create_notification,
+    get_previous_run_id,
+    get_run_brand_mentions,
+    get_user_alert_rules,
+    run_has_answers,
+)
+
+_SENTIMENT_SCORES = {"positive": 1, "neutral": 0, "negative": -1}
+
+
+def validate_alert_rule(rule_type: str, threshold: float | None) -> None:
+    """
+    Check that a rule has the threshold its type needs.
+
+    Raises:
+        ValueError: If the type is unknown or the threshold is missing or out of range
+    """
+    if rule_type not in ALERT_RULE_TYPES:
+        raise ValueError(
+            f"Invalid alert rule type '{rule_type}', expected one of: {', '.join(ALERT_RULE_TYPES)}"
+        )
+    if rule_type == "rank_drop" and (threshold is None or threshold < 1 or threshold != int(threshold)):
+        raise ValueError("rank_drop rules need a whole-number threshold of at least 1 (the top N)")
+    if rule_type == "share_of_voice_below" and (threshold is None or not 0 < threshold <= 100):
+        raise ValueError("share_of_voice_below rules need a threshold between 0 and 100 (%)")
+
+
+def _my_brand(mentions: list[dict]) -> str:
+    return next((m["brand_name"] for m in mentions if m["is_mine"]), "Your brand")
+
+
+def _best_ranks(mentions: list[dict]) -> dict[str, int]:
+    """Best (lowest) rank per brand across the answering models."""
+    best: dict[str, int] = {}
+    for mention in mentions:
+        rank = mention["rank_position"]
+        if rank is not None:
+            name = "\0mine" if mention["is_mine"] else mention["brand_name"]
+            best[name] = min(rank, best.get(name, rank))
+    return best
+
+
+def check_alert_rule(rule: dict, mentions: list[dict]) -> str | None:
+    """
+    Check one rule against the mentions of a run.
+
+    Args:
+        rule: Alert rule dict (rule_type, competitor, threshold)
+        mentions: Mentions from get_run_brand_mentions() for the rule's intent
+
+    Returns:
+        What was found, if the condition holds; None otherwise (including when
+        there is nothing to measure, e.g. no sentiment was extracted)
+    """
+    rule_type = rule["rule_type"]
+    brand = _my_brand(mentions)
+
+    if rule_type == "rank_drop":
+        top_n = int(rule["threshold"])
+        best = _best_ranks(mentions).get("\0mine")
+        if best is not None and best <= top_n:
+            return None
+        found = f"best rank #{best}" if best is not None else "not ranked"
+        return f"{brand} is out of the top {top_n} ({found})"
+
+    if rule_type == "competitor_overtakes":
+        ranks = _best_ranks(mentions)
+        mine = ranks.pop("\0mine", None)
+        competitor = (rule["competitor"] or "").strip().lower()
+        ahead = sorted(
+            (rank, name)
+            for name, rank in ranks.items()
+            if (not competitor or name.lower() == competitor) and (mine is None or rank < mine)
+        )
+        if not ahead:
+            return None
+        names = ", ".join(f"{name} (#{rank})" for rank, name in ahead)
+        position = f"#{mine}" if mine is not None else "not ranked"
+        return f"{names} ranked above {brand} ({position})"
+
+    if rule_type == "negative_sentiment":
+        scores = [
+            _SENTIMENT_SCORES[m["sentiment"]]
+            for m in mentions
+            if m["is_mine"] and m["sentiment"] in _SENTIMENT_SCORES
+        ]
+        if not scores:
+            return None
+        net = sum(scores) / len(scores) * 100
+        if net >= 0:
+            return None
+        return f"Net sentiment of {brand} turned negative ({net:+.0f})"
+
+    if rule_type == "share_of_voice_below":
+        if not mentions:
+            return None
+        share = sum(1 for m in mentions if m["is_mine"]) / len(mentions) * 100
+        if share >= rule["threshold"]:
+            return None
+        return f"Share of voice of {brand} fell to {share:.1f}% (below {rule['threshold']:g}%)"
+
+    return None
+
+
+def evaluate_alert_rules(conn: sqlite3.Connection, user_id: int, run_id: str) -> list[dict]:
+    """
+    Check the user's enabled alert rules against a completed run and notify.
+
+    Args:
+        conn: Active SQLite database connection (with the run's mentions)
+        user_id: Owner of the run and the rules
+        run_id: Completed run
+
+    Returns:
+        The notifications created (id, rule_id, title, message)
+    """
+    created = []
+
+    for rule in get_user_alert_rules(conn, user_id, enabled_only=True):
+        intent_id = rule["intent_id"]
+        if not run_has_answers(conn, run_id, intent_id):
+            continue
+
+        finding = check_alert_rule(rule, get_run_brand_mentions(conn, run_id, intent_id))
+        if finding is None:
+            continue
+
+        previous_run_id = get_previous_run_id(conn, user_id, run_id, intent_id)
+        if previous_run_id is not None and check_alert_rule(
+            rule, get_run_brand_mentions(conn, previous_run_id, intent_id)
+        ):
+            # Already true last time - notified then
+            continue
+
+        scope = f"for intent {intent_id}" if intent_id else "across all intents"
+        message = f"{finding} {scope}."
+        notification_id = create_notification(
+            conn, user_id, rule["name"], message, rule_id=rule["id"], run_id=run_id
+        )
+        if notification_id is not None:
+            created.append(
+                {"id": notification_id, "rule_id": rule["id"], "title": rule["name"], "message": message}
+            )
+
+    return created
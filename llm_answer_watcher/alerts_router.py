@@ -0,0 +1,206 @@
+"""FastAPI router for alert rules and the in-app notification inbox."""
+
+import logging
+import sqlite3
+from typing import List
+
+from fastapi import APIRouter, Depends, HTTPException, status
+from pydantic import BaseModel
+
+from llm_answer_watcher.alerts import validate_alert_rule
+from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.storage.db import (
+    count_unread_notifications,
+    create_alert_rule,
+    delete_alert_rule,
+    get_user_alert_rules,
+    get_user_notifications,
+    init_db_if_needed,
+    mark_notifications_read,
+    set_alert_rule_enabled,
+)
+
+logger = logging.getLogger(__name__)
+
+router = APIRouter(prefix="/alerts", tags=["alerts"])
+
+# ----------------------------------------------------------------------------
+# Pydantic Models
+# ----------------------------------------------------------------------------
+
+class AlertRuleCreate(BaseModel):
+    name: str
+    rule_type: str
+    intent_id: str | None = None
+    competitor: str | None = None
+    threshold: float | None = None
+
+class AlertRuleUpdate(BaseModel):
+    enabled: bool
+
+class AlertRuleResponse(BaseModel):
+    id: int
+    name: str
+    rule_type: str
+    intent_id: str | None
+    competitor: str | None
+    threshold: float | None
+    enabled: bool
+    created_at: str
+    updated_at: str
+
+class NotificationResponse(BaseModel):
+    id: int
+    rule_id: int | None
+    run_id: str | None
+    title: str
+    message: str
+    read: bool
+    created_at: str
+
+class NotificationInbox(BaseModel):
+    unread_count: int
+    notifications: list[NotificationResponse]
+
+# ----------------------------------------------------------------------------
+# Alert Rule Endpoints
+# ----------------------------------------------------------------------------
+
+@router.get("/rules", response_model=List[AlertRuleResponse])
+async def list_alert_rules(
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    List all alert rules of the current user.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        rules = get_user_alert_rules(conn, current_user["id"])
+    return rules
+
+@router.post("/rules", response_model=AlertRuleResponse, status_code=status.HTTP_201_CREATED)
+async def add_alert_rule(
+    rule: AlertRuleCreate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Add an alert rule, checked whenever one of the user's runs completes.
+    """
+    name = rule.name.strip()
+    if not name:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Alert rule name cannot be empty")
+    try:
+        validate_alert_rule(rule.rule_type, rule.threshold)
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail=str(e))
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        rule_id = create_alert_rule(
+            conn,
+            current_user["id"],
+            name,
+            rule.rule_type,
+            intent_id=(rule.intent_id or "").strip() or None,
+            competitor=(rule.competitor or "").strip() or None,
+            threshold=rule.threshold,
+        )
+        rules = get_user_alert_rules(conn, current_user["id"])
+
+    created = next((r for r in rules if r["id"] == rule_id), None)
+    if not created:
+        raise HTTPException(status_code=500, detail="Failed to retrieve created alert rule")
+    return created
+
+@router.patch("/rules/{rule_id}", response_model=AlertRuleResponse)
+async def edit_alert_rule(
+    rule_id: int,
+    changes: AlertRuleUpdate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Pause or resume an alert rule.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        updated = set_alert_rule_enabled(conn, rule_id, current_user["id"], changes.enabled)
+        rules = get_user_alert_rules(conn, current_user["id"])
+
+    if not updated:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Alert rule not found",
+        )
+    return next(r for r in rules if r["id"] == rule_id)
+
+@router.delete("/rules/{rule_id}")
+async def remove_alert_rule(
+    rule_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Delete an alert rule. Notifications it already sent stay in the inbox.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        deleted = delete_alert_rule(conn, rule_id, current_user["id"])
+
+    if not deleted:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Alert rule not found",
+        )
+    return {"message": "Alert rule deleted"}
+
+# ----------------------------------------------------------------------------
+# Notification Inbox Endpoints
+# ----------------------------------------------------------------------------
+
+@router.get("/notifications", response_model=NotificationInbox)
+async def list_notifications(
+    unread_only: bool = False,
+    run_id: str | None = None,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Get the latest notifications and the unread count (for the inbox badge).
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        notifications = get_user_notifications(
+            conn, current_user["id"], unread_only=unread_only, run_id=run_id
+        )
+        unread_count = count_unread_notifications(conn, current_user["id"])
+    return {"unread_count": unread_count, "notifications": notifications}
+
+@router.post("/notifications/{notification_id}/read")
+async def read_notification(
+    notification_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Mark a notification as read.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        mark_notifications_read(conn, current_user["id"], notification_id)
+    return {"message": "Notification marked as read"}
+
+@router.post("/notifications/read-all")
+async def read_all_notifications(
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Mark every notification of the current user as read.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        count = mark_notifications_read(conn, current_user["id"])
+    return {"message": f"Marked {count} notifications as read"}
@@ -1,15 +1,28 @@
-from fastapi import FastAPI, HTTPException, Request, Depends
+from fastapi import FastAPI, HTTPException, Request, Depends, status
 from fastapi.middleware.cors import CORSMiddleware
 from fastapi.responses import JSONResponse
 from pydantic import BaseModel, ValidationError
 import yaml
+import asyncio
 import os
 import sqlite3
 import logging
 import traceback
 
-from llm_answer_watcher.auth.dependencies import get_current_user
-from llm_answer_watcher.storage.db import init_db_if_needed, get_run_summary, get_all_runs
+from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.storage.db import (
+    init_db_if_needed,
+    get_due_schedules,
+    record_schedule_run_started,
+    record_schedule_run_finished,
+    get_run_summary,
+    get_run_status,
+    get_run_user_id,
+    get_query_failures,
+    get_operation_results,
+    get_all_runs,
+    get_active_share_link,
+)
 from llm_answer_watcher.config.schema import (
     WatcherConfig,
     RuntimeConfig,
@@ -18,11 +31,26 @@ from llm_answer_watcher.config.schema import (
     Intent,
     RunSettings,
     ModelConfig,
+    ExtractionSettings,
+    RuntimeExtractionModel,
+    RuntimeExtractionSettings,
 )
+from llm_answer_watcher.config.loader import resolve_operations
 from llm_answer_watcher.llm_runner.runner import run_all
-from llm_answer_watcher.system_prompts import get_provider_default
+from llm_answer_watcher.exceptions import BudgetExceededError, ConfigValidationError
+from llm_answer_watcher.run_progress import RunProgress, create_run_progress, get_run_progress, new_run_id
+from llm_answer_watcher.scheduler import next_run_timestamp, providers_for_config, resolve_saved_api_keys
+from llm_answer_watcher.utils.time import utc_timestamp
+from llm_answer_watcher.system_prompts import get_provider_default, load_prompt
 from llm_answer_watcher.auth.router import router as auth_router
 from llm_answer_watcher.user_config_router import router as user_config_router
+from llm_answer_watcher.schedules_router import router as schedules_router
+from llm_answer_watcher.alerts_router import router as alerts_router
+from llm_answer_watcher.webhooks_router import router as webhooks_router
+from llm_answer_watcher.shares_router import router as shares_router
+from llm_answer_watcher.presets_router import router as presets_router
+from llm_answer_watcher.alerts import evaluate_alert_rules
+from llm_answer_watcher.webhooks import send_run_summary
 
 from llm_answer_watcher.llm_runner.gemini_client import GeminiClient
 from llm_answer_watcher.llm_runner.groq_client import GroqClient
@@ -64,6 +92,16 @@ async def global_exception_handler(request: Request, exc: Exception):
 app.include_router(auth_router)
 # Include user configuration router
 app.include_router(user_config_router)
+# Include scheduled runs router
+app.include_router(schedules_router)
+# Include alert rules & notifications router
+app.include_router(alerts_router)
+# Include outbound webhooks router
+app.include_router(webhooks_router)
+# Include share links router
+app.include_router(shares_router)
+# Include configuration presets router
+app.include_router(presets_router)
 
 
 class ConfigData(BaseModel):
@@ -148,6 +186,51 @@ async def optimize_prompt(request: OptimizePromptRequest):
 
 
 
+def build_extraction_settings(
+    extraction_config: ExtractionSettings, api_keys: dict[str, str]
+) -> RuntimeExtractionSettings:
+    """
+    Resolve extraction settings with the API keys sent by the Dashboard.
+
+    Mirrors resolve_extraction_settings() in config/loader.py, which reads the
+    key from the environment instead.
+    """
+    model_config = extraction_config.extraction_model
+
+    api_key = api_keys.get(model_config.provider)
+    if not api_key:
+        raise ValueError(
+            f"API key for provider '{model_config.provider}' not found "
+            f"(required for extraction model {model_config.model_name})."
+        )
+
+    try:
+        if model_config.system_prompt:
+            prompt_obj = load_prompt(model_config.system_prompt)
+        else:
+            try:
+                prompt_obj = load_prompt(f"{model_config.provider}/extraction-default")
+            except Exception:
+                prompt_obj = get_provider_default(model_config.provider)
+        system_prompt_text = prompt_obj.prompt
+    except Exception:
+        system_prompt_text = "You are a helpful AI assistant."
+
+    return RuntimeExtractionSettings(
+        extraction_model=RuntimeExtractionModel(
+            provider=model_config.provider,
+            model_name=model_config.model_name,
+            api_key=api_key,
+            system_prompt=system_prompt_text,
+        ),
+        method=extraction_config.method,
+        fallback_to_regex=extraction_config.fallback_to_regex,
+        min_confidence=extraction_config.min_confidence,
+        enable_sentiment_analysis=extraction_config.enable_sentiment_analysis,
+        enable_intent_classification=extraction_config.enable_intent_classification,
+    )
+
+
 def build_runtime_config_from_dict(raw_config: dict, api_keys: dict[str, str]) -> RuntimeConfig:
     """
     Build a RuntimeConfig from a parsed YAML dict and API key.
@@ -192,16 +275,33 @@ def build_runtime_config_from_dict(raw_config: dict, api_keys: dict[str, str]) -
         )
         resolved_models.append(runtime_model)
 
+    # Operations run on the answering models; a model override must name one of them.
+    # Intent operations are resolved too, since the executor only accepts RuntimeOperation.
+    try:
+        intents = [
+            intent.model_copy(
+                update={"operations": resolve_operations(intent.operations, resolved_models)}
+            )
+            for intent in watcher_config.intents
+        ]
+        global_operations = resolve_operations(watcher_config.global_operations, resolved_models)
+    except ConfigValidationError as e:
+        raise ValueError(str(e)) from e
+
     # Build RuntimeConfig
     return RuntimeConfig(
         run_settings=watcher_config.run_settings,
-        extraction_settings=None,  # Simplified - no extraction settings for now
+        extraction_settings=(
+            build_extraction_settings(watcher_config.extraction_settings, api_keys)
+            if watcher_config.extraction_settings
+            else None
+        ),
         brands=watcher_config.brands,
-        intents=watcher_config.intents,
+        intents=intents,
         models=resolved_models,
         operation_models=[],
         runner_configs=None,
-        global_operations=[],
+        global_operations=global_operations,
     )
 
 
@@ -210,20 +310,69 @@ def read_root():
     return {"message": "LLM Answer Watcher API", "version": "0.2.0"}
 
 
-@app.post("/run_watcher")
-async def run_watcher_endpoint(
-    config_data: ConfigData,
-    current_user: dict = Depends(get_current_user),
+def _notify_alert_rules(user_id: int, run_id: str):
+    """Check the user's alert rules against a completed run; failures only get logged."""
+    try:
+        with sqlite3.connect(get_db_path()) as conn:
+            fired = evaluate_alert_rules(conn, user_id, run_id)
+        if fired:
+            logger.info(f"run {run_id} fired {len(fired)} alert rule(s) for user {user_id}")
+    except Exception as e:
+        logger.error(f"Alert rule evaluation failed for run {run_id}: {e}", exc_info=True)
+
+
+def _send_run_webhooks(user_id: int, run_id: str, total_cost_usd: float):
+    """Post a completed run's summary to the user's webhooks; failures only get logged."""
+    try:
+        with sqlite3.connect(get_db_path()) as conn:
+            delivered = send_run_summary(conn, user_id, run_id, total_cost_usd)
+        if delivered:
+            logger.info(f"run {run_id} summary delivered to {delivered} webhook(s)")
+    except Exception as e:
+        logger.error(f"Webhook delivery failed for run {run_id}: {e}", exc_info=True)
+
+
+async def _execute_run(
+    progress: RunProgress,
+    runtime_config: RuntimeConfig,
+    user_id: int,
+    only_queries: set[tuple[str, str, str]] | None = None,
 ):
-    """
-    Run the LLM Answer Watcher with the provided configuration.
+    """Run the watcher in the background and record the outcome on its progress."""
+    try:
+        result = await run_all(
+            runtime_config,
+            progress_callback=progress,
+            user_id=user_id,
+            run_id=progress.run_id,
+            cancel_event=progress.cancel_event,
+            only_queries=only_queries,
+        )
+        logger.info(f"run_all() completed: run_id={result['run_id']}, success={result['success_count']}/{result['total_queries']}")
+        # Before mark_completed() so the inbox is up to date when the Dashboard sees the run finish
+        if result["success_count"] > 0:
+            _notify_alert_rules(user_id, progress.run_id)
+        progress.mark_completed(result)
+        if result["success_count"] > 0:
+            # Runs in a thread: webhook requests are blocking and may be slow
+            await asyncio.to_thread(_send_run_webhooks, user_id, progress.run_id, result["total_cost_usd"])
+    except BudgetExceededError as e:
+        logger.warning(f"run {progress.run_id} refused: {e}")
+        progress.mark_failed(
+            str(e),
+            budget_exceeded={
+                "budget_type": e.budget_type,
+                "budget_limit": e.budget_limit,
+                "estimated_cost": e.estimated_cost,
+            },
+        )
+    except Exception as e:
+        logger.error(f"run_all() failed: {e}", exc_info=True)
+        progress.mark_failed(f"Watcher execution error: {e}")
 
-    This endpoint:
-    1. Parses the YAML configuration
-    2. Builds a RuntimeConfig with the provided API key
-    3. Calls the core run_all() function
-    4. Returns the run results
-    """
+
+def _prepare_runtime_config(config_data: ConfigData) -> RuntimeConfig:
+    """Parse the YAML of a run request and initialize its database (HTTPException on error)."""
     # Parse YAML configuration
     try:
         raw_config = yaml.safe_load(config_data.yaml_config)
@@ -254,28 +403,202 @@ async def run_watcher_endpoint(
         logger.error(f"Failed to initialize database: {e}", exc_info=True)
         raise HTTPException(status_code=500, detail=f"Database initialization error: {e}")
 
-    # Run the watcher - call the actual run_all() function
-    try:
-        logger.info(f"Starting run_all() execution for user {current_user['username']} (id={current_user['id']})...")
-        result = await run_all(runtime_config, user_id=current_user['id'])
-        logger.info(f"run_all() completed: run_id={result['run_id']}, success={result['success_count']}/{result['total_queries']}")
-    except Exception as e:
-        logger.error(f"run_all() failed: {e}", exc_info=True)
-        raise HTTPException(status_code=500, detail=f"Watcher execution error: {e}")
+    return runtime_config
+
+
+@app.post("/run_watcher", status_code=status.HTTP_202_ACCEPTED)
+async def run_watcher_endpoint(
+    config_data: ConfigData,
+    current_user: dict = Depends(get_current_user),
+):
+    """
+    Start the LLM Answer Watcher with the provided configuration.
+
+    This endpoint:
+    1. Parses the YAML configuration
+    2. Builds a RuntimeConfig with the provided API key
+    3. Starts the core run_all() function as a background task
+    4. Returns the run_id right away; poll /runs/{run_id}/progress until it finishes
+    """
+    runtime_config = _prepare_runtime_config(config_data)
+
+    # Start the watcher in the background - the request would otherwise outlive proxy timeouts
+    run_id = new_run_id()
+    progress = create_run_progress(run_id, current_user["id"], runtime_config)
+    logger.info(f"Starting run_all() in background for user {current_user['username']} (id={current_user['id']}), run_id={run_id}")
+    progress.task = asyncio.create_task(_execute_run(progress, runtime_config, current_user["id"]))
 
-    # Return the result directly
     return {
-        "message": "Watcher execution completed",
-        "run_id": result["run_id"],
-        "timestamp_utc": result["timestamp_utc"],
-        "output_dir": result["output_dir"],
-        "total_queries": result["total_queries"],
-        "success_count": result["success_count"],
-        "error_count": result["error_count"],
-        "total_cost_usd": result["total_cost_usd"],
-        "errors": result.get("errors", []),
+        "message": "Watcher run started",
+        **progress.to_dict(),
     }
 
+@app.get("/runs/{run_id}/progress")
+async def get_run_progress_endpoint(
+    run_id: str,
+    current_user: dict = Depends(get_current_user),
+):
+    """Get live per-query progress of a run started by this server."""
+    progress = get_run_progress(run_id)
+    if progress is None or progress.user_id != current_user["id"]:
+        raise HTTPException(status_code=404, detail=f"No progress found for run '{run_id}'.")
+    return progress.to_dict()
+
+@app.post("/runs/{run_id}/cancel")
+async def cancel_run_endpoint(
+    run_id: str,
+    current_user: dict = Depends(get_current_user),
+):
+    """
+    Stop dispatching the remaining queries of a running run.
+
+    Queries already in flight finish and their answers are kept; the run is
+    stored as "partial" (or "failed" if nothing was answered yet).
+    """
+    progress = get_run_progress(run_id)
+    if progress is None or progress.user_id != current_user["id"]:
+        raise HTTPException(status_code=404, detail=f"No progress found for run '{run_id}'.")
+    if progress.is_finished:
+        raise HTTPException(status_code=409, detail=f"Run '{run_id}' has already finished.")
+
+    progress.cancel()
+    logger.info(f"Cancellation requested for run {run_id} by user {current_user['username']}")
+    return progress.to_dict()
+
+@app.post("/runs/{run_id}/retry", status_code=status.HTTP_202_ACCEPTED)
+async def retry_run_endpoint(
+    run_id: str,
+    config_data: ConfigData,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Re-run only the failed (or cancelled) queries of a finished run.
+
+    Takes the same payload as /run_watcher; failed intent x model cells that
+    are still in the configuration are queried again in the background and
+    their answers merge into the same run_id. Poll /runs/{run_id}/progress.
+    """
+    runtime_config = _prepare_runtime_config(config_data)
+
+    progress = get_run_progress(run_id)
+    if progress is not None and not progress.is_finished:
+        raise HTTPException(status_code=409, detail=f"Run '{run_id}' is still in progress.")
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        if get_run_user_id(conn, run_id) != current_user["id"]:
+            raise HTTPException(status_code=404, detail=f"Run with ID '{run_id}' not found.")
+        failures = get_query_failures(conn, run_id)
+
+    if not failures:
+        raise HTTPException(status_code=409, detail=f"Run '{run_id}' has no failed queries to retry.")
+
+    configured = {
+        (intent.id, model.provider, model.model_name)
+        for intent in runtime_config.intents
+        for model in runtime_config.models
+    }
+    only_queries = {
+        (f["intent_id"], f["model_provider"], f["model_name"]) for f in failures
+    } & configured
+    if not only_queries:
+        raise HTTPException(
+            status_code=400,
+            detail="None of the failed queries match an intent and model in the current configuration.",
+        )
+
+    progress = create_run_progress(run_id, current_user["id"], runtime_config, only_queries)
+    logger.info(f"Retrying {len(only_queries)} failed queries of run {run_id} for user {current_user['username']}")
+    progress.task = asyncio.create_task(
+        _execute_run(progress, runtime_config, current_user["id"], only_queries)
+    )
+
+    return {
+        "message": "Retry started",
+        **progress.to_dict(),
+    }
+
+# How often the API looks for due schedules
+SCHEDULER_POLL_SECONDS = 60
+
+
+async def _await_scheduled_run(schedule_id: int, progress: RunProgress, runtime_config: RuntimeConfig, db_path: str):
+    """Run a scheduled configuration and record its outcome on the schedule."""
+    await _execute_run(progress, runtime_config, progress.user_id)
+
+    if progress.status == "completed":
+        run_status, cost, error = progress.summary["status"], progress.summary.get("total_cost_usd"), None
+    else:
+        run_status, cost, error = "failed", None, progress.error
+    with sqlite3.connect(db_path) as conn:
+        record_schedule_run_finished(conn, schedule_id, run_status, cost_usd=cost, error=error)
+
+
+async def _start_scheduled_run(schedule: dict, db_path: str):
+    """
+    Start the run of a due schedule with its owner's saved API keys.
+
+    The next run time is recorded before the run starts, so a run that outlasts
+    the poll interval is not started twice. A configuration that can no longer
+    run (deleted key, invalid YAML) is recorded as a failed run.
+    """
+    started_at = utc_timestamp()
+    next_run_at = next_run_timestamp(schedule["cron"])
+
+    try:
+        raw_config = yaml.safe_load(schedule["yaml_config"])
+        watcher_config = WatcherConfig.model_validate(raw_config)
+        with sqlite3.connect(db_path) as conn:
+            api_keys = resolve_saved_api_keys(conn, schedule["user_id"], providers_for_config(watcher_config))
+        runtime_config = build_runtime_config_from_dict(raw_config, api_keys)
+        sqlite_db_path = runtime_config.run_settings.sqlite_db_path
+        os.makedirs(os.path.dirname(sqlite_db_path) or ".", exist_ok=True)
+        init_db_if_needed(sqlite_db_path)
+    except Exception as e:
+        logger.warning(f"Schedule {schedule['id']} could not start: {e}")
+        with sqlite3.connect(db_path) as conn:
+            record_schedule_run_started(conn, schedule["id"], None, started_at, next_run_at)
+            record_schedule_run_finished(conn, schedule["id"], "failed", error=str(e))
+        return
+
+    run_id = new_run_id()
+
+    with sqlite3.connect(db_path) as conn:
+        record_schedule_run_started(conn, schedule["id"], run_id, started_at, next_run_at)
+
+    progress = create_run_progress(run_id, schedule["user_id"], runtime_config)
+    logger.info(f"Starting scheduled run {run_id} of schedule {schedule['id']} for user {schedule['user_id']}")
+    progress.task = asyncio.create_task(
+        _await_scheduled_run(schedule["id"], progress, runtime_config, db_path)
+    )
+
+
+async def _scheduler_loop():
+    """Poll for due schedules for as long as the API runs."""
+    db_path = get_db_path()
+    while True:
+        try:
+            init_db_if_needed(db_path)
+            with sqlite3.connect(db_path) as conn:
+                due = get_due_schedules(conn, utc_timestamp())
+            for schedule in due:
+                await _start_scheduled_run(schedule, db_path)
+        except Exception as e:
+            logger.error(f"Scheduler tick failed: {e}", exc_info=True)
+        await asyncio.sleep(SCHEDULER_POLL_SECONDS)
+
+
+@app.on_event("startup")
+async def start_scheduler():
+    """
+    Start polling for due schedules.
+
+    Schedules run inside the API process, so run a single worker; each worker
+    would otherwise start its own copy of every scheduled run.
+    """
+    app.state.scheduler_task = asyncio.create_task(_scheduler_loop())
+
 @app.get("/runs")
 async def list_runs(current_user: dict = Depends(get_current_user)):
     """List all historical runs for the current user."""
@@ -289,95 +612,141 @@ async def list_runs(current_user: dict = Depends(get_current_user)):
         logger.error(f"Failed to list runs: {e}", exc_info=True)
         raise HTTPException(status_code=500, detail=str(e))
 
-@app.get("/results/{run_id}")
-async def get_run_results(run_id: str):
+def _load_run_results(conn: sqlite3.Connection, run_id: str) -> dict | None:
+    """Assemble a run's answers, mentions, operation outputs and failures (None if the run is unknown)."""
     import json
-    # Determine SQLite DB path based on typical output location
-    # In a real app, this might come from a config or be passed from the run_watcher call
-    sqlite_db_path = "./output/watcher.db" 
+    conn.row_factory = sqlite3.Row # To access columns by name
+
+    run_summary = get_run_summary(conn, run_id)
+    if not run_summary:
+        return None
+
+    # Fetch raw answers
+    answers_cursor = conn.execute(
+        """
+        SELECT intent_id, prompt, answer_text, model_name, estimated_cost_usd, usage_meta_json
+        FROM answers_raw
+        WHERE run_id = ?
+        """,
+        (run_id,)
+    )
+    raw_answers = answers_cursor.fetchall()
+
+    # Fetch mentions
+    mentions_cursor = conn.execute(
+        """
+        SELECT intent_id, model_name, brand_name, normalized_name, is_mine, rank_position, sentiment, mention_context
+        FROM mentions
+        WHERE run_id = ?
+        ORDER BY intent_id, is_mine DESC, rank_position ASC
+        """,
+        (run_id,)
+    )
+    mentions = mentions_cursor.fetchall()
+
+    # Structure results
+    intents_data = {}
+    answer_map = {}
+
+    for answer in raw_answers:
+        intent_id = answer['intent_id']
+        if intent_id not in intents_data:
+            intents_data[intent_id] = {
+                "intent_id": intent_id,
+                "prompt": answer['prompt'],
+                "answers": [],
+            }
+
+        usage_meta = {}
+        if answer['usage_meta_json']:
+            try:
+                usage_meta = json.loads(answer['usage_meta_json'])
+            except (json.JSONDecodeError, TypeError):
+                pass # Keep usage_meta empty if parsing fails
+
+        answer_obj = {
+            "answer": answer['answer_text'],
+            "model": answer['model_name'],
+            "cost_usd": answer['estimated_cost_usd'],
+            "mentions": [],
+            "operations": [],
+            "usage": usage_meta
+        }
+        intents_data[intent_id]['answers'].append(answer_obj)
+        answer_map[(intent_id, answer['model_name'])] = answer_obj
+
+    for mention in mentions:
+        intent_id = mention['intent_id']
+        model_name = mention['model_name']
+
+        if (intent_id, model_name) in answer_map:
+            answer_map[(intent_id, model_name)]["mentions"].append({
+                "brand": mention['brand_name'],
+                "normalized_name": mention['normalized_name'],
+                "is_mine": bool(mention['is_mine']),
+                "rank": mention['rank_position'],
+                "sentiment": mention['sentiment'],
+                "context": mention['mention_context']
+            })
+
+    for operation in get_operation_results(conn, run_id):
+        key = (operation['intent_id'], operation['answer_model_name'])
+        if key in answer_map:
+            answer_map[key]["operations"].append({
+                "operation_id": operation['operation_id'],
+                "description": operation['description'],
+                "model": operation['model_name'],
+                "result": operation['result_text'],
+                "depends_on": operation['depends_on'],
+                "cost_usd": operation['cost_usd'],
+                "error": operation['error'],
+            })
+
+    run_summary = dict(run_summary)
+    run_summary["status"] = get_run_status(conn, run_id)
+
+    return {
+        "run_summary": run_summary,
+        "intents_data": list(intents_data.values()),
+        "failures": get_query_failures(conn, run_id),
+    }
+
+
+@app.get("/results/{run_id}")
+async def get_run_results(run_id: str, current_user: dict = Depends(get_current_user)):
+    """Results of one of the current user's runs; other users' runs are reported as not found."""
+    sqlite_db_path = get_db_path()
 
     try:
         init_db_if_needed(sqlite_db_path) # Ensure DB is initialized
         with sqlite3.connect(sqlite_db_path) as conn:
-            conn.row_factory = sqlite3.Row # To access columns by name
-
-            run_summary = get_run_summary(conn, run_id)
-            if not run_summary:
+            results = None
+            if get_run_user_id(conn, run_id) == current_user["id"]:
+                results = _load_run_results(conn, run_id)
+            if results is None:
                 raise HTTPException(status_code=404, detail=f"Run with ID '{run_id}' not found.")
-            
-            # Fetch raw answers
-            answers_cursor = conn.execute(
-                """
-                SELECT intent_id, prompt, answer_text, model_name, estimated_cost_usd, usage_meta_json
-                FROM answers_raw
-                WHERE run_id = ?
-                """,
-                (run_id,)
-            )
-            raw_answers = answers_cursor.fetchall()
-
-            # Fetch mentions
-            mentions_cursor = conn.execute(
-                """
-                SELECT intent_id, model_name, brand_name, normalized_name, is_mine, rank_position, sentiment, mention_context
-                FROM mentions
-                WHERE run_id = ?
-                ORDER BY intent_id, is_mine DESC, rank_position ASC
-                """,
-                (run_id,)
-            )
-            mentions = mentions_cursor.fetchall()
-
-            # Structure results
-            intents_data = {}
-            answer_map = {}
-
-            for answer in raw_answers:
-                intent_id = answer['intent_id']
-                if intent_id not in intents_data:
-                    intents_data[intent_id] = {
-                        "intent_id": intent_id,
-                        "prompt": answer['prompt'],
-                        "answers": [],
-                    }
-                
-                usage_meta = {}
-                if answer['usage_meta_json']:
-                    try:
-                        usage_meta = json.loads(answer['usage_meta_json'])
-                    except (json.JSONDecodeError, TypeError):
-                        pass # Keep usage_meta empty if parsing fails
-
-                answer_obj = {
-                    "answer": answer['answer_text'],
-                    "model": answer['model_name'],
-                    "cost_usd": answer['estimated_cost_usd'],
-                    "mentions": [],
-                    "usage": usage_meta
-                }
-                intents_data[intent_id]['answers'].append(answer_obj)
-                answer_map[(intent_id, answer['model_name'])] = answer_obj
-            
-            for mention in mentions:
-                intent_id = mention['intent_id']
-                model_name = mention['model_name']
-                
-                if (intent_id, model_name) in answer_map:
-                    answer_map[(intent_id, model_name)]["mentions"].append({
-                        "brand": mention['brand_name'],
-                        "normalized_name": mention['normalized_name'],
-                        "is_mine": bool(mention['is_mine']),
-                        "rank": mention['rank_position'],
-                        "sentiment": mention['sentiment'],
-                        "context": mention['mention_context']
-                    })
-            
-            return {
-                "run_summary": dict(run_summary),
-                "intents_data": list(intents_data.values())
-            }
+            return results
 
+    except HTTPException:
+        raise
     except sqlite3.Error as e:
         raise HTTPException(status_code=500, detail=f"Database error: {e}")
     except Exception as e:
         raise HTTPException(status_code=500, detail=f"An unexpected error occurred: {e}")
+
+
+@app.get("/shared/{token}")
+async def get_shared_results(token: str):
+    """Public, read-only results of a shared run; no sign-in needed, only a valid share token."""
+    sqlite_db_path = get_db_path()
+    init_db_if_needed(sqlite_db_path)
+    with sqlite3.connect(sqlite_db_path) as conn:
+        link = get_active_share_link(conn, token)
+        results = _load_run_results(conn, link["run_id"]) if link else None
+
+    if results is None:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="This share link does not exist, has expired or was revoked.",
+        )
+    return results
@@ -392,7 +392,9 @@ def run(
                         )
                         self.active_tasks[query_key] = task_id
 
-                    async def complete_query(self, query_key: str, success: bool = True):
+                    async def complete_query(
+                        self, query_key: str, success: bool = True, cost_usd: float = 0.0
+                    ):
                         """
                         Called when a query completes (async-compatible).
 
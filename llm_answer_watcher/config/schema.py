@@ -346,6 +346,45 @@ class RunSettings(BaseModel):
         return v
 
 
+class BrandEntity(BaseModel):
+    """
+    Other names of a tracked brand, and terms that only look like it.
+
+    Mentions found through an alias or product line are counted under the
+    canonical brand name, so "HubSpot", "Hubspot CRM" and "Sales Hub" all add
+    up to one brand in stats and rankings. Text matching an excluded term is
+    never counted as a mention (e.g., "Notion Capital" for the brand "Notion").
+
+    Attributes:
+        aliases: Other spellings and names of the brand
+        products: Product lines counted as the brand
+        exclude: False-positive terms that contain the brand name
+
+    Example:
+        brands:
+          mine: ["HubSpot"]
+          entities:
+            HubSpot:
+              aliases: ["HubSpot CRM"]
+              products: ["Sales Hub", "Marketing Hub"]
+              exclude: ["HubSpot Academy"]
+    """
+
+    aliases: list[str] = []
+    products: list[str] = []
+    exclude: list[str] = []
+
+    @field_validator("aliases", "products", "exclude")
+    @classmethod
+    def validate_terms(cls, v: list[str]) -> list[str]:
+        """Strip terms and drop empty and repeated (case-insensitive) ones."""
+        cleaned: list[str] = []
+        for term in (t.strip() for t in v if t):
+            if term and term.lower() not in (c.lower() for c in cleaned):
+                cleaned.append(term)
+        return cleaned
+
+
 class Brands(BaseModel):
     """
     Brand alias collections for mention detection.
@@ -368,6 +407,8 @@ class Brands(BaseModel):
         competitors: List of competitor brand names (optional)
                     Each competitor is tracked separately
                     Sorted alphabetically for deterministic processing
+        entities: Aliases, product lines and excluded terms per brand, keyed
+                  by a name from mine or competitors (optional)
 
     Example:
         # Single product with variations detected via fuzzy matching:
@@ -389,6 +430,7 @@ class Brands(BaseModel):
 
     mine: list[str]
     competitors: list[str] = []
+    entities: dict[str, BrandEntity] = {}
 
     @field_validator("mine")
     @classmethod
@@ -430,6 +472,46 @@ class Brands(BaseModel):
 
         return cleaned
 
+    @model_validator(mode="after")
+    def validate_entities(self) -> "Brands":
+        """
+        Validate that every entity belongs to a tracked brand.
+
+        Raises:
+            ValueError: If an entity is keyed by a name not in mine or competitors
+        """
+        tracked = set(self.mine) | set(self.competitors)
+        unknown = sorted(name for name in self.entities if name not in tracked)
+        if unknown:
+            raise ValueError(
+                f"brands.entities has {', '.join(unknown)}, which "
+                f"{'is' if len(unknown) == 1 else 'are'} not in mine or competitors"
+            )
+        return self
+
+    def terms(self, brand: str) -> list[str]:
+        """
+        Names a brand is detected by: the brand itself, its aliases and product lines.
+
+        Example:
+            >>> brands.terms("HubSpot")
+            ['HubSpot', 'HubSpot CRM', 'Sales Hub']
+        """
+        entity = self.entities.get(brand)
+        return [brand, *entity.aliases, *entity.products] if entity else [brand]
+
+    def canonical_name(self, name: str) -> str | None:
+        """
+        Tracked brand a name refers to (by canonical name, alias or product line).
+
+        Matching is case-insensitive. Returns None for names of untracked brands.
+        """
+        lower = name.strip().lower()
+        for brand in self.mine + self.competitors:
+            if any(term.lower() == lower for term in self.terms(brand)):
+                return brand
+        return None
+
 
 class Operation(BaseModel):
     """
@@ -37,7 +37,7 @@ import json
 import logging
 from dataclasses import dataclass
 
-from ..config.schema import Brands, RuntimeExtractionSettings
+from ..config.schema import BrandEntity, Brands, RuntimeExtractionSettings
 from ..llm_runner.models import LLMResponse, build_client
 from .function_schemas import (
     EXTRACT_BRAND_MENTIONS_FUNCTION,
@@ -93,6 +93,7 @@ def build_extraction_prompt(
     answer_text: str,
     our_brands: list[str],
     competitor_brands: list[str],
+    entities: dict[str, BrandEntity] | None = None,
 ) -> str:
     """
     Build prompt for extraction model with brand context.
@@ -105,6 +106,8 @@ def build_extraction_prompt(
         answer_text: Raw LLM answer to analyze for brand mentions
         our_brands: List of our brand names (for context)
         competitor_brands: List of competitor brand names (for context)
+        entities: Aliases, product lines and excluded terms per brand, so the
+            model reports variations under the canonical name
 
     Returns:
         Formatted prompt string for extraction model
@@ -126,6 +129,16 @@ def build_extraction_prompt(
             brand_context += f"\n- Our brands: {', '.join(our_brands)}"
         if competitor_brands:
             brand_context += f"\n- Known competitors: {', '.join(competitor_brands)}"
+        for name, entity in (entities or {}).items():
+            variations = entity.aliases + entity.products
+            if variations:
+                brand_context += (
+                    f"\n- Report {', '.join(variations)} as \"{name}\""
+                )
+            if entity.exclude:
+                brand_context += (
+                    f"\n- {', '.join(entity.exclude)} are NOT mentions of \"{name}\""
+                )
         brand_context += (
             "\n\nNote: The answer may mention brands NOT in these lists. "
             "Extract ALL brands mentioned, not just those listed above."
@@ -245,6 +258,7 @@ async def extract_with_function_calling(
         answer_text=answer_text,
         our_brands=brands.mine,
         competitor_brands=brands.competitors,
+        entities=brands.entities,
     )
 
     try:
@@ -304,7 +318,9 @@ async def extract_with_function_calling(
             logger.info(f"Falling back to regex extraction for {intent_id}")
 
             # Fall back to old method
-            mentions = detect_mentions(answer_text, brands.mine, brands.competitors)
+            mentions = detect_mentions(
+                answer_text, brands.mine, brands.competitors, entities=brands.entities
+            )
 
             return FunctionExtractionResult(
                 brands_mentioned=[
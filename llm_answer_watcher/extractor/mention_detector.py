@@ -8,6 +8,8 @@ Key features:
 - Word-boundary matching (critical for accuracy)
 - Case-insensitive detection
 - Multiple aliases per brand support
+- Brand entities: aliases and product lines counted under the canonical name,
+  excluded false-positive terms ignored
 - Structured mention data with position tracking
 - Normalized brand names for deduplication
 - Optional fuzzy matching for handling typos
@@ -27,6 +29,8 @@ from dataclasses import dataclass
 
 from rapidfuzz import fuzz
 
+from ..config.schema import BrandEntity
+
 
 @dataclass
 class BrandMention:
@@ -132,6 +136,31 @@ def normalize_brand_name(brand_aliases: list[str]) -> str:
     return brand_aliases[0]
 
 
+def mask_excluded_terms(text: str, exclude: list[str]) -> str:
+    """
+    Blank out excluded terms so no brand is detected inside them.
+
+    Matches use the same word-boundary patterns as brands and are replaced by
+    spaces of the same length, so positions in the result match the input.
+
+    Args:
+        text: Answer text
+        exclude: False-positive terms (e.g., "Notion Capital")
+
+    Returns:
+        Text with every excluded term replaced by spaces
+
+    Example:
+        >>> mask_excluded_terms("Notion Capital backs Notion", ["Notion Capital"])
+        '               backs Notion'
+    """
+    for term in exclude:
+        if not term or term.isspace():
+            continue
+        text = create_brand_pattern(term).sub(lambda m: " " * len(m.group(0)), text)
+    return text
+
+
 def remove_overlapping_mentions(mentions: list[BrandMention]) -> list[BrandMention]:
     """
     Remove overlapping mentions, keeping the longest match.
@@ -199,6 +228,7 @@ def detect_mentions(
     our_brands: list[str],
     competitor_brands: list[str],
     fuzzy_threshold: float = 0.0,
+    entities: dict[str, BrandEntity] | None = None,
 ) -> list[BrandMention]:
     """
     Detect all brand mentions in LLM answer text using word-boundary matching.
@@ -229,6 +259,9 @@ def detect_mentions(
         competitor_brands: List of competitor brands (each tracked separately)
         fuzzy_threshold: Minimum similarity score (0-100) for fuzzy matching.
             0 = disabled (default), 80-90 = recommended for typos.
+        entities: Aliases, product lines and excluded terms keyed by brand name.
+            Aliases and product lines are detected as the brand itself
+            (normalized_name is the brand name); excluded terms never match.
 
     Returns:
         List of BrandMention objects sorted by appearance order (match_position)
@@ -273,6 +306,7 @@ def detect_mentions(
         - If brand has multiple aliases, only one mention is returned
         - Word boundaries prevent "hub" from matching in "GitHub"
         - Case-insensitive: "hubspot", "HubSpot", "HUBSPOT" all match
+        - With entities, "HubSpot CRM" and "Sales Hub" can both count as "HubSpot"
     """
     # Handle empty input gracefully
     if not answer_text or answer_text.isspace():
@@ -281,6 +315,16 @@ def detect_mentions(
     # Normalize empty lists
     our_brands = our_brands or []
     competitor_brands = competitor_brands or []
+    entities = entities or {}
+
+    # Excluded terms are blanked out; positions stay the same
+    answer_text = mask_excluded_terms(
+        answer_text, [term for entity in entities.values() for term in entity.exclude]
+    )
+
+    def brand_terms(brand_name: str) -> list[str]:
+        entity = entities.get(brand_name)
+        return [brand_name, *entity.aliases, *entity.products] if entity else [brand_name]
 
     # Build mapping of alias -> (primary_name, category, pattern)
     brand_patterns: list[tuple[str, str, str, re.Pattern]] = []
@@ -289,25 +333,28 @@ def detect_mentions(
     for brand_name in our_brands:
         if not brand_name or brand_name.isspace():
             continue
-        try:
-            pattern = create_brand_pattern(brand_name)
-            # Each "mine" brand is tracked separately (normalized name = itself)
-            brand_patterns.append((brand_name, brand_name, "mine", pattern))
-        except ValueError:
-            # Skip invalid brand names
-            continue
+        # Each "mine" brand is tracked separately (normalized name = itself),
+        # whichever of its aliases or product lines is found
+        for term in brand_terms(brand_name):
+            try:
+                pattern = create_brand_pattern(term)
+                brand_patterns.append((term, brand_name, "mine", pattern))
+            except ValueError:
+                # Skip invalid brand names
+                continue
 
     # Add competitor brands (each is a SEPARATE brand tracked independently)
     for brand_name in competitor_brands:
         if not brand_name or brand_name.isspace():
             continue
-        try:
-            pattern = create_brand_pattern(brand_name)
-            # Each competitor is tracked separately (normalized name = itself)
-            brand_patterns.append((brand_name, brand_name, "competitor", pattern))
-        except ValueError:
-            # Skip invalid brand names
-            continue
+        # Each competitor is tracked separately (normalized name = itself)
+        for term in brand_terms(brand_name):
+            try:
+                pattern = create_brand_pattern(term)
+                brand_patterns.append((term, brand_name, "competitor", pattern))
+            except ValueError:
+                # Skip invalid brand names
+                continue
 
     # Find all matches
     all_matches: list[BrandMention] = []
@@ -329,7 +376,11 @@ def detect_mentions(
             if brand_key in seen_brands:
                 # Already found this brand - keep the earlier occurrence
                 existing_mention = seen_brands[brand_key]
-                if match_position < existing_mention.match_position:
+                # Earlier occurrence, or a longer alias at the same place ("HubSpot CRM" over "HubSpot")
+                if match_position < existing_mention.match_position or (
+                    match_position == existing_mention.match_position
+                    and len(original_text) > len(existing_mention.original_text)
+                ):
                     # This occurrence is earlier - replace it
                     # Use the PRIMARY_NAME that came first (preserve first pattern's normalization)
                     seen_brands[brand_key] = BrandMention(
@@ -353,8 +404,12 @@ def detect_mentions(
     if fuzzy_threshold > 0:
         # Split text into words for fuzzy matching
         words = re.findall(r"\b\w+\b", answer_text)
-        all_brands = [(name, name, "mine") for name in our_brands] + [
-            (name, name, "competitor") for name in competitor_brands
+        all_brands = [
+            (term, name, "mine") for name in our_brands for term in brand_terms(name)
+        ] + [
+            (term, name, "competitor")
+            for name in competitor_brands
+            for term in brand_terms(name)
         ]
 
         for word_match in re.finditer(r"\b\w+\b", answer_text):
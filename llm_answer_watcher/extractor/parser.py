@@ -39,7 +39,7 @@ import logging
 from dataclasses import dataclass
 
 from ..config.schema import Brands, RuntimeExtractionSettings
-from .mention_detector import BrandMention, detect_mentions
+from .mention_detector import BrandMention, detect_mentions, mask_excluded_terms
 from .rank_extractor import (
     RankedBrand,
     extract_ranked_list_llm,
@@ -199,35 +199,36 @@ async def parse_answer(
 
             extraction_cost = func_result.extraction_cost_usd
 
-            # Convert function calling results to mentions and rankings
-            my_mentions = []
-            competitor_mentions = []
+            # Convert function calling results to mentions and rankings.
+            # Aliases and product lines are counted under the canonical name:
+            # one mention per brand (the first reported, keeping the name the
+            # model used), and the best rank of any of its names
+            mentions_by_brand: dict[str, BrandMention] = {}
             ranked_list = []
 
             for brand_data in func_result.brands_mentioned:
-                brand_name = brand_data["name"]
+                reported_name = brand_data["name"]
+                brand_name = brands.canonical_name(reported_name) or reported_name
                 rank = brand_data.get("rank")
                 confidence_str = brand_data["confidence"]
 
-                # Determine if this is our brand or competitor
-                brand_category = "mine" if brand_name in brands.mine else "competitor"
-
-                # Create BrandMention
-                mention = BrandMention(
-                    original_text=brand_name,
-                    normalized_name=brand_name,
-                    brand_category=brand_category,
-                    match_position=0,  # Not applicable for function calling
-                    match_type="exact",  # Function calling provides exact brand names
-                    fuzzy_score=None,
-                    sentiment=brand_data.get("sentiment"),
-                    mention_context=brand_data.get("mention_context"),
-                )
-
-                if brand_category == "mine":
-                    my_mentions.append(mention)
-                else:
-                    competitor_mentions.append(mention)
+                existing = mentions_by_brand.get(brand_name)
+                if existing is None:
+                    mentions_by_brand[brand_name] = BrandMention(
+                        original_text=reported_name,
+                        normalized_name=brand_name,
+                        # Determine if this is our brand or competitor
+                        brand_category="mine" if brand_name in brands.mine else "competitor",
+                        match_position=0,  # Not applicable for function calling
+                        match_type="exact",  # Function calling provides exact brand names
+                        fuzzy_score=None,
+                        sentiment=brand_data.get("sentiment"),
+                        mention_context=brand_data.get("mention_context"),
+                    )
+                elif existing.sentiment is None or existing.mention_context is None:
+                    # Fill in what the first report of the brand left out
+                    existing.sentiment = existing.sentiment or brand_data.get("sentiment")
+                    existing.mention_context = existing.mention_context or brand_data.get("mention_context")
 
                 # Add to ranked list if rank is present
                 if rank is not None:
@@ -242,8 +243,14 @@ async def parse_answer(
                     )
                     ranked_list.append(ranked_brand)
 
-            # Sort ranked list by position
+            my_mentions = [m for m in mentions_by_brand.values() if m.brand_category == "mine"]
+            competitor_mentions = [
+                m for m in mentions_by_brand.values() if m.brand_category == "competitor"
+            ]
+
+            # Sort ranked list by position, one entry per brand
             ranked_list.sort(key=lambda b: b.rank_position)
+            ranked_list = _canonical_ranking(ranked_list, brands)
 
             # Calculate overall rank confidence
             if ranked_list:
@@ -279,6 +286,7 @@ async def parse_answer(
             answer_text=answer_text,
             our_brands=brands.mine,
             competitor_brands=brands.competitors,
+            entities=brands.entities,
         )
 
         # Step 2: Separate mentions into mine vs competitors
@@ -291,13 +299,19 @@ async def parse_answer(
         appeared_mine = len(my_mentions) > 0
 
         # Step 4: Extract ranked list
-        # Combine all brands for ranking (both mine and competitors)
-        all_brands = brands.mine + brands.competitors
+        # Combine all brands for ranking (both mine and competitors), with
+        # their aliases and product lines; excluded terms can't be ranked
+        all_brands = [
+            term for brand in brands.mine + brands.competitors for term in brands.terms(brand)
+        ]
+        rank_text = mask_excluded_terms(
+            answer_text, [term for entity in brands.entities.values() for term in entity.exclude]
+        )
 
         if use_llm_extraction and llm_client is not None:
             # Use LLM-assisted extraction (v1 stub - falls back to pattern)
             ranked_list, rank_confidence = extract_ranked_list_llm(
-                text=answer_text,
+                text=rank_text,
                 known_brands=all_brands,
                 client=llm_client,
             )
@@ -305,10 +319,11 @@ async def parse_answer(
         else:
             # Use pattern-based extraction (default)
             ranked_list, rank_confidence = extract_ranked_list_pattern(
-                text=answer_text,
+                text=rank_text,
                 known_brands=all_brands,
             )
             rank_method = "pattern"
+        ranked_list = _canonical_ranking(ranked_list, brands)
 
     # Step 5: Build ExtractionResult
     return ExtractionResult(
@@ -324,3 +339,22 @@ async def parse_answer(
         rank_confidence=rank_confidence,
         extraction_cost_usd=extraction_cost,
     )
+
+
+def _canonical_ranking(ranked_list: list[RankedBrand], brands: Brands) -> list[RankedBrand]:
+    """
+    Rename ranked aliases and product lines to their brand, keeping each brand's best rank.
+
+    The ranked list is sorted by rank, so the first entry of a brand is its best.
+    """
+    canonical: list[RankedBrand] = []
+    seen: set[str] = set()
+    for ranked in ranked_list:
+        name = brands.canonical_name(ranked.brand_name) or ranked.brand_name
+        if name in seen:
+            continue
+        seen.add(name)
+        canonical.append(
+            RankedBrand(brand_name=name, rank_position=ranked.rank_position, confidence=ranked.confidence)
+        )
+    return canonical
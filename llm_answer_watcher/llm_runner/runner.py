@@ -44,14 +44,21 @@ from ..exceptions import BudgetExceededError
 from ..extractor.intent_classifier import classify_intent
 from ..extractor.parser import parse_answer
 from ..storage.db import (
+    add_run_cost,
+    delete_query_failure,
+    get_query_failures,
+    get_run_status,
     insert_answer_raw,
     insert_intent_classification,
     insert_mention,
     insert_operation,
     insert_run,
+    update_run_status,
+    upsert_query_failure,
 )
 from ..storage.writer import (
     create_run_directory,
+    read_run_meta,
     write_error,
     write_operation_result,
     write_parsed_answer,
@@ -69,6 +76,9 @@ from .plugin_registry import RunnerRegistry
 
 logger = logging.getLogger(__name__)
 
+# Recorded for queries that were never dispatched because the run was cancelled
+CANCELLED_QUERY_MESSAGE = "Cancelled before the query was dispatched"
+
 
 @dataclass
 class RawAnswerRecord:
@@ -229,7 +239,9 @@ def intent_result_to_raw_record(
     )
 
 
-def estimate_run_cost(config: RuntimeConfig) -> dict:
+def estimate_run_cost(
+    config: RuntimeConfig, only_queries: set[tuple[str, str, str]] | None = None
+) -> dict:
     """
     Estimate total cost for a run before execution.
 
@@ -242,6 +254,8 @@ def estimate_run_cost(config: RuntimeConfig) -> dict:
 
     Args:
         config: Runtime configuration with intents and models
+        only_queries: Optional set of (intent_id, provider, model_name) cells;
+            when given (a retry), only those queries are estimated
 
     Returns:
         dict: Cost estimate with breakdown:
@@ -269,10 +283,21 @@ def estimate_run_cost(config: RuntimeConfig) -> dict:
     per_intent_costs = {}
     per_model_costs = []
 
-    for intent in config.intents:
+    def _is_planned(intent, model) -> bool:
+        return only_queries is None or (intent.id, model.provider, model.model_name) in only_queries
+
+    # Intents with at least one query to run; only these run operations
+    planned_intents = [
+        intent for intent in config.intents if any(_is_planned(intent, model) for model in config.models)
+    ]
+
+    for intent in planned_intents:
         intent_cost = 0.0
 
         for model in config.models:
+            if not _is_planned(intent, model):
+                continue
+
             # Get pricing for this model
             try:
                 pricing = get_pricing(model.provider, model.model_name)
@@ -322,7 +347,8 @@ def estimate_run_cost(config: RuntimeConfig) -> dict:
             query_cost += 0.01
 
         # Total cost for this model across all intents
-        model_total = query_cost * len(config.intents)
+        num_queries = sum(1 for intent in config.intents if _is_planned(intent, model))
+        model_total = query_cost * num_queries
 
         per_model_costs.append(
             {
@@ -330,7 +356,7 @@ def estimate_run_cost(config: RuntimeConfig) -> dict:
                 "model_name": model.model_name,
                 "cost_per_query": round(query_cost, 6),
                 "total_cost": round(model_total, 6),
-                "num_queries": len(config.intents),
+                "num_queries": num_queries,
                 "has_web_search": bool(model.tools),
             }
         )
@@ -368,11 +394,11 @@ def estimate_run_cost(config: RuntimeConfig) -> dict:
             # Count total operation executions
             # Each intent runs: len(global_operations) + len(intent.operations)
             ops_per_intent = len(config.global_operations)
-            for intent in config.intents:
+            for intent in planned_intents:
                 ops_per_intent += len(intent.operations)
 
             # Total operations across all intents
-            num_operations = ops_per_intent * len(config.intents)
+            num_operations = ops_per_intent * len(planned_intents)
             total_operations += num_operations
 
             # Calculate total cost for this operation model
@@ -394,7 +420,7 @@ def estimate_run_cost(config: RuntimeConfig) -> dict:
 
     return {
         "total_estimated_cost": round(total_with_buffer, 6),
-        "total_queries": len(config.intents) * len(config.models),
+        "total_queries": sum(model["num_queries"] for model in per_model_costs),
         "total_operations": total_operations,
         "per_intent_costs": per_intent_costs,
         "per_model_costs": per_model_costs,
@@ -465,11 +491,37 @@ def validate_budget(config: RuntimeConfig, cost_estimate: dict) -> None:
         )
 
 
+def _merge_retry_meta(previous: dict | None, retry: dict) -> dict:
+    """
+    Combine the run_meta.json of a run with the metadata of a retry of it.
+
+    Counts and costs cover the whole run: the retry's successes and cost are
+    added to the original's, and queries neither answered nor left undispatched
+    by the retry count as errors. The original timestamp is kept; the retry's
+    is stored as last_retry_utc.
+    """
+    if previous is None:
+        return retry
+
+    merged = {**previous, **retry}
+    merged["timestamp_utc"] = previous["timestamp_utc"]
+    merged["last_retry_utc"] = retry["timestamp_utc"]
+    merged["total_queries"] = previous["total_queries"]
+    merged["success_count"] = previous["success_count"] + retry["success_count"]
+    merged["error_count"] = merged["total_queries"] - merged["success_count"] - retry["cancelled_count"]
+    for key in ("total_cost_usd", "total_llm_cost_usd", "total_operations_cost_usd"):
+        merged[key] = round(previous.get(key, 0.0) + retry[key], 6)
+    return merged
+
+
 async def run_all(
     config: RuntimeConfig,
     progress_callback: Callable[[], None] | None = None,
     config_filename: str | None = None,
     user_id: int | None = None,
+    run_id: str | None = None,
+    cancel_event: asyncio.Event | None = None,
+    only_queries: set[tuple[str, str, str]] | None = None,
 ) -> dict:
     """
     Execute complete LLM query workflow with parallel execution and return results.
@@ -485,8 +537,18 @@ async def run_all(
         config: Runtime configuration with intents, models, API keys, paths
         progress_callback: Optional callback function to call after each query
             completes (successful or failed). Used by CLI to update progress bar.
+            Objects exposing async start_query(intent_id, provider, model) and
+            complete_query(query_key, success, cost_usd) get per-query events instead.
         config_filename: Optional filename of the config file loaded.
         user_id: Optional ID of the user executing this run (for isolation).
+        run_id: Optional pre-generated run identifier. Lets the web API hand
+            the run_id back before the run finishes. Generated if omitted.
+        cancel_event: Optional event that stops dispatching queries once set.
+            Queries already in flight finish and their answers are kept.
+        only_queries: Optional set of (intent_id, provider, model_name) cells to
+            run instead of every intent x model. Used with run_id to retry the
+            failed queries of an existing run: new answers merge into that run
+            and its status is recomputed over all of its queries.
 
     Returns:
         Summary dictionary with structure:
@@ -500,6 +562,9 @@ async def run_all(
             "success_count": 5,
             "error_count": 1,
             "total_cost_usd": 0.0123,
+            "status": "partial",
+            "cancelled": False,
+            "cancelled_count": 0,
             "errors": [
                 {
                     "intent_id": "sales-tools",
@@ -535,8 +600,8 @@ async def run_all(
         - Database operations remain synchronous (SQLite is fast for local ops)
         - Cost is estimated, not exact (depends on provider pricing)
     """
-    # Generate run identifier from current UTC timestamp
-    run_id = run_id_from_timestamp()
+    # Generate run identifier from current UTC timestamp (unless provided)
+    run_id = run_id or run_id_from_timestamp()
     timestamp_utc = utc_timestamp()
 
     # Count execution units (models + runners)
@@ -550,8 +615,9 @@ async def run_all(
         f"{num_runners} runners, output_dir={config.run_settings.output_dir}"
     )
 
-    # Estimate cost and validate budget (if configured)
-    cost_estimate = estimate_run_cost(config)
+    # Estimate cost and validate budget (if configured); a retry is checked
+    # against the cost of the queries it re-runs, not of the whole config
+    cost_estimate = estimate_run_cost(config, only_queries)
     logger.info(
         f"Estimated cost: ${cost_estimate['total_estimated_cost']:.4f} "
         f"for {cost_estimate['total_queries']} queries "
@@ -568,8 +634,18 @@ async def run_all(
     run_dir = create_run_directory(config.run_settings.output_dir, run_id)
     logger.info(f"Created run directory: {run_dir}")
 
+    # Every (intent_id, provider, model_name) cell this run will query
+    planned_queries = []
+    for intent in config.intents:
+        for model_config in config.models or []:
+            planned_queries.append((intent.id, model_config.provider, model_config.model_name))
+        for runner_config in config.runner_configs or []:
+            planned_queries.append((intent.id, runner_config.runner_plugin, "runner"))
+    if only_queries is not None:
+        planned_queries = [query for query in planned_queries if query in only_queries]
+
     # Initialize tracking variables
-    total_queries = len(config.intents) * total_execution_units
+    total_queries = len(planned_queries)
     success_count = 0
     error_count = 0
     total_cost_usd = 0.0
@@ -614,6 +690,10 @@ async def run_all(
             tuple: (success: bool, cost_usd: float, error_dict: dict | None)
         """
         async with semaphore:
+            # Skip queries that had not started when the run was cancelled
+            if cancel_event is not None and cancel_event.is_set():
+                return None
+
             # Determine if this is an API model or runner
             if model_config:
                 provider = model_config.provider
@@ -887,6 +967,10 @@ async def run_all(
                                 data=operation_data,
                             )
 
+                            # Skipped operations have no model or output; the JSON artifact records them
+                            if op_result.skipped:
+                                continue
+
                             # Insert into database
                             try:
                                 operation = next(
@@ -917,6 +1001,8 @@ async def run_all(
                                         execution_order=execution_order,
                                         skipped=op_result.skipped,
                                         error=op_result.error,
+                                        answer_model_provider=model_config.provider,
+                                        answer_model_name=model_config.model_name,
                                     )
                                     conn.commit()
                             except Exception as e:
@@ -953,7 +1039,9 @@ async def run_all(
                     # Call progress callback if provided
                     if progress_callback:
                         if hasattr(progress_callback, "complete_query"):
-                            await progress_callback.complete_query(query_key, success=True)
+                            await progress_callback.complete_query(
+                                query_key, success=True, cost_usd=total_query_cost
+                            )
                         else:
                             progress_callback()
 
@@ -1111,7 +1199,9 @@ async def run_all(
                 # Call progress callback if provided
                 if progress_callback:
                     if hasattr(progress_callback, "complete_query"):
-                        await progress_callback.complete_query(query_key, success=True)
+                        await progress_callback.complete_query(
+                            query_key, success=True, cost_usd=total_query_cost
+                        )
                     else:
                         progress_callback()
 
@@ -1185,12 +1275,23 @@ async def run_all(
 
     # Build list of tasks for all (intent x model) and (intent x runner) combinations
     tasks = []
+    task_queries = []  # (intent_id, provider, model_name) of each task, in order
+    planned = set(planned_queries)
 
     for intent in config.intents:
-        # Classify intent before running queries (if enabled)
+        # Stop classifying and queueing intents once the run is cancelled
+        if cancel_event is not None and cancel_event.is_set():
+            break
+
+        if not any(query[0] == intent.id for query in planned):
+            continue
+
+        # Classify intent before running queries (if enabled) - retries reuse
+        # the classification stored by the original run
         intent_classification_cost = 0.0
         if (
-            config.extraction_settings
+            only_queries is None
+            and config.extraction_settings
             and config.extraction_settings.enable_intent_classification
         ):
             try:
@@ -1244,42 +1345,102 @@ async def run_all(
         # Create tasks for API models (if configured)
         if config.models:
             for model_config in config.models:
+                query = (intent.id, model_config.provider, model_config.model_name)
+                if query not in planned:
+                    continue
                 task = _execute_query_with_semaphore(
                     intent=intent,
                     model_config=model_config,
                     runner_config=None,
                 )
                 tasks.append(task)
+                task_queries.append(query)
 
         # Create tasks for browser/custom runners (if configured)
         if config.runner_configs:
             for runner_config in config.runner_configs:
+                query = (intent.id, runner_config.runner_plugin, "runner")
+                if query not in planned:
+                    continue
                 task = _execute_query_with_semaphore(
                     intent=intent,
                     model_config=None,
                     runner_config=runner_config,
                 )
                 tasks.append(task)
+                task_queries.append(query)
 
     # Execute all tasks in parallel with semaphore limiting concurrency
     logger.info(f"Executing {len(tasks)} queries in parallel...")
     results = await asyncio.gather(*tasks, return_exceptions=True)
 
-    # Process results
-    for i, result in enumerate(results):
+    # Process results, keeping track of which queries ended up without an answer
+    answered_queries = []
+    unanswered_queries = {query: CANCELLED_QUERY_MESSAGE for query in planned_queries}
+    for i, (query, result) in enumerate(zip(task_queries, results)):
         if isinstance(result, Exception):
             logger.error(f"Task {i} failed with exception: {result}")
             error_count += 1
+            unanswered_queries[query] = str(result)
+        elif result is None:  # Skipped after cancellation
+            continue
         elif result[0]:  # Success
             success_count += 1
             total_cost_usd += result[1]
             total_operations_cost_usd += result[3]  # Track operations cost separately
+            answered_queries.append(query)
+            del unanswered_queries[query]
         else:  # Returned error
             error_count += 1
             total_cost_usd += result[1]
             total_operations_cost_usd += result[3]  # Track operations cost even on error
             if result[2]:
                 errors.append(result[2])
+                unanswered_queries[query] = result[2]["error_message"]
+
+    # Queries never dispatched because the run was cancelled
+    cancelled = cancel_event is not None and cancel_event.is_set()
+    cancelled_count = total_queries - success_count - error_count
+
+    if success_count == total_queries:
+        status = "success"
+    elif success_count == 0:
+        status = "failed"
+    else:
+        status = "partial"
+
+    if cancelled:
+        logger.warning(
+            f"Run {run_id} cancelled: {cancelled_count} queries not dispatched"
+        )
+
+    try:
+        with sqlite3.connect(config.run_settings.sqlite_db_path) as conn:
+            failed_at = utc_timestamp()
+            for intent_id, provider, model_name in answered_queries:
+                delete_query_failure(conn, run_id, intent_id, provider, model_name)
+            for (intent_id, provider, model_name), message in unanswered_queries.items():
+                upsert_query_failure(
+                    conn, run_id, intent_id, provider, model_name, failed_at, message
+                )
+
+            if only_queries is not None:
+                # Retried queries merge into the original run, so the status
+                # has to account for the queries that were not retried too
+                previous_status = get_run_status(conn, run_id)
+                if not get_query_failures(conn, run_id):
+                    status = "success"
+                elif success_count == 0 and previous_status == "failed":
+                    status = "failed"
+                else:
+                    status = "partial"
+
+            update_run_status(conn, run_id, status)
+            # A retry adds its cost to the original run's
+            add_run_cost(conn, run_id, round(total_cost_usd, 6))
+            conn.commit()
+    except Exception as e:
+        logger.error(f"Failed to update run status and cost in database: {e}", exc_info=True)
 
     # Generate run metadata summary
     run_meta = {
@@ -1292,6 +1453,10 @@ async def run_all(
         "total_queries": total_queries,
         "success_count": success_count,
         "error_count": error_count,
+        "status": status,
+        "cancelled": cancelled,
+        "cancelled_count": cancelled_count,
+        "retry": only_queries is not None,
         "total_cost_usd": round(total_cost_usd, 6),
         "total_llm_cost_usd": round(total_cost_usd - total_operations_cost_usd, 6),
         "total_operations_cost_usd": round(total_operations_cost_usd, 6),
@@ -1300,6 +1465,9 @@ async def run_all(
         "database_path": config.run_settings.sqlite_db_path,
     }
 
+    if only_queries is not None:
+        run_meta = _merge_retry_meta(read_run_meta(run_dir), run_meta)
+
     # Write run metadata JSON
     write_run_meta(run_dir=run_dir, meta=run_meta)
 
@@ -1318,6 +1486,9 @@ async def run_all(
         "total_queries": total_queries,
         "success_count": success_count,
         "error_count": error_count,
+        "status": status,
+        "cancelled": cancelled,
+        "cancelled_count": cancelled_count,
         "total_cost_usd": round(total_cost_usd, 6),
         "total_llm_cost_usd": round(total_cost_usd - total_operations_cost_usd, 6),
         "total_operations_cost_usd": round(total_operations_cost_usd, 6),
@@ -0,0 +1,176 @@
+"""FastAPI router for named, versioned configuration presets."""
+
+import logging
+import sqlite3
+from typing import List
+
+import yaml
+from fastapi import APIRouter, Depends, HTTPException, status
+from pydantic import BaseModel, ValidationError
+
+from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.config.schema import WatcherConfig
+from llm_answer_watcher.storage.db import (
+    add_config_preset_version,
+    create_config_preset,
+    delete_config_preset,
+    get_config_preset,
+    get_config_preset_versions,
+    get_user_config_presets,
+    init_db_if_needed,
+)
+
+logger = logging.getLogger(__name__)
+
+router = APIRouter(prefix="/presets", tags=["presets"])
+
+# ----------------------------------------------------------------------------
+# Pydantic Models
+# ----------------------------------------------------------------------------
+
+class PresetCreate(BaseModel):
+    name: str
+    yaml_config: str
+    note: str | None = None
+
+class PresetVersionCreate(BaseModel):
+    yaml_config: str
+    note: str | None = None
+
+class PresetResponse(BaseModel):
+    id: int
+    name: str
+    latest_version: int
+    # Configuration of the latest version
+    yaml_config: str
+    created_at: str
+    updated_at: str
+
+class PresetVersionResponse(BaseModel):
+    version: int
+    yaml_config: str
+    note: str | None
+    created_at: str
+
+# ----------------------------------------------------------------------------
+# Helpers
+# ----------------------------------------------------------------------------
+
+def _validate_config(yaml_config: str) -> None:
+    """Reject a configuration the watcher could not run (400)."""
+    try:
+        WatcherConfig.model_validate(yaml.safe_load(yaml_config))
+    except (yaml.YAMLError, ValidationError) as e:
+        raise HTTPException(
+            status_code=status.HTTP_400_BAD_REQUEST,
+            detail=f"Invalid configuration: {e}",
+        )
+
+
+def _note(note: str | None) -> str | None:
+    return (note.strip() or None) if note else None
+
+# ----------------------------------------------------------------------------
+# Preset Endpoints
+# ----------------------------------------------------------------------------
+
+@router.get("", response_model=List[PresetResponse])
+async def list_presets(
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    List the current user's presets with their latest version.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        presets = get_user_config_presets(conn, current_user["id"])
+    return presets
+
+@router.post("", response_model=PresetResponse, status_code=status.HTTP_201_CREATED)
+async def add_preset(
+    preset: PresetCreate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Save a Dashboard configuration as a new named preset (version 1).
+    """
+    name = preset.name.strip()
+    if not name:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Preset name cannot be empty")
+    _validate_config(preset.yaml_config)
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        try:
+            preset_id = create_config_preset(
+                conn, current_user["id"], name, preset.yaml_config, _note(preset.note)
+            )
+        except sqlite3.IntegrityError:
+            raise HTTPException(
+                status_code=status.HTTP_400_BAD_REQUEST,
+                detail=f"Preset '{name}' already exists",
+            )
+        created = get_config_preset(conn, preset_id, current_user["id"])
+
+    logger.info(f"Created preset {preset_id} for user {current_user['id']}")
+    return created
+
+@router.post("/{preset_id}/versions", response_model=PresetResponse, status_code=status.HTTP_201_CREATED)
+async def add_preset_version(
+    preset_id: int,
+    version: PresetVersionCreate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Save the Dashboard configuration as the next version of a preset.
+    """
+    _validate_config(version.yaml_config)
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        number = add_config_preset_version(
+            conn, preset_id, current_user["id"], version.yaml_config, _note(version.note)
+        )
+        if number is None:
+            raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Preset not found")
+        return get_config_preset(conn, preset_id, current_user["id"])
+
+@router.get("/{preset_id}/versions", response_model=List[PresetVersionResponse])
+async def list_preset_versions(
+    preset_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Version history of a preset, newest first.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        versions = get_config_preset_versions(conn, preset_id, current_user["id"])
+
+    if not versions:
+        raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Preset not found")
+    return versions
+
+@router.delete("/{preset_id}")
+async def remove_preset(
+    preset_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Delete a preset with its whole version history.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        deleted = delete_config_preset(conn, preset_id, current_user["id"])
+
+    if not deleted:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Preset not found",
+        )
+    return {"message": "Preset deleted"}
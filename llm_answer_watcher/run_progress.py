@@ -0,0 +1,259 @@
+"""
+In-process progress tracking for watcher runs started from the web API.
+
+The API starts run_all() as a background task and returns immediately, so the
+Dashboard needs somewhere to poll while the run is in flight. RunProgress
+implements the runner's progress-callback protocol (start_query /
+complete_query) and keeps one cell per intent x model with its status and cost.
+
+State lives in memory: it covers runs started by this process only and is
+dropped on restart. Finished results are persisted in SQLite by run_all()
+itself, so nothing is lost beyond the live view.
+
+Example:
+    >>> progress = create_run_progress(run_id, user_id, runtime_config)
+    >>> result = await run_all(runtime_config, progress_callback=progress, run_id=run_id)
+    >>> progress.mark_completed(result)
+    >>> get_run_progress(run_id).to_dict()["status"]
+    'completed'
+"""
+
+import asyncio
+import time
+from dataclasses import asdict, dataclass
+
+from .config.schema import RuntimeConfig
+from .utils.time import run_id_from_timestamp, utc_timestamp
+
+# Finished runs are kept around this long so a slow poller still sees the final state
+FINISHED_RUN_TTL_SECONDS = 60 * 60
+
+
+@dataclass
+class QueryProgress:
+    """
+    Progress of a single intent x model query.
+
+    Attributes:
+        intent_id: Intent query identifier
+        model_provider: LLM provider name (or runner plugin name)
+        model_name: Model identifier ("runner" for browser/custom runners)
+        status: "queued", "running", "done", "failed" or "cancelled"
+        cost_usd: Cost of the query including extraction (0.0 until done)
+        error_message: Failure reason, filled in once the run finishes
+    """
+
+    intent_id: str
+    model_provider: str
+    model_name: str
+    status: str = "queued"
+    cost_usd: float = 0.0
+    error_message: str | None = None
+
+
+class RunProgress:
+    """
+    Live progress of one background run.
+
+    Passed to run_all() as progress_callback; the runner awaits start_query()
+    and complete_query() around every query. cancel_event is passed along too,
+    so cancel() stops the runner from dispatching the remaining queries.
+    """
+
+    def __init__(self, run_id: str, user_id: int | None, queries: list[QueryProgress]):
+        self.run_id = run_id
+        self.user_id = user_id
+        self.status = "running"
+        self.started_at = utc_timestamp()
+        self.finished_at: str | None = None
+        self.error: str | None = None
+        self.budget_exceeded: dict | None = None
+        self.summary: dict | None = None
+        self.task: asyncio.Task | None = None
+        self.cancel_event = asyncio.Event()
+        self._finished_monotonic: float | None = None
+        self.queries: dict[str, QueryProgress] = {
+            _query_key(q.intent_id, q.model_provider, q.model_name): q for q in queries
+        }
+
+    async def start_query(self, intent_id: str, provider: str, model: str):
+        """Mark a query as running."""
+        query = self.queries.get(_query_key(intent_id, provider, model))
+        if query is not None:
+            query.status = "running"
+
+    async def complete_query(self, query_key: str, success: bool = True, cost_usd: float = 0.0):
+        """Mark a query as done or failed and record its cost."""
+        query = self.queries.get(query_key)
+        if query is not None:
+            query.status = "done" if success else "failed"
+            query.cost_usd = cost_usd
+
+    def cancel(self):
+        """Request cancellation; queries already running still finish."""
+        self.cancel_event.set()
+
+    def mark_completed(self, result: dict):
+        """Record the run_all() summary and attach error messages to failed queries."""
+        for error in result.get("errors", []):
+            query = self.queries.get(
+                _query_key(error["intent_id"], error["model_provider"], error["model_name"])
+            )
+            if query is not None:
+                query.status = "failed"
+                query.error_message = error["error_message"]
+
+        # Queries the runner skipped after cancel()
+        for query in self.queries.values():
+            if query.status in ("queued", "running"):
+                query.status = "cancelled"
+
+        self.summary = result
+        self._finish("completed")
+
+    def mark_failed(self, error_message: str, budget_exceeded: dict | None = None):
+        """
+        Record a run that aborted before finishing.
+
+        budget_exceeded carries the budget_type, budget_limit and estimated_cost
+        of a BudgetExceededError so the Dashboard can explain why nothing ran.
+        """
+        self.error = error_message
+        self.budget_exceeded = budget_exceeded
+        for query in self.queries.values():
+            if query.status in ("queued", "running"):
+                query.status = "failed"
+        self._finish("failed")
+
+    @property
+    def is_finished(self) -> bool:
+        return self.status != "running"
+
+    def to_dict(self) -> dict:
+        """Serialize progress for the API."""
+        queries = list(self.queries.values())
+        completed = sum(1 for q in queries if q.status in ("done", "failed", "cancelled"))
+        return {
+            "run_id": self.run_id,
+            "status": self.status,
+            "cancel_requested": self.cancel_event.is_set(),
+            "started_at": self.started_at,
+            "finished_at": self.finished_at,
+            "total_queries": len(queries),
+            "completed_queries": completed,
+            "failed_queries": sum(1 for q in queries if q.status == "failed"),
+            "total_cost_usd": round(sum(q.cost_usd for q in queries), 6),
+            "queries": [asdict(q) for q in queries],
+            "error": self.error,
+            "budget_exceeded": self.budget_exceeded,
+            "summary": self.summary,
+        }
+
+    def _finish(self, status: str):
+        self.status = status
+        self.finished_at = utc_timestamp()
+        self._finished_monotonic = time.monotonic()
+
+
+_runs: dict[str, RunProgress] = {}
+
+
+def _query_key(intent_id: str, provider: str, model_name: str) -> str:
+    # Must match the query_key built by run_all()
+    return f"{intent_id}_{provider}_{model_name}"
+
+
+def _prune_finished_runs():
+    now = time.monotonic()
+    expired = [
+        run_id
+        for run_id, progress in _runs.items()
+        if progress._finished_monotonic is not None
+        and now - progress._finished_monotonic > FINISHED_RUN_TTL_SECONDS
+    ]
+    for run_id in expired:
+        del _runs[run_id]
+
+
+def create_run_progress(
+    run_id: str,
+    user_id: int | None,
+    config: RuntimeConfig,
+    only_queries: set[tuple[str, str, str]] | None = None,
+) -> RunProgress:
+    """
+    Register progress tracking for a new run with every query queued.
+
+    Args:
+        run_id: Run identifier that will be passed to run_all()
+        user_id: ID of the user who started the run (for access checks)
+        config: Runtime configuration of the run
+        only_queries: Optional (intent_id, provider, model_name) cells to track
+            instead of every intent x model (retry of failed queries)
+
+    Returns:
+        Registered RunProgress instance
+    """
+    _prune_finished_runs()
+
+    queries = []
+    for intent in config.intents:
+        for model in config.models or []:
+            queries.append(
+                QueryProgress(
+                    intent_id=intent.id,
+                    model_provider=model.provider,
+                    model_name=model.model_name,
+                )
+            )
+        for runner in config.runner_configs or []:
+            queries.append(
+                QueryProgress(
+                    intent_id=intent.id,
+                    model_provider=runner.runner_plugin,
+                    model_name="runner",
+                )
+            )
+
+    if only_queries is not None:
+        queries = [
+            q
+            for q in queries
+            if (q.intent_id, q.model_provider, q.model_name) in only_queries
+        ]
+
+    progress = RunProgress(run_id, user_id, queries)
+    _runs[run_id] = progress
+    return progress
+
+
+def get_run_progress(run_id: str) -> RunProgress | None:
+    """
+    Look up progress of a run started by this process.
+
+    Args:
+        run_id: Run identifier
+
+    Returns:
+        RunProgress, or None if unknown (never started here, or expired)
+    """
+    return _runs.get(run_id)
+
+
+def new_run_id() -> str:
+    """
+    Run identifier for a run about to be started by this process.
+
+    run_id has one-second resolution, so runs started in the same second
+    (e.g., by two users) get a numeric suffix instead of sharing an id.
+
+    Returns:
+        Timestamp slug, e.g. "2025-11-02T08-30-45Z" or "2025-11-02T08-30-45Z-2"
+    """
+    base = run_id_from_timestamp()
+    run_id = base
+    suffix = 1
+    while run_id in _runs:
+        suffix += 1
+        run_id = f"{base}-{suffix}"
+    return run_id
@@ -0,0 +1,216 @@
+"""
+Recurring watcher runs for the web API.
+
+A schedule is a saved Dashboard configuration plus a five-field cron
+expression (minute hour day-of-month month day-of-week), evaluated in UTC.
+The API polls for due schedules and runs them with the owner's saved API
+keys, since nobody is around to type them in.
+
+Supported cron syntax per field: "*", numbers, ranges ("1-5"), lists
+("1,15") and steps ("*/15", "0-30/10"). Day-of-week runs 0-6 from Sunday
+(7 is also Sunday). As in cron, when both day-of-month and day-of-week are
+restricted a day matching either one fires.
+
+Example:
+    >>> next_run_time("0 9 * * 1", parse_timestamp("2025-11-05T10:00:00Z"))
+    datetime.datetime(2025, 11, 10, 9, 0, tzinfo=datetime.timezone.utc)
+"""
+
+import sqlite3
+from dataclasses import dataclass
+from datetime import datetime, timedelta
+
+from .auth.encryption import decrypt_api_key
+from .config.schema import WatcherConfig
+from .storage.db import get_user_api_key_by_id, get_user_api_keys
+from .utils.time import utc_now
+
+# How far ahead next_run_time() looks before giving up (covers Feb 29)
+MAX_LOOKAHEAD_DAYS = 366 * 5
+
+# (min, max) of each cron field
+_FIELD_RANGES = {
+    "minute": (0, 59),
+    "hour": (0, 23),
+    "day of month": (1, 31),
+    "month": (1, 12),
+    "day of week": (0, 7),
+}
+
+
+@dataclass(frozen=True)
+class CronSchedule:
+    """Parsed cron expression: the allowed values of each field."""
+
+    minutes: frozenset[int]
+    hours: frozenset[int]
+    days: frozenset[int]
+    months: frozenset[int]
+    weekdays: frozenset[int]
+    # Whether the day fields were given ("*" means any day)
+    days_restricted: bool
+    weekdays_restricted: bool
+
+    def matches_day(self, day: datetime) -> bool:
+        if day.month not in self.months:
+            return False
+        in_days = day.day in self.days
+        # Python weekday() is Monday=0, cron is Sunday=0
+        in_weekdays = (day.weekday() + 1) % 7 in self.weekdays
+        if self.days_restricted and self.weekdays_restricted:
+            return in_days or in_weekdays
+        return in_days and in_weekdays
+
+
+def _parse_field(value: str, name: str) -> frozenset[int]:
+    low, high = _FIELD_RANGES[name]
+    allowed: set[int] = set()
+
+    for part in value.split(","):
+        range_part, _, step_part = part.partition("/")
+        try:
+            step = int(step_part) if step_part else 1
+            if range_part == "*":
+                start, end = low, high
+            elif "-" in range_part:
+                start_text, end_text = range_part.split("-", 1)
+                start, end = int(start_text), int(end_text)
+            else:
+                start = int(range_part)
+                # "5/10" means every 10 from 5
+                end = high if step_part else start
+        except ValueError:
+            raise ValueError(f"Invalid {name} field in cron expression: '{value}'") from None
+
+        if step < 1 or start < low or end > high or start > end:
+            raise ValueError(
+                f"Invalid {name} field in cron expression: '{value}' "
+                f"(values must be between {low} and {high})"
+            )
+        allowed.update(range(start, end + 1, step))
+
+    return frozenset(allowed)
+
+
+def parse_cron(expression: str) -> CronSchedule:
+    """
+    Parse a five-field cron expression.
+
+    Args:
+        expression: Cron expression, e.g. "0 9 * * 1-5"
+
+    Returns:
+        Parsed CronSchedule
+
+    Raises:
+        ValueError: If the expression does not have five valid fields
+    """
+    fields = expression.split()
+    if len(fields) != 5:
+        raise ValueError(
+            f"Cron expression must have 5 fields (minute hour day month weekday), got '{expression}'"
+        )
+
+    minute, hour, day, month, weekday = fields
+    weekdays = _parse_field(weekday, "day of week")
+    return CronSchedule(
+        minutes=_parse_field(minute, "minute"),
+        hours=_parse_field(hour, "hour"),
+        days=_parse_field(day, "day of month"),
+        months=_parse_field(month, "month"),
+        weekdays=frozenset(d % 7 for d in weekdays),
+        days_restricted=not day.startswith("*"),
+        weekdays_restricted=not weekday.startswith("*"),
+    )
+
+
+def next_run_time(expression: str, after: datetime) -> datetime:
+    """
+    Compute the first time strictly after `after` that matches a cron expression.
+
+    Args:
+        expression: Five-field cron expression, evaluated in UTC
+        after: Timezone-aware reference time
+
+    Returns:
+        Timezone-aware datetime with seconds set to zero
+
+    Raises:
+        ValueError: If the expression is invalid or never fires
+            (e.g. "0 0 31 2 *")
+    """
+    cron = parse_cron(expression)
+    start = after.replace(second=0, microsecond=0) + timedelta(minutes=1)
+    hours = sorted(cron.hours)
+    minutes = sorted(cron.minutes)
+
+    day = start.replace(hour=0, minute=0)
+    for _ in range(MAX_LOOKAHEAD_DAYS):
+        if cron.matches_day(day):
+            for hour in hours:
+                for minute in minutes:
+                    candidate = day.replace(hour=hour, minute=minute)
+                    if candidate >= start:
+                        return candidate
+        day += timedelta(days=1)
+
+    raise ValueError(f"Cron expression '{expression}' never fires")
+
+
+def next_run_timestamp(expression: str, after: datetime | None = None) -> str:
+    """
+    next_run_time() as an ISO 8601 timestamp (the format stored in SQLite).
+
+    Args:
+        expression: Five-field cron expression, evaluated in UTC
+        after: Reference time (default: now)
+
+    Returns:
+        Timestamp like "2025-11-10T09:00:00Z"
+    """
+    return next_run_time(expression, after or utc_now()).strftime("%Y-%m-%dT%H:%M:%SZ")
+
+
+def providers_for_config(config: WatcherConfig) -> set[str]:
+    """Providers a configuration needs API keys for (answering and extraction models)."""
+    providers = {model.provider for model in config.run_settings.models}
+    if config.extraction_settings:
+        providers.add(config.extraction_settings.extraction_model.provider)
+    return providers
+
+
+def resolve_saved_api_keys(
+    conn: sqlite3.Connection, user_id: int, providers: set[str]
+) -> dict[str, str]:
+    """
+    Decrypt the user's saved API key for each provider.
+
+    The unnamed (default) key of a provider wins; otherwise its first named key
+    is used.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: Owner of the keys
+        providers: Providers that need a key
+
+    Returns:
+        Provider -> decrypted API key
+
+    Raises:
+        ValueError: If a provider has no saved key
+    """
+    saved = get_user_api_keys(conn, user_id)
+    api_keys: dict[str, str] = {}
+
+    for provider in sorted(providers):
+        candidates = [key for key in saved if key["provider"] == provider]
+        if not candidates:
+            raise ValueError(
+                f"No saved API key for provider '{provider}'. "
+                "Save one in Settings so scheduled runs can use it."
+            )
+        chosen = next((key for key in candidates if key["key_name"] is None), candidates[0])
+        record = get_user_api_key_by_id(conn, chosen["id"], user_id)
+        api_keys[provider] = decrypt_api_key(record["encrypted_key"])
+
+    return api_keys
@@ -0,0 +1,202 @@
+"""FastAPI router for scheduled (recurring) watcher runs."""
+
+import logging
+import sqlite3
+from typing import List
+
+import yaml
+from fastapi import APIRouter, Depends, HTTPException, status
+from pydantic import BaseModel, ValidationError
+
+from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.config.schema import WatcherConfig
+from llm_answer_watcher.scheduler import (
+    next_run_timestamp,
+    providers_for_config,
+    resolve_saved_api_keys,
+)
+from llm_answer_watcher.storage.db import (
+    create_schedule,
+    delete_schedule,
+    get_schedule,
+    get_user_schedules,
+    init_db_if_needed,
+    update_schedule,
+)
+
+logger = logging.getLogger(__name__)
+
+router = APIRouter(prefix="/schedules", tags=["schedules"])
+
+# ----------------------------------------------------------------------------
+# Pydantic Models
+# ----------------------------------------------------------------------------
+
+class ScheduleCreate(BaseModel):
+    name: str
+    yaml_config: str
+    cron: str
+
+class ScheduleUpdate(BaseModel):
+    name: str | None = None
+    yaml_config: str | None = None
+    cron: str | None = None
+    enabled: bool | None = None
+
+class ScheduleResponse(BaseModel):
+    id: int
+    name: str
+    yaml_config: str
+    cron: str
+    enabled: bool
+    next_run_at: str | None
+    last_run_id: str | None
+    last_run_at: str | None
+    last_status: str | None
+    last_cost_usd: float | None
+    last_error: str | None
+    run_count: int
+    created_at: str
+    updated_at: str
+
+# ----------------------------------------------------------------------------
+# Helpers
+# ----------------------------------------------------------------------------
+
+def _next_run_at(cron: str) -> str:
+    """Next run time from now as a timestamp (400 for an invalid cron expression)."""
+    try:
+        return next_run_timestamp(cron)
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail=str(e))
+
+
+def _validate_config(conn: sqlite3.Connection, user_id: int, yaml_config: str) -> None:
+    """
+    Check that a configuration is valid and that the user has a saved API key
+    for every provider it uses, since nobody can type keys in at run time.
+    """
+    try:
+        raw_config = yaml.safe_load(yaml_config)
+        config = WatcherConfig.model_validate(raw_config)
+    except (yaml.YAMLError, ValidationError) as e:
+        raise HTTPException(
+            status_code=status.HTTP_400_BAD_REQUEST,
+            detail=f"Invalid configuration: {e}",
+        )
+
+    try:
+        resolve_saved_api_keys(conn, user_id, providers_for_config(config))
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail=str(e))
+
+# ----------------------------------------------------------------------------
+# Schedule Endpoints
+# ----------------------------------------------------------------------------
+
+@router.get("", response_model=List[ScheduleResponse])
+async def list_schedules(
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    List all schedules of the current user.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        schedules = get_user_schedules(conn, current_user["id"])
+    return schedules
+
+@router.post("", response_model=ScheduleResponse, status_code=status.HTTP_201_CREATED)
+async def add_schedule(
+    schedule: ScheduleCreate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Save a Dashboard configuration as a schedule that runs on a cron expression (UTC).
+    """
+    name = schedule.name.strip()
+    if not name:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Schedule name cannot be empty")
+    next_run_at = _next_run_at(schedule.cron)
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        _validate_config(conn, current_user["id"], schedule.yaml_config)
+        try:
+            schedule_id = create_schedule(
+                conn, current_user["id"], name, schedule.yaml_config, schedule.cron.strip(), next_run_at
+            )
+        except sqlite3.IntegrityError:
+            raise HTTPException(
+                status_code=status.HTTP_400_BAD_REQUEST,
+                detail=f"Schedule '{name}' already exists",
+            )
+        created = get_schedule(conn, schedule_id, current_user["id"])
+
+    logger.info(f"Created schedule {schedule_id} for user {current_user['id']}, next run at {next_run_at}")
+    return created
+
+@router.patch("/{schedule_id}", response_model=ScheduleResponse)
+async def edit_schedule(
+    schedule_id: int,
+    changes: ScheduleUpdate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Rename, reschedule, pause or resume a schedule.
+
+    Resuming (or changing the cron expression) counts the next run from now, so
+    runs missed while paused are skipped rather than fired all at once.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        existing = get_schedule(conn, schedule_id, current_user["id"])
+        if existing is None:
+            raise HTTPException(status_code=status.HTTP_404_NOT_FOUND, detail="Schedule not found")
+
+        fields = changes.model_dump(exclude_none=True)
+        if "name" in fields:
+            fields["name"] = fields["name"].strip()
+            if not fields["name"]:
+                raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Schedule name cannot be empty")
+        if "yaml_config" in fields:
+            _validate_config(conn, current_user["id"], fields["yaml_config"])
+
+        cron = fields.get("cron", existing["cron"]).strip()
+        resumed = fields.get("enabled") is True and not existing["enabled"]
+        if "cron" in fields or resumed:
+            fields["cron"] = cron
+            fields["next_run_at"] = _next_run_at(cron)
+
+        if fields:
+            try:
+                update_schedule(conn, schedule_id, current_user["id"], **fields)
+            except sqlite3.IntegrityError:
+                raise HTTPException(
+                    status_code=status.HTTP_400_BAD_REQUEST,
+                    detail=f"Schedule '{fields['name']}' already exists",
+                )
+        return get_schedule(conn, schedule_id, current_user["id"])
+
+@router.delete("/{schedule_id}")
+async def remove_schedule(
+    schedule_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Delete a schedule. Runs it already made stay in the history.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        deleted = delete_schedule(conn, schedule_id, current_user["id"])
+
+    if not deleted:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Schedule not found",
+        )
+    return {"message": "Schedule deleted"}
@@ -0,0 +1,106 @@
+"""FastAPI router for shareable read-only links to a run's results."""
+
+import logging
+import secrets
+import sqlite3
+from datetime import timedelta
+from typing import List
+
+from fastapi import APIRouter, Depends, HTTPException, status
+from pydantic import BaseModel, Field
+
+from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.storage.db import (
+    create_share_link,
+    get_run_user_id,
+    get_user_share_links,
+    init_db_if_needed,
+    revoke_share_link,
+)
+from llm_answer_watcher.utils.time import utc_now
+
+logger = logging.getLogger(__name__)
+
+router = APIRouter(prefix="/shares", tags=["shares"])
+
+# ----------------------------------------------------------------------------
+# Pydantic Models
+# ----------------------------------------------------------------------------
+
+class ShareLinkCreate(BaseModel):
+    run_id: str
+    # None = the link works until revoked
+    expires_in_days: int | None = Field(default=None, ge=1, le=365)
+
+class ShareLinkResponse(BaseModel):
+    id: int
+    run_id: str
+    token: str
+    created_at: str
+    expires_at: str | None
+
+# ----------------------------------------------------------------------------
+# Endpoints
+# ----------------------------------------------------------------------------
+
+@router.get("", response_model=List[ShareLinkResponse])
+async def list_share_links(
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    List the current user's active share links (revoked and expired ones are left out).
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        links = get_user_share_links(conn, current_user["id"])
+    return links
+
+@router.post("", response_model=ShareLinkResponse, status_code=status.HTTP_201_CREATED)
+async def add_share_link(
+    share: ShareLinkCreate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Create a public link that shows a run's results read-only, without signing in.
+    """
+    expires_at = None
+    if share.expires_in_days is not None:
+        expires_at = (utc_now() + timedelta(days=share.expires_in_days)).strftime("%Y-%m-%dT%H:%M:%SZ")
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        if get_run_user_id(conn, share.run_id) != current_user["id"]:
+            raise HTTPException(
+                status_code=status.HTTP_404_NOT_FOUND,
+                detail=f"Run '{share.run_id}' not found",
+            )
+        token = secrets.token_urlsafe(24)
+        share_id = create_share_link(conn, current_user["id"], share.run_id, token, expires_at)
+        links = get_user_share_links(conn, current_user["id"])
+
+    created = next((link for link in links if link["id"] == share_id), None)
+    if not created:
+        raise HTTPException(status_code=500, detail="Failed to retrieve created share link")
+    return created
+
+@router.delete("/{share_id}")
+async def remove_share_link(
+    share_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Revoke a share link; its URL stops working immediately.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        revoked = revoke_share_link(conn, share_id, current_user["id"])
+
+    if not revoked:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Share link not found",
+        )
+    return {"message": "Share link revoked"}
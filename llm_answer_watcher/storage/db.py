@@ -23,6 +23,7 @@ Security:
     - Connection context managers ensure proper cleanup
 """
 
+import json
 import logging
 import sqlite3
 from pathlib import Path
@@ -32,7 +33,7 @@ from ..utils.time import utc_timestamp
 logger = logging.getLogger(__name__)
 
 # Current schema version - increment when migrations are added
-CURRENT_SCHEMA_VERSION = 10
+CURRENT_SCHEMA_VERSION = 20
 
 
 def init_db_if_needed(db_path: str) -> None:
@@ -204,9 +205,29 @@ def apply_migrations(
                 _migrate_to_v9(conn)
             elif target_version == 10:
                 _migrate_to_v10(conn)
+            elif target_version == 11:
+                _migrate_to_v11(conn)
+            elif target_version == 12:
+                _migrate_to_v12(conn)
+            elif target_version == 13:
+                _migrate_to_v13(conn)
+            elif target_version == 14:
+                _migrate_to_v14(conn)
+            elif target_version == 15:
+                _migrate_to_v15(conn)
+            elif target_version == 16:
+                _migrate_to_v16(conn)
+            elif target_version == 17:
+                _migrate_to_v17(conn)
+            elif target_version == 18:
+                _migrate_to_v18(conn)
+            elif target_version == 19:
+                _migrate_to_v19(conn)
+            elif target_version == 20:
+                _migrate_to_v20(conn)
             # Future migrations go here:
-            # elif target_version == 11:
-            #     _migrate_to_v10(conn)
+            # elif target_version == 21:
+            #     _migrate_to_v21(conn)
             else:
                 raise ValueError(f"No migration defined for version {target_version}")
 
@@ -904,6 +925,388 @@ def _migrate_to_v10(conn: sqlite3.Connection) -> None:
     logger.debug("Created user_settings table (schema v10)")
 
 
+def _migrate_to_v11(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 11.
+
+    Adds run completion status:
+    - Adds status column to runs table ("success", "partial" or "failed")
+    - Existing runs default to "success"
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("ALTER TABLE runs ADD COLUMN status TEXT NOT NULL DEFAULT 'success'")
+
+    logger.debug("Added status to runs table (schema v11)")
+
+
+def _migrate_to_v12(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 12.
+
+    Adds query_failures table recording every intent x model query of a run
+    that has no answer (failed or cancelled before dispatch), so partial runs
+    can be inspected and retried later.
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS query_failures (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            run_id TEXT NOT NULL,
+            intent_id TEXT NOT NULL,
+            model_provider TEXT NOT NULL,
+            model_name TEXT NOT NULL,
+            timestamp_utc TEXT NOT NULL,
+            error_message TEXT NOT NULL,
+            FOREIGN KEY (run_id) REFERENCES runs(run_id) ON DELETE CASCADE,
+            UNIQUE(run_id, intent_id, model_provider, model_name)
+        )
+    """)
+
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_query_failures_run ON query_failures(run_id)"
+    )
+
+    logger.debug("Created query_failures table (schema v12)")
+
+
+def _migrate_to_v13(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 13.
+
+    Records which answer each operation ran on:
+    - Adds answer_model_provider and answer_model_name to the operations table
+    - The UNIQUE constraint now uses the answering model instead of the
+      operation model, so a run with several answering models keeps the
+      operations of every answer (previously all but the first were ignored)
+    - Existing rows take the operation model as their answering model
+
+    SQLite cannot change a UNIQUE constraint in place, so the table is rebuilt.
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("ALTER TABLE operations RENAME TO operations_v12")
+
+    conn.execute("""
+        CREATE TABLE operations (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            run_id TEXT NOT NULL,
+            intent_id TEXT NOT NULL,
+            answer_model_provider TEXT NOT NULL,
+            answer_model_name TEXT NOT NULL,
+            model_provider TEXT NOT NULL,
+            model_name TEXT NOT NULL,
+            operation_id TEXT NOT NULL,
+            operation_description TEXT,
+            operation_prompt TEXT NOT NULL,
+            result_text TEXT,
+            tokens_used_input INTEGER DEFAULT 0,
+            tokens_used_output INTEGER DEFAULT 0,
+            cost_usd REAL DEFAULT 0.0,
+            timestamp_utc TEXT NOT NULL,
+            depends_on TEXT,
+            execution_order INTEGER NOT NULL,
+            skipped INTEGER DEFAULT 0,
+            error TEXT,
+            FOREIGN KEY (run_id) REFERENCES runs(run_id),
+            UNIQUE(run_id, intent_id, answer_model_provider, answer_model_name, operation_id)
+        )
+    """)
+
+    conn.execute("""
+        INSERT INTO operations (
+            id, run_id, intent_id, answer_model_provider, answer_model_name,
+            model_provider, model_name, operation_id, operation_description,
+            operation_prompt, result_text, tokens_used_input, tokens_used_output,
+            cost_usd, timestamp_utc, depends_on, execution_order, skipped, error
+        )
+        SELECT
+            id, run_id, intent_id, model_provider, model_name,
+            model_provider, model_name, operation_id, operation_description,
+            operation_prompt, result_text, tokens_used_input, tokens_used_output,
+            cost_usd, timestamp_utc, depends_on, execution_order, skipped, error
+        FROM operations_v12
+    """)
+
+    conn.execute("DROP TABLE operations_v12")
+
+    # Indexes were dropped with the old table
+    conn.execute("CREATE INDEX IF NOT EXISTS idx_operations_run ON operations(run_id)")
+    conn.execute("CREATE INDEX IF NOT EXISTS idx_operations_intent ON operations(intent_id)")
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_operations_timestamp ON operations(timestamp_utc)"
+    )
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_operations_operation_id ON operations(operation_id)"
+    )
+
+    logger.debug("Rebuilt operations table keyed by answering model (schema v13)")
+
+
+def _migrate_to_v14(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 14.
+
+    Adds schedules table: named Dashboard configurations that the API runs on
+    a cron schedule with the owner's saved API keys, along with the outcome of
+    their latest run.
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS schedules (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            yaml_config TEXT NOT NULL,
+            cron TEXT NOT NULL,
+            enabled INTEGER NOT NULL DEFAULT 1,
+            next_run_at TEXT,
+            last_run_id TEXT,
+            last_run_at TEXT,
+            last_status TEXT,
+            last_cost_usd REAL,
+            last_error TEXT,
+            run_count INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            UNIQUE(user_id, name)
+        )
+    """)
+
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_schedules_due ON schedules(enabled, next_run_at)"
+    )
+
+    logger.debug("Created schedules table (schema v14)")
+
+
+def _migrate_to_v15(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 15.
+
+    Adds alert rules and the in-app notification inbox:
+    - alert_rules: user-defined conditions on a run's mentions (rank, competitor
+      ranking, sentiment, share of voice), checked when a run completes
+    - notifications: one entry per rule that fired on a run; UNIQUE(rule_id,
+      run_id) keeps a retried run from notifying twice
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS alert_rules (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            rule_type TEXT NOT NULL,
+            intent_id TEXT,
+            competitor TEXT,
+            threshold REAL,
+            enabled INTEGER NOT NULL DEFAULT 1,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    """)
+
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS notifications (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            rule_id INTEGER,
+            run_id TEXT,
+            title TEXT NOT NULL,
+            message TEXT NOT NULL,
+            is_read INTEGER NOT NULL DEFAULT 0,
+            created_at TEXT NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE SET NULL,
+            UNIQUE(rule_id, run_id)
+        )
+    """)
+
+    conn.execute("CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_id)")
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, is_read)"
+    )
+
+    logger.debug("Created alert_rules and notifications tables (schema v15)")
+
+
+def _migrate_to_v16(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 16.
+
+    Adds outbound webhooks for run summaries:
+    - webhooks: user-registered URLs and the payload format they expect
+      (generic JSON, Slack or Microsoft Teams)
+    - webhook_deliveries: one entry per attempt (run summary or test) with the
+      HTTP status code or the error, for the delivery log
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS webhooks (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            url TEXT NOT NULL,
+            payload_format TEXT NOT NULL DEFAULT 'generic',
+            enabled INTEGER NOT NULL DEFAULT 1,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    """)
+
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            webhook_id INTEGER NOT NULL,
+            run_id TEXT,
+            event TEXT NOT NULL,
+            status_code INTEGER,
+            success INTEGER NOT NULL,
+            error TEXT,
+            created_at TEXT NOT NULL,
+            FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+        )
+    """)
+
+    conn.execute("CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id)")
+    conn.execute(
+        "CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id)"
+    )
+
+    logger.debug("Created webhooks and webhook_deliveries tables (schema v16)")
+
+
+def _migrate_to_v17(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 17.
+
+    Adds share_links: public, read-only links to a run's results. Each link has
+    an unguessable token, an optional expiry and is revoked by setting
+    revoked_at (kept for the record rather than deleted).
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS share_links (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            run_id TEXT NOT NULL,
+            token TEXT NOT NULL UNIQUE,
+            created_at TEXT NOT NULL,
+            expires_at TEXT,
+            revoked_at TEXT,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+    """)
+
+    conn.execute("CREATE INDEX IF NOT EXISTS idx_share_links_user ON share_links(user_id)")
+
+    logger.debug("Created share_links table (schema v17)")
+
+
+def _migrate_to_v18(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 18.
+
+    Adds named configuration presets with a version history:
+    - config_presets: a user's named Dashboard configurations
+    - config_preset_versions: every saved state of a preset (Dashboard YAML),
+      numbered from 1; versions are never edited, saving adds the next one
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS config_presets (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            user_id INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            created_at TEXT NOT NULL,
+            updated_at TEXT NOT NULL,
+            FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+            UNIQUE(user_id, name)
+        )
+    """)
+
+    conn.execute("""
+        CREATE TABLE IF NOT EXISTS config_preset_versions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            preset_id INTEGER NOT NULL,
+            version INTEGER NOT NULL,
+            yaml_config TEXT NOT NULL,
+            note TEXT,
+            created_at TEXT NOT NULL,
+            FOREIGN KEY (preset_id) REFERENCES config_presets(id) ON DELETE CASCADE,
+            UNIQUE(preset_id, version)
+        )
+    """)
+
+    logger.debug("Created config_presets and config_preset_versions tables (schema v18)")
+
+
+def _migrate_to_v19(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 19.
+
+    Adds sort_order to user_brands and user_intents so users can arrange their
+    saved brands and intents. Existing rows keep the order they were listed in
+    before (my brands first, then by name; intents by alias).
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    conn.execute("ALTER TABLE user_brands ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0")
+    conn.execute("ALTER TABLE user_intents ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0")
+
+    conn.execute("""
+        UPDATE user_brands SET sort_order = (
+            SELECT COUNT(*) FROM user_brands other
+            WHERE other.user_id = user_brands.user_id
+              AND (other.is_mine > user_brands.is_mine
+                   OR (other.is_mine = user_brands.is_mine AND other.brand_name < user_brands.brand_name))
+        )
+    """)
+    conn.execute("""
+        UPDATE user_intents SET sort_order = (
+            SELECT COUNT(*) FROM user_intents other
+            WHERE other.user_id = user_intents.user_id AND other.intent_alias < user_intents.intent_alias
+        )
+    """)
+
+    logger.debug("Added sort_order to user_brands and user_intents (schema v19)")
+
+
+def _migrate_to_v20(conn: sqlite3.Connection) -> None:
+    """
+    Migrate database schema to version 20.
+
+    Turns saved brands into brand entities: besides the canonical brand_name,
+    each brand keeps its aliases, product lines and excluded (false-positive)
+    terms as JSON lists. Existing brands start with empty lists.
+
+    Args:
+        conn: Active SQLite database connection in transaction
+    """
+    for column in ("aliases_json", "products_json", "exclude_json"):
+        conn.execute(f"ALTER TABLE user_brands ADD COLUMN {column} TEXT NOT NULL DEFAULT '[]'")
+
+    logger.debug("Added aliases, products and exclude to user_brands (schema v20)")
+
+
 # ============================================================================
 # Database Operations (CRUD)
 # ============================================================================
@@ -1569,6 +1972,8 @@ def insert_operation(
     execution_order: int,
     skipped: bool = False,
     error: str | None = None,
+    answer_model_provider: str | None = None,
+    answer_model_name: str | None = None,
 ) -> None:
     """
     Insert an operation result into the operations table.
@@ -1577,8 +1982,8 @@ def insert_operation(
     for historical tracking and cost analysis.
 
     This function is idempotent - if an operation for the same (run_id, intent_id,
-    model_provider, model_name, operation_id) already exists, the insert is skipped
-    (due to UNIQUE constraint).
+    answer_model_provider, answer_model_name, operation_id) already exists, the
+    insert is skipped (due to UNIQUE constraint).
 
     Args:
         conn: Active SQLite database connection
@@ -1597,7 +2002,11 @@ def insert_operation(
         depends_on: List of operation IDs this depends on
         execution_order: Order in which operation was executed
         skipped: Whether operation was skipped (condition not met)
-        error: Error message if operation failed
+        error: Error message if operation failed (result_text may then be empty)
+        answer_model_provider: Provider of the answer the operation ran on
+            (defaults to model_provider)
+        answer_model_name: Model of the answer the operation ran on
+            (defaults to model_name)
 
     Raises:
         sqlite3.Error: If database operation fails
@@ -1644,7 +2053,7 @@ def insert_operation(
         raise ValueError("operation_id cannot be empty or whitespace")
     if not operation_prompt or operation_prompt.isspace():
         raise ValueError("operation_prompt cannot be empty or whitespace")
-    if not result_text or result_text.isspace():
+    if not error and (not result_text or result_text.isspace()):
         raise ValueError("result_text cannot be empty or whitespace")
     if not timestamp_utc or timestamp_utc.isspace():
         raise ValueError("timestamp_utc cannot be empty or whitespace")
@@ -1662,6 +2071,8 @@ def insert_operation(
         INSERT OR IGNORE INTO operations (
             run_id,
             intent_id,
+            answer_model_provider,
+            answer_model_name,
             model_provider,
             model_name,
             operation_id,
@@ -1676,11 +2087,13 @@ def insert_operation(
             execution_order,
             skipped,
             error
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         """,
         (
             run_id,
             intent_id,
+            answer_model_provider or model_provider,
+            answer_model_name or model_name,
             model_provider,
             model_name,
             operation_id,
@@ -1753,53 +2166,306 @@ def update_run_cost(
     logger.debug(f"Updated run {run_id} total cost: ${total_cost_usd:.6f}")
 
 
-def get_run_summary(conn: sqlite3.Connection, run_id: str) -> dict | None:
+def add_run_cost(conn: sqlite3.Connection, run_id: str, cost_usd: float) -> None:
     """
-    Retrieve summary information for a specific run.
+    Add to the total cost of a run in the runs table.
 
-    Fetches the run record with all metadata. Useful for reporting and
-    debugging.
+    Called when a run finishes; a retry of failed queries merges into its
+    original run, so its cost is added to the total rather than replacing it.
 
     Args:
         conn: Active SQLite database connection
-        run_id: Run identifier to retrieve
+        run_id: Run identifier to update
+        cost_usd: Cost in USD to add
 
-    Returns:
-        dict with keys: run_id, timestamp_utc, total_intents, total_models, total_cost_usd
-        None if run_id does not exist
+    Raises:
+        sqlite3.Error: If database operation fails
+        ValueError: If run_id does not exist (rowcount == 0)
 
     Example:
-        >>> summary = get_run_summary(conn, "2025-11-02T08-00-00Z")
-        >>> print(summary)
-        {
-            "run_id": "2025-11-02T08-00-00Z",
-            "timestamp_utc": "2025-11-02T08:00:00Z",
-            "total_intents": 3,
-            "total_models": 2,
-            "total_cost_usd": 0.0234
-        }
-
-    Security:
-        Uses parameterized query to prevent SQL injection.
-
-    Note:
-        Returns None if run doesn't exist (not an error condition).
+        >>> add_run_cost(conn, "2025-11-02T08-00-00Z", 0.0012)
+        >>> conn.commit()
     """
     cursor = conn.execute(
-        """
-        SELECT run_id, timestamp_utc, total_intents, total_models, total_cost_usd
-        FROM runs
-        WHERE run_id = ?
-        """,
-        (run_id,),
+        "UPDATE runs SET total_cost_usd = COALESCE(total_cost_usd, 0) + ? WHERE run_id = ?",
+        (cost_usd, run_id),
     )
 
-    row = cursor.fetchone()
-    if row is None:
-        return None
-
-    return {
-        "run_id": row[0],
+    if cursor.rowcount == 0:
+        raise ValueError(
+            f"Cannot update cost for run_id={run_id}: run does not exist. "
+            f"Call insert_run() first."
+        )
+
+    logger.debug(f"Added ${cost_usd:.6f} to run {run_id} total cost")
+
+
+def update_run_status(conn: sqlite3.Connection, run_id: str, status: str) -> None:
+    """
+    Update the completion status of a run.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier to update
+        status: "success" (every query answered), "partial" (some queries
+            failed or were cancelled) or "failed" (no answers)
+
+    Raises:
+        ValueError: If status is unknown or run_id does not exist
+    """
+    if status not in ("success", "partial", "failed"):
+        raise ValueError(f"Invalid run status: {status}")
+
+    cursor = conn.execute(
+        "UPDATE runs SET status = ? WHERE run_id = ?",
+        (status, run_id),
+    )
+
+    if cursor.rowcount == 0:
+        raise ValueError(
+            f"Cannot update status for run_id={run_id}: run does not exist. "
+            f"Call insert_run() first."
+        )
+
+    logger.debug(f"Updated run {run_id} status: {status}")
+
+
+def get_run_status(conn: sqlite3.Connection, run_id: str) -> str | None:
+    """
+    Retrieve the completion status of a run.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier
+
+    Returns:
+        "success", "partial" or "failed", None if run_id does not exist
+    """
+    cursor = conn.execute("SELECT status FROM runs WHERE run_id = ?", (run_id,))
+    row = cursor.fetchone()
+    return row[0] if row else None
+
+
+def get_run_user_id(conn: sqlite3.Connection, run_id: str) -> int | None:
+    """
+    Retrieve the ID of the user who started a run.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier
+
+    Returns:
+        User ID, None if run_id does not exist or was started from the CLI
+    """
+    cursor = conn.execute("SELECT user_id FROM runs WHERE run_id = ?", (run_id,))
+    row = cursor.fetchone()
+    return row[0] if row else None
+
+
+def upsert_query_failure(
+    conn: sqlite3.Connection,
+    run_id: str,
+    intent_id: str,
+    model_provider: str,
+    model_name: str,
+    timestamp_utc: str,
+    error_message: str,
+) -> None:
+    """
+    Record (or replace) the failure of one intent x model query of a run.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier
+        intent_id: Intent query identifier
+        model_provider: LLM provider name (or runner plugin name)
+        model_name: Model identifier ("runner" for browser/custom runners)
+        timestamp_utc: ISO 8601 timestamp of the failure
+        error_message: Why the query has no answer
+
+    Note:
+        Always call conn.commit() after insert to persist changes.
+    """
+    conn.execute(
+        """
+        INSERT INTO query_failures (
+            run_id,
+            intent_id,
+            model_provider,
+            model_name,
+            timestamp_utc,
+            error_message
+        ) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT(run_id, intent_id, model_provider, model_name)
+        DO UPDATE SET timestamp_utc = excluded.timestamp_utc,
+                      error_message = excluded.error_message
+        """,
+        (run_id, intent_id, model_provider, model_name, timestamp_utc, error_message),
+    )
+    logger.debug(
+        f"Recorded failure for run {run_id}: intent={intent_id}, "
+        f"provider={model_provider}, model={model_name}"
+    )
+
+
+def delete_query_failure(
+    conn: sqlite3.Connection,
+    run_id: str,
+    intent_id: str,
+    model_provider: str,
+    model_name: str,
+) -> bool:
+    """
+    Clear the failure of a query once it has been answered (e.g. on retry).
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier
+        intent_id: Intent query identifier
+        model_provider: LLM provider name (or runner plugin name)
+        model_name: Model identifier
+
+    Returns:
+        True if a failure was cleared, False if the query had none
+    """
+    cursor = conn.execute(
+        """
+        DELETE FROM query_failures
+        WHERE run_id = ? AND intent_id = ? AND model_provider = ? AND model_name = ?
+        """,
+        (run_id, intent_id, model_provider, model_name),
+    )
+    return cursor.rowcount > 0
+
+
+def get_query_failures(conn: sqlite3.Connection, run_id: str) -> list[dict]:
+    """
+    Retrieve the queries of a run that have no answer.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier
+
+    Returns:
+        List of dicts with keys: intent_id, model_provider, model_name,
+        timestamp_utc, error_message (empty if every query was answered)
+    """
+    cursor = conn.execute(
+        """
+        SELECT intent_id, model_provider, model_name, timestamp_utc, error_message
+        FROM query_failures
+        WHERE run_id = ?
+        ORDER BY intent_id, model_provider, model_name
+        """,
+        (run_id,),
+    )
+
+    return [
+        {
+            "intent_id": row[0],
+            "model_provider": row[1],
+            "model_name": row[2],
+            "timestamp_utc": row[3],
+            "error_message": row[4],
+        }
+        for row in cursor.fetchall()
+    ]
+
+
+def get_operation_results(conn: sqlite3.Connection, run_id: str) -> list[dict]:
+    """
+    Retrieve the operation results of a run, in execution order per answer.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier
+
+    Returns:
+        List of dicts with keys: intent_id, answer_model_provider,
+        answer_model_name, operation_id, description, model_provider,
+        model_name, result_text, depends_on (list), cost_usd, skipped (bool),
+        error (empty if the run executed no operations)
+    """
+    import json
+
+    cursor = conn.execute(
+        """
+        SELECT intent_id, answer_model_provider, answer_model_name, operation_id,
+               operation_description, model_provider, model_name, result_text,
+               depends_on, cost_usd, skipped, error
+        FROM operations
+        WHERE run_id = ?
+        ORDER BY intent_id, answer_model_provider, answer_model_name, execution_order
+        """,
+        (run_id,),
+    )
+
+    return [
+        {
+            "intent_id": row[0],
+            "answer_model_provider": row[1],
+            "answer_model_name": row[2],
+            "operation_id": row[3],
+            "description": row[4],
+            "model_provider": row[5],
+            "model_name": row[6],
+            "result_text": row[7] or "",
+            "depends_on": json.loads(row[8]) if row[8] else [],
+            "cost_usd": row[9],
+            "skipped": bool(row[10]),
+            "error": row[11],
+        }
+        for row in cursor.fetchall()
+    ]
+
+
+def get_run_summary(conn: sqlite3.Connection, run_id: str) -> dict | None:
+    """
+    Retrieve summary information for a specific run.
+
+    Fetches the run record with all metadata. Useful for reporting and
+    debugging.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run identifier to retrieve
+
+    Returns:
+        dict with keys: run_id, timestamp_utc, total_intents, total_models, total_cost_usd
+        None if run_id does not exist
+
+    Example:
+        >>> summary = get_run_summary(conn, "2025-11-02T08-00-00Z")
+        >>> print(summary)
+        {
+            "run_id": "2025-11-02T08-00-00Z",
+            "timestamp_utc": "2025-11-02T08:00:00Z",
+            "total_intents": 3,
+            "total_models": 2,
+            "total_cost_usd": 0.0234
+        }
+
+    Security:
+        Uses parameterized query to prevent SQL injection.
+
+    Note:
+        Returns None if run doesn't exist (not an error condition).
+    """
+    cursor = conn.execute(
+        """
+        SELECT run_id, timestamp_utc, total_intents, total_models, total_cost_usd
+        FROM runs
+        WHERE run_id = ?
+        """,
+        (run_id,),
+    )
+
+    row = cursor.fetchone()
+    if row is None:
+        return None
+
+    return {
+        "run_id": row[0],
         "timestamp_utc": row[1],
         "total_intents": row[2],
         "total_models": row[3],
@@ -2441,6 +3107,9 @@ def create_user_brand(
     user_id: int,
     brand_name: str,
     is_mine: bool,
+    aliases: list[str] | None = None,
+    products: list[str] | None = None,
+    exclude: list[str] | None = None,
 ) -> int:
     """
     Create a new user brand.
@@ -2448,8 +3117,11 @@ def create_user_brand(
     Args:
         conn: Active SQLite database connection
         user_id: User ID who owns this brand
-        brand_name: Name of the brand
+        brand_name: Canonical name of the brand
         is_mine: True if it's the user's brand, False if competitor
+        aliases: Other names the brand goes by (e.g., "Hubspot CRM")
+        products: Product lines counted as the brand (e.g., "Sales Hub")
+        exclude: Terms that contain a brand name but are not the brand
 
     Returns:
         The new brand record ID
@@ -2460,33 +3132,47 @@ def create_user_brand(
     timestamp = utc_timestamp()
     is_mine_int = 1 if is_mine else 0
     
+    # New brands go to the end of the user's list
     cursor = conn.execute(
         """
-        INSERT INTO user_brands (user_id, brand_name, is_mine, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?)
+        INSERT INTO user_brands (
+            user_id, brand_name, is_mine, aliases_json, products_json, exclude_json,
+            created_at, updated_at, sort_order
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM user_brands WHERE user_id = ?))
         """,
-        (user_id, brand_name, is_mine_int, timestamp, timestamp),
+        (
+            user_id,
+            brand_name,
+            is_mine_int,
+            json.dumps(aliases or []),
+            json.dumps(products or []),
+            json.dumps(exclude or []),
+            timestamp,
+            timestamp,
+            user_id,
+        ),
     )
     return cursor.lastrowid
 
 
 def get_user_brands(conn: sqlite3.Connection, user_id: int) -> list[dict]:
     """
-    Get all brands for a user.
+    Get all brands for a user, in the order the user arranged them.
 
     Args:
         conn: Active SQLite database connection
         user_id: User ID to look up
 
     Returns:
-        List of brand dicts
+        List of brand dicts, with aliases, products and exclude as lists
     """
     cursor = conn.execute(
         """
-        SELECT id, brand_name, is_mine, created_at, updated_at
+        SELECT id, brand_name, is_mine, created_at, updated_at, aliases_json, products_json, exclude_json
         FROM user_brands
         WHERE user_id = ?
-        ORDER BY is_mine DESC, brand_name ASC
+        ORDER BY sort_order ASC, id ASC
         """,
         (user_id,),
     )
@@ -2497,6 +3183,9 @@ def get_user_brands(conn: sqlite3.Connection, user_id: int) -> list[dict]:
             "is_mine": bool(row[2]),
             "created_at": row[3],
             "updated_at": row[4],
+            "aliases": json.loads(row[5]),
+            "products": json.loads(row[6]),
+            "exclude": json.loads(row[7]),
         }
         for row in cursor.fetchall()
     ]
@@ -2523,6 +3212,59 @@ def delete_user_brand(
     return cursor.rowcount > 0
 
 
+def update_user_brand(
+    conn: sqlite3.Connection,
+    brand_id: int,
+    user_id: int,
+    **fields,
+) -> bool:
+    """
+    Update the editable fields of a user brand; created_at is kept.
+
+    Args:
+        conn: Active SQLite database connection
+        brand_id: Brand record ID
+        user_id: User ID (for ownership verification)
+        **fields: Any of brand_name, is_mine, aliases, products, exclude
+
+    Returns:
+        True if updated, False if not found or not owned by user
+
+    Raises:
+        ValueError: If a field is not editable
+        sqlite3.IntegrityError: If the new name already exists for user
+    """
+    editable = {"brand_name", "is_mine", "aliases", "products", "exclude"}
+    return _update_user_row(conn, "user_brands", editable, brand_id, user_id, fields)
+
+
+def delete_user_brands(conn: sqlite3.Connection, brand_ids: list[int], user_id: int) -> int:
+    """
+    Delete several user brands at once.
+
+    Args:
+        conn: Active SQLite database connection
+        brand_ids: Brand record IDs; IDs of other users are ignored
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        Number of brands deleted
+    """
+    return _delete_user_rows(conn, "user_brands", brand_ids, user_id)
+
+
+def reorder_user_brands(conn: sqlite3.Connection, brand_ids: list[int], user_id: int) -> None:
+    """
+    Arrange a user's brands in the given order.
+
+    Args:
+        conn: Active SQLite database connection
+        brand_ids: Brand record IDs in their new order; IDs of other users are ignored
+        user_id: User ID (for ownership verification)
+    """
+    _reorder_user_rows(conn, "user_brands", brand_ids, user_id)
+
+
 # ============================================================================
 # User Intents CRUD Operations
 # ============================================================================
@@ -2551,19 +3293,20 @@ def create_user_intent(
     """
     timestamp = utc_timestamp()
     
+    # New intents go to the end of the user's list
     cursor = conn.execute(
         """
-        INSERT INTO user_intents (user_id, intent_alias, prompt, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?)
+        INSERT INTO user_intents (user_id, intent_alias, prompt, created_at, updated_at, sort_order)
+        VALUES (?, ?, ?, ?, ?, (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM user_intents WHERE user_id = ?))
         """,
-        (user_id, intent_alias, prompt, timestamp, timestamp),
+        (user_id, intent_alias, prompt, timestamp, timestamp, user_id),
     )
     return cursor.lastrowid
 
 
 def get_user_intents(conn: sqlite3.Connection, user_id: int) -> list[dict]:
     """
-    Get all intents for a user.
+    Get all intents for a user, in the order the user arranged them.
 
     Args:
         conn: Active SQLite database connection
@@ -2577,7 +3320,7 @@ def get_user_intents(conn: sqlite3.Connection, user_id: int) -> list[dict]:
         SELECT id, intent_alias, prompt, created_at, updated_at
         FROM user_intents
         WHERE user_id = ?
-        ORDER BY intent_alias ASC
+        ORDER BY sort_order ASC, id ASC
         """,
         (user_id,),
     )
@@ -2613,30 +3356,124 @@ def delete_user_intent(
     )
     return cursor.rowcount > 0
 
-def get_all_runs(conn: sqlite3.Connection, user_id: int | None = None) -> list[dict]:
+
+def update_user_intent(
+    conn: sqlite3.Connection,
+    intent_id: int,
+    user_id: int,
+    **fields,
+) -> bool:
     """
-    Retrieve a list of all historical runs with token usage.
+    Update the editable fields of a user intent; created_at is kept.
 
     Args:
         conn: Active SQLite database connection
-        user_id: Optional user ID to filter runs (if provided, only returns runs for this user)
+        intent_id: Intent record ID
+        user_id: User ID (for ownership verification)
+        **fields: Any of intent_alias, prompt
 
     Returns:
-        List of run summary dicts, ordered by timestamp descending.
+        True if updated, False if not found or not owned by user
+
+    Raises:
+        ValueError: If a field is not editable
+        sqlite3.IntegrityError: If the new alias already exists for user
     """
-    # SQLite JSON extract syntax: json_extract(column, '$.key')
-    
-    query = """
-        SELECT 
-            r.run_id, 
-            r.timestamp_utc, 
-            r.total_intents, 
-            r.total_models, 
-            r.total_cost_usd,
-            (
-                SELECT SUM(
-                    COALESCE(json_extract(usage_meta_json, '$.prompt_tokens'), 0)
-                ) 
+    return _update_user_row(conn, "user_intents", {"intent_alias", "prompt"}, intent_id, user_id, fields)
+
+
+def delete_user_intents(conn: sqlite3.Connection, intent_ids: list[int], user_id: int) -> int:
+    """
+    Delete several user intents at once.
+
+    Args:
+        conn: Active SQLite database connection
+        intent_ids: Intent record IDs; IDs of other users are ignored
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        Number of intents deleted
+    """
+    return _delete_user_rows(conn, "user_intents", intent_ids, user_id)
+
+
+def reorder_user_intents(conn: sqlite3.Connection, intent_ids: list[int], user_id: int) -> None:
+    """
+    Arrange a user's intents in the given order.
+
+    Args:
+        conn: Active SQLite database connection
+        intent_ids: Intent record IDs in their new order; IDs of other users are ignored
+        user_id: User ID (for ownership verification)
+    """
+    _reorder_user_rows(conn, "user_intents", intent_ids, user_id)
+
+
+# Shared by the user_brands and user_intents operations above (table names are never user input)
+
+def _update_user_row(
+    conn: sqlite3.Connection, table: str, editable: set[str], row_id: int, user_id: int, fields: dict
+) -> bool:
+    unknown = set(fields) - editable
+    if unknown:
+        raise ValueError(f"Cannot update {table} fields: {', '.join(sorted(unknown))}")
+    if "is_mine" in fields:
+        fields["is_mine"] = 1 if fields["is_mine"] else 0
+    # List fields are stored as JSON in <field>_json
+    columns = {
+        f"{name}_json" if isinstance(value, list) else name: json.dumps(value) if isinstance(value, list) else value
+        for name, value in fields.items()
+    }
+
+    assignments = "".join(f"{column} = ?, " for column in columns)
+    cursor = conn.execute(
+        f"UPDATE {table} SET {assignments}updated_at = ? WHERE id = ? AND user_id = ?",
+        (*columns.values(), utc_timestamp(), row_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+def _delete_user_rows(conn: sqlite3.Connection, table: str, row_ids: list[int], user_id: int) -> int:
+    if not row_ids:
+        return 0
+    placeholders = ", ".join("?" for _ in row_ids)
+    cursor = conn.execute(
+        f"DELETE FROM {table} WHERE user_id = ? AND id IN ({placeholders})",
+        (user_id, *row_ids),
+    )
+    return cursor.rowcount
+
+
+def _reorder_user_rows(conn: sqlite3.Connection, table: str, row_ids: list[int], user_id: int) -> None:
+    conn.executemany(
+        f"UPDATE {table} SET sort_order = ? WHERE id = ? AND user_id = ?",
+        [(position, row_id, user_id) for position, row_id in enumerate(row_ids)],
+    )
+
+def get_all_runs(conn: sqlite3.Connection, user_id: int | None = None) -> list[dict]:
+    """
+    Retrieve a list of all historical runs with token usage.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: Optional user ID to filter runs (if provided, only returns runs for this user)
+
+    Returns:
+        List of run summary dicts, ordered by timestamp descending.
+    """
+    # SQLite JSON extract syntax: json_extract(column, '$.key')
+    
+    query = """
+        SELECT 
+            r.run_id, 
+            r.timestamp_utc, 
+            r.total_intents, 
+            r.total_models, 
+            r.total_cost_usd,
+            (
+                SELECT SUM(
+                    COALESCE(json_extract(usage_meta_json, '$.prompt_tokens'), 0)
+                ) 
                 FROM answers_raw 
                 WHERE run_id = r.run_id
             ) as input_tokens,
@@ -2648,15 +3485,16 @@ def get_all_runs(conn: sqlite3.Connection, user_id: int | None = None) -> list[d
                 WHERE run_id = r.run_id
             ) as output_tokens,
             (
-                SELECT GROUP_CONCAT(DISTINCT brand_name)
+                SELECT GROUP_CONCAT(DISTINCT normalized_name)
                 FROM mentions
                 WHERE run_id = r.run_id AND is_mine = 1
             ) as my_brands,
             (
-                SELECT GROUP_CONCAT(DISTINCT brand_name)
+                SELECT GROUP_CONCAT(DISTINCT normalized_name)
                 FROM mentions
                 WHERE run_id = r.run_id AND is_mine = 0
-            ) as competitor_brands
+            ) as competitor_brands,
+            r.status
         FROM runs r
     """
     
@@ -2681,6 +3519,7 @@ def get_all_runs(conn: sqlite3.Connection, user_id: int | None = None) -> list[d
             "output_tokens": row[6] or 0,
             "my_brands": row[7] or "",
             "competitor_brands": row[8] or "",
+            "status": row[9],
         })
     return runs
 
@@ -2760,3 +3599,1098 @@ def get_user_settings(conn: sqlite3.Connection, user_id: int) -> dict | None:
     except json.JSONDecodeError:
         return {}
 
+
+# ============================================================================
+# Schedules CRUD Operations
+# ============================================================================
+
+_SCHEDULE_COLUMNS = (
+    "id, user_id, name, yaml_config, cron, enabled, next_run_at, last_run_id, "
+    "last_run_at, last_status, last_cost_usd, last_error, run_count, created_at, updated_at"
+)
+
+
+def _schedule_from_row(row: tuple) -> dict:
+    return {
+        "id": row[0],
+        "user_id": row[1],
+        "name": row[2],
+        "yaml_config": row[3],
+        "cron": row[4],
+        "enabled": bool(row[5]),
+        "next_run_at": row[6],
+        "last_run_id": row[7],
+        "last_run_at": row[8],
+        "last_status": row[9],
+        "last_cost_usd": row[10],
+        "last_error": row[11],
+        "run_count": row[12],
+        "created_at": row[13],
+        "updated_at": row[14],
+    }
+
+
+def create_schedule(
+    conn: sqlite3.Connection,
+    user_id: int,
+    name: str,
+    yaml_config: str,
+    cron: str,
+    next_run_at: str,
+) -> int:
+    """
+    Create a new schedule.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID who owns this schedule
+        name: Display name, unique per user
+        yaml_config: Watcher configuration to run (Dashboard YAML)
+        cron: Five-field cron expression, evaluated in UTC
+        next_run_at: ISO 8601 timestamp of the first run
+
+    Returns:
+        The new schedule record ID
+
+    Raises:
+        sqlite3.IntegrityError: If the name already exists for user
+    """
+    timestamp = utc_timestamp()
+
+    cursor = conn.execute(
+        """
+        INSERT INTO schedules (user_id, name, yaml_config, cron, next_run_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        """,
+        (user_id, name, yaml_config, cron, next_run_at, timestamp, timestamp),
+    )
+    return cursor.lastrowid
+
+
+def get_user_schedules(conn: sqlite3.Connection, user_id: int) -> list[dict]:
+    """
+    Get all schedules for a user, by name.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+
+    Returns:
+        List of schedule dicts
+    """
+    cursor = conn.execute(
+        f"SELECT {_SCHEDULE_COLUMNS} FROM schedules WHERE user_id = ? ORDER BY name",
+        (user_id,),
+    )
+    return [_schedule_from_row(row) for row in cursor.fetchall()]
+
+
+def get_schedule(conn: sqlite3.Connection, schedule_id: int, user_id: int | None = None) -> dict | None:
+    """
+    Get a schedule by ID.
+
+    Args:
+        conn: Active SQLite database connection
+        schedule_id: Schedule record ID
+        user_id: Optional owner, for ownership verification
+
+    Returns:
+        Schedule dict, or None if not found (or not owned by user_id)
+    """
+    if user_id is None:
+        cursor = conn.execute(
+            f"SELECT {_SCHEDULE_COLUMNS} FROM schedules WHERE id = ?", (schedule_id,)
+        )
+    else:
+        cursor = conn.execute(
+            f"SELECT {_SCHEDULE_COLUMNS} FROM schedules WHERE id = ? AND user_id = ?",
+            (schedule_id, user_id),
+        )
+    row = cursor.fetchone()
+    return _schedule_from_row(row) if row else None
+
+
+def update_schedule(
+    conn: sqlite3.Connection,
+    schedule_id: int,
+    user_id: int,
+    **fields,
+) -> bool:
+    """
+    Update the editable fields of a schedule.
+
+    Args:
+        conn: Active SQLite database connection
+        schedule_id: Schedule record ID
+        user_id: User ID (for ownership verification)
+        **fields: Any of name, yaml_config, cron, enabled, next_run_at
+
+    Returns:
+        True if updated, False if not found or not owned by user
+
+    Raises:
+        ValueError: If a field is not editable
+        sqlite3.IntegrityError: If the new name already exists for user
+    """
+    editable = {"name", "yaml_config", "cron", "enabled", "next_run_at"}
+    unknown = set(fields) - editable
+    if unknown:
+        raise ValueError(f"Cannot update schedule fields: {', '.join(sorted(unknown))}")
+    if "enabled" in fields:
+        fields["enabled"] = 1 if fields["enabled"] else 0
+
+    assignments = ", ".join(f"{column} = ?" for column in fields)
+    cursor = conn.execute(
+        f"UPDATE schedules SET {assignments}, updated_at = ? WHERE id = ? AND user_id = ?",
+        (*fields.values(), utc_timestamp(), schedule_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+def delete_schedule(conn: sqlite3.Connection, schedule_id: int, user_id: int) -> bool:
+    """
+    Delete a schedule. Runs it already made are kept.
+
+    Args:
+        conn: Active SQLite database connection
+        schedule_id: Schedule record ID
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        True if deleted, False if not found or not owned by user
+    """
+    cursor = conn.execute(
+        "DELETE FROM schedules WHERE id = ? AND user_id = ?",
+        (schedule_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+def get_due_schedules(conn: sqlite3.Connection, now: str) -> list[dict]:
+    """
+    Get the enabled schedules whose next run time has passed.
+
+    Args:
+        conn: Active SQLite database connection
+        now: ISO 8601 timestamp to compare next_run_at against
+
+    Returns:
+        List of schedule dicts, oldest due first
+    """
+    cursor = conn.execute(
+        f"""
+        SELECT {_SCHEDULE_COLUMNS} FROM schedules
+        WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+        ORDER BY next_run_at
+        """,
+        (now,),
+    )
+    return [_schedule_from_row(row) for row in cursor.fetchall()]
+
+
+def record_schedule_run_started(
+    conn: sqlite3.Connection,
+    schedule_id: int,
+    run_id: str | None,
+    started_at: str,
+    next_run_at: str,
+) -> None:
+    """
+    Record that a schedule fired and when it fires next.
+
+    The outcome is reset to "running" until record_schedule_run_finished().
+
+    Args:
+        conn: Active SQLite database connection
+        schedule_id: Schedule record ID
+        run_id: ID of the run it started (None if it could not start)
+        started_at: ISO 8601 timestamp of the attempt
+        next_run_at: ISO 8601 timestamp of the next run
+    """
+    conn.execute(
+        """
+        UPDATE schedules
+        SET last_run_id = ?, last_run_at = ?, last_status = 'running', last_cost_usd = NULL,
+            last_error = NULL, run_count = run_count + 1, next_run_at = ?
+        WHERE id = ?
+        """,
+        (run_id, started_at, next_run_at, schedule_id),
+    )
+
+
+def record_schedule_run_finished(
+    conn: sqlite3.Connection,
+    schedule_id: int,
+    status: str,
+    cost_usd: float | None = None,
+    error: str | None = None,
+) -> None:
+    """
+    Record the outcome of the latest run of a schedule.
+
+    Args:
+        conn: Active SQLite database connection
+        schedule_id: Schedule record ID
+        status: "success", "partial" or "failed"
+        cost_usd: Total cost of the run, if it ran
+        error: Failure reason for failed runs
+    """
+    if status not in ("success", "partial", "failed"):
+        raise ValueError(f"Invalid run status: {status}")
+
+    conn.execute(
+        "UPDATE schedules SET last_status = ?, last_cost_usd = ?, last_error = ? WHERE id = ?",
+        (status, cost_usd, error, schedule_id),
+    )
+
+
+# ============================================================================
+# Alert Rules & Notifications CRUD Operations
+# ============================================================================
+
+# Conditions an alert rule can check; see alerts.py
+ALERT_RULE_TYPES = ("rank_drop", "competitor_overtakes", "negative_sentiment", "share_of_voice_below")
+
+_ALERT_RULE_COLUMNS = (
+    "id, user_id, name, rule_type, intent_id, competitor, threshold, enabled, created_at, updated_at"
+)
+
+
+def _alert_rule_from_row(row: tuple) -> dict:
+    return {
+        "id": row[0],
+        "user_id": row[1],
+        "name": row[2],
+        "rule_type": row[3],
+        "intent_id": row[4],
+        "competitor": row[5],
+        "threshold": row[6],
+        "enabled": bool(row[7]),
+        "created_at": row[8],
+        "updated_at": row[9],
+    }
+
+
+def create_alert_rule(
+    conn: sqlite3.Connection,
+    user_id: int,
+    name: str,
+    rule_type: str,
+    intent_id: str | None = None,
+    competitor: str | None = None,
+    threshold: float | None = None,
+) -> int:
+    """
+    Create a new alert rule.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID who owns this rule
+        name: Display name
+        rule_type: One of ALERT_RULE_TYPES
+        intent_id: Config intent ID the rule watches (None = every intent)
+        competitor: Competitor brand for competitor_overtakes (None = any competitor)
+        threshold: Top-N rank for rank_drop, percentage for share_of_voice_below
+
+    Returns:
+        The new alert rule record ID
+
+    Raises:
+        ValueError: If rule_type is unknown
+    """
+    if rule_type not in ALERT_RULE_TYPES:
+        raise ValueError(f"Invalid alert rule type: {rule_type}")
+
+    timestamp = utc_timestamp()
+    cursor = conn.execute(
+        """
+        INSERT INTO alert_rules (
+            user_id, name, rule_type, intent_id, competitor, threshold, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        """,
+        (user_id, name, rule_type, intent_id, competitor, threshold, timestamp, timestamp),
+    )
+    return cursor.lastrowid
+
+
+def get_user_alert_rules(
+    conn: sqlite3.Connection, user_id: int, enabled_only: bool = False
+) -> list[dict]:
+    """
+    Get the alert rules of a user, oldest first.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+        enabled_only: Leave out paused rules
+
+    Returns:
+        List of alert rule dicts
+    """
+    query = f"SELECT {_ALERT_RULE_COLUMNS} FROM alert_rules WHERE user_id = ?"
+    if enabled_only:
+        query += " AND enabled = 1"
+    cursor = conn.execute(query + " ORDER BY id", (user_id,))
+    return [_alert_rule_from_row(row) for row in cursor.fetchall()]
+
+
+def set_alert_rule_enabled(
+    conn: sqlite3.Connection, rule_id: int, user_id: int, enabled: bool
+) -> bool:
+    """
+    Pause or resume an alert rule.
+
+    Args:
+        conn: Active SQLite database connection
+        rule_id: Alert rule record ID
+        user_id: User ID (for ownership verification)
+        enabled: New state
+
+    Returns:
+        True if updated, False if not found or not owned by user
+    """
+    cursor = conn.execute(
+        "UPDATE alert_rules SET enabled = ?, updated_at = ? WHERE id = ? AND user_id = ?",
+        (1 if enabled else 0, utc_timestamp(), rule_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+def delete_alert_rule(conn: sqlite3.Connection, rule_id: int, user_id: int) -> bool:
+    """
+    Delete an alert rule. Notifications it sent stay in the inbox.
+
+    Args:
+        conn: Active SQLite database connection
+        rule_id: Alert rule record ID
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        True if deleted, False if not found or not owned by user
+    """
+    # SQLite only applies ON DELETE SET NULL with foreign keys enabled
+    conn.execute(
+        "UPDATE notifications SET rule_id = NULL WHERE rule_id = ? AND user_id = ?",
+        (rule_id, user_id),
+    )
+    cursor = conn.execute(
+        "DELETE FROM alert_rules WHERE id = ? AND user_id = ?",
+        (rule_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+def create_notification(
+    conn: sqlite3.Connection,
+    user_id: int,
+    title: str,
+    message: str,
+    rule_id: int | None = None,
+    run_id: str | None = None,
+) -> int | None:
+    """
+    Add a notification to a user's inbox.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: Recipient
+        title: Short headline
+        message: Details
+        rule_id: Alert rule that fired, if any
+        run_id: Run that triggered it, if any
+
+    Returns:
+        The new notification record ID, or None if this rule already
+        notified about this run
+    """
+    cursor = conn.execute(
+        """
+        INSERT OR IGNORE INTO notifications (user_id, rule_id, run_id, title, message, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        """,
+        (user_id, rule_id, run_id, title, message, utc_timestamp()),
+    )
+    return cursor.lastrowid if cursor.rowcount > 0 else None
+
+
+def get_user_notifications(
+    conn: sqlite3.Connection,
+    user_id: int,
+    unread_only: bool = False,
+    run_id: str | None = None,
+    limit: int = 50,
+) -> list[dict]:
+    """
+    Get the notifications of a user, newest first.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+        unread_only: Only notifications not marked as read
+        run_id: Only notifications triggered by this run
+        limit: Maximum number of notifications
+
+    Returns:
+        List of notification dicts
+    """
+    query = """
+        SELECT id, rule_id, run_id, title, message, is_read, created_at
+        FROM notifications
+        WHERE user_id = ?
+    """
+    params: list = [user_id]
+    if unread_only:
+        query += " AND is_read = 0"
+    if run_id is not None:
+        query += " AND run_id = ?"
+        params.append(run_id)
+    query += " ORDER BY id DESC LIMIT ?"
+    params.append(limit)
+
+    return [
+        {
+            "id": row[0],
+            "rule_id": row[1],
+            "run_id": row[2],
+            "title": row[3],
+            "message": row[4],
+            "read": bool(row[5]),
+            "created_at": row[6],
+        }
+        for row in conn.execute(query, params).fetchall()
+    ]
+
+
+def count_unread_notifications(conn: sqlite3.Connection, user_id: int) -> int:
+    """
+    Count the unread notifications of a user (the inbox badge).
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+
+    Returns:
+        Number of unread notifications
+    """
+    cursor = conn.execute(
+        "SELECT COUNT(*) FROM notifications WHERE user_id = ? AND is_read = 0",
+        (user_id,),
+    )
+    return cursor.fetchone()[0]
+
+
+def mark_notifications_read(
+    conn: sqlite3.Connection, user_id: int, notification_id: int | None = None
+) -> int:
+    """
+    Mark one notification, or all of a user's notifications, as read.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID (for ownership verification)
+        notification_id: Notification to mark (None = all)
+
+    Returns:
+        Number of notifications that were unread
+    """
+    if notification_id is None:
+        cursor = conn.execute(
+            "UPDATE notifications SET is_read = 1 WHERE user_id = ? AND is_read = 0",
+            (user_id,),
+        )
+    else:
+        cursor = conn.execute(
+            "UPDATE notifications SET is_read = 1 WHERE id = ? AND user_id = ? AND is_read = 0",
+            (notification_id, user_id),
+        )
+    return cursor.rowcount
+
+
+def get_run_brand_mentions(
+    conn: sqlite3.Connection, run_id: str, intent_id: str | None = None
+) -> list[dict]:
+    """
+    Get the brand mentions of a run, for alert rules.
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run to look up
+        intent_id: Only mentions in answers to this intent
+
+    Returns:
+        List of dicts with intent_id, model_name, brand_name, is_mine,
+        rank_position and sentiment. brand_name is the canonical (normalized)
+        name, so a brand mentioned by different aliases counts as one brand.
+    """
+    query = """
+        SELECT intent_id, model_name, normalized_name, is_mine, rank_position, sentiment
+        FROM mentions
+        WHERE run_id = ?
+    """
+    params: list = [run_id]
+    if intent_id is not None:
+        query += " AND intent_id = ?"
+        params.append(intent_id)
+
+    return [
+        {
+            "intent_id": row[0],
+            "model_name": row[1],
+            "brand_name": row[2],
+            "is_mine": bool(row[3]),
+            "rank_position": row[4],
+            "sentiment": row[5],
+        }
+        for row in conn.execute(query, params).fetchall()
+    ]
+
+
+def get_previous_run_id(
+    conn: sqlite3.Connection, user_id: int, run_id: str, intent_id: str | None = None
+) -> str | None:
+    """
+    Get the user's latest run before run_id (with answers to intent_id, if given).
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: Owner of the runs
+        run_id: Run to look before (run IDs sort chronologically)
+        intent_id: Only consider runs that answered this intent
+
+    Returns:
+        The previous run_id, or None for a user's first run
+    """
+    query = "SELECT r.run_id FROM runs r WHERE r.user_id = ? AND r.run_id < ?"
+    params: list = [user_id, run_id]
+    if intent_id is not None:
+        query += " AND EXISTS (SELECT 1 FROM answers_raw a WHERE a.run_id = r.run_id AND a.intent_id = ?)"
+        params.append(intent_id)
+    row = conn.execute(query + " ORDER BY r.run_id DESC LIMIT 1", params).fetchone()
+    return row[0] if row else None
+
+
+def run_has_answers(conn: sqlite3.Connection, run_id: str, intent_id: str | None = None) -> bool:
+    """
+    Check whether a run stored any answer (to intent_id, if given).
+
+    Args:
+        conn: Active SQLite database connection
+        run_id: Run to look up
+        intent_id: Only count answers to this intent
+
+    Returns:
+        True if at least one answer exists
+    """
+    query = "SELECT 1 FROM answers_raw WHERE run_id = ?"
+    params: list = [run_id]
+    if intent_id is not None:
+        query += " AND intent_id = ?"
+        params.append(intent_id)
+    return conn.execute(query + " LIMIT 1", params).fetchone() is not None
+
+
+# ============================================================================
+# Webhooks CRUD Operations
+# ============================================================================
+
+# Payload shapes a webhook can receive; see webhooks.py
+WEBHOOK_FORMATS = ("generic", "slack", "teams")
+
+_WEBHOOK_COLUMNS = "id, user_id, name, url, payload_format, enabled, created_at, updated_at"
+
+
+def _webhook_from_row(row: tuple) -> dict:
+    return {
+        "id": row[0],
+        "user_id": row[1],
+        "name": row[2],
+        "url": row[3],
+        "payload_format": row[4],
+        "enabled": bool(row[5]),
+        "created_at": row[6],
+        "updated_at": row[7],
+    }
+
+
+def create_webhook(
+    conn: sqlite3.Connection,
+    user_id: int,
+    name: str,
+    url: str,
+    payload_format: str = "generic",
+) -> int:
+    """
+    Register a webhook that receives a summary of each completed run.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID who owns this webhook
+        name: Display name
+        url: Endpoint the summary is POSTed to
+        payload_format: One of WEBHOOK_FORMATS
+
+    Returns:
+        The new webhook record ID
+
+    Raises:
+        ValueError: If payload_format is unknown
+    """
+    if payload_format not in WEBHOOK_FORMATS:
+        raise ValueError(f"Invalid webhook format: {payload_format}")
+
+    timestamp = utc_timestamp()
+    cursor = conn.execute(
+        """
+        INSERT INTO webhooks (user_id, name, url, payload_format, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+        """,
+        (user_id, name, url, payload_format, timestamp, timestamp),
+    )
+    return cursor.lastrowid
+
+
+def get_user_webhooks(
+    conn: sqlite3.Connection, user_id: int, enabled_only: bool = False
+) -> list[dict]:
+    """
+    Get the webhooks of a user, oldest first.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+        enabled_only: Skip paused webhooks
+
+    Returns:
+        List of webhook dicts
+    """
+    query = f"SELECT {_WEBHOOK_COLUMNS} FROM webhooks WHERE user_id = ?"
+    if enabled_only:
+        query += " AND enabled = 1"
+    rows = conn.execute(query + " ORDER BY id", (user_id,)).fetchall()
+    return [_webhook_from_row(row) for row in rows]
+
+
+def get_webhook(conn: sqlite3.Connection, webhook_id: int, user_id: int) -> dict | None:
+    """
+    Get a single webhook (scoped to its owner).
+
+    Args:
+        conn: Active SQLite database connection
+        webhook_id: Webhook ID
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        Webhook dict, or None if not found
+    """
+    row = conn.execute(
+        f"SELECT {_WEBHOOK_COLUMNS} FROM webhooks WHERE id = ? AND user_id = ?",
+        (webhook_id, user_id),
+    ).fetchone()
+    return _webhook_from_row(row) if row else None
+
+
+def set_webhook_enabled(
+    conn: sqlite3.Connection, webhook_id: int, user_id: int, enabled: bool
+) -> bool:
+    """
+    Pause or resume a webhook.
+
+    Args:
+        conn: Active SQLite database connection
+        webhook_id: Webhook to update
+        user_id: User ID (for ownership verification)
+        enabled: New state
+
+    Returns:
+        True if the webhook was found
+    """
+    cursor = conn.execute(
+        "UPDATE webhooks SET enabled = ?, updated_at = ? WHERE id = ? AND user_id = ?",
+        (1 if enabled else 0, utc_timestamp(), webhook_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+def delete_webhook(conn: sqlite3.Connection, webhook_id: int, user_id: int) -> bool:
+    """
+    Delete a webhook and its delivery log.
+
+    Args:
+        conn: Active SQLite database connection
+        webhook_id: Webhook to delete
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        True if deleted, False if not found
+    """
+    if get_webhook(conn, webhook_id, user_id) is None:
+        return False
+    conn.execute("DELETE FROM webhook_deliveries WHERE webhook_id = ?", (webhook_id,))
+    conn.execute("DELETE FROM webhooks WHERE id = ?", (webhook_id,))
+    return True
+
+
+def record_webhook_delivery(
+    conn: sqlite3.Connection,
+    webhook_id: int,
+    event: str,
+    status_code: int | None,
+    error: str | None = None,
+    run_id: str | None = None,
+) -> int:
+    """
+    Log a delivery attempt of a webhook.
+
+    Args:
+        conn: Active SQLite database connection
+        webhook_id: Webhook that was called
+        event: "run.completed" or "test"
+        status_code: HTTP status of the response (None if the request failed)
+        error: Why the delivery failed, if it did
+        run_id: Run the summary was about (None for tests)
+
+    Returns:
+        The new delivery record ID
+    """
+    success = error is None and status_code is not None and 200 <= status_code < 300
+    cursor = conn.execute(
+        """
+        INSERT INTO webhook_deliveries (webhook_id, run_id, event, status_code, success, error, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        """,
+        (webhook_id, run_id, event, status_code, 1 if success else 0, error, utc_timestamp()),
+    )
+    return cursor.lastrowid
+
+
+def get_webhook_deliveries(
+    conn: sqlite3.Connection, webhook_id: int, limit: int = 20
+) -> list[dict]:
+    """
+    Get the delivery log of a webhook, newest first.
+
+    Args:
+        conn: Active SQLite database connection
+        webhook_id: Webhook to look up
+        limit: Maximum number of entries
+
+    Returns:
+        List of delivery dicts
+    """
+    rows = conn.execute(
+        """
+        SELECT id, run_id, event, status_code, success, error, created_at
+        FROM webhook_deliveries
+        WHERE webhook_id = ?
+        ORDER BY id DESC
+        LIMIT ?
+        """,
+        (webhook_id, limit),
+    ).fetchall()
+    return [
+        {
+            "id": row[0],
+            "run_id": row[1],
+            "event": row[2],
+            "status_code": row[3],
+            "success": bool(row[4]),
+            "error": row[5],
+            "created_at": row[6],
+        }
+        for row in rows
+    ]
+
+
+# ============================================================================
+# Share Links CRUD Operations
+# ============================================================================
+
+_SHARE_LINK_COLUMNS = "id, user_id, run_id, token, created_at, expires_at, revoked_at"
+
+# A link is usable until it is revoked or its expiry passes (timestamps sort chronologically)
+_SHARE_LINK_ACTIVE = "revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)"
+
+
+def _share_link_from_row(row: tuple) -> dict:
+    return {
+        "id": row[0],
+        "user_id": row[1],
+        "run_id": row[2],
+        "token": row[3],
+        "created_at": row[4],
+        "expires_at": row[5],
+        "revoked_at": row[6],
+    }
+
+
+def create_share_link(
+    conn: sqlite3.Connection,
+    user_id: int,
+    run_id: str,
+    token: str,
+    expires_at: str | None = None,
+) -> int:
+    """
+    Create a public, read-only link to a run's results.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: Owner of the run
+        run_id: Run to share
+        token: Unguessable token used in the public URL
+        expires_at: ISO 8601 timestamp after which the link stops working (None = never)
+
+    Returns:
+        The new share link record ID
+    """
+    cursor = conn.execute(
+        """
+        INSERT INTO share_links (user_id, run_id, token, created_at, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+        """,
+        (user_id, run_id, token, utc_timestamp(), expires_at),
+    )
+    return cursor.lastrowid
+
+
+def get_user_share_links(conn: sqlite3.Connection, user_id: int) -> list[dict]:
+    """
+    Get the active (not revoked, not expired) share links of a user, newest first.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+
+    Returns:
+        List of share link dicts
+    """
+    rows = conn.execute(
+        f"""
+        SELECT {_SHARE_LINK_COLUMNS} FROM share_links
+        WHERE user_id = ? AND {_SHARE_LINK_ACTIVE}
+        ORDER BY id DESC
+        """,
+        (user_id, utc_timestamp()),
+    ).fetchall()
+    return [_share_link_from_row(row) for row in rows]
+
+
+def get_active_share_link(conn: sqlite3.Connection, token: str) -> dict | None:
+    """
+    Look up a share link by its public token.
+
+    Args:
+        conn: Active SQLite database connection
+        token: Token from the public URL
+
+    Returns:
+        Share link dict, or None if unknown, revoked or expired
+    """
+    row = conn.execute(
+        f"SELECT {_SHARE_LINK_COLUMNS} FROM share_links WHERE token = ? AND {_SHARE_LINK_ACTIVE}",
+        (token, utc_timestamp()),
+    ).fetchone()
+    return _share_link_from_row(row) if row else None
+
+
+def revoke_share_link(conn: sqlite3.Connection, share_id: int, user_id: int) -> bool:
+    """
+    Revoke a share link so its URL stops working.
+
+    Args:
+        conn: Active SQLite database connection
+        share_id: Share link to revoke
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        True if an active link was revoked, False if not found or already revoked
+    """
+    cursor = conn.execute(
+        "UPDATE share_links SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL",
+        (utc_timestamp(), share_id, user_id),
+    )
+    return cursor.rowcount > 0
+
+
+# ============================================================================
+# Configuration Presets CRUD Operations
+# ============================================================================
+
+# Presets are listed with their latest version, which is what the Dashboard loads
+_PRESET_QUERY = """
+    SELECT p.id, p.user_id, p.name, p.created_at, p.updated_at, v.version, v.yaml_config
+    FROM config_presets p
+    JOIN config_preset_versions v ON v.preset_id = p.id
+    WHERE v.version = (SELECT MAX(version) FROM config_preset_versions WHERE preset_id = p.id)
+"""
+
+
+def _preset_from_row(row: tuple) -> dict:
+    return {
+        "id": row[0],
+        "user_id": row[1],
+        "name": row[2],
+        "created_at": row[3],
+        "updated_at": row[4],
+        "latest_version": row[5],
+        "yaml_config": row[6],
+    }
+
+
+def create_config_preset(
+    conn: sqlite3.Connection,
+    user_id: int,
+    name: str,
+    yaml_config: str,
+    note: str | None = None,
+) -> int:
+    """
+    Create a named configuration preset with its first version.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID who owns this preset
+        name: Display name, unique per user
+        yaml_config: Configuration of version 1 (Dashboard YAML)
+        note: Optional description of the version
+
+    Returns:
+        The new preset record ID
+
+    Raises:
+        sqlite3.IntegrityError: If the name already exists for user
+    """
+    timestamp = utc_timestamp()
+
+    cursor = conn.execute(
+        "INSERT INTO config_presets (user_id, name, created_at, updated_at) VALUES (?, ?, ?, ?)",
+        (user_id, name, timestamp, timestamp),
+    )
+    preset_id = cursor.lastrowid
+    conn.execute(
+        """
+        INSERT INTO config_preset_versions (preset_id, version, yaml_config, note, created_at)
+        VALUES (?, 1, ?, ?, ?)
+        """,
+        (preset_id, yaml_config, note, timestamp),
+    )
+    return preset_id
+
+
+def add_config_preset_version(
+    conn: sqlite3.Connection,
+    preset_id: int,
+    user_id: int,
+    yaml_config: str,
+    note: str | None = None,
+) -> int | None:
+    """
+    Save a new version of a preset; earlier versions are kept as history.
+
+    Args:
+        conn: Active SQLite database connection
+        preset_id: Preset record ID
+        user_id: User ID (for ownership verification)
+        yaml_config: Configuration of the new version (Dashboard YAML)
+        note: Optional description of the version
+
+    Returns:
+        The new version number, or None if the preset is not found
+    """
+    if get_config_preset(conn, preset_id, user_id) is None:
+        return None
+
+    timestamp = utc_timestamp()
+    (version,) = conn.execute(
+        "SELECT COALESCE(MAX(version), 0) + 1 FROM config_preset_versions WHERE preset_id = ?",
+        (preset_id,),
+    ).fetchone()
+    conn.execute(
+        """
+        INSERT INTO config_preset_versions (preset_id, version, yaml_config, note, created_at)
+        VALUES (?, ?, ?, ?, ?)
+        """,
+        (preset_id, version, yaml_config, note, timestamp),
+    )
+    conn.execute("UPDATE config_presets SET updated_at = ? WHERE id = ?", (timestamp, preset_id))
+    return version
+
+
+def get_user_config_presets(conn: sqlite3.Connection, user_id: int) -> list[dict]:
+    """
+    Get all presets of a user with their latest version, by name.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: User ID to look up
+
+    Returns:
+        List of preset dicts
+    """
+    rows = conn.execute(f"{_PRESET_QUERY} AND p.user_id = ? ORDER BY p.name", (user_id,)).fetchall()
+    return [_preset_from_row(row) for row in rows]
+
+
+def get_config_preset(conn: sqlite3.Connection, preset_id: int, user_id: int) -> dict | None:
+    """
+    Get a preset with its latest version.
+
+    Args:
+        conn: Active SQLite database connection
+        preset_id: Preset record ID
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        Preset dict, or None if not found or not owned by user
+    """
+    row = conn.execute(
+        f"{_PRESET_QUERY} AND p.id = ? AND p.user_id = ?", (preset_id, user_id)
+    ).fetchone()
+    return _preset_from_row(row) if row else None
+
+
+def get_config_preset_versions(conn: sqlite3.Connection, preset_id: int, user_id: int) -> list[dict]:
+    """
+    Get the version history of a preset, newest first.
+
+    Args:
+        conn: Active SQLite database connection
+        preset_id: Preset record ID
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        List of version dicts (empty if the preset is not found)
+    """
+    rows = conn.execute(
+        """
+        SELECT v.version, v.yaml_config, v.note, v.created_at
+        FROM config_preset_versions v
+        JOIN config_presets p ON p.id = v.preset_id
+        WHERE v.preset_id = ? AND p.user_id = ?
+        ORDER BY v.version DESC
+        """,
+        (preset_id, user_id),
+    ).fetchall()
+    return [
+        {"version": row[0], "yaml_config": row[1], "note": row[2], "created_at": row[3]}
+        for row in rows
+    ]
+
+
+def delete_config_preset(conn: sqlite3.Connection, preset_id: int, user_id: int) -> bool:
+    """
+    Delete a preset and all its versions.
+
+    Args:
+        conn: Active SQLite database connection
+        preset_id: Preset record ID
+        user_id: User ID (for ownership verification)
+
+    Returns:
+        True if deleted, False if not found
+    """
+    if get_config_preset(conn, preset_id, user_id) is None:
+        return False
+    conn.execute("DELETE FROM config_preset_versions WHERE preset_id = ?", (preset_id,))
+    conn.execute("DELETE FROM config_presets WHERE id = ?", (preset_id,))
+    return True
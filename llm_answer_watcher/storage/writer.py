@@ -365,6 +365,32 @@ def write_run_meta(run_dir: str, meta: dict) -> None:
     logger.info(f"Wrote run metadata: {filepath}")
 
 
+def read_run_meta(run_dir: str) -> dict | None:
+    """
+    Read the run metadata JSON of a run directory.
+
+    Used when a retry merges into an existing run, so the original totals are
+    kept.
+
+    Args:
+        run_dir: Run directory path (from create_run_directory)
+
+    Returns:
+        Run metadata dictionary, None if run_meta.json is missing or unreadable
+
+    Example:
+        >>> read_run_meta("./output/2025-11-02T08-00-00Z")["total_queries"]
+        6
+    """
+    filepath = os.path.join(run_dir, get_run_meta_filename())
+    try:
+        with open(filepath, encoding="utf-8") as f:
+            return json.load(f)
+    except (OSError, ValueError) as e:
+        logger.warning(f"Cannot read run metadata {filepath}: {e}")
+        return None
+
+
 def write_report_html(run_dir: str, html: str) -> None:
     """
     Write HTML report to run directory.
@@ -8,11 +8,14 @@ from fastapi import APIRouter, Depends, HTTPException, status
 from pydantic import BaseModel
 
 from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.config.schema import BrandEntity
 from llm_answer_watcher.storage.db import (
     create_user_brand,
     create_user_intent,
     delete_user_brand,
+    delete_user_brands,
     delete_user_intent,
+    delete_user_intents,
     get_user_brands,
     get_user_intents,
     init_db_if_needed,
@@ -21,6 +24,10 @@ from llm_answer_watcher.storage.db import (
     get_user_settings,
     upsert_user_settings,
     get_all_runs,
+    reorder_user_brands,
+    reorder_user_intents,
+    update_user_brand,
+    update_user_intent,
 )
 
 logger = logging.getLogger(__name__)
@@ -34,23 +41,54 @@ router = APIRouter(prefix="/user", tags=["user-config"])
 class BrandCreate(BaseModel):
     brand_name: str
     is_mine: bool
+    aliases: List[str] = []
+    products: List[str] = []
+    exclude: List[str] = []
+
+class BrandUpdate(BaseModel):
+    brand_name: str | None = None
+    is_mine: bool | None = None
+    aliases: List[str] | None = None
+    products: List[str] | None = None
+    exclude: List[str] | None = None
 
 class BrandResponse(BaseModel):
     id: int
+    # Canonical name; mentions of aliases and product lines count as this brand
     brand_name: str
     is_mine: bool
+    aliases: List[str]
+    products: List[str]
+    exclude: List[str]
     created_at: str
 
 class IntentCreate(BaseModel):
     intent_alias: str
     prompt: str
 
+class IntentUpdate(BaseModel):
+    intent_alias: str | None = None
+    prompt: str | None = None
+
 class IntentResponse(BaseModel):
     id: int
     intent_alias: str
     prompt: str
     created_at: str
 
+class IdList(BaseModel):
+    # Brand or intent IDs; for /order, in their new order
+    ids: List[int]
+
+# ----------------------------------------------------------------------------
+# Helpers
+# ----------------------------------------------------------------------------
+
+def _brand_terms(fields: dict) -> dict:
+    """Clean the aliases, products and exclude lists in fields like a config's brand entities do."""
+    lists = {name: fields[name] for name in ("aliases", "products", "exclude") if name in fields}
+    return {**fields, **BrandEntity(**lists).model_dump(include=set(lists))}
+
 # ----------------------------------------------------------------------------
 # Brand Endpoints
 # ----------------------------------------------------------------------------
@@ -80,8 +118,9 @@ async def add_brand(
     init_db_if_needed(db_path)
     with sqlite3.connect(db_path) as conn:
         try:
+            terms = _brand_terms(brand.model_dump(include={"aliases", "products", "exclude"}))
             brand_id = create_user_brand(
-                conn, current_user["id"], brand.brand_name, brand.is_mine
+                conn, current_user["id"], brand.brand_name, brand.is_mine, **terms
             )
             # Fetch back to get created_at
             # Optimization: could return full object from db function, but re-fetching is safer
@@ -116,6 +155,70 @@ async def remove_brand(
         )
     return {"message": "Brand deleted"}
 
+@router.patch("/brands/{brand_id}", response_model=BrandResponse)
+async def edit_brand(
+    brand_id: int,
+    changes: BrandUpdate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Rename a brand, switch it between mine and competitor, or change its
+    aliases, product lines and excluded terms.
+    """
+    fields = _brand_terms(changes.model_dump(exclude_none=True))
+    if "brand_name" in fields:
+        fields["brand_name"] = fields["brand_name"].strip()
+        if not fields["brand_name"]:
+            raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Brand name cannot be empty")
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        try:
+            updated = update_user_brand(conn, brand_id, current_user["id"], **fields) if fields else True
+        except sqlite3.IntegrityError:
+            raise HTTPException(
+                status_code=status.HTTP_400_BAD_REQUEST,
+                detail=f"Brand '{fields['brand_name']}' already exists",
+            )
+        brand = next((b for b in get_user_brands(conn, current_user["id"]) if b["id"] == brand_id), None)
+
+    if not updated or brand is None:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Brand not found",
+        )
+    return brand
+
+@router.post("/brands/bulk-delete")
+async def remove_brands(
+    selection: IdList,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Delete several brands at once.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        count = delete_user_brands(conn, selection.ids, current_user["id"])
+    return {"message": f"Deleted {count} brands"}
+
+@router.put("/brands/order", response_model=List[BrandResponse])
+async def order_brands(
+    order: IdList,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Arrange the brands; the Dashboard lists saved brands in this order.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        reorder_user_brands(conn, order.ids, current_user["id"])
+        brands = get_user_brands(conn, current_user["id"])
+    return brands
+
 # ----------------------------------------------------------------------------
 # Intent Endpoints
 # ----------------------------------------------------------------------------
@@ -179,6 +282,72 @@ async def remove_intent(
         )
     return {"message": "Intent deleted"}
 
+@router.patch("/intents/{intent_id}", response_model=IntentResponse)
+async def edit_intent(
+    intent_id: int,
+    changes: IntentUpdate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Change an intent's alias or prompt, keeping its creation date.
+    """
+    fields = changes.model_dump(exclude_none=True)
+    for field in fields:
+        fields[field] = fields[field].strip()
+        if not fields[field]:
+            raise HTTPException(
+                status_code=status.HTTP_400_BAD_REQUEST,
+                detail=f"Intent {'alias' if field == 'intent_alias' else 'prompt'} cannot be empty",
+            )
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        try:
+            updated = update_user_intent(conn, intent_id, current_user["id"], **fields) if fields else True
+        except sqlite3.IntegrityError:
+            raise HTTPException(
+                status_code=status.HTTP_400_BAD_REQUEST,
+                detail=f"Intent alias '{fields['intent_alias']}' already exists",
+            )
+        intent = next((i for i in get_user_intents(conn, current_user["id"]) if i["id"] == intent_id), None)
+
+    if not updated or intent is None:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Intent not found",
+        )
+    return intent
+
+@router.post("/intents/bulk-delete")
+async def remove_intents(
+    selection: IdList,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Delete several intents at once.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        count = delete_user_intents(conn, selection.ids, current_user["id"])
+    return {"message": f"Deleted {count} intents"}
+
+@router.put("/intents/order", response_model=List[IntentResponse])
+async def order_intents(
+    order: IdList,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Arrange the intents; the Dashboard lists saved intents in this order.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        reorder_user_intents(conn, order.ids, current_user["id"])
+        intents = get_user_intents(conn, current_user["id"])
+    return intents
+
 
 # ----------------------------------------------------------------------------
 # Settings & Data Management Endpoints
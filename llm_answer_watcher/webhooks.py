@@ -0,0 +1,286 @@
+"""
+Outbound webhooks that post a summary of each completed web run.
+
+This is the delivery side of the `webhook` operation type: instead of an LLM
+call, the run's outcome is POSTed as JSON to URLs the user registered in
+Settings > Integrations. The summary covers:
+- share of voice: my brand's share of all brand mentions, and the previous run's
+- rank changes: my brand's best rank per intent where it moved since the
+  previous run that answered that intent
+- cost: the run's total cost in USD
+
+Payload formats:
+- generic: the summary dict as-is
+- slack: {"text": ...} for Slack incoming webhooks (mrkdwn)
+- teams: a MessageCard for Microsoft Teams incoming webhooks
+
+Every attempt is logged in webhook_deliveries with the HTTP status code (or the
+error class), which the Settings page shows as the delivery log. Response bodies
+are never stored, and URLs whose host resolves to a loopback, private,
+link-local or reserved address are refused, so a webhook can't be used to read
+internal services through the server.
+
+Example:
+    >>> summary = build_run_summary(conn, user_id, "2025-11-05T10-00-00Z", 0.0123)
+    >>> format_payload(summary, "slack")
+    {'text': '*Run 2025-11-05T10-00-00Z completed*\\n• Share of voice: ...'}
+"""
+
+import ipaddress
+import logging
+import socket
+import sqlite3
+from urllib.parse import urlsplit
+
+import httpx
+
+from .storage.db import (
+    WEBHOOK_FORMATS,
+    get_previous_run_id,
+    get_run_brand_mentions,
+    get_user_webhooks,
+    record_webhook_delivery,
+)
+
+logger = logging.getLogger(__name__)
+
+# Chat services answer quickly; a slow endpoint must not hold up the run
+DELIVERY_TIMEOUT_SECONDS = 10.0
+
+
+def _host_error(url: str) -> str | None:
+    """
+    Resolve the host of a webhook URL and check that every address is public.
+
+    Returns:
+        None if the host only resolves to public addresses, else the error class:
+        "UnresolvableHost" or "BlockedHost" (loopback, private, link-local,
+        reserved or multicast)
+    """
+    host = urlsplit(url).hostname
+    if not host:
+        return "UnresolvableHost"
+    try:
+        infos = socket.getaddrinfo(host, None, proto=socket.IPPROTO_TCP)
+    except (socket.gaierror, UnicodeError):
+        return "UnresolvableHost"
+
+    for info in infos:
+        address = ipaddress.ip_address(info[4][0].split("%")[0])
+        if address.version == 6 and address.ipv4_mapped:
+            address = address.ipv4_mapped
+        if not address.is_global or address.is_multicast or address.is_reserved:
+            return "BlockedHost"
+    return None
+
+
+def validate_webhook(url: str, payload_format: str) -> None:
+    """
+    Check that a webhook has an HTTP(S) URL on a public host and a known payload format.
+
+    Raises:
+        ValueError: If the URL or the format is invalid, or the host can't be
+            resolved or resolves to a non-public address
+    """
+    if not url.startswith(("https://", "http://")) or len(url) <= len("https://"):
+        raise ValueError("Webhook URL must start with http:// or https://")
+    if payload_format not in WEBHOOK_FORMATS:
+        raise ValueError(
+            f"Invalid webhook format '{payload_format}', expected one of: {', '.join(WEBHOOK_FORMATS)}"
+        )
+
+    error = _host_error(url)
+    if error == "UnresolvableHost":
+        raise ValueError("Webhook URL host could not be resolved")
+    if error == "BlockedHost":
+        raise ValueError("Webhook URL must point to a public host, not a local or private address")
+
+
+def _share_of_voice(mentions: list[dict]) -> float | None:
+    if not mentions:
+        return None
+    return round(sum(1 for m in mentions if m["is_mine"]) / len(mentions) * 100, 1)
+
+
+def _my_best_ranks(mentions: list[dict]) -> dict[str, int | None]:
+    """My brand's best rank per intent (None = mentioned or answered, but unranked)."""
+    best: dict[str, int | None] = {}
+    for m in mentions:
+        best.setdefault(m["intent_id"], None)
+        if m["is_mine"] and m["rank_position"] is not None:
+            current = best[m["intent_id"]]
+            best[m["intent_id"]] = m["rank_position"] if current is None else min(current, m["rank_position"])
+    return best
+
+
+def build_run_summary(
+    conn: sqlite3.Connection, user_id: int, run_id: str, total_cost_usd: float
+) -> dict:
+    """
+    Summarize a completed run for webhooks.
+
+    Args:
+        conn: Active SQLite database connection
+        user_id: Owner of the run
+        run_id: Completed run
+        total_cost_usd: Total cost of the run (as reported by run_all)
+
+    Returns:
+        Summary dict with event, run_id, brand, share_of_voice,
+        previous_share_of_voice, rank_changes and cost_usd
+    """
+    mentions = get_run_brand_mentions(conn, run_id)
+    previous_run_id = get_previous_run_id(conn, user_id, run_id)
+    previous_mentions = get_run_brand_mentions(conn, previous_run_id) if previous_run_id else []
+
+    rank_changes = []
+    for intent_id, rank in sorted(_my_best_ranks(mentions).items()):
+        previous_intent_run = get_previous_run_id(conn, user_id, run_id, intent_id)
+        if previous_intent_run is None:
+            continue
+        previous = _my_best_ranks(get_run_brand_mentions(conn, previous_intent_run, intent_id))
+        previous_rank = previous.get(intent_id)
+        if previous_rank != rank:
+            rank_changes.append({"intent_id": intent_id, "previous_rank": previous_rank, "rank": rank})
+
+    return {
+        "event": "run.completed",
+        "run_id": run_id,
+        "brand": next((m["brand_name"] for m in mentions if m["is_mine"]), None),
+        "share_of_voice": _share_of_voice(mentions),
+        "previous_share_of_voice": _share_of_voice(previous_mentions),
+        "rank_changes": rank_changes,
+        "cost_usd": round(total_cost_usd, 6),
+    }
+
+
+def sample_summary() -> dict:
+    """Sample summary sent by the "Send test" button."""
+    return {
+        "event": "test",
+        "run_id": None,
+        "brand": "Your brand",
+        "share_of_voice": 42.0,
+        "previous_share_of_voice": 37.5,
+        "rank_changes": [{"intent_id": "example-intent", "previous_rank": 3, "rank": 1}],
+        "cost_usd": 0.0123,
+    }
+
+
+def _format_rank(rank: int | None) -> str:
+    return f"#{rank}" if rank is not None else "not ranked"
+
+
+def summary_lines(summary: dict) -> tuple[str, list[tuple[str, str]]]:
+    """Title and (label, value) facts of a summary, shared by the chat formats."""
+    if summary["event"] == "test":
+        title = "Test message from LLM Answer Watcher"
+    else:
+        title = f"Run {summary['run_id']} completed"
+
+    brand = summary["brand"] or "Your brand"
+    if summary["share_of_voice"] is None:
+        share = "no brand mentions"
+    else:
+        share = f"{brand} {summary['share_of_voice']:g}%"
+        if summary["previous_share_of_voice"] is not None:
+            share += f" (was {summary['previous_share_of_voice']:g}%)"
+
+    changes = "; ".join(
+        f"{c['intent_id']} {_format_rank(c['previous_rank'])} → {_format_rank(c['rank'])}"
+        for c in summary["rank_changes"]
+    ) or "none"
+
+    return title, [
+        ("Share of voice", share),
+        ("Rank changes", changes),
+        ("Cost", f"${summary['cost_usd']:.4f}"),
+    ]
+
+
+def format_payload(summary: dict, payload_format: str) -> dict:
+    """
+    Shape a summary for the receiving service.
+
+    Args:
+        summary: Output of build_run_summary() or sample_summary()
+        payload_format: One of WEBHOOK_FORMATS
+
+    Returns:
+        JSON-serializable request body
+    """
+    if payload_format == "generic":
+        return summary
+
+    title, facts = summary_lines(summary)
+    if payload_format == "slack":
+        return {"text": "\n".join([f"*{title}*", *(f"• {label}: {value}" for label, value in facts)])}
+
+    return {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        "summary": title,
+        "title": title,
+        "sections": [{"facts": [{"name": label, "value": value} for label, value in facts]}],
+    }
+
+
+def deliver(url: str, payload: dict) -> tuple[int | None, str | None]:
+    """
+    POST a payload to a webhook URL.
+
+    The host is checked again before sending, since DNS may have changed since
+    the webhook was registered. Redirects are not followed: a 3xx counts as a
+    failed delivery.
+
+    Returns:
+        (status_code, error): the HTTP status (None if no response) and why the
+        delivery failed (None on a 2xx response) - "HTTP <status>" or an error
+        class, never the response body
+    """
+    host_error = _host_error(url)
+    if host_error:
+        return None, host_error
+
+    try:
+        with httpx.Client(timeout=DELIVERY_TIMEOUT_SECONDS, follow_redirects=False) as client:
+            response = client.post(url, json=payload)
+    except httpx.HTTPError as e:
+        return None, type(e).__name__
+
+    if not response.is_success:
+        return response.status_code, f"HTTP {response.status_code}"
+    return response.status_code, None
+
+
+def send_webhook(
+    conn: sqlite3.Connection, webhook: dict, summary: dict
+) -> dict:
+    """
+    Deliver a summary to one webhook and log the attempt.
+
+    Returns:
+        Delivery dict with status_code, success and error
+    """
+    status_code, error = deliver(webhook["url"], format_payload(summary, webhook["payload_format"]))
+    record_webhook_delivery(conn, webhook["id"], summary["event"], status_code, error, summary["run_id"])
+    if error:
+        logger.warning(f"Webhook {webhook['id']} ({webhook['name']}) delivery failed: {error}")
+    return {"status_code": status_code, "success": error is None, "error": error}
+
+
+def send_run_summary(
+    conn: sqlite3.Connection, user_id: int, run_id: str, total_cost_usd: float
+) -> int:
+    """
+    Post the summary of a completed run to every enabled webhook of its owner.
+
+    Returns:
+        Number of successful deliveries
+    """
+    webhooks = get_user_webhooks(conn, user_id, enabled_only=True)
+    if not webhooks:
+        return 0
+
+    summary = build_run_summary(conn, user_id, run_id, total_cost_usd)
+    return sum(1 for webhook in webhooks if send_webhook(conn, webhook, summary)["success"])
@@ -0,0 +1,185 @@
+"""FastAPI router for outbound webhooks (Settings > Integrations)."""
+
+import asyncio
+import logging
+import sqlite3
+from typing import List
+
+from fastapi import APIRouter, Depends, HTTPException, status
+from pydantic import BaseModel
+
+from llm_answer_watcher.auth.dependencies import get_current_user, get_db_path
+from llm_answer_watcher.storage.db import (
+    create_webhook,
+    delete_webhook,
+    get_user_webhooks,
+    get_webhook,
+    get_webhook_deliveries,
+    init_db_if_needed,
+    set_webhook_enabled,
+)
+from llm_answer_watcher.webhooks import sample_summary, send_webhook, validate_webhook
+
+logger = logging.getLogger(__name__)
+
+router = APIRouter(prefix="/webhooks", tags=["webhooks"])
+
+# ----------------------------------------------------------------------------
+# Pydantic Models
+# ----------------------------------------------------------------------------
+
+class WebhookCreate(BaseModel):
+    name: str
+    url: str
+    payload_format: str = "generic"
+
+class WebhookUpdate(BaseModel):
+    enabled: bool
+
+class WebhookResponse(BaseModel):
+    id: int
+    name: str
+    url: str
+    payload_format: str
+    enabled: bool
+    created_at: str
+    updated_at: str
+
+class WebhookDeliveryResponse(BaseModel):
+    id: int | None = None
+    run_id: str | None = None
+    event: str | None = None
+    status_code: int | None
+    success: bool
+    error: str | None
+    created_at: str | None = None
+
+# ----------------------------------------------------------------------------
+# Helpers
+# ----------------------------------------------------------------------------
+
+def _owned_webhook(conn: sqlite3.Connection, webhook_id: int, user_id: int) -> dict:
+    webhook = get_webhook(conn, webhook_id, user_id)
+    if not webhook:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Webhook not found",
+        )
+    return webhook
+
+def _send_test(db_path: str, webhook: dict) -> dict:
+    with sqlite3.connect(db_path) as conn:
+        return send_webhook(conn, webhook, sample_summary())
+
+# ----------------------------------------------------------------------------
+# Endpoints
+# ----------------------------------------------------------------------------
+
+@router.get("", response_model=List[WebhookResponse])
+async def list_webhooks(
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    List all webhooks of the current user.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        webhooks = get_user_webhooks(conn, current_user["id"])
+    return webhooks
+
+@router.post("", response_model=WebhookResponse, status_code=status.HTTP_201_CREATED)
+async def add_webhook(
+    webhook: WebhookCreate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Register a webhook that receives a summary of each completed run.
+    """
+    name = webhook.name.strip()
+    url = webhook.url.strip()
+    if not name:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail="Webhook name cannot be empty")
+    try:
+        # Resolving the host blocks; keep the event loop responsive
+        await asyncio.to_thread(validate_webhook, url, webhook.payload_format)
+    except ValueError as e:
+        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST, detail=str(e))
+
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        webhook_id = create_webhook(conn, current_user["id"], name, url, webhook.payload_format)
+        created = get_webhook(conn, webhook_id, current_user["id"])
+
+    if not created:
+        raise HTTPException(status_code=500, detail="Failed to retrieve created webhook")
+    return created
+
+@router.patch("/{webhook_id}", response_model=WebhookResponse)
+async def edit_webhook(
+    webhook_id: int,
+    changes: WebhookUpdate,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Pause or resume a webhook.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        _owned_webhook(conn, webhook_id, current_user["id"])
+        set_webhook_enabled(conn, webhook_id, current_user["id"], changes.enabled)
+        updated = get_webhook(conn, webhook_id, current_user["id"])
+    return updated
+
+@router.delete("/{webhook_id}")
+async def remove_webhook(
+    webhook_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Delete a webhook and its delivery log.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        deleted = delete_webhook(conn, webhook_id, current_user["id"])
+
+    if not deleted:
+        raise HTTPException(
+            status_code=status.HTTP_404_NOT_FOUND,
+            detail="Webhook not found",
+        )
+    return {"message": "Webhook deleted"}
+
+@router.post("/{webhook_id}/test", response_model=WebhookDeliveryResponse)
+async def test_webhook(
+    webhook_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Send a sample summary to a webhook (also when paused) and return how it went.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        webhook = _owned_webhook(conn, webhook_id, current_user["id"])
+
+    # The request is blocking; keep the event loop (and running watchers) responsive
+    return await asyncio.to_thread(_send_test, db_path, webhook)
+
+@router.get("/{webhook_id}/deliveries", response_model=List[WebhookDeliveryResponse])
+async def list_webhook_deliveries(
+    webhook_id: int,
+    current_user: dict = Depends(get_current_user),
+    db_path: str = Depends(get_db_path),
+):
+    """
+    Get the latest delivery attempts of a webhook, newest first.
+    """
+    init_db_if_needed(db_path)
+    with sqlite3.connect(db_path) as conn:
+        _owned_webhook(conn, webhook_id, current_user["id"])
+        deliveries = get_webhook_deliveries(conn, webhook_id)
+    return deliveries
@@ -0,0 +1,153 @@
+"""
+Tests for alerts module.
+
+Tests alert rule conditions and when completed runs notify.
+"""
+
+import sqlite3
+
+import pytest
+
+from llm_answer_watcher.alerts import check_alert_rule, evaluate_alert_rules, validate_alert_rule
+from llm_answer_watcher.storage.db import (
+    create_alert_rule,
+    create_user,
+    get_user_notifications,
+    init_db_if_needed,
+    insert_answer_raw,
+    insert_mention,
+    insert_run,
+    set_alert_rule_enabled,
+)
+
+
+def _mention(brand, rank=None, is_mine=False, sentiment=None):
+    return {
+        "intent_id": "best-tools",
+        "model_name": "gemini-2.0-flash",
+        "brand_name": brand,
+        "is_mine": is_mine,
+        "rank_position": rank,
+        "sentiment": sentiment,
+    }
+
+
+def _rule(rule_type, threshold=None, competitor=None):
+    return {"rule_type": rule_type, "threshold": threshold, "competitor": competitor}
+
+
+def _insert_test_run(conn, run_id, user_id, mentions):
+    """Helper to store a run with one answer to best-tools and its mentions."""
+    timestamp = run_id[:13] + ":00:00Z"
+    insert_run(conn, run_id, timestamp, 1, 1, user_id=user_id)
+    insert_answer_raw(
+        conn, run_id, "best-tools", "google", "gemini-2.0-flash", timestamp, "Best tools?", "..."
+    )
+    for brand, rank, is_mine in mentions:
+        insert_mention(
+            conn, run_id, timestamp, "best-tools", "google", "gemini-2.0-flash",
+            brand, brand, is_mine, rank_position=rank,
+        )
+
+
+# ============================================================================
+# Conditions
+# ============================================================================
+
+
+def test_rank_drop_fires_outside_top_n():
+    """Test that rank_drop uses the best rank and treats unranked as out."""
+    rule = _rule("rank_drop", threshold=3)
+
+    assert check_alert_rule(rule, [_mention("Acme", 2, is_mine=True)]) is None
+    assert "best rank #4" in check_alert_rule(rule, [_mention("Acme", 4, is_mine=True)])
+    assert "not ranked" in check_alert_rule(rule, [_mention("Globex", 1)])
+
+
+def test_competitor_overtakes_any_or_named_competitor():
+    """Test that only competitors ranked above my brand count."""
+    mentions = [_mention("Acme", 2, is_mine=True), _mention("Globex", 1), _mention("Initech", 3)]
+
+    assert check_alert_rule(_rule("competitor_overtakes"), mentions) == "Globex (#1) ranked above Acme (#2)"
+    assert check_alert_rule(_rule("competitor_overtakes", competitor="initech"), mentions) is None
+
+
+def test_negative_sentiment_uses_net_sentiment():
+    """Test that mixed sentiment only fires when negative mentions outweigh positive ones."""
+    rule = _rule("negative_sentiment")
+
+    assert check_alert_rule(rule, [_mention("Acme", is_mine=True, sentiment="positive"),
+                                   _mention("Acme", is_mine=True, sentiment="negative")]) is None
+    assert "(-100)" in check_alert_rule(rule, [_mention("Acme", is_mine=True, sentiment="negative")])
+    assert check_alert_rule(rule, [_mention("Acme", is_mine=True)]) is None
+
+
+def test_share_of_voice_below_threshold():
+    """Test that share of voice is my mentions over all mentions."""
+    mentions = [_mention("Acme", is_mine=True), _mention("Globex"), _mention("Initech")]
+
+    assert "33.3%" in check_alert_rule(_rule("share_of_voice_below", threshold=50), mentions)
+    assert check_alert_rule(_rule("share_of_voice_below", threshold=30), mentions) is None
+    assert check_alert_rule(_rule("share_of_voice_below", threshold=30), []) is None
+
+
+@pytest.mark.parametrize(
+    ("rule_type", "threshold"),
+    [("unknown", None), ("rank_drop", None), ("rank_drop", 2.5), ("share_of_voice_below", 0), ("share_of_voice_below", 120)],
+)
+def test_validate_alert_rule_rejects_bad_thresholds(rule_type, threshold):
+    """Test that rules without a usable threshold are rejected."""
+    with pytest.raises(ValueError):
+        validate_alert_rule(rule_type, threshold)
+
+
+# ============================================================================
+# Evaluation
+# ============================================================================
+
+
+def test_evaluate_alert_rules_notifies_on_change_only(tmp_path):
+    """Test that a rule notifies when its condition starts holding, not while it keeps holding."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        create_alert_rule(conn, user_id, "Top 3 on best-tools", "rank_drop", intent_id="best-tools", threshold=3)
+
+        _insert_test_run(conn, "2025-11-03T10-00-00Z", user_id, [("Acme", 1, True)])
+        _insert_test_run(conn, "2025-11-04T10-00-00Z", user_id, [("Acme", 5, True)])
+        _insert_test_run(conn, "2025-11-05T10-00-00Z", user_id, [("Acme", 6, True)])
+
+        first = evaluate_alert_rules(conn, user_id, "2025-11-03T10-00-00Z")
+        dropped = evaluate_alert_rules(conn, user_id, "2025-11-04T10-00-00Z")
+        still_out = evaluate_alert_rules(conn, user_id, "2025-11-05T10-00-00Z")
+        # A retry of the same run must not notify twice
+        retried = evaluate_alert_rules(conn, user_id, "2025-11-04T10-00-00Z")
+
+        inbox = get_user_notifications(conn, user_id)
+
+    assert first == []
+    assert len(dropped) == 1
+    assert dropped[0]["message"] == "Acme is out of the top 3 (best rank #5) for intent best-tools."
+    assert still_out == []
+    assert retried == []
+    assert [(n["run_id"], n["read"]) for n in inbox] == [("2025-11-04T10-00-00Z", False)]
+
+
+def test_evaluate_alert_rules_skips_paused_rules_and_unanswered_intents(tmp_path):
+    """Test that paused rules and rules on intents the run did not answer stay quiet."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        paused_id = create_alert_rule(conn, user_id, "Any overtake", "competitor_overtakes")
+        set_alert_rule_enabled(conn, paused_id, user_id, False)
+        create_alert_rule(conn, user_id, "Pricing SOV", "share_of_voice_below", intent_id="pricing", threshold=50)
+
+        _insert_test_run(conn, "2025-11-05T10-00-00Z", user_id, [("Acme", 2, True), ("Globex", 1, False)])
+
+        fired = evaluate_alert_rules(conn, user_id, "2025-11-05T10-00-00Z")
+
+    assert fired == []
@@ -1,6 +1,9 @@
 import pytest
 from httpx import AsyncClient
-from llm_answer_watcher.api import app
+from llm_answer_watcher.api import app, build_runtime_config_from_dict
+from llm_answer_watcher.auth.dependencies import get_db_path
+from llm_answer_watcher.auth.security import create_access_token
+from llm_answer_watcher.storage.db import create_user, init_db_if_needed, insert_run
 import sqlite3
 import os
 import datetime
@@ -29,6 +32,22 @@ async def test_app_fixture():
     if os.path.exists(os.path.dirname(TEST_DB_PATH)):
         os.rmdir(os.path.dirname(TEST_DB_PATH))
 
+@pytest.fixture
+def auth_headers(test_app):
+    """Bearer headers for two users of the test database: "alice" and "bob"."""
+    app.dependency_overrides[get_db_path] = lambda: TEST_DB_PATH
+    init_db_if_needed(TEST_DB_PATH)
+    with sqlite3.connect(TEST_DB_PATH) as conn:
+        user_ids = {
+            name: create_user(conn, name, f"{name}@example.com", "hash")
+            for name in ("alice", "bob")
+        }
+    yield {
+        name: {"Authorization": f"Bearer {create_access_token(user_id)}"}
+        for name, user_id in user_ids.items()
+    }
+    app.dependency_overrides.pop(get_db_path, None)
+
 @pytest.fixture
 def sample_config_data():
     """Sample valid configuration data for testing."""
@@ -207,8 +226,121 @@ class TestAPI:
         assert len(data["intents_data"]) == 2 # Two intents
         assert len(data["intents_data"][0]["mentions"]) == 2 # 2 mentions per intent (simulated)
 
-    async def test_get_run_results_not_found(self, test_app: AsyncClient):
+    async def test_get_run_results_not_found(self, test_app: AsyncClient, auth_headers: dict):
         """Test /results/{run_id} endpoint with a non-existent run_id."""
-        response = await test_app.get("/results/non_existent_run")
+        response = await test_app.get("/results/non_existent_run", headers=auth_headers["alice"])
         assert response.status_code == 404
         assert "not found" in response.json()["detail"]
+
+    async def test_get_run_results_of_another_user(self, test_app: AsyncClient, auth_headers: dict):
+        """Test /results/{run_id} reports another user's run as not found."""
+        with sqlite3.connect(TEST_DB_PATH) as conn:
+            bob_id = conn.execute("SELECT id FROM users WHERE username = 'bob'").fetchone()[0]
+            insert_run(conn, "2025-11-02T08-00-00Z", "2025-11-02T08:00:00Z", 1, 1, user_id=bob_id)
+
+        response = await test_app.get("/results/2025-11-02T08-00-00Z", headers=auth_headers["alice"])
+        assert response.status_code == 404
+        assert "not found" in response.json()["detail"]
+
+    async def test_get_run_results_requires_token(self, test_app: AsyncClient):
+        """Test /results/{run_id} rejects requests without a bearer token."""
+        response = await test_app.get("/results/non_existent_run")
+        assert response.status_code == 403
+
+
+EXTRACTION_CONFIG = {
+    "run_settings": {
+        "output_dir": "./test_output",
+        "sqlite_db_path": "./test_output/test_watcher.db",
+        "models": [
+            {
+                "provider": "google",
+                "model_name": "models/gemini-2.5-flash",
+                "env_api_key": "GEMINI_API_KEY",
+            }
+        ],
+    },
+    "extraction_settings": {
+        "extraction_model": {
+            "provider": "groq",
+            "model_name": "llama-3.3-70b-versatile",
+            "env_api_key": "GROQ_API_KEY",
+        },
+        "method": "hybrid",
+        "min_confidence": 0.5,
+        "enable_intent_classification": False,
+    },
+    "brands": {"mine": ["MyBrand"], "competitors": ["CompA"]},
+    "intents": [{"id": "intent-1", "prompt": "What are the best marketing tools?"}],
+}
+
+
+class TestBuildRuntimeConfig:
+    """Tests for building a RuntimeConfig from a Dashboard run request."""
+
+    def test_without_extraction_settings(self):
+        """Test that configs without extraction_settings keep regex extraction."""
+        raw_config = {k: v for k, v in EXTRACTION_CONFIG.items() if k != "extraction_settings"}
+
+        config = build_runtime_config_from_dict(raw_config, {"google": "test-gemini-key"})
+
+        assert config.extraction_settings is None
+
+    def test_resolves_extraction_settings_with_request_keys(self):
+        """Test that the extraction model gets its key from the request, not the environment."""
+        config = build_runtime_config_from_dict(
+            EXTRACTION_CONFIG, {"google": "test-gemini-key", "groq": "test-groq-key"}
+        )
+
+        settings = config.extraction_settings
+        assert settings is not None
+        assert settings.extraction_model.provider == "groq"
+        assert settings.extraction_model.api_key == "test-groq-key"
+        assert settings.extraction_model.system_prompt
+        assert settings.method == "hybrid"
+        assert settings.min_confidence == 0.5
+        assert settings.enable_sentiment_analysis is True
+        assert settings.enable_intent_classification is False
+
+    def test_missing_extraction_key_raises(self):
+        """Test that a missing key for the extraction provider is reported."""
+        with pytest.raises(ValueError, match="extraction model"):
+            build_runtime_config_from_dict(EXTRACTION_CONFIG, {"google": "test-gemini-key"})
+
+    def test_resolves_intent_and_global_operations(self):
+        """Test that operations are resolved against the answering models."""
+        raw_config = {k: v for k, v in EXTRACTION_CONFIG.items() if k != "extraction_settings"}
+        raw_config["intents"] = [
+            {
+                "id": "intent-1",
+                "prompt": "What are the best marketing tools?",
+                "operations": [
+                    {
+                        "id": "gaps",
+                        "prompt": "What is missing about {brand:mine}?",
+                        "model": "models/gemini-2.5-flash",
+                    }
+                ],
+            }
+        ]
+        raw_config["global_operations"] = [
+            {"id": "summary", "prompt": "Summarize {operation:gaps}", "depends_on": ["gaps"]}
+        ]
+
+        config = build_runtime_config_from_dict(raw_config, {"google": "test-gemini-key"})
+
+        intent_operation = config.intents[0].operations[0]
+        assert intent_operation.runtime_model.model_name == "models/gemini-2.5-flash"
+        assert intent_operation.runtime_model.api_key == "test-gemini-key"
+        assert config.global_operations[0].runtime_model is None
+        assert config.global_operations[0].depends_on == ["gaps"]
+
+    def test_operation_with_unknown_model_raises(self):
+        """Test that an operation model override must be one of the run's models."""
+        raw_config = {k: v for k, v in EXTRACTION_CONFIG.items() if k != "extraction_settings"}
+        raw_config["global_operations"] = [
+            {"id": "summary", "prompt": "Summarize the answer", "model": "gpt-4o"}
+        ]
+
+        with pytest.raises(ValueError, match="not configured"):
+            build_runtime_config_from_dict(raw_config, {"google": "test-gemini-key"})
@@ -84,6 +84,16 @@ class TestBudgetEstimation:
         assert estimate["total_queries"] == 4  # 2 intents × 2 models
         assert len(estimate["per_model_costs"]) == 2
 
+    def test_estimate_only_queries(self, base_config):
+        """A retry is estimated for the queries it re-runs, not the whole config."""
+        full = estimate_run_cost(base_config)
+        retry = estimate_run_cost(base_config, {("intent2", "openai", "gpt-4o-mini")})
+
+        assert retry["total_queries"] == 1
+        assert list(retry["per_intent_costs"]) == ["intent2"]
+        assert retry["per_model_costs"][0]["num_queries"] == 1
+        assert abs(retry["total_estimated_cost"] * 2 - full["total_estimated_cost"]) < 0.000001
+
     def test_estimate_includes_safety_buffer(self, base_config):
         """Cost estimate should include 20% safety buffer."""
         estimate = estimate_run_cost(base_config)
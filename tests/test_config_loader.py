@@ -270,6 +270,25 @@ class TestBrands:
         )
         assert brands.competitors == ["Comp1", "Comp2"]
 
+    def test_entities_resolve_aliases_to_canonical_name(self):
+        """Brands should map aliases and product lines (any case) to the brand."""
+        brands = Brands(
+            mine=["HubSpot"],
+            competitors=["Salesforce"],
+            entities={"HubSpot": {"aliases": [" HubSpot CRM ", "", "hubspot crm"], "products": ["Sales Hub"]}},
+        )
+        assert brands.entities["HubSpot"].aliases == ["HubSpot CRM"]
+        assert brands.terms("HubSpot") == ["HubSpot", "HubSpot CRM", "Sales Hub"]
+        assert brands.terms("Salesforce") == ["Salesforce"]
+        assert brands.canonical_name("sales hub") == "HubSpot"
+        assert brands.canonical_name("Pipedrive") is None
+
+    def test_rejects_entity_for_untracked_brand(self):
+        """Brands should reject entities keyed by a name not in mine or competitors."""
+        with pytest.raises(ValidationError) as exc_info:
+            Brands(mine=["HubSpot"], entities={"Hubspot": {"aliases": ["HubSpot CRM"]}})
+        assert "not in mine or competitors" in str(exc_info.value)
+
 
 class TestIntent:
     """Test Intent Pydantic model."""
@@ -5,6 +5,7 @@ Tests cover:
 - Word-boundary regex matching (CRITICAL: prevents false positives)
 - Case-insensitive detection
 - Multiple aliases per brand support
+- Brand entities (aliases, product lines, excluded terms)
 - Brand normalization and deduplication
 - Position tracking and sorting
 - Edge cases (empty inputs, special characters, overlaps)
@@ -13,10 +14,12 @@ Tests cover:
 
 import pytest
 
+from llm_answer_watcher.config.schema import BrandEntity
 from llm_answer_watcher.extractor.mention_detector import (
     BrandMention,
     create_brand_pattern,
     detect_mentions,
+    mask_excluded_terms,
     normalize_brand_name,
 )
 
@@ -341,6 +344,59 @@ class TestDetectMentionsAliases:
         assert mentions[0].normalized_name == "HubSpot"
 
 
+class TestDetectMentionsEntities:
+    """Test suite for brand entities (aliases, product lines, excluded terms)."""
+
+    def test_detect_mentions_counts_alias_under_canonical_name(self):
+        """Test that an alias is detected as the brand itself."""
+        mentions = detect_mentions(
+            "Hubspot CRM is popular.",
+            our_brands=[],
+            competitor_brands=["HubSpot"],
+            entities={"HubSpot": BrandEntity(aliases=["HubSpot CRM"])},
+        )
+
+        assert len(mentions) == 1
+        assert mentions[0].original_text == "Hubspot CRM"  # Longer alias wins at the same position
+        assert mentions[0].normalized_name == "HubSpot"
+        assert mentions[0].brand_category == "competitor"
+
+    def test_detect_mentions_counts_product_line_under_canonical_name(self):
+        """Test that a product line is detected as the brand."""
+        mentions = detect_mentions(
+            "Try Sales Hub, then HubSpot's Marketing Hub.",
+            our_brands=["HubSpot"],
+            competitor_brands=[],
+            entities={"HubSpot": BrandEntity(products=["Sales Hub", "Marketing Hub"])},
+        )
+
+        assert len(mentions) == 1
+        assert mentions[0].original_text == "Sales Hub"  # First occurrence
+        assert mentions[0].normalized_name == "HubSpot"
+        assert mentions[0].brand_category == "mine"
+
+    def test_detect_mentions_ignores_excluded_terms(self):
+        """Test that excluded false-positive terms are not mentions."""
+        entities = {"Notion": BrandEntity(exclude=["Notion Capital"])}
+
+        assert detect_mentions(
+            "Notion Capital led the round.", [], ["Notion"], entities=entities
+        ) == []
+
+        mentions = detect_mentions(
+            "Notion Capital invested in Notion.", [], ["Notion"], entities=entities
+        )
+        assert len(mentions) == 1
+        assert mentions[0].match_position == 27
+
+    def test_mask_excluded_terms_keeps_positions(self):
+        """Test that masking replaces excluded terms with spaces of the same length."""
+        masked = mask_excluded_terms("See notion capital and Notion", ["Notion Capital"])
+
+        assert masked == "See                and Notion"
+        assert len(masked) == len("See notion capital and Notion")
+
+
 class TestDetectMentionsEdgeCases:
     """Test suite for edge cases."""
 
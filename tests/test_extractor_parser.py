@@ -18,10 +18,14 @@ Test coverage targets:
 - Edge cases (no mentions, only mine, only competitors, empty text)
 """
 
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, patch
+
 import pytest
 
-from llm_answer_watcher.config.schema import Brands
+from llm_answer_watcher.config.schema import BrandEntity, Brands
 from llm_answer_watcher.extractor.mention_detector import BrandMention
+from llm_answer_watcher.extractor.function_extractor import FunctionExtractionResult
 from llm_answer_watcher.extractor.parser import (
     ExtractionResult,
     parse_answer,
@@ -960,3 +964,49 @@ def test_parse_answer_integration_case_insensitive_matching(brands_config):
     assert result.ranked_list[0].brand_name == "Warmly"
     assert result.ranked_list[1].brand_name == "HubSpot"
     assert result.ranked_list[2].brand_name == "Instantly"
+
+
+@pytest.mark.asyncio
+async def test_parse_answer_function_calling_merges_aliases():
+    """Test function calling counts a brand reported under several names once."""
+    brands = Brands(
+        mine=["Warmly"],
+        competitors=["HubSpot"],
+        entities={"HubSpot": BrandEntity(aliases=["HubSpot CRM"])},
+    )
+    func_result = FunctionExtractionResult(
+        brands_mentioned=[
+            {"name": "HubSpot CRM", "rank": 2, "confidence": "high"},
+            {"name": "Warmly", "rank": 1, "confidence": "high", "sentiment": "positive"},
+            {"name": "HubSpot", "rank": 3, "confidence": "high", "sentiment": "neutral"},
+        ],
+        extraction_notes=None,
+        confidence_scores={},
+        method="function_calling",
+        fallback_used=False,
+    )
+
+    with patch(
+        "llm_answer_watcher.extractor.function_extractor.extract_with_function_calling",
+        new=AsyncMock(return_value=func_result),
+    ):
+        result = await parse_answer(
+            answer_text="1. Warmly\n2. HubSpot CRM\n3. HubSpot",
+            brands=brands,
+            intent_id="email-warmup",
+            provider="openai",
+            model_name="gpt-4o-mini",
+            timestamp_utc="2025-11-02T08:00:00Z",
+            extraction_settings=SimpleNamespace(method="function_calling"),
+        )
+
+    # One HubSpot mention, keeping the name the model first reported
+    assert len(result.competitor_mentions) == 1
+    hubspot = result.competitor_mentions[0]
+    assert hubspot.normalized_name == "HubSpot"
+    assert hubspot.original_text == "HubSpot CRM"
+    assert hubspot.sentiment == "neutral"
+
+    # One ranked entry per brand, at the best rank of any of its names
+    assert [b.brand_name for b in result.ranked_list] == ["Warmly", "HubSpot"]
+    assert [b.rank_position for b in result.ranked_list] == [1, 2]
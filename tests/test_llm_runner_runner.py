@@ -976,3 +976,53 @@ class TestRunAll:
         assert result["total_queries"] == 2
         assert result["success_count"] == 1
         assert result["error_count"] == 1
+
+
+class TestRetryMeta:
+    """Tests for merging a retry into the original run's run_meta.json."""
+
+    def test_retry_adds_to_original_totals(self):
+        """Counts and costs cover the whole run, not only the retried queries."""
+        from llm_answer_watcher.llm_runner.runner import _merge_retry_meta
+
+        original = {
+            "run_id": "2025-11-02T08-00-00Z",
+            "timestamp_utc": "2025-11-02T08:00:00Z",
+            "total_queries": 6,
+            "success_count": 4,
+            "error_count": 2,
+            "cancelled_count": 0,
+            "status": "partial",
+            "total_cost_usd": 0.04,
+            "total_llm_cost_usd": 0.03,
+            "total_operations_cost_usd": 0.01,
+        }
+        retry = {
+            "run_id": "2025-11-02T08-00-00Z",
+            "timestamp_utc": "2025-11-02T09:00:00Z",
+            "total_queries": 2,
+            "success_count": 1,
+            "error_count": 1,
+            "cancelled_count": 0,
+            "status": "partial",
+            "retry": True,
+            "total_cost_usd": 0.005,
+            "total_llm_cost_usd": 0.005,
+            "total_operations_cost_usd": 0.0,
+        }
+
+        merged = _merge_retry_meta(original, retry)
+
+        assert merged["timestamp_utc"] == "2025-11-02T08:00:00Z"
+        assert merged["last_retry_utc"] == "2025-11-02T09:00:00Z"
+        assert (merged["total_queries"], merged["success_count"], merged["error_count"]) == (6, 5, 1)
+        assert merged["total_cost_usd"] == 0.045
+        assert merged["total_llm_cost_usd"] == 0.035
+        assert merged["retry"] is True
+
+    def test_retry_without_original_meta(self):
+        """A retry whose original run_meta.json is missing writes its own."""
+        from llm_answer_watcher.llm_runner.runner import _merge_retry_meta
+
+        retry = {"timestamp_utc": "2025-11-02T09:00:00Z", "total_queries": 1}
+        assert _merge_retry_meta(None, retry) == retry
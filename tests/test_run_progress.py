@@ -0,0 +1,196 @@
+"""
+Tests for run_progress module.
+
+Tests live progress tracking of background runs started from the web API.
+"""
+
+import pytest
+
+from llm_answer_watcher.config.schema import (
+    Brands,
+    Intent,
+    ModelConfig,
+    RunSettings,
+    RuntimeConfig,
+    RuntimeModel,
+)
+from llm_answer_watcher.run_progress import create_run_progress, get_run_progress, new_run_id
+
+
+def create_test_config() -> RuntimeConfig:
+    """Helper to create a RuntimeConfig with 2 intents x 2 models."""
+    models = [
+        RuntimeModel(
+            provider="openai",
+            model_name="gpt-4o-mini",
+            api_key="key1",
+            system_prompt="You are a helpful assistant.",
+        ),
+        RuntimeModel(
+            provider="groq",
+            model_name="llama-3.3-70b-versatile",
+            api_key="key2",
+            system_prompt="You are a helpful assistant.",
+        ),
+    ]
+    return RuntimeConfig(
+        run_settings=RunSettings(
+            output_dir="./output",
+            sqlite_db_path="./test.db",
+            models=[
+                ModelConfig(
+                    provider=m.provider,
+                    model_name=m.model_name,
+                    env_api_key="TEST_API_KEY",
+                )
+                for m in models
+            ],
+            use_llm_rank_extraction=False,
+        ),
+        brands=Brands(mine=["InstantFlow"], competitors=["Lemwarm"]),
+        intents=[
+            Intent(id="intent1", prompt="Prompt 1"),
+            Intent(id="intent2", prompt="Prompt 2"),
+        ],
+        models=models,
+    )
+
+
+class TestRunProgress:
+    """Tests for RunProgress tracking."""
+
+    def test_all_queries_start_queued(self):
+        """Test that every intent x model cell is registered as queued."""
+        progress = create_run_progress("run-queued", 1, create_test_config())
+
+        data = progress.to_dict()
+        assert data["status"] == "running"
+        assert data["total_queries"] == 4
+        assert data["completed_queries"] == 0
+        assert {q["status"] for q in data["queries"]} == {"queued"}
+        assert get_run_progress("run-queued") is progress
+
+    @pytest.mark.asyncio
+    async def test_query_lifecycle_accumulates_cost(self):
+        """Test that queries move through running/done and costs add up."""
+        progress = create_run_progress("run-lifecycle", 1, create_test_config())
+
+        await progress.start_query("intent1", "openai", "gpt-4o-mini")
+        running = progress.queries["intent1_openai_gpt-4o-mini"]
+        assert running.status == "running"
+
+        await progress.complete_query("intent1_openai_gpt-4o-mini", success=True, cost_usd=0.002)
+        await progress.complete_query(
+            "intent2_groq_llama-3.3-70b-versatile", success=False
+        )
+
+        data = progress.to_dict()
+        assert data["completed_queries"] == 2
+        assert data["failed_queries"] == 1
+        assert data["total_cost_usd"] == 0.002
+
+    def test_mark_completed_attaches_errors(self):
+        """Test that run_all() errors are attached to the failed queries."""
+        progress = create_run_progress("run-errors", 1, create_test_config())
+
+        progress.mark_completed(
+            {
+                "run_id": "run-errors",
+                "errors": [
+                    {
+                        "intent_id": "intent2",
+                        "model_provider": "groq",
+                        "model_name": "llama-3.3-70b-versatile",
+                        "error_message": "API rate limit exceeded",
+                    }
+                ],
+            }
+        )
+
+        data = progress.to_dict()
+        assert data["status"] == "completed"
+        assert data["finished_at"] is not None
+        failed = progress.queries["intent2_groq_llama-3.3-70b-versatile"]
+        assert failed.status == "failed"
+        assert failed.error_message == "API rate limit exceeded"
+
+    def test_mark_failed_fails_unfinished_queries(self):
+        """Test that an aborted run fails every query that had not finished."""
+        progress = create_run_progress("run-aborted", 1, create_test_config())
+
+        progress.mark_failed("Budget exceeded")
+
+        data = progress.to_dict()
+        assert data["status"] == "failed"
+        assert data["error"] == "Budget exceeded"
+        assert data["failed_queries"] == 4
+        assert data["budget_exceeded"] is None
+
+    def test_mark_failed_records_budget_exceeded(self):
+        """Test that a run refused by a budget limit reports which limit was hit."""
+        progress = create_run_progress("run-over-budget", 1, create_test_config())
+        budget_exceeded = {
+            "budget_type": "per_run",
+            "budget_limit": 1.0,
+            "estimated_cost": 1.5,
+        }
+
+        progress.mark_failed(
+            "Estimated cost $1.50 exceeds max_per_run_usd budget of $1.00",
+            budget_exceeded=budget_exceeded,
+        )
+
+        data = progress.to_dict()
+        assert data["status"] == "failed"
+        assert data["budget_exceeded"] == budget_exceeded
+
+    @pytest.mark.asyncio
+    async def test_cancel_marks_undispatched_queries_cancelled(self):
+        """Test that queries skipped after cancel() end up cancelled, not failed."""
+        progress = create_run_progress("run-cancelled", 1, create_test_config())
+
+        await progress.start_query("intent1", "openai", "gpt-4o-mini")
+        await progress.complete_query("intent1_openai_gpt-4o-mini", success=True, cost_usd=0.001)
+        progress.cancel()
+        assert progress.cancel_event.is_set()
+        assert progress.to_dict()["cancel_requested"] is True
+
+        progress.mark_completed({"run_id": "run-cancelled", "status": "partial", "errors": []})
+
+        statuses = {key: q.status for key, q in progress.queries.items()}
+        assert statuses["intent1_openai_gpt-4o-mini"] == "done"
+        assert list(statuses.values()).count("cancelled") == 3
+        assert progress.to_dict()["failed_queries"] == 0
+
+    def test_retry_tracks_only_selected_queries(self):
+        """Test that a retry only tracks the failed cells it re-runs."""
+        progress = create_run_progress(
+            "run-retry",
+            1,
+            create_test_config(),
+            only_queries={("intent2", "groq", "llama-3.3-70b-versatile")},
+        )
+
+        data = progress.to_dict()
+        assert data["total_queries"] == 1
+        assert data["queries"][0]["intent_id"] == "intent2"
+
+    def test_unknown_run_returns_none(self):
+        """Test that runs not started by this process are unknown."""
+        assert get_run_progress("never-started") is None
+
+    def test_new_run_id_suffixes_runs_started_in_same_second(self, monkeypatch):
+        """Test that runs started in the same second get distinct run_ids."""
+        monkeypatch.setattr(
+            "llm_answer_watcher.run_progress.run_id_from_timestamp",
+            lambda: "2025-11-02T08-30-45Z",
+        )
+
+        first = new_run_id()
+        create_run_progress(first, 1, create_test_config())
+        second = new_run_id()
+        create_run_progress(second, 2, create_test_config())
+
+        assert first == "2025-11-02T08-30-45Z"
+        assert second == "2025-11-02T08-30-45Z-2"
+        assert new_run_id() == "2025-11-02T08-30-45Z-3"
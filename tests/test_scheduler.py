@@ -0,0 +1,134 @@
+"""
+Tests for scheduler module.
+
+Tests cron evaluation and saved API key lookup for scheduled runs.
+"""
+
+import sqlite3
+
+import pytest
+
+from llm_answer_watcher.auth.encryption import encrypt_api_key
+from llm_answer_watcher.config.schema import WatcherConfig
+from llm_answer_watcher.scheduler import (
+    next_run_time,
+    next_run_timestamp,
+    parse_cron,
+    providers_for_config,
+    resolve_saved_api_keys,
+)
+from llm_answer_watcher.storage.db import create_user, create_user_api_key, init_db_if_needed
+from llm_answer_watcher.utils.time import parse_timestamp
+
+
+def test_next_run_time_daily():
+    """Test that a daily schedule fires later the same day, then the next day."""
+    after = parse_timestamp("2025-11-05T08:30:00Z")
+
+    assert next_run_time("0 9 * * *", after) == parse_timestamp("2025-11-05T09:00:00Z")
+    assert next_run_time("0 9 * * *", parse_timestamp("2025-11-05T09:00:00Z")) == parse_timestamp(
+        "2025-11-06T09:00:00Z"
+    )
+
+
+def test_next_run_time_weekly():
+    """Test that day-of-week 1 is Monday and 7 is Sunday."""
+    after = parse_timestamp("2025-11-05T10:00:00Z")  # Wednesday
+
+    assert next_run_time("0 9 * * 1", after) == parse_timestamp("2025-11-10T09:00:00Z")
+    assert next_run_time("0 9 * * 7", after) == parse_timestamp("2025-11-09T09:00:00Z")
+
+
+def test_next_run_time_steps_ranges_and_lists():
+    """Test step, range and list syntax."""
+    after = parse_timestamp("2025-11-05T10:07:30Z")
+
+    assert next_run_time("*/15 * * * *", after) == parse_timestamp("2025-11-05T10:15:00Z")
+    assert next_run_time("0 8-10 * * *", after) == parse_timestamp("2025-11-06T08:00:00Z")
+    assert next_run_time("30 6,18 1,15 * *", after) == parse_timestamp("2025-11-15T06:30:00Z")
+
+
+def test_next_run_time_day_of_month_or_day_of_week():
+    """Test that restricting both day fields fires on either, like cron."""
+    after = parse_timestamp("2025-11-05T10:00:00Z")  # Wednesday
+
+    # 1st of the month or any Friday
+    assert next_run_time("0 9 1 * 5", after) == parse_timestamp("2025-11-07T09:00:00Z")
+
+
+def test_next_run_timestamp_formats_like_utc_timestamp():
+    """Test that timestamps are stored in the YYYY-MM-DDTHH:MM:SSZ format."""
+    after = parse_timestamp("2025-12-31T23:59:00Z")
+
+    assert next_run_timestamp("0 0 1 1 *", after) == "2026-01-01T00:00:00Z"
+
+
+@pytest.mark.parametrize(
+    "expression",
+    ["", "0 9 * *", "60 * * * *", "* 24 * * *", "0 9 0 * *", "0 9 * 13 *", "*/0 * * * *", "a * * * *", "5-1 * * * *"],
+)
+def test_parse_cron_rejects_invalid_expressions(expression):
+    """Test that malformed or out-of-range expressions raise ValueError."""
+    with pytest.raises(ValueError):
+        parse_cron(expression)
+
+
+def test_next_run_time_raises_when_never_firing():
+    """Test that impossible dates are reported instead of looping forever."""
+    with pytest.raises(ValueError, match="never fires"):
+        next_run_time("0 0 31 2 *", parse_timestamp("2025-11-05T10:00:00Z"))
+
+
+def test_providers_for_config_includes_extraction_model():
+    """Test that the extraction model's provider needs a key too."""
+    config = WatcherConfig.model_validate(
+        {
+            "run_settings": {
+                "output_dir": "./output",
+                "sqlite_db_path": "./output/watcher.db",
+                "models": [
+                    {"provider": "google", "model_name": "gemini-2.0-flash", "env_api_key": "GEMINI_API_KEY"}
+                ],
+            },
+            "extraction_settings": {
+                "extraction_model": {
+                    "provider": "groq",
+                    "model_name": "llama-3.1-8b-instant",
+                    "env_api_key": "GROQ_API_KEY",
+                }
+            },
+            "brands": {"mine": ["Acme"], "competitors": ["Globex"]},
+            "intents": [{"id": "best-tools", "prompt": "What are the best tools?"}],
+        }
+    )
+
+    assert providers_for_config(config) == {"google", "groq"}
+
+
+def test_resolve_saved_api_keys_prefers_default_key(tmp_path):
+    """Test that the unnamed key wins over named keys of the same provider."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        create_user_api_key(conn, user_id, "google", encrypt_api_key("named-key"), key_name="team")
+        create_user_api_key(conn, user_id, "google", encrypt_api_key("default-key"))
+        create_user_api_key(conn, user_id, "groq", encrypt_api_key("groq-key"), key_name="personal")
+
+        api_keys = resolve_saved_api_keys(conn, user_id, {"google", "groq"})
+
+    assert api_keys == {"google": "default-key", "groq": "groq-key"}
+
+
+def test_resolve_saved_api_keys_raises_for_missing_provider(tmp_path):
+    """Test that a provider without a saved key is reported by name."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        create_user_api_key(conn, user_id, "google", encrypt_api_key("default-key"))
+
+        with pytest.raises(ValueError, match="No saved API key for provider 'groq'"):
+            resolve_saved_api_keys(conn, user_id, {"google", "groq"})
@@ -25,13 +25,61 @@ from freezegun import freeze_time
 from llm_answer_watcher.storage.db import (
     CURRENT_SCHEMA_VERSION,
     apply_migrations,
+    count_unread_notifications,
+    add_config_preset_version,
+    add_run_cost,
+    create_alert_rule,
+    create_config_preset,
+    create_notification,
+    create_schedule,
+    create_share_link,
+    create_user,
+    create_user_brand,
+    create_user_intent,
+    create_webhook,
+    delete_alert_rule,
+    delete_config_preset,
+    delete_query_failure,
+    delete_schedule,
+    delete_user_brands,
+    delete_user_intents,
+    delete_webhook,
+    get_active_share_link,
+    get_config_preset,
+    get_config_preset_versions,
+    get_due_schedules,
+    get_operation_results,
+    get_query_failures,
+    get_run_status,
     get_run_summary,
+    get_run_user_id,
+    get_schedule,
     get_schema_version,
+    get_user_brands,
+    get_user_config_presets,
+    get_user_intents,
+    get_user_notifications,
+    get_user_schedules,
+    get_user_share_links,
+    get_webhook_deliveries,
     init_db_if_needed,
     insert_answer_raw,
     insert_mention,
+    insert_operation,
     insert_run,
+    mark_notifications_read,
+    record_schedule_run_finished,
+    record_schedule_run_started,
+    record_webhook_delivery,
+    reorder_user_brands,
+    reorder_user_intents,
+    revoke_share_link,
     update_run_cost,
+    update_run_status,
+    update_schedule,
+    update_user_brand,
+    update_user_intent,
+    upsert_query_failure,
 )
 from llm_answer_watcher.utils.time import utc_timestamp
 
@@ -925,6 +973,29 @@ def test_update_run_cost_with_zero_cost(tmp_path):
     assert cost == 0.0
 
 
+def test_add_run_cost_accumulates_retry_costs(tmp_path):
+    """Test that add_run_cost() adds a retry's cost to the run's total."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-02T08-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 1, 1)
+        add_run_cost(conn, run_id, 0.02)
+        add_run_cost(conn, run_id, 0.005)
+        conn.commit()
+
+        cost = conn.execute(
+            "SELECT total_cost_usd FROM runs WHERE run_id = ?", (run_id,)
+        ).fetchone()[0]
+
+        with pytest.raises(ValueError, match="run does not exist"):
+            add_run_cost(conn, "nonexistent-run-id", 0.01)
+
+    assert cost == pytest.approx(0.025)
+
+
 def test_update_run_cost_with_high_precision(tmp_path):
     """Test that update_run_cost() preserves high precision (6 decimals)."""
     db_path = tmp_path / "test.db"
@@ -947,6 +1018,643 @@ def test_update_run_cost_with_high_precision(tmp_path):
     assert cost == pytest.approx(high_precision_cost, abs=1e-9)
 
 
+# ============================================================================
+# Update Operations - update_run_status Tests
+# ============================================================================
+
+
+def test_new_run_defaults_to_success_status(tmp_path):
+    """Test that runs start with status 'success'."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-02T08-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 1, 1)
+        conn.commit()
+
+        assert get_run_status(conn, run_id) == "success"
+
+
+def test_update_run_status_marks_partial_run(tmp_path):
+    """Test that update_run_status() stores the new status."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-02T08-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 3, 2)
+        update_run_status(conn, run_id, "partial")
+        conn.commit()
+
+        assert get_run_status(conn, run_id) == "partial"
+
+
+def test_update_run_status_rejects_unknown_status(tmp_path):
+    """Test that update_run_status() rejects statuses outside the known set."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-02T08-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 1, 1)
+
+        with pytest.raises(ValueError, match="Invalid run status"):
+            update_run_status(conn, run_id, "cancelled")
+
+
+def test_update_run_status_raises_on_nonexistent_run(tmp_path):
+    """Test that update_run_status() raises ValueError for non-existent run_id."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        with pytest.raises(ValueError, match="run does not exist"):
+            update_run_status(conn, "nonexistent-run-id", "failed")
+
+        assert get_run_status(conn, "nonexistent-run-id") is None
+
+
+# ============================================================================
+# Query Failures - upsert/delete/get_query_failures Tests
+# ============================================================================
+
+
+def test_upsert_query_failure_replaces_previous_error(tmp_path):
+    """Test that a query records one failure, updated by later attempts."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-02T08-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 1, 1)
+        upsert_query_failure(
+            conn, run_id, "email-warmup", "openai", "gpt-4o-mini",
+            "2025-11-02T08:00:00Z", "API rate limit exceeded",
+        )
+        upsert_query_failure(
+            conn, run_id, "email-warmup", "openai", "gpt-4o-mini",
+            "2025-11-02T08:05:00Z", "Request timed out",
+        )
+        conn.commit()
+
+        failures = get_query_failures(conn, run_id)
+
+    assert failures == [
+        {
+            "intent_id": "email-warmup",
+            "model_provider": "openai",
+            "model_name": "gpt-4o-mini",
+            "timestamp_utc": "2025-11-02T08:05:00Z",
+            "error_message": "Request timed out",
+        }
+    ]
+
+
+def test_delete_query_failure_clears_only_that_query(tmp_path):
+    """Test that answering a retried query clears its failure only."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-02T08-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 2, 1)
+        for intent_id in ("email-warmup", "crm-tools"):
+            upsert_query_failure(
+                conn, run_id, intent_id, "openai", "gpt-4o-mini",
+                utc_timestamp(), "API rate limit exceeded",
+            )
+
+        assert delete_query_failure(conn, run_id, "email-warmup", "openai", "gpt-4o-mini")
+        assert not delete_query_failure(conn, run_id, "email-warmup", "openai", "gpt-4o-mini")
+        conn.commit()
+
+        remaining = get_query_failures(conn, run_id)
+
+    assert [f["intent_id"] for f in remaining] == ["crm-tools"]
+
+
+def test_get_query_failures_empty_for_complete_run(tmp_path):
+    """Test that a run without failures returns an empty list."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, "2025-11-02T08-00-00Z", utc_timestamp(), 1, 1, user_id=7)
+        conn.commit()
+
+        assert get_query_failures(conn, "2025-11-02T08-00-00Z") == []
+        assert get_run_user_id(conn, "2025-11-02T08-00-00Z") == 7
+        assert get_run_user_id(conn, "nonexistent-run-id") is None
+
+
+# ============================================================================
+# Operations - insert_operation/get_operation_results Tests
+# ============================================================================
+
+
+def _insert_test_operation(conn, run_id, answer_model_name, **overrides):
+    fields = {
+        "run_id": run_id,
+        "intent_id": "email-warmup",
+        "model_provider": "openai",
+        "model_name": "gpt-4o-mini",
+        "operation_id": "content-gaps",
+        "operation_description": "Identify content opportunities",
+        "operation_prompt": "Analyze how to improve ranking...",
+        "result_text": f"Gaps in the {answer_model_name} answer",
+        "tokens_used_input": 150,
+        "tokens_used_output": 200,
+        "cost_usd": 0.0005,
+        "timestamp_utc": "2025-11-05T10:00:15Z",
+        "depends_on": [],
+        "execution_order": 0,
+        "answer_model_provider": "openai",
+        "answer_model_name": answer_model_name,
+    }
+    fields.update(overrides)
+    insert_operation(conn, **fields)
+
+
+def test_insert_operation_keeps_one_result_per_answering_model(tmp_path):
+    """Test that the same operation on two answers (same operation model) is stored twice."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-05T10-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 1, 2)
+        _insert_test_operation(conn, run_id, "gpt-4o-mini")
+        _insert_test_operation(conn, run_id, "gpt-4o")
+        # Idempotent per answer
+        _insert_test_operation(conn, run_id, "gpt-4o", result_text="Ignored")
+        conn.commit()
+
+        results = get_operation_results(conn, run_id)
+
+    assert [(r["answer_model_name"], r["result_text"]) for r in results] == [
+        ("gpt-4o", "Gaps in the gpt-4o answer"),
+        ("gpt-4o-mini", "Gaps in the gpt-4o-mini answer"),
+    ]
+    assert all(r["model_name"] == "gpt-4o-mini" for r in results)
+
+
+def test_insert_operation_records_failed_operation(tmp_path):
+    """Test that a failed operation is stored with its error and no output."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    run_id = "2025-11-05T10-00-00Z"
+
+    with sqlite3.connect(db_path) as conn:
+        insert_run(conn, run_id, utc_timestamp(), 1, 1)
+        _insert_test_operation(
+            conn, run_id, "gpt-4o-mini",
+            operation_id="action-items", result_text="", error="API timeout",
+            depends_on=["content-gaps"], execution_order=1,
+        )
+        with pytest.raises(ValueError, match="result_text cannot be empty"):
+            _insert_test_operation(conn, run_id, "gpt-4o", result_text="")
+        conn.commit()
+
+        results = get_operation_results(conn, run_id)
+
+    assert len(results) == 1
+    assert results[0]["operation_id"] == "action-items"
+    assert results[0]["result_text"] == ""
+    assert results[0]["error"] == "API timeout"
+    assert results[0]["depends_on"] == ["content-gaps"]
+    assert results[0]["skipped"] is False
+
+
+def test_migration_v13_keeps_existing_operations(tmp_path):
+    """Test that v13 backfills the answering model from the operation model."""
+    db_path = tmp_path / "test.db"
+
+    with sqlite3.connect(db_path) as conn:
+        conn.execute("""
+            CREATE TABLE IF NOT EXISTS schema_version (
+                version INTEGER PRIMARY KEY,
+                applied_at TEXT NOT NULL
+            )
+        """)
+        apply_migrations(conn, 0, 12)
+        insert_run(conn, "2025-11-05T10-00-00Z", utc_timestamp(), 1, 1)
+        conn.execute(
+            """
+            INSERT INTO operations (
+                run_id, intent_id, model_provider, model_name, operation_id,
+                operation_prompt, result_text, timestamp_utc, execution_order
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            """,
+            (
+                "2025-11-05T10-00-00Z", "email-warmup", "openai", "gpt-4o-mini",
+                "content-gaps", "Analyze...", "Create blog posts", "2025-11-05T10:00:15Z", 0,
+            ),
+        )
+        conn.commit()
+
+        apply_migrations(conn, 12, 13)
+
+        version = get_schema_version(conn)
+        results = get_operation_results(conn, "2025-11-05T10-00-00Z")
+        indexes = {
+            row[0]
+            for row in conn.execute(
+                "SELECT name FROM sqlite_master WHERE type='index' AND tbl_name='operations'"
+            )
+        }
+
+    assert version == 13
+    assert results[0]["answer_model_provider"] == "openai"
+    assert results[0]["answer_model_name"] == "gpt-4o-mini"
+    assert results[0]["result_text"] == "Create blog posts"
+    assert {"idx_operations_run", "idx_operations_intent"} <= indexes
+
+
+# ============================================================================
+# Schedules
+# ============================================================================
+
+
+def _create_test_schedule(conn, name="Daily check", next_run_at="2025-11-05T09:00:00Z"):
+    """Helper to create a user and a schedule owned by them."""
+    username = name.lower().replace(" ", "-")
+    user_id = create_user(conn, username, f"{username}@example.com", "hash")
+    schedule_id = create_schedule(conn, user_id, name, "brands: {}", "0 9 * * *", next_run_at)
+    return user_id, schedule_id
+
+
+def test_create_schedule_and_list_for_owner(tmp_path):
+    """Test that a schedule is stored enabled and listed for its owner only."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id, schedule_id = _create_test_schedule(conn)
+        other_id, _ = _create_test_schedule(conn, name="Weekly check")
+
+        schedules = get_user_schedules(conn, user_id)
+        other = get_schedule(conn, schedule_id, other_id)
+
+    assert [s["id"] for s in schedules] == [schedule_id]
+    assert schedules[0]["enabled"] is True
+    assert schedules[0]["cron"] == "0 9 * * *"
+    assert schedules[0]["last_status"] is None
+    assert schedules[0]["run_count"] == 0
+    assert other is None
+
+
+def test_create_schedule_rejects_duplicate_name(tmp_path):
+    """Test that schedule names are unique per user."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id, _ = _create_test_schedule(conn)
+        with pytest.raises(sqlite3.IntegrityError):
+            create_schedule(conn, user_id, "Daily check", "brands: {}", "0 9 * * *", "2025-11-05T09:00:00Z")
+
+
+def test_update_schedule_pauses_and_rejects_unknown_fields(tmp_path):
+    """Test that paused schedules are never due and only editable fields change."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id, schedule_id = _create_test_schedule(conn)
+        assert update_schedule(conn, schedule_id, user_id, enabled=False)
+
+        due = get_due_schedules(conn, "2025-11-06T00:00:00Z")
+
+        with pytest.raises(ValueError, match="run_count"):
+            update_schedule(conn, schedule_id, user_id, run_count=5)
+
+    assert due == []
+
+
+def test_get_due_schedules_compares_next_run_at(tmp_path):
+    """Test that only schedules whose next run has passed are due."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        _, due_id = _create_test_schedule(conn, next_run_at="2025-11-05T09:00:00Z")
+        _create_test_schedule(conn, name="Later", next_run_at="2025-11-05T10:00:00Z")
+
+        due = get_due_schedules(conn, "2025-11-05T09:00:00Z")
+
+    assert [s["id"] for s in due] == [due_id]
+
+
+def test_record_schedule_run_outcome(tmp_path):
+    """Test that a run moves next_run_at and records its status and cost."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id, schedule_id = _create_test_schedule(conn)
+        record_schedule_run_started(
+            conn, schedule_id, "2025-11-05T09-00-00Z", "2025-11-05T09:00:10Z", "2025-11-06T09:00:00Z"
+        )
+        running = get_schedule(conn, schedule_id)
+
+        record_schedule_run_finished(conn, schedule_id, "partial", cost_usd=0.0123)
+        finished = get_schedule(conn, schedule_id, user_id)
+
+        with pytest.raises(ValueError, match="Invalid run status"):
+            record_schedule_run_finished(conn, schedule_id, "completed")
+
+    assert running["last_status"] == "running"
+    assert running["next_run_at"] == "2025-11-06T09:00:00Z"
+    assert running["run_count"] == 1
+    assert finished["last_run_id"] == "2025-11-05T09-00-00Z"
+    assert finished["last_status"] == "partial"
+    assert finished["last_cost_usd"] == 0.0123
+
+
+def test_delete_schedule_checks_owner(tmp_path):
+    """Test that only the owner can delete a schedule."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id, schedule_id = _create_test_schedule(conn)
+        other_id, _ = _create_test_schedule(conn, name="Other")
+
+        assert not delete_schedule(conn, schedule_id, other_id)
+        assert delete_schedule(conn, schedule_id, user_id)
+        assert get_schedule(conn, schedule_id) is None
+
+
+# ============================================================================
+# Alert Rules & Notifications
+# ============================================================================
+
+
+def test_notifications_unread_count_and_mark_read(tmp_path):
+    """Test that marking one or all notifications read updates the unread count."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        first_id = create_notification(conn, user_id, "Top 3", "Acme dropped", run_id="2025-11-05T10-00-00Z")
+        create_notification(conn, user_id, "Share of voice", "Acme fell to 20%")
+
+        assert count_unread_notifications(conn, user_id) == 2
+        assert mark_notifications_read(conn, user_id, first_id) == 1
+        unread = get_user_notifications(conn, user_id, unread_only=True)
+        assert mark_notifications_read(conn, user_id) == 1
+        assert count_unread_notifications(conn, user_id) == 0
+
+    assert [n["title"] for n in unread] == ["Share of voice"]
+
+
+def test_delete_alert_rule_keeps_its_notifications(tmp_path):
+    """Test that notifications outlive the rule that sent them."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        rule_id = create_alert_rule(conn, user_id, "Top 3", "rank_drop", threshold=3)
+        create_notification(conn, user_id, "Top 3", "Acme dropped", rule_id=rule_id, run_id="2025-11-05T10-00-00Z")
+
+        assert delete_alert_rule(conn, rule_id, user_id)
+        notifications = get_user_notifications(conn, user_id)
+
+        with pytest.raises(ValueError, match="Invalid alert rule type"):
+            create_alert_rule(conn, user_id, "Bad", "rank_rise")
+
+    assert len(notifications) == 1
+    assert notifications[0]["rule_id"] is None
+
+
+# ============================================================================
+# Webhooks
+# ============================================================================
+
+
+def test_webhook_deliveries_log_and_delete(tmp_path):
+    """Test that deliveries are logged newest first and deleted with their webhook."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        alice_id = create_user(conn, "alice", "alice@example.com", "hash")
+        bob_id = create_user(conn, "bob", "bob@example.com", "hash")
+        webhook_id = create_webhook(conn, alice_id, "Team channel", "https://hooks.example.com/a", "slack")
+        record_webhook_delivery(conn, webhook_id, "test", 200)
+        record_webhook_delivery(conn, webhook_id, "run.completed", 404, "HTTP 404: not found", "2025-11-05T10-00-00Z")
+
+        deliveries = get_webhook_deliveries(conn, webhook_id)
+        assert not delete_webhook(conn, webhook_id, bob_id)
+        assert delete_webhook(conn, webhook_id, alice_id)
+        remaining = get_webhook_deliveries(conn, webhook_id)
+
+        with pytest.raises(ValueError, match="Invalid webhook format"):
+            create_webhook(conn, alice_id, "Bad", "https://hooks.example.com/b", "discord")
+
+    assert [(d["event"], d["status_code"], d["success"]) for d in deliveries] == [
+        ("run.completed", 404, False),
+        ("test", 200, True),
+    ]
+    assert remaining == []
+
+
+# ============================================================================
+# Share Links
+# ============================================================================
+
+
+def test_share_links_stop_working_when_revoked_or_expired(tmp_path):
+    """Test that only links that are neither revoked nor expired resolve."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        alice_id = create_user(conn, "alice", "alice@example.com", "hash")
+        bob_id = create_user(conn, "bob", "bob@example.com", "hash")
+        create_share_link(conn, alice_id, "2025-11-05T10-00-00Z", "open-token")
+        create_share_link(conn, alice_id, "2025-11-05T10-00-00Z", "future-token", "2999-01-01T00:00:00Z")
+        create_share_link(conn, alice_id, "2025-11-05T10-00-00Z", "expired-token", "2000-01-01T00:00:00Z")
+        revoked_id = create_share_link(conn, alice_id, "2025-11-04T10-00-00Z", "revoked-token")
+
+        assert not revoke_share_link(conn, revoked_id, bob_id)
+        assert revoke_share_link(conn, revoked_id, alice_id)
+        assert not revoke_share_link(conn, revoked_id, alice_id)
+
+        resolved = {
+            token: get_active_share_link(conn, token) is not None
+            for token in ("open-token", "future-token", "expired-token", "revoked-token", "unknown")
+        }
+        active = get_user_share_links(conn, alice_id)
+
+    assert resolved == {
+        "open-token": True,
+        "future-token": True,
+        "expired-token": False,
+        "revoked-token": False,
+        "unknown": False,
+    }
+    assert [link["token"] for link in active] == ["future-token", "open-token"]
+
+
+# ============================================================================
+# User Brands & Intents
+# ============================================================================
+
+
+def test_user_brands_edit_reorder_and_bulk_delete(tmp_path):
+    """Test that brands keep created_at when edited, follow the user's order and bulk delete per owner."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        alice_id = create_user(conn, "alice", "alice@example.com", "hash")
+        bob_id = create_user(conn, "bob", "bob@example.com", "hash")
+        acme = create_user_brand(conn, alice_id, "Acme", True)
+        rival = create_user_brand(conn, alice_id, "Rivl", False)
+        other = create_user_brand(conn, alice_id, "Other", False)
+        bobs = create_user_brand(conn, bob_id, "Bob Co", True)
+        created_at = get_user_brands(conn, alice_id)[1]["created_at"]
+
+        assert [b["brand_name"] for b in get_user_brands(conn, alice_id)] == ["Acme", "Rivl", "Other"]
+
+        assert update_user_brand(conn, rival, alice_id, brand_name="Rival", is_mine=True)
+        assert not update_user_brand(conn, rival, bob_id, brand_name="Stolen")
+        with pytest.raises(sqlite3.IntegrityError):
+            update_user_brand(conn, other, alice_id, brand_name="Acme")
+        with pytest.raises(ValueError):
+            update_user_brand(conn, other, alice_id, created_at="2000-01-01T00:00:00Z")
+
+        reorder_user_brands(conn, [other, rival, acme, bobs], alice_id)
+        reordered = get_user_brands(conn, alice_id)
+
+        assert delete_user_brands(conn, [acme, other, bobs], alice_id) == 2
+        remaining = get_user_brands(conn, alice_id)
+        bobs_brands = get_user_brands(conn, bob_id)
+
+    assert [(b["brand_name"], b["is_mine"]) for b in reordered] == [("Other", False), ("Rival", True), ("Acme", True)]
+    assert reordered[1]["created_at"] == created_at
+    assert [b["brand_name"] for b in remaining] == ["Rival"]
+    assert [b["brand_name"] for b in bobs_brands] == ["Bob Co"]
+
+
+def test_user_brand_entities_round_trip(tmp_path):
+    """Test that a brand's aliases, product lines and excluded terms are stored and edited as lists."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        hubspot = create_user_brand(
+            conn, user_id, "HubSpot", False, aliases=["HubSpot CRM"], products=["Sales Hub"]
+        )
+        plain = create_user_brand(conn, user_id, "Acme", True)
+        created = {b["id"]: b for b in get_user_brands(conn, user_id)}
+
+        assert update_user_brand(conn, hubspot, user_id, exclude=["HubSpot Academy"], aliases=[])
+        updated = {b["id"]: b for b in get_user_brands(conn, user_id)}
+
+    assert (created[hubspot]["aliases"], created[hubspot]["products"], created[hubspot]["exclude"]) == (
+        ["HubSpot CRM"], ["Sales Hub"], []
+    )
+    assert (created[plain]["aliases"], created[plain]["products"], created[plain]["exclude"]) == ([], [], [])
+    assert (updated[hubspot]["aliases"], updated[hubspot]["products"], updated[hubspot]["exclude"]) == (
+        [], ["Sales Hub"], ["HubSpot Academy"]
+    )
+
+
+def test_user_intents_edit_reorder_and_bulk_delete(tmp_path):
+    """Test that intents are edited in place, follow the user's order and bulk delete."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        first = create_user_intent(conn, user_id, "best-crm", "Best CRM?")
+        second = create_user_intent(conn, user_id, "crm-pricing", "CRM pricng?")
+
+        assert update_user_intent(conn, second, user_id, prompt="CRM pricing?")
+        reorder_user_intents(conn, [second, first], user_id)
+        reordered = get_user_intents(conn, user_id)
+
+        assert delete_user_intents(conn, [first], user_id) == 1
+        assert delete_user_intents(conn, [], user_id) == 0
+        remaining = get_user_intents(conn, user_id)
+
+    assert [(i["intent_alias"], i["prompt"]) for i in reordered] == [
+        ("crm-pricing", "CRM pricing?"),
+        ("best-crm", "Best CRM?"),
+    ]
+    assert [i["intent_alias"] for i in remaining] == ["crm-pricing"]
+
+
+# ============================================================================
+# Configuration Presets
+# ============================================================================
+
+
+def test_config_preset_versions_are_numbered_and_kept(tmp_path):
+    """Test that saving a preset adds a version and the list shows the latest one."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        alice_id = create_user(conn, "alice", "alice@example.com", "hash")
+        bob_id = create_user(conn, "bob", "bob@example.com", "hash")
+        crm_id = create_config_preset(conn, alice_id, "CRM market - EU", "brands: v1\n")
+        create_config_preset(conn, alice_id, "Payroll - US", "brands: payroll\n", "First draft")
+
+        with pytest.raises(sqlite3.IntegrityError):
+            create_config_preset(conn, alice_id, "CRM market - EU", "brands: copy\n")
+
+        assert add_config_preset_version(conn, crm_id, bob_id, "brands: bob\n") is None
+        assert add_config_preset_version(conn, crm_id, alice_id, "brands: v2\n", "More competitors") == 2
+
+        presets = get_user_config_presets(conn, alice_id)
+        versions = get_config_preset_versions(conn, crm_id, alice_id)
+        others = get_config_preset_versions(conn, crm_id, bob_id)
+
+    assert [(p["name"], p["latest_version"], p["yaml_config"]) for p in presets] == [
+        ("CRM market - EU", 2, "brands: v2\n"),
+        ("Payroll - US", 1, "brands: payroll\n"),
+    ]
+    assert [(v["version"], v["yaml_config"], v["note"]) for v in versions] == [
+        (2, "brands: v2\n", "More competitors"),
+        (1, "brands: v1\n", None),
+    ]
+    assert others == []
+
+
+def test_delete_config_preset_removes_versions(tmp_path):
+    """Test that deleting a preset drops its history and checks ownership."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        alice_id = create_user(conn, "alice", "alice@example.com", "hash")
+        bob_id = create_user(conn, "bob", "bob@example.com", "hash")
+        preset_id = create_config_preset(conn, alice_id, "CRM market - EU", "brands: v1\n")
+        add_config_preset_version(conn, preset_id, alice_id, "brands: v2\n")
+
+        assert not delete_config_preset(conn, preset_id, bob_id)
+        assert delete_config_preset(conn, preset_id, alice_id)
+
+        assert get_config_preset(conn, preset_id, alice_id) is None
+        (remaining,) = conn.execute("SELECT COUNT(*) FROM config_preset_versions").fetchone()
+
+    assert remaining == 0
+
+
 # ============================================================================
 # Query Operations - get_run_summary Tests
 # ============================================================================
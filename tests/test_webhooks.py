@@ -0,0 +1,207 @@
+"""
+Tests for webhooks module.
+
+Tests run summaries, payload formats and delivery logging.
+"""
+
+import ipaddress
+import json
+import socket
+import sqlite3
+
+import httpx
+import pytest
+
+from llm_answer_watcher.storage.db import (
+    create_user,
+    create_webhook,
+    get_user_webhooks,
+    get_webhook_deliveries,
+    init_db_if_needed,
+    insert_answer_raw,
+    insert_mention,
+    insert_run,
+    set_webhook_enabled,
+)
+from llm_answer_watcher.webhooks import (
+    build_run_summary,
+    format_payload,
+    sample_summary,
+    send_run_summary,
+    validate_webhook,
+)
+
+HOOK_URL = "https://hooks.example.com/watcher"
+PUBLIC_ADDRESS = "93.184.215.14"
+
+
+@pytest.fixture(autouse=True)
+def fake_dns(monkeypatch):
+    """Resolve host names to a public address without network access; IP literals resolve to themselves."""
+    def getaddrinfo(host, *args, **kwargs):
+        try:
+            address = str(ipaddress.ip_address(host))
+        except ValueError:
+            address = PUBLIC_ADDRESS
+        return [(socket.AF_INET, socket.SOCK_STREAM, socket.IPPROTO_TCP, "", (address, 0))]
+
+    monkeypatch.setattr(socket, "getaddrinfo", getaddrinfo)
+
+
+def _insert_test_run(conn, run_id, user_id, mentions):
+    """Helper to store a run with one answer to best-tools and its mentions."""
+    timestamp = run_id[:13] + ":00:00Z"
+    insert_run(conn, run_id, timestamp, 1, 1, user_id=user_id)
+    insert_answer_raw(
+        conn, run_id, "best-tools", "google", "gemini-2.0-flash", timestamp, "Best tools?", "..."
+    )
+    for brand, rank, is_mine in mentions:
+        insert_mention(
+            conn, run_id, timestamp, "best-tools", "google", "gemini-2.0-flash",
+            brand, brand, is_mine, rank_position=rank,
+        )
+
+
+@pytest.fixture
+def db_with_runs(tmp_path):
+    """Database with two runs of alice where Acme climbs from #3 to #1."""
+    db_path = tmp_path / "test.db"
+    init_db_if_needed(str(db_path))
+
+    with sqlite3.connect(db_path) as conn:
+        user_id = create_user(conn, "alice", "alice@example.com", "hash")
+        _insert_test_run(conn, "2025-11-04T10-00-00Z", user_id,
+                         [("Globex", 1, False), ("Initech", 2, False), ("Acme", 3, True)])
+        _insert_test_run(conn, "2025-11-05T10-00-00Z", user_id, [("Acme", 1, True), ("Globex", 2, False)])
+        conn.commit()
+
+    return db_path, user_id
+
+
+def test_build_run_summary_compares_with_previous_run(db_with_runs):
+    """Test that share of voice and rank changes are relative to the previous run."""
+    db_path, user_id = db_with_runs
+
+    with sqlite3.connect(db_path) as conn:
+        summary = build_run_summary(conn, user_id, "2025-11-05T10-00-00Z", 0.0123)
+
+    assert summary == {
+        "event": "run.completed",
+        "run_id": "2025-11-05T10-00-00Z",
+        "brand": "Acme",
+        "share_of_voice": 50.0,
+        "previous_share_of_voice": 33.3,
+        "rank_changes": [{"intent_id": "best-tools", "previous_rank": 3, "rank": 1}],
+        "cost_usd": 0.0123,
+    }
+
+
+def test_build_run_summary_first_run_has_no_changes(db_with_runs):
+    """Test that a user's first run has nothing to compare with."""
+    db_path, user_id = db_with_runs
+
+    with sqlite3.connect(db_path) as conn:
+        summary = build_run_summary(conn, user_id, "2025-11-04T10-00-00Z", 0.0)
+
+    assert summary["previous_share_of_voice"] is None
+    assert summary["rank_changes"] == []
+
+
+def test_format_payload_chat_formats():
+    """Test that Slack gets mrkdwn text and Teams a MessageCard with facts."""
+    slack = format_payload(sample_summary(), "slack")
+    teams = format_payload(sample_summary(), "teams")
+
+    assert slack["text"].splitlines() == [
+        "*Test message from LLM Answer Watcher*",
+        "• Share of voice: Your brand 42% (was 37.5%)",
+        "• Rank changes: example-intent #3 → #1",
+        "• Cost: $0.0123",
+    ]
+    assert teams["@type"] == "MessageCard"
+    assert teams["sections"][0]["facts"][1] == {"name": "Rank changes", "value": "example-intent #3 → #1"}
+    assert format_payload(sample_summary(), "generic") == sample_summary()
+
+
+@pytest.mark.parametrize(
+    ("url", "payload_format"),
+    [("ftp://example.com/hook", "generic"), ("https://", "generic"), (HOOK_URL, "discord")],
+)
+def test_validate_webhook_rejects_bad_input(url, payload_format):
+    """Test that only HTTP(S) URLs and known formats are accepted."""
+    with pytest.raises(ValueError):
+        validate_webhook(url, payload_format)
+
+
+@pytest.mark.parametrize(
+    "url",
+    [
+        "http://127.0.0.1:8000/admin",
+        "http://10.0.0.5/hook",
+        "http://192.168.1.1/hook",
+        "http://169.254.169.254/latest/meta-data/",
+        "http://[::1]/hook",
+        "http://[::ffff:127.0.0.1]/hook",
+    ],
+)
+def test_validate_webhook_rejects_non_public_hosts(url):
+    """Test that loopback, private and link-local addresses are refused."""
+    with pytest.raises(ValueError, match="public host"):
+        validate_webhook(url, "generic")
+
+
+def test_send_run_summary_posts_to_enabled_webhooks_and_logs(db_with_runs, httpx_mock):
+    """Test that enabled webhooks get the summary and every attempt is logged."""
+    db_path, user_id = db_with_runs
+    httpx_mock.add_response(method="POST", url=HOOK_URL, status_code=200)
+    httpx_mock.add_response(method="POST", url="https://hooks.example.com/broken", status_code=500, text="boom")
+
+    with sqlite3.connect(db_path) as conn:
+        ok_id = create_webhook(conn, user_id, "Team channel", HOOK_URL, "slack")
+        broken_id = create_webhook(conn, user_id, "Broken", "https://hooks.example.com/broken")
+        paused_id = create_webhook(conn, user_id, "Paused", "https://hooks.example.com/paused")
+        set_webhook_enabled(conn, paused_id, user_id, False)
+
+        delivered = send_run_summary(conn, user_id, "2025-11-05T10-00-00Z", 0.0123)
+
+        ok_log = get_webhook_deliveries(conn, ok_id)
+        broken_log = get_webhook_deliveries(conn, broken_id)
+        paused_log = get_webhook_deliveries(conn, paused_id)
+        webhooks = get_user_webhooks(conn, user_id, enabled_only=True)
+
+    assert delivered == 1
+    assert [w["name"] for w in webhooks] == ["Team channel", "Broken"]
+    assert "*Run 2025-11-05T10-00-00Z completed*" in json.loads(httpx_mock.get_requests(url=HOOK_URL)[0].content)["text"]
+    assert [(d["event"], d["status_code"], d["success"]) for d in ok_log] == [("run.completed", 200, True)]
+    assert broken_log[0]["error"] == "HTTP 500"
+    assert paused_log == []
+
+
+def test_send_run_summary_logs_connection_errors(db_with_runs, httpx_mock):
+    """Test that an unreachable webhook is logged without a status code."""
+    db_path, user_id = db_with_runs
+    httpx_mock.add_exception(httpx.ConnectError("Connection refused"), method="POST", url=HOOK_URL)
+
+    with sqlite3.connect(db_path) as conn:
+        webhook_id = create_webhook(conn, user_id, "Team channel", HOOK_URL)
+        delivered = send_run_summary(conn, user_id, "2025-11-05T10-00-00Z", 0.0)
+        log = get_webhook_deliveries(conn, webhook_id)
+
+    assert delivered == 0
+    assert log[0]["status_code"] is None
+    assert log[0]["success"] is False
+    assert log[0]["error"] == "ConnectError"
+
+
+def test_send_run_summary_skips_private_hosts(db_with_runs, httpx_mock):
+    """Test that a webhook whose host now resolves to a private address is not called."""
+    db_path, user_id = db_with_runs
+
+    with sqlite3.connect(db_path) as conn:
+        webhook_id = create_webhook(conn, user_id, "Internal", "http://10.0.0.5/hook")
+        delivered = send_run_summary(conn, user_id, "2025-11-05T10-00-00Z", 0.0)
+        log = get_webhook_deliveries(conn, webhook_id)
+
+    assert delivered == 0
+    assert (log[0]["status_code"], log[0]["error"]) == (None, "BlockedHost")
+    assert httpx_mock.get_requests() == []
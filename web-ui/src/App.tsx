@@ -9,6 +9,12 @@ import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import ProfilePage from './pages/ProfilePage';
 import HistoryPage from './pages/HistoryPage';
+import TrendsPage from './pages/TrendsPage';
+import SchedulesPage from './pages/SchedulesPage';
+import AlertsPage from './pages/AlertsPage';
+import SharedResultsPage from './pages/SharedResultsPage';
+import ComparePage from './pages/ComparePage';
+import ReportPage from './pages/ReportPage';
 import SettingsPage from './pages/SettingsPage';
 import SetupWizard from './pages/SetupWizard';
 import ThemeToggler from './components/ThemeToggler';
@@ -34,6 +40,7 @@ function App() {
               <Route path="/faq" element={<FAQPage theme={theme} />} />
               <Route path="/login" element={<LoginPage theme={theme} />} />
               <Route path="/register" element={<RegisterPage theme={theme} />} />
+              <Route path="/shared/:token" element={<SharedResultsPage theme={theme} />} />
 
               {/* Protected routes */}
               <Route
@@ -52,6 +59,38 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/trends"
+                element={
+                  <ProtectedRoute>
+                    <TrendsPage theme={theme} />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/schedules"
+                element={
+                  <ProtectedRoute>
+                    <SchedulesPage theme={theme} />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/alerts"
+                element={
+                  <ProtectedRoute>
+                    <AlertsPage theme={theme} />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/compare"
+                element={
+                  <ProtectedRoute>
+                    <ComparePage theme={theme} />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/profile"
                 element={
@@ -68,6 +107,14 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/report/:runId"
+                element={
+                  <ProtectedRoute>
+                    <ReportPage theme={theme} />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/settings"
                 element={
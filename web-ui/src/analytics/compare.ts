@@ -0,0 +1,176 @@
+import type { Answer, BrandMention, MentionSentiment, RunResults } from '../types';
+import { modelLabel } from './metrics';
+
+export type BrandChangeKind = 'added' | 'removed' | 'kept';
+
+export interface BrandChange {
+  brand: string;
+  is_mine: boolean;
+  kind: BrandChangeKind;
+  baseRank: number | null;
+  targetRank: number | null;
+  baseSentiment: MentionSentiment | null;
+  targetSentiment: MentionSentiment | null;
+}
+
+export interface ModelComparison {
+  model: string;
+  // null when the model has no answer for the intent in that run
+  baseAnswer: Answer | null;
+  targetAnswer: Answer | null;
+  brands: BrandChange[];
+}
+
+export interface IntentComparison {
+  intent_id: string;
+  prompt: string;
+  models: ModelComparison[];
+}
+
+export interface DiffSegment {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Collapses mentions of the same brand, keeping its best rank and first known sentiment
+function mentionsByBrand(answer: Answer | null): Map<string, BrandMention> {
+  const brands = new Map<string, BrandMention>();
+  answer?.mentions.forEach(mention => {
+    const key = mention.normalized_name.toLowerCase();
+    const existing = brands.get(key);
+    if (!existing) {
+      brands.set(key, mention);
+      return;
+    }
+    brands.set(key, {
+      ...existing,
+      rank: existing.rank === null ? mention.rank : mention.rank === null ? existing.rank : Math.min(existing.rank, mention.rank),
+      sentiment: existing.sentiment ?? mention.sentiment,
+    });
+  });
+  return brands;
+}
+
+function compareBrands(baseAnswer: Answer | null, targetAnswer: Answer | null): BrandChange[] {
+  const base = mentionsByBrand(baseAnswer);
+  const target = mentionsByBrand(targetAnswer);
+  const keys = [...new Set([...base.keys(), ...target.keys()])];
+
+  const changes = keys.map((key): BrandChange => {
+    const before = base.get(key);
+    const after = target.get(key);
+    const mention = (after ?? before) as BrandMention;
+    return {
+      brand: mention.normalized_name,
+      is_mine: mention.is_mine,
+      kind: before && after ? 'kept' : after ? 'added' : 'removed',
+      baseRank: before?.rank ?? null,
+      targetRank: after?.rank ?? null,
+      baseSentiment: before?.sentiment ?? null,
+      targetSentiment: after?.sentiment ?? null,
+    };
+  });
+
+  // My brands first, then by the best rank in either run
+  const sortRank = (change: BrandChange) => Math.min(change.targetRank ?? Infinity, change.baseRank ?? Infinity);
+  return changes.sort((a, b) => Number(b.is_mine) - Number(a.is_mine) || sortRank(a) - sortRank(b) || a.brand.localeCompare(b.brand));
+}
+
+function answersByModel(answers: Answer[]): Map<string, Answer> {
+  return new Map(answers.map(answer => [modelLabel(answer.model), answer]));
+}
+
+/**
+ * Pairs up the answers of two runs per intent and model, in the order the intents
+ * appear in the target run. Intents or models present in only one run are kept
+ * with the missing side set to null.
+ */
+export function compareRuns(base: RunResults, target: RunResults): IntentComparison[] {
+  const baseIntents = new Map(base.intents_data.map(intent => [intent.intent_id, intent]));
+  const targetIntents = new Map(target.intents_data.map(intent => [intent.intent_id, intent]));
+  const intentIds = [...new Set([...targetIntents.keys(), ...baseIntents.keys()])];
+
+  return intentIds.map(intentId => {
+    const baseIntent = baseIntents.get(intentId);
+    const targetIntent = targetIntents.get(intentId);
+    const baseAnswers = answersByModel(baseIntent?.answers ?? []);
+    const targetAnswers = answersByModel(targetIntent?.answers ?? []);
+    const models = [...new Set([...targetAnswers.keys(), ...baseAnswers.keys()])].sort();
+
+    return {
+      intent_id: intentId,
+      prompt: (targetIntent ?? baseIntent)?.prompt ?? '',
+      models: models.map(model => {
+        const baseAnswer = baseAnswers.get(model) ?? null;
+        const targetAnswer = targetAnswers.get(model) ?? null;
+        return { model, baseAnswer, targetAnswer, brands: compareBrands(baseAnswer, targetAnswer) };
+      }),
+    };
+  });
+}
+
+export const hasBrandChanges = (model: ModelComparison) =>
+  model.brands.some(change =>
+    change.kind !== 'kept'
+    || change.baseRank !== change.targetRank
+    || change.baseSentiment !== change.targetSentiment
+  );
+
+/**
+ * Word-level diff of two texts (longest common subsequence). Whitespace stays
+ * attached to the preceding word so the segments concatenate back to the texts.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\s*\S+\s*/g) ?? [];
+  const b = after.match(/\s*\S+\s*/g) ?? [];
+
+  // Common prefix and suffix are cheap to strip and keep the table small
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+  // lcs[i * cols + j] = LCS length of midA[i:] and midB[j:]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment['kind'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else segments.push({ kind, text });
+  };
+
+  a.slice(0, prefix).forEach(word => push('same', word));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      push('same', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      push('removed', midA[i++]);
+    } else {
+      push('added', midB[j++]);
+    }
+  }
+  midA.slice(i).forEach(word => push('removed', word));
+  midB.slice(j).forEach(word => push('added', word));
+  a.slice(a.length - suffix).forEach(word => push('same', word));
+
+  return segments;
+}
@@ -0,0 +1,133 @@
+import { getModel, getModelName, getProvider } from '../providers/registry';
+import type { ExtractionOptions } from '../config/extraction';
+import type { Intent, ModelSelection, Operation } from '../types';
+
+// Same rule of thumb the backend uses when sizing prompts
+const CHARS_PER_TOKEN = 4;
+// Typical length of a bullet-list recommendation answer
+export const ESTIMATED_OUTPUT_TOKENS_PER_ANSWER = 800;
+// Extraction prompt around the answer (instructions, brand context, function schema) and its structured reply
+const EXTRACTION_PROMPT_TOKENS = 600;
+const EXTRACTION_OUTPUT_TOKENS = 300;
+// Intent classification prompt around the query, and its reply
+const CLASSIFICATION_PROMPT_TOKENS = 500;
+const CLASSIFICATION_OUTPUT_TOKENS = 150;
+// Reply to an operation prompt, which usually embeds the answer it analyzes
+const OPERATION_OUTPUT_TOKENS = 400;
+// Runs estimated above this ask for confirmation unless the user set their own threshold
+export const DEFAULT_CONFIRM_ABOVE_USD = 5;
+
+export interface ModelEstimate {
+  // Answering the intents, extracting mentions / classifying intents, or running operations
+  role: 'answers' | 'extraction' | 'operations';
+  selection: ModelSelection;
+  modelName: string;
+  queries: number;
+  inputTokens: number;
+  outputTokens: number;
+  // null when the model has no entry in the pricing table
+  costUsd: number | null;
+}
+
+export interface RunEstimate {
+  models: ModelEstimate[];
+  // Intent x model queries; extraction and operation calls are not counted
+  queries: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // At least one selected model could not be priced, so costUsd is a lower bound
+  incomplete: boolean;
+}
+
+export const formatUsd = (usd: number) => `$${usd.toFixed(usd >= 1 ? 2 : 4)}`;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+function priceModel(
+  role: ModelEstimate['role'],
+  selection: ModelSelection,
+  queries: number,
+  inputTokens: number,
+  outputTokens: number
+): ModelEstimate {
+  const model = getModel(selection);
+  return {
+    role,
+    selection,
+    modelName: getModelName(selection.model_name),
+    queries,
+    inputTokens,
+    outputTokens,
+    costUsd: model
+      ? (inputTokens * model.pricing.input + outputTokens * model.pricing.output) / 1_000_000
+      : null,
+  };
+}
+
+/**
+ * Rough pre-run estimate: every intent with an id and a prompt (the ones the
+ * config includes) is sent once to every selected model, with the provider's
+ * system prompt, and is assumed to get an average-length answer.
+ * With extraction enabled, every answer also goes through the extraction model
+ * and every intent is classified once. Enabled operations run once per answer,
+ * on their own model or the first selected one, assuming no condition skips them.
+ */
+export function estimateRun(
+  intents: Intent[],
+  selections: ModelSelection[],
+  extraction?: ExtractionOptions,
+  globalOperations: Operation[] = []
+): RunEstimate {
+  const runIntents = intents.filter(intent => intent.id.trim() && intent.prompt.trim());
+  const prompts = runIntents.map(intent => intent.prompt.trim());
+  const promptTokens = prompts.reduce((sum, prompt) => sum + estimateTokens(prompt), 0);
+
+  const models = selections.map(selection => priceModel(
+    'answers',
+    selection,
+    prompts.length,
+    promptTokens + prompts.length * getProvider(selection.provider).systemPromptTokens,
+    prompts.length * ESTIMATED_OUTPUT_TOKENS_PER_ANSWER
+  ));
+
+  if (extraction?.enabled) {
+    const extractions = extraction.method === 'regex' ? 0 : prompts.length * selections.length;
+    const classifications = extraction.enable_intent_classification ? prompts.length : 0;
+    if (extractions + classifications > 0) {
+      models.push(priceModel(
+        'extraction',
+        extraction.model,
+        extractions + classifications,
+        extractions * (ESTIMATED_OUTPUT_TOKENS_PER_ANSWER + EXTRACTION_PROMPT_TOKENS)
+          + (classifications > 0 ? promptTokens + classifications * CLASSIFICATION_PROMPT_TOKENS : 0),
+        extractions * EXTRACTION_OUTPUT_TOKENS + classifications * CLASSIFICATION_OUTPUT_TOKENS
+      ));
+    }
+  }
+
+  // Operation calls grouped by the model that runs them
+  const operationCalls = new Map<ModelSelection, { calls: number; inputTokens: number }>();
+  for (const intent of runIntents) {
+    for (const operation of [...(intent.operations ?? []), ...globalOperations]) {
+      if (operation.enabled === false || selections.length === 0) continue;
+      const selection = selections.find(s => s.model_name === operation.model) ?? selections[0];
+      const calls = operationCalls.get(selection) ?? { calls: 0, inputTokens: 0 };
+      calls.calls += selections.length;
+      calls.inputTokens += selections.length * (estimateTokens(operation.prompt) + ESTIMATED_OUTPUT_TOKENS_PER_ANSWER);
+      operationCalls.set(selection, calls);
+    }
+  }
+  for (const [selection, { calls, inputTokens }] of operationCalls) {
+    models.push(priceModel('operations', selection, calls, inputTokens, calls * OPERATION_OUTPUT_TOKENS));
+  }
+
+  return {
+    models,
+    queries: prompts.length * selections.length,
+    inputTokens: models.reduce((sum, m) => sum + m.inputTokens, 0),
+    outputTokens: models.reduce((sum, m) => sum + m.outputTokens, 0),
+    costUsd: models.reduce((sum, m) => sum + (m.costUsd ?? 0), 0),
+    incomplete: models.some(m => m.costUsd === null),
+  };
+}
@@ -0,0 +1,138 @@
+import type { Answer, Brands, IntentResult, MentionSentiment } from '../types';
+
+/**
+ * My-brand visibility metrics over a set of answers.
+ * Every metric is null when there is nothing to measure (e.g. no ranked mention).
+ */
+export interface BrandMetrics {
+  totalMentions: number;
+  myMentions: number;
+  // % of all brand mentions that are mine
+  shareOfVoice: number | null;
+  // Mean list position of my ranked mentions (lower is better)
+  averageRank: number | null;
+  // % of my mentions ranked #1
+  rank1Rate: number | null;
+  // Mean sentiment of my mentions, -100 (all negative) to 100 (all positive)
+  netSentiment: number | null;
+}
+
+export type MetricKey = 'shareOfVoice' | 'averageRank' | 'rank1Rate' | 'netSentiment';
+
+export interface MetricDefinition {
+  label: string;
+  description: string;
+  domain: [number, number] | null;
+  lowerIsBetter: boolean;
+  format: (value: number) => string;
+}
+
+export const METRICS: Record<MetricKey, MetricDefinition> = {
+  shareOfVoice: {
+    label: 'Share of Voice',
+    description: 'Percentage of all brand mentions that belong to your brand.',
+    domain: [0, 100],
+    lowerIsBetter: false,
+    format: value => `${value.toFixed(1)}%`,
+  },
+  averageRank: {
+    label: 'Average Rank',
+    description: 'Average list position of your brand when ranked (lower is better).',
+    domain: null,
+    lowerIsBetter: true,
+    format: value => value.toFixed(2),
+  },
+  rank1Rate: {
+    label: '#1 Ranking Rate',
+    description: 'How often your brand was the top recommendation.',
+    domain: [0, 100],
+    lowerIsBetter: false,
+    format: value => `${value.toFixed(1)}%`,
+  },
+  netSentiment: {
+    label: 'Net Sentiment',
+    description: 'Positive minus negative mentions of your brand, as a share of mentions with sentiment.',
+    domain: [-100, 100],
+    lowerIsBetter: false,
+    format: value => `${value > 0 ? '+' : ''}${value.toFixed(0)}`,
+  },
+};
+
+const SENTIMENT_SCORES: Record<MentionSentiment, number> = {
+  positive: 1,
+  neutral: 0,
+  negative: -1,
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export function computeBrandMetrics(answers: Answer[]): BrandMetrics {
+  let totalMentions = 0;
+  let myMentions = 0;
+  let rank1Mentions = 0;
+  const myRanks: number[] = [];
+  const mySentiments: number[] = [];
+
+  answers.forEach(answer => {
+    totalMentions += answer.mentions.length;
+    answer.mentions.forEach(mention => {
+      if (!mention.is_mine) return;
+      myMentions++;
+      if (mention.rank) {
+        myRanks.push(mention.rank);
+        if (mention.rank === 1) rank1Mentions++;
+      }
+      if (mention.sentiment) {
+        mySentiments.push(SENTIMENT_SCORES[mention.sentiment]);
+      }
+    });
+  });
+
+  const sentiment = mean(mySentiments);
+
+  return {
+    totalMentions,
+    myMentions,
+    shareOfVoice: totalMentions > 0 ? (myMentions / totalMentions) * 100 : null,
+    averageRank: mean(myRanks),
+    rank1Rate: myMentions > 0 ? (rank1Mentions / myMentions) * 100 : null,
+    netSentiment: sentiment === null ? null : sentiment * 100,
+  };
+}
+
+// Strips the "models/" prefix Gemini model ids carry
+export const modelLabel = (model: string) => model.replace(/^models\//, '');
+
+export type Breakdown = 'overall' | 'intent' | 'model';
+
+/**
+ * Groups the answers of a run for a breakdown: a single "All" group,
+ * one group per intent, or one group per model.
+ */
+export function groupAnswers(intents: IntentResult[], breakdown: Breakdown): Map<string, Answer[]> {
+  const groups = new Map<string, Answer[]>();
+  const add = (key: string, answer: Answer) => {
+    const group = groups.get(key);
+    if (group) group.push(answer);
+    else groups.set(key, [answer]);
+  };
+
+  intents.forEach(intent => {
+    intent.answers.forEach(answer => {
+      if (breakdown === 'intent') add(intent.intent_id, answer);
+      else if (breakdown === 'model') add(modelLabel(answer.model), answer);
+      else add('All', answer);
+    });
+  });
+
+  return groups;
+}
+
+// Brands mentioned in a run, by the canonical names the run counted them under
+export function runBrands(intents: IntentResult[]): Brands {
+  const mentions = intents.flatMap(intent => intent.answers.flatMap(answer => answer.mentions));
+  const mine = [...new Set(mentions.filter(m => m.is_mine).map(m => m.normalized_name))];
+  const competitors = [...new Set(mentions.filter(m => !m.is_mine).map(m => m.normalized_name))].filter(brand => !mine.includes(brand));
+  return { mine, competitors };
+}
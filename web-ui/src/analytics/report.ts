@@ -0,0 +1,99 @@
+import type { Answer, IntentResult } from '../types';
+import { computeBrandMetrics, groupAnswers, type BrandMetrics } from './metrics';
+
+export interface BrandShare {
+  brand: string;
+  is_mine: boolean;
+  mentions: number;
+  // % of all brand mentions of the run
+  share: number;
+  // Answers that mention the brand at least once
+  answers: number;
+  // Mean list position when ranked (lower is better)
+  averageRank: number | null;
+}
+
+export interface ModelSummary {
+  model: string;
+  answers: number;
+  // % of the model's answers that mention one of my brands
+  mentionRate: number;
+  metrics: BrandMetrics;
+  costUsd: number;
+  totalTokens: number;
+}
+
+export interface RunReportSummary {
+  answers: number;
+  answersMentioningMe: number;
+  metrics: BrandMetrics;
+  brands: BrandShare[];
+  models: ModelSummary[];
+  costUsd: number;
+  totalTokens: number;
+}
+
+// What an answer cost, including the operations run on it
+export const answerCostUsd = (answer: Answer) =>
+  (answer.cost_usd ?? 0) + answer.operations.reduce((sum, op) => sum + (op.cost_usd ?? 0), 0);
+
+const mentionsMe = (answer: Answer) => answer.mentions.some(mention => mention.is_mine);
+
+function brandShares(answers: Answer[]): BrandShare[] {
+  const totalMentions = answers.reduce((sum, answer) => sum + answer.mentions.length, 0);
+  const brands = new Map<string, { brand: string; is_mine: boolean; mentions: number; answers: Set<Answer>; ranks: number[] }>();
+
+  answers.forEach(answer => {
+    answer.mentions.forEach(mention => {
+      const key = mention.normalized_name.toLowerCase();
+      let entry = brands.get(key);
+      if (!entry) {
+        entry = { brand: mention.normalized_name, is_mine: mention.is_mine, mentions: 0, answers: new Set(), ranks: [] };
+        brands.set(key, entry);
+      }
+      entry.mentions++;
+      entry.answers.add(answer);
+      if (mention.rank) entry.ranks.push(mention.rank);
+    });
+  });
+
+  return [...brands.values()]
+    .map(entry => ({
+      brand: entry.brand,
+      is_mine: entry.is_mine,
+      mentions: entry.mentions,
+      share: totalMentions > 0 ? (entry.mentions / totalMentions) * 100 : 0,
+      answers: entry.answers.size,
+      averageRank: entry.ranks.length > 0 ? entry.ranks.reduce((a, b) => a + b, 0) / entry.ranks.length : null,
+    }))
+    .sort((a, b) => b.mentions - a.mentions || a.brand.localeCompare(b.brand));
+}
+
+/**
+ * Headline numbers of a run for the branded report: my brand's visibility,
+ * every brand's share of voice and rank, and a per-model comparison.
+ */
+export function summarizeRunReport(intents: IntentResult[]): RunReportSummary {
+  const answers = intents.flatMap(intent => intent.answers);
+  const sumTokens = (group: Answer[]) => group.reduce((sum, answer) => sum + (answer.usage.total_tokens ?? 0), 0);
+  const sumCost = (group: Answer[]) => group.reduce((sum, answer) => sum + answerCostUsd(answer), 0);
+
+  const models = [...groupAnswers(intents, 'model').entries()].map(([model, group]): ModelSummary => ({
+    model,
+    answers: group.length,
+    mentionRate: (group.filter(mentionsMe).length / group.length) * 100,
+    metrics: computeBrandMetrics(group),
+    costUsd: sumCost(group),
+    totalTokens: sumTokens(group),
+  }));
+
+  return {
+    answers: answers.length,
+    answersMentioningMe: answers.filter(mentionsMe).length,
+    metrics: computeBrandMetrics(answers),
+    brands: brandShares(answers),
+    models,
+    costUsd: sumCost(answers),
+    totalTokens: sumTokens(answers),
+  };
+}
@@ -0,0 +1,475 @@
+import type {
+  AlertRule,
+  AlertRuleCreateRequest,
+  APIKeyCreateRequest,
+  APIKeyDetails,
+  APIKeyUpdateRequest,
+  AuthResponse,
+  BrandCreateRequest,
+  BrandUpdateRequest,
+  ConfigPreset,
+  ConfigPresetCreateRequest,
+  ConfigPresetVersion,
+  ConfigPresetVersionCreateRequest,
+  IntentCreateRequest,
+  IntentUpdateRequest,
+  LoginRequest,
+  MessageResponse,
+  NotificationInbox,
+  OptimizePromptRequest,
+  OptimizePromptResponse,
+  RegisterRequest,
+  RunListItem,
+  RunProgress,
+  RunResults,
+  RunWatcherRequest,
+  RunWatcherResponse,
+  Schedule,
+  ScheduleCreateRequest,
+  ScheduleUpdateRequest,
+  ShareLink,
+  ShareLinkCreateRequest,
+  StoredAPIKey,
+  User,
+  UserBrand,
+  UserDataExport,
+  UserIntent,
+  UserSettings,
+  UserUpdateRequest,
+  Webhook,
+  WebhookCreateRequest,
+  WebhookDelivery,
+} from '../types';
+import { parseRunResults } from './validation';
+
+// API base URL - '/api' is proxied to the backend by nginx in production
+export const API_BASE_URL: string = import.meta.env.VITE_API_URL ||
+  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
+
+/**
+ * Error thrown for any non-2xx response from the backend.
+ * `message` is the human readable FastAPI `detail`, `detail` keeps the raw payload.
+ */
+export class ApiError extends Error {
+  status: number;
+  detail: unknown;
+
+  constructor(status: number, message: string, detail?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// FastAPI returns either `{ detail: "..." }` or, for validation errors,
+// `{ detail: [{ loc: [...], msg: "..." }] }`
+function formatDetail(detail: unknown, fallback: string): string {
+  if (typeof detail === 'string' && detail) {
+    return detail;
+  }
+  if (Array.isArray(detail) && detail.length > 0) {
+    return detail
+      .map((item) => {
+        if (item && typeof item === 'object' && 'msg' in item) {
+          const loc = Array.isArray(item.loc) ? item.loc.filter((part: unknown) => part !== 'body').join('.') : '';
+          return loc ? `${loc}: ${item.msg}` : String(item.msg);
+        }
+        return String(item);
+      })
+      .join('; ');
+  }
+  return fallback;
+}
+
+// ----------------------------------------------------------------------------
+// Token storage & refresh
+// ----------------------------------------------------------------------------
+
+const ACCESS_TOKEN_KEY = 'access_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+type TokenListener = (tokens: AuthResponse | null) => void;
+
+const tokenListeners = new Set<TokenListener>();
+let refreshPromise: Promise<string | null> | null = null;
+
+export function getStoredAccessToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+export function getStoredRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+export function storeTokens(tokens: AuthResponse) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.access_token);
+  if (tokens.refresh_token) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+  }
+}
+
+export function clearStoredTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Subscribe to token changes made by the client itself (refresh or expired session).
+ * Receives the new tokens, or null once the session could not be refreshed.
+ */
+export function onTokensChanged(listener: TokenListener): () => void {
+  tokenListeners.add(listener);
+  return () => {
+    tokenListeners.delete(listener);
+  };
+}
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Refresh tokens are rotated by the backend and reusing one revokes every session,
+ * so concurrent callers share a single in-flight refresh.
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  const storedRefreshToken = getStoredRefreshToken();
+  if (!storedRefreshToken) {
+    return Promise.resolve(null);
+  }
+
+  refreshPromise = request<AuthResponse>('/auth/refresh', {
+    method: 'POST',
+    body: { refresh_token: storedRefreshToken },
+    auth: false,
+  })
+    .then((tokens) => {
+      storeTokens(tokens);
+      tokenListeners.forEach((listener) => listener(tokens));
+      return tokens.access_token;
+    })
+    .catch((error) => {
+      // Only a rejected refresh token ends the session, network errors are left to the caller
+      if (error instanceof ApiError && error.status === 401) {
+        clearStoredTokens();
+        tokenListeners.forEach((listener) => listener(null));
+        return null;
+      }
+      throw error;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+}
+
+// ----------------------------------------------------------------------------
+// Requests
+// ----------------------------------------------------------------------------
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  signal?: AbortSignal;
+  // Overrides the stored access token (e.g. right after login)
+  token?: string | null;
+  // Set to false for public endpoints that must not send credentials
+  auth?: boolean;
+  // Set to false to surface a 401 instead of refreshing and replaying the request
+  retryOnUnauthorized?: boolean;
+}
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', body, signal, auth = true, retryOnUnauthorized = true } = options;
+  const headers: Record<string, string> = {};
+
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  if (auth) {
+    // Hold authenticated requests while a refresh is in flight so they go out with the new token
+    if (refreshPromise && options.token === undefined) {
+      await refreshPromise.catch(() => null);
+    }
+    const token = options.token !== undefined ? options.token : getStoredAccessToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal,
+  });
+
+  if (response.status === 401 && auth && retryOnUnauthorized && getStoredRefreshToken()) {
+    const newToken = await refreshAccessToken();
+    if (newToken) {
+      return request<T>(path, { ...options, token: newToken, retryOnUnauthorized: false });
+    }
+  }
+
+  const text = await response.text();
+  let data: unknown = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = text;
+    }
+  }
+
+  if (!response.ok) {
+    const detail = data && typeof data === 'object' && 'detail' in data
+      ? (data as { detail: unknown }).detail
+      : data;
+    throw new ApiError(
+      response.status,
+      formatDetail(detail, `Request failed with status ${response.status}`),
+      detail
+    );
+  }
+
+  return data as T;
+}
+
+// ----------------------------------------------------------------------------
+// Auth
+// ----------------------------------------------------------------------------
+
+export const authApi = {
+  register: (data: RegisterRequest) =>
+    request<User>('/auth/register', { method: 'POST', body: data, auth: false }),
+
+  login: (data: LoginRequest) =>
+    request<AuthResponse>('/auth/login', { method: 'POST', body: data, auth: false }),
+
+  refresh: (refreshToken: string) =>
+    request<AuthResponse>('/auth/refresh', { method: 'POST', body: { refresh_token: refreshToken }, auth: false }),
+
+  logout: (token?: string | null) =>
+    request<MessageResponse>('/auth/logout', { method: 'POST', token, retryOnUnauthorized: false }),
+
+  me: (token?: string | null, signal?: AbortSignal) =>
+    request<User>('/auth/me', { token, signal }),
+
+  updateMe: (data: UserUpdateRequest) =>
+    request<User>('/auth/me', { method: 'PUT', body: data }),
+
+  listApiKeys: (signal?: AbortSignal) =>
+    request<StoredAPIKey[]>('/auth/api-keys', { signal }),
+
+  getApiKey: (keyId: number) =>
+    request<APIKeyDetails>(`/auth/api-keys/${keyId}`),
+
+  createApiKey: (data: APIKeyCreateRequest) =>
+    request<StoredAPIKey>('/auth/api-keys', { method: 'POST', body: data }),
+
+  updateApiKey: (keyId: number, data: APIKeyUpdateRequest) =>
+    request<StoredAPIKey>(`/auth/api-keys/${keyId}`, { method: 'PUT', body: data }),
+
+  deleteApiKey: (keyId: number) =>
+    request<MessageResponse>(`/auth/api-keys/${keyId}`, { method: 'DELETE' }),
+};
+
+// ----------------------------------------------------------------------------
+// User configuration
+// ----------------------------------------------------------------------------
+
+export const userApi = {
+  listBrands: (signal?: AbortSignal) =>
+    request<UserBrand[]>('/user/brands', { signal }),
+
+  createBrand: (data: BrandCreateRequest) =>
+    request<UserBrand>('/user/brands', { method: 'POST', body: data }),
+
+  updateBrand: (brandId: number, data: BrandUpdateRequest) =>
+    request<UserBrand>(`/user/brands/${brandId}`, { method: 'PATCH', body: data }),
+
+  deleteBrand: (brandId: number) =>
+    request<MessageResponse>(`/user/brands/${brandId}`, { method: 'DELETE' }),
+
+  deleteBrands: (brandIds: number[]) =>
+    request<MessageResponse>('/user/brands/bulk-delete', { method: 'POST', body: { ids: brandIds } }),
+
+  // Every brand ID, in the new order
+  reorderBrands: (brandIds: number[]) =>
+    request<UserBrand[]>('/user/brands/order', { method: 'PUT', body: { ids: brandIds } }),
+
+  listIntents: (signal?: AbortSignal) =>
+    request<UserIntent[]>('/user/intents', { signal }),
+
+  createIntent: (data: IntentCreateRequest) =>
+    request<UserIntent>('/user/intents', { method: 'POST', body: data }),
+
+  updateIntent: (intentId: number, data: IntentUpdateRequest) =>
+    request<UserIntent>(`/user/intents/${intentId}`, { method: 'PATCH', body: data }),
+
+  deleteIntent: (intentId: number) =>
+    request<MessageResponse>(`/user/intents/${intentId}`, { method: 'DELETE' }),
+
+  deleteIntents: (intentIds: number[]) =>
+    request<MessageResponse>('/user/intents/bulk-delete', { method: 'POST', body: { ids: intentIds } }),
+
+  // Every intent ID, in the new order
+  reorderIntents: (intentIds: number[]) =>
+    request<UserIntent[]>('/user/intents/order', { method: 'PUT', body: { ids: intentIds } }),
+
+  getSettings: (signal?: AbortSignal) =>
+    request<UserSettings>('/user/settings', { signal }),
+
+  updateSettings: (settings: UserSettings) =>
+    request<MessageResponse>('/user/settings', { method: 'PUT', body: { settings } }),
+
+  clearHistory: () =>
+    request<MessageResponse>('/user/history', { method: 'DELETE' }),
+
+  exportData: () =>
+    request<UserDataExport>('/user/export'),
+};
+
+// ----------------------------------------------------------------------------
+// Watcher runs
+// ----------------------------------------------------------------------------
+
+export const watcherApi = {
+  run: (data: RunWatcherRequest, signal?: AbortSignal) =>
+    request<RunWatcherResponse>('/run_watcher', { method: 'POST', body: data, signal }),
+
+  getProgress: (runId: string, signal?: AbortSignal) =>
+    request<RunProgress>(`/runs/${encodeURIComponent(runId)}/progress`, { signal }),
+
+  cancelRun: (runId: string) =>
+    request<RunProgress>(`/runs/${encodeURIComponent(runId)}/cancel`, { method: 'POST' }),
+
+  // Re-runs only the failed queries; answers merge into the same run
+  retryFailed: (runId: string, data: RunWatcherRequest, signal?: AbortSignal) =>
+    request<RunWatcherResponse>(`/runs/${encodeURIComponent(runId)}/retry`, { method: 'POST', body: data, signal }),
+
+  listRuns: (signal?: AbortSignal) =>
+    request<RunListItem[]>('/runs', { signal }),
+
+  // Validated so a malformed payload fails loudly instead of rendering blank cards
+  getResults: (runId: string, signal?: AbortSignal): Promise<RunResults> =>
+    request<unknown>(`/results/${encodeURIComponent(runId)}`, { signal }).then(parseRunResults),
+
+  optimizePrompt: (data: OptimizePromptRequest) =>
+    request<OptimizePromptResponse>('/optimize_prompt', { method: 'POST', body: data, auth: false }),
+};
+
+// ----------------------------------------------------------------------------
+// Scheduled runs
+// ----------------------------------------------------------------------------
+
+export const scheduleApi = {
+  list: (signal?: AbortSignal) =>
+    request<Schedule[]>('/schedules', { signal }),
+
+  create: (data: ScheduleCreateRequest) =>
+    request<Schedule>('/schedules', { method: 'POST', body: data }),
+
+  // Resuming counts the next run from now; runs missed while paused are skipped
+  update: (scheduleId: number, data: ScheduleUpdateRequest) =>
+    request<Schedule>(`/schedules/${scheduleId}`, { method: 'PATCH', body: data }),
+
+  delete: (scheduleId: number) =>
+    request<MessageResponse>(`/schedules/${scheduleId}`, { method: 'DELETE' }),
+};
+
+// ----------------------------------------------------------------------------
+// Alert rules & notifications
+// ----------------------------------------------------------------------------
+
+export const alertApi = {
+  listRules: (signal?: AbortSignal) =>
+    request<AlertRule[]>('/alerts/rules', { signal }),
+
+  createRule: (data: AlertRuleCreateRequest) =>
+    request<AlertRule>('/alerts/rules', { method: 'POST', body: data }),
+
+  setRuleEnabled: (ruleId: number, enabled: boolean) =>
+    request<AlertRule>(`/alerts/rules/${ruleId}`, { method: 'PATCH', body: { enabled } }),
+
+  deleteRule: (ruleId: number) =>
+    request<MessageResponse>(`/alerts/rules/${ruleId}`, { method: 'DELETE' }),
+
+  // Latest notifications plus the unread count for the inbox badge
+  listNotifications: (signal?: AbortSignal) =>
+    request<NotificationInbox>('/alerts/notifications', { signal }),
+
+  markRead: (notificationId: number) =>
+    request<MessageResponse>(`/alerts/notifications/${notificationId}/read`, { method: 'POST' }),
+
+  markAllRead: () =>
+    request<MessageResponse>('/alerts/notifications/read-all', { method: 'POST' }),
+};
+
+export const webhookApi = {
+  list: (signal?: AbortSignal) =>
+    request<Webhook[]>('/webhooks', { signal }),
+
+  create: (data: WebhookCreateRequest) =>
+    request<Webhook>('/webhooks', { method: 'POST', body: data }),
+
+  setEnabled: (webhookId: number, enabled: boolean) =>
+    request<Webhook>(`/webhooks/${webhookId}`, { method: 'PATCH', body: { enabled } }),
+
+  delete: (webhookId: number) =>
+    request<MessageResponse>(`/webhooks/${webhookId}`, { method: 'DELETE' }),
+
+  // Posts a sample summary and reports the response code
+  sendTest: (webhookId: number) =>
+    request<WebhookDelivery>(`/webhooks/${webhookId}/test`, { method: 'POST' }),
+
+  listDeliveries: (webhookId: number, signal?: AbortSignal) =>
+    request<WebhookDelivery[]>(`/webhooks/${webhookId}/deliveries`, { signal }),
+};
+
+export const shareApi = {
+  // Active (not revoked, not expired) links of the current user
+  list: (signal?: AbortSignal) =>
+    request<ShareLink[]>('/shares', { signal }),
+
+  create: (data: ShareLinkCreateRequest) =>
+    request<ShareLink>('/shares', { method: 'POST', body: data }),
+
+  revoke: (shareId: number) =>
+    request<MessageResponse>(`/shares/${shareId}`, { method: 'DELETE' }),
+
+  // Public results behind a share token; works signed out
+  getSharedResults: (token: string, signal?: AbortSignal): Promise<RunResults> =>
+    request<unknown>(`/shared/${encodeURIComponent(token)}`, { signal, auth: false }).then(parseRunResults),
+};
+
+// ----------------------------------------------------------------------------
+// Configuration presets
+// ----------------------------------------------------------------------------
+
+export const presetApi = {
+  list: (signal?: AbortSignal) =>
+    request<ConfigPreset[]>('/presets', { signal }),
+
+  // Creates the preset with version 1
+  create: (data: ConfigPresetCreateRequest) =>
+    request<ConfigPreset>('/presets', { method: 'POST', body: data }),
+
+  saveVersion: (presetId: number, data: ConfigPresetVersionCreateRequest) =>
+    request<ConfigPreset>(`/presets/${presetId}/versions`, { method: 'POST', body: data }),
+
+  // Newest first
+  listVersions: (presetId: number, signal?: AbortSignal) =>
+    request<ConfigPresetVersion[]>(`/presets/${presetId}/versions`, { signal }),
+
+  delete: (presetId: number) =>
+    request<MessageResponse>(`/presets/${presetId}`, { method: 'DELETE' }),
+};
@@ -0,0 +1,175 @@
+import type {
+  Answer,
+  BrandMention,
+  IntentResult,
+  MentionSentiment,
+  OperationResult,
+  QueryFailure,
+  RunResults,
+  RunResultStatus,
+  RunSummary,
+  TokenUsage,
+} from '../types';
+
+/**
+ * Thrown when a backend payload does not have the expected shape.
+ * `path` points at the offending field, e.g. `intents_data[0].answers[1].model`.
+ */
+export class ResponseValidationError extends Error {
+  path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const got = received === null ? 'null' : Array.isArray(received) ? 'array' : typeof received;
+    super(`Unexpected response from server: ${path} should be ${expected}, got ${got}`);
+    this.name = 'ResponseValidationError';
+    this.path = path;
+  }
+}
+
+type Parser<T> = (value: unknown, path: string) => T;
+
+const RUN_RESULT_STATUSES: readonly RunResultStatus[] = ['success', 'partial', 'failed'];
+const MENTION_SENTIMENTS: readonly MentionSentiment[] = ['positive', 'neutral', 'negative'];
+
+// ----------------------------------------------------------------------------
+// Primitive parsers
+// ----------------------------------------------------------------------------
+
+function asObject(value: unknown, path: string): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ResponseValidationError(path, 'an object', value);
+  }
+  return value as Record<string, unknown>;
+}
+
+const asString: Parser<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ResponseValidationError(path, 'a string', value);
+  return value;
+};
+
+const asNumber: Parser<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new ResponseValidationError(path, 'a number', value);
+  return value;
+};
+
+// SQLite stores booleans as 0/1, the backend converts them but older rows may slip through
+const asBoolean: Parser<boolean> = (value, path) => {
+  if (typeof value === 'boolean') return value;
+  if (value === 0 || value === 1) return value === 1;
+  throw new ResponseValidationError(path, 'a boolean', value);
+};
+
+const nullable = <T>(parse: Parser<T>): Parser<T | null> => (value, path) =>
+  value === null || value === undefined ? null : parse(value, path);
+
+const arrayOf = <T>(parse: Parser<T>): Parser<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new ResponseValidationError(path, 'an array', value);
+  return value.map((item, index) => parse(item, `${path}[${index}]`));
+};
+
+const oneOf = <T extends string>(allowed: readonly T[]): Parser<T> => (value, path) => {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new ResponseValidationError(path, `one of ${allowed.join(', ')}`, value);
+  }
+  return value as T;
+};
+
+// ----------------------------------------------------------------------------
+// Run results
+// ----------------------------------------------------------------------------
+
+const parseMention: Parser<BrandMention> = (value, path) => {
+  const obj = asObject(value, path);
+  const brand = asString(obj.brand, `${path}.brand`);
+  return {
+    brand,
+    normalized_name: nullable(asString)(obj.normalized_name, `${path}.normalized_name`) ?? brand,
+    is_mine: asBoolean(obj.is_mine, `${path}.is_mine`),
+    rank: nullable(asNumber)(obj.rank, `${path}.rank`),
+    sentiment: nullable(oneOf(MENTION_SENTIMENTS))(obj.sentiment, `${path}.sentiment`),
+    context: nullable(asString)(obj.context, `${path}.context`),
+  };
+};
+
+const parseUsage: Parser<TokenUsage> = (value, path) => {
+  const obj = value === null || value === undefined ? {} : asObject(value, path);
+  const usage: TokenUsage = {};
+  for (const key of ['prompt_tokens', 'completion_tokens', 'total_tokens'] as const) {
+    const count = nullable(asNumber)(obj[key], `${path}.${key}`);
+    if (count !== null) usage[key] = count;
+  }
+  return usage;
+};
+
+const parseOperationResult: Parser<OperationResult> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    operation_id: asString(obj.operation_id, `${path}.operation_id`),
+    description: nullable(asString)(obj.description, `${path}.description`),
+    model: asString(obj.model, `${path}.model`),
+    result: nullable(asString)(obj.result, `${path}.result`) ?? '',
+    depends_on: nullable(arrayOf(asString))(obj.depends_on, `${path}.depends_on`) ?? [],
+    cost_usd: nullable(asNumber)(obj.cost_usd, `${path}.cost_usd`),
+    error: nullable(asString)(obj.error, `${path}.error`),
+  };
+};
+
+const parseAnswer: Parser<Answer> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    answer: asString(obj.answer, `${path}.answer`),
+    model: asString(obj.model, `${path}.model`),
+    cost_usd: nullable(asNumber)(obj.cost_usd, `${path}.cost_usd`),
+    mentions: arrayOf(parseMention)(obj.mentions, `${path}.mentions`),
+    // Not returned by servers that predate operation results
+    operations: obj.operations === undefined ? [] : arrayOf(parseOperationResult)(obj.operations, `${path}.operations`),
+    usage: parseUsage(obj.usage, `${path}.usage`),
+  };
+};
+
+const parseIntentResult: Parser<IntentResult> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    intent_id: asString(obj.intent_id, `${path}.intent_id`),
+    prompt: asString(obj.prompt, `${path}.prompt`),
+    answers: arrayOf(parseAnswer)(obj.answers, `${path}.answers`),
+  };
+};
+
+const parseRunSummary: Parser<RunSummary> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    run_id: asString(obj.run_id, `${path}.run_id`),
+    timestamp_utc: asString(obj.timestamp_utc, `${path}.timestamp_utc`),
+    total_intents: asNumber(obj.total_intents, `${path}.total_intents`),
+    total_models: asNumber(obj.total_models, `${path}.total_models`),
+    total_cost_usd: nullable(asNumber)(obj.total_cost_usd, `${path}.total_cost_usd`) ?? 0,
+    status: nullable(oneOf(RUN_RESULT_STATUSES))(obj.status, `${path}.status`),
+  };
+};
+
+const parseQueryFailure: Parser<QueryFailure> = (value, path) => {
+  const obj = asObject(value, path);
+  return {
+    intent_id: asString(obj.intent_id, `${path}.intent_id`),
+    model_provider: asString(obj.model_provider, `${path}.model_provider`),
+    model_name: asString(obj.model_name, `${path}.model_name`),
+    timestamp_utc: asString(obj.timestamp_utc, `${path}.timestamp_utc`),
+    error_message: asString(obj.error_message, `${path}.error_message`),
+  };
+};
+
+/**
+ * Validate a GET /results/{run_id} payload and normalize optional fields
+ * (missing usage becomes `{}`, missing operations `[]`, missing normalized_name
+ * falls back to the brand).
+ */
+export function parseRunResults(data: unknown): RunResults {
+  const obj = asObject(data, 'results');
+  return {
+    run_summary: parseRunSummary(obj.run_summary, 'run_summary'),
+    intents_data: arrayOf(parseIntentResult)(obj.intents_data, 'intents_data'),
+    // Not returned by servers that predate failure tracking
+    failures: obj.failures === undefined ? [] : arrayOf(parseQueryFailure)(obj.failures, 'failures'),
+  };
+}
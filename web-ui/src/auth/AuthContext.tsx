@@ -1,17 +1,18 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { jwtDecode } from 'jwt-decode';
-
-// API base URL - same pattern as Dashboard
-const API_BASE_URL = import.meta.env.VITE_API_URL ||
-  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
-
-interface User {
-  id: number;
-  username: string;
-  email: string;
-  created_at: string;
-  is_active: boolean;
-}
+import {
+  authApi,
+  clearStoredTokens,
+  getStoredAccessToken,
+  getStoredRefreshToken,
+  onTokensChanged,
+  refreshAccessToken,
+  storeTokens,
+} from '../api/client';
+import type { User } from '../types';
+
+// Refresh the access token this long before it expires
+const PROACTIVE_REFRESH_MS = 60 * 1000;
 
 interface TokenPayload {
   sub: string;
@@ -52,8 +53,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   // Load tokens from localStorage on mount
   useEffect(() => {
-    const storedToken = localStorage.getItem('access_token');
-    const storedRefreshToken = localStorage.getItem('refresh_token');
+    const storedToken = getStoredAccessToken();
+    const storedRefreshToken = getStoredRefreshToken();
 
     if (storedToken) {
       try {
@@ -65,7 +66,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
           fetchUser(storedToken);
         } else if (storedRefreshToken) {
           // Token expired, try to refresh
-          refreshTokenFromStorage(storedRefreshToken);
+          refreshTokenFromStorage();
         } else {
           clearAuth();
         }
@@ -76,9 +77,45 @@ export function AuthProvider({ children }: AuthProviderProps) {
     setIsLoading(false);
   }, []);
 
+  // Keep state in sync with refreshes done by the API client (401 retries or proactive)
+  useEffect(() => {
+    return onTokensChanged((tokens) => {
+      if (tokens) {
+        setToken(tokens.access_token);
+        if (tokens.refresh_token) {
+          setRefreshTokenValue(tokens.refresh_token);
+        }
+      } else {
+        // Refresh token was rejected, the session is over
+        setToken(null);
+        setRefreshTokenValue(null);
+        setUser(null);
+      }
+    });
+  }, []);
+
+  // Refresh shortly before the access token expires so requests never hit a 401
+  useEffect(() => {
+    if (!token || !refreshTokenValue) return;
+
+    let expiresAt: number;
+    try {
+      expiresAt = jwtDecode<TokenPayload>(token).exp * 1000;
+    } catch {
+      return;
+    }
+
+    const delay = Math.max(expiresAt - Date.now() - PROACTIVE_REFRESH_MS, 0);
+    const timer = setTimeout(() => {
+      refreshAccessToken().catch((error) => {
+        console.error('Failed to refresh token:', error);
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [token, refreshTokenValue]);
+
   const clearAuth = () => {
-    localStorage.removeItem('access_token');
-    localStorage.removeItem('refresh_token');
+    clearStoredTokens();
     setToken(null);
     setRefreshTokenValue(null);
     setUser(null);
@@ -86,48 +123,24 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const fetchUser = async (accessToken: string) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/me`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-      } else {
-        clearAuth();
-      }
+      const userData = await authApi.me(accessToken);
+      setUser(userData);
     } catch (error) {
       console.error('Failed to fetch user:', error);
       clearAuth();
     }
   };
 
-  const refreshTokenFromStorage = async (storedRefreshToken: string) => {
+  const refreshTokenFromStorage = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ refresh_token: storedRefreshToken }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        localStorage.setItem('access_token', data.access_token);
-        if (data.refresh_token) {
-          localStorage.setItem('refresh_token', data.refresh_token);
-          setRefreshTokenValue(data.refresh_token);
-        }
-        setToken(data.access_token);
-        await fetchUser(data.access_token);
-        return true;
-      } else {
+      // Shares the client's in-flight refresh, token state is updated by the listener above
+      const accessToken = await refreshAccessToken();
+      if (!accessToken) {
         clearAuth();
         return false;
       }
+      await fetchUser(accessToken);
+      return true;
     } catch (error) {
       console.error('Failed to refresh token:', error);
       clearAuth();
@@ -136,24 +149,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   const login = async (username: string, password: string) => {
-    const response = await fetch(`${API_BASE_URL}/auth/login`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ username, password }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Login failed');
-    }
+    const data = await authApi.login({ username, password });
 
-    const data = await response.json();
-
-    localStorage.setItem('access_token', data.access_token);
+    storeTokens(data);
     if (data.refresh_token) {
-      localStorage.setItem('refresh_token', data.refresh_token);
       setRefreshTokenValue(data.refresh_token);
     }
     setToken(data.access_token);
@@ -161,18 +160,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   const register = async (username: string, email: string, password: string) => {
-    const response = await fetch(`${API_BASE_URL}/auth/register`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ username, email, password }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.detail || 'Registration failed');
-    }
+    await authApi.register({ username, email, password });
 
     // Auto-login after registration
     await login(username, password);
@@ -181,12 +169,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const logout = async () => {
     if (token) {
       try {
-        await fetch(`${API_BASE_URL}/auth/logout`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
+        await authApi.logout(token);
       } catch (error) {
         console.error('Logout request failed:', error);
       }
@@ -198,7 +181,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     if (!refreshTokenValue) {
       return false;
     }
-    return await refreshTokenFromStorage(refreshTokenValue);
+    return await refreshTokenFromStorage();
   };
 
   return (
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Tags } from 'lucide-react';
+import type { BrandEntity } from '../types';
+import { BRAND_TERM_FIELDS, cleanTerms, toBrandEntity } from '../config/brands';
+import { TagInput } from './ui/TagInput';
+
+interface BrandEntityEditorProps {
+  entity: BrandEntity;
+  onChange: (entity: BrandEntity) => void;
+  theme: string;
+}
+
+// Aliases, product lines and excluded terms of one brand
+export function BrandEntityEditor({ entity, onChange, theme }: BrandEntityEditorProps) {
+  return (
+    <div className="grid gap-3 md:grid-cols-3">
+      {BRAND_TERM_FIELDS.map(field => (
+        <div key={field.key}>
+          <label className={`block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-slate-600'}`}>
+            {field.label}
+          </label>
+          <TagInput
+            tags={entity[field.key]}
+            onChange={(tags) => onChange({ ...entity, [field.key]: cleanTerms(tags) })}
+            placeholder={field.placeholder}
+            theme={theme}
+          />
+          <p className={`text-[10px] mt-1 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>{field.description}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface BrandEntitiesPanelProps {
+  brandNames: string[];
+  // Keyed by brand name; brands without an entry have no extra terms
+  entities: Record<string, BrandEntity>;
+  onChange: (entities: Record<string, BrandEntity>) => void;
+  theme: string;
+}
+
+// One chip per tracked brand; the selected brand's terms are edited below the chips
+export function BrandEntitiesPanel({ brandNames, entities, onChange, theme }: BrandEntitiesPanelProps) {
+  const [openBrand, setOpenBrand] = useState<string | null>(null);
+
+  if (brandNames.length === 0) return null;
+  const selected = openBrand !== null && brandNames.includes(openBrand) ? openBrand : null;
+
+  return (
+    <div>
+      <label className="label flex items-center gap-2 mb-1">
+        <Tags className="w-4 h-4 text-primary-400" /> Aliases & product lines
+      </label>
+      <p className={`text-xs mb-3 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+        Mentions of an alias or product line count as the brand itself in every stat.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {brandNames.map(name => {
+          const entity = toBrandEntity(entities[name]);
+          const termCount = BRAND_TERM_FIELDS.reduce((sum, { key }) => sum + entity[key].length, 0);
+          return (
+            <button
+              key={name}
+              type="button"
+              onClick={() => setOpenBrand(selected === name ? null : name)}
+              className={`text-xs font-medium flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-all ${selected === name
+                ? 'bg-primary-500/20 border-primary-500/50 text-primary-300'
+                : theme === 'dark' ? 'bg-navy-800 border-navy-700 text-navy-200 hover:border-primary-500/50' : 'bg-white border-gray-200 text-gray-700 hover:border-primary-200'}`}
+            >
+              {name}
+              {termCount > 0 && (
+                <span className={`px-1.5 rounded-full ${theme === 'dark' ? 'bg-navy-700 text-navy-200' : 'bg-gray-100 text-gray-600'}`}>{termCount}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+      {selected !== null && (
+        <div className={`mt-3 p-4 rounded-xl border ${theme === 'dark' ? 'bg-navy-900/40 border-navy-700/50' : 'bg-white/50 border-gray-200/50'}`}>
+          <BrandEntityEditor
+            entity={toBrandEntity(entities[selected])}
+            onChange={(entity) => onChange({ ...entities, [selected]: entity })}
+            theme={theme}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
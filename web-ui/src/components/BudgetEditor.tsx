@@ -0,0 +1,76 @@
+import { AlertTriangle } from 'lucide-react';
+import { formatUsd } from '../analytics/estimate';
+import { BUDGET_LIMITS } from '../config/budget';
+import type { BudgetLimit } from '../config/budget';
+import type { BudgetConfig } from '../types';
+
+interface BudgetEditorProps {
+  budget: BudgetConfig;
+  onChange: (budget: BudgetConfig) => void;
+  theme: string;
+  // Pre-run estimate of the current configuration, to flag a max-per-run limit it already exceeds
+  estimatedCostUsd?: number;
+}
+
+// Edits `run_settings.budget`; the backend checks these limits against its own estimate before the run starts
+export function BudgetEditor({ budget, onChange, theme, estimatedCostUsd }: BudgetEditorProps) {
+  const setLimit = (key: BudgetLimit, raw: string) => {
+    const value = raw === '' ? null : Number(raw);
+    if (value !== null && (!Number.isFinite(value) || value < 0)) return;
+    onChange({ ...budget, [key]: value });
+  };
+
+  const overRunLimit = budget.enabled
+    && estimatedCostUsd !== undefined
+    && budget.max_per_run_usd !== null
+    && budget.max_per_run_usd > 0
+    && estimatedCostUsd > budget.max_per_run_usd;
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between gap-4 cursor-pointer">
+        <span>
+          <span className={`block font-medium ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>Enable budget controls</span>
+          <span className={`block text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+            Written to the config as <code className="font-mono">run_settings.budget</code>. Leave a field empty for no limit.
+          </span>
+        </span>
+        <input
+          type="checkbox"
+          checked={budget.enabled}
+          onChange={(e) => onChange({ ...budget, enabled: e.target.checked })}
+          className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+      </label>
+
+      <div className={`grid grid-cols-1 sm:grid-cols-3 gap-3 ${budget.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+        {BUDGET_LIMITS.map(limit => (
+          <label key={limit.key} className="block" title={limit.description}>
+            <span className={`block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>{limit.label}</span>
+            <div className="relative">
+              <span className={`absolute left-3 top-1/2 -translate-y-1/2 text-sm ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`}>$</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={budget[limit.key] ?? ''}
+                onChange={(e) => setLimit(limit.key, e.target.value)}
+                placeholder="No limit"
+                disabled={!budget.enabled}
+                className={`w-full pl-7 pr-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`}
+              />
+            </div>
+            <span className={`block text-[11px] mt-1 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>{limit.description}</span>
+          </label>
+        ))}
+      </div>
+
+      {overRunLimit && (
+        <p className="text-xs text-amber-400 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          This configuration is estimated at ~{formatUsd(estimatedCostUsd)}, above the {formatUsd(budget.max_per_run_usd as number)} limit - the run will likely be refused.
+        </p>
+      )}
+    </div>
+  );
+}
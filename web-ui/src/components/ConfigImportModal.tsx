@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, FileUp, Upload, X, XCircle } from 'lucide-react';
+import { importWatcherConfig, type ConfigIssue, type ImportedConfig } from '../config/configImport';
+
+interface ConfigImportModalProps {
+  onImport: (config: ImportedConfig, warnings: ConfigIssue[]) => void;
+  onClose: () => void;
+  theme: string;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Drop or paste a CLI watcher YAML config to fill in the Dashboard form
+export function ConfigImportModal({ onImport, onClose, theme }: ConfigImportModalProps) {
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => (text.trim() ? importWatcherConfig(text) : null), [text]);
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    setReadError(null);
+    file.text()
+      .then(content => {
+        setText(content);
+        setFileName(file.name);
+      })
+      .catch(() => setReadError(`Could not read ${file.name}`));
+  };
+
+  const mutedClass = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+  const config = parsed?.config;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl border p-6 shadow-2xl ${
+          theme === 'dark' ? 'bg-navy-900 border-navy-700' : 'bg-white border-gray-200'
+        } animate-scale-in`}
+      >
+        <div className="flex items-start gap-4 mb-5">
+          <div className="flex-shrink-0 p-3 rounded-full text-primary-500 bg-primary-500/10">
+            <FileUp className="w-6 h-6" />
+          </div>
+          <div className="flex-1">
+            <h3 className={`text-lg font-bold leading-6 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              Import YAML config
+            </h3>
+            <p className={`mt-1 text-sm ${mutedClass}`}>
+              Load a <code>watcher.config.yaml</code> used with the CLI. It replaces the models, brands, intents, operations, budget and extraction settings of the form.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`flex-shrink-0 p-1 rounded-lg transition-colors ${
+              theme === 'dark'
+                ? 'text-navy-400 hover:bg-navy-800 hover:text-white'
+                : 'text-gray-400 hover:bg-gray-100 hover:text-gray-600'
+            }`}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Drop zone */}
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            loadFile(e.dataTransfer.files[0]);
+          }}
+          className={`flex flex-col items-center justify-center gap-2 p-6 mb-3 rounded-xl border-2 border-dashed cursor-pointer transition-colors ${
+            isDragging
+              ? 'border-primary-500 bg-primary-500/10'
+              : theme === 'dark' ? 'border-navy-700 hover:border-navy-500' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <Upload className={`w-6 h-6 ${mutedClass}`} />
+          <span className="text-sm font-medium">{fileName ?? 'Drop a .yaml file here or click to browse'}</span>
+          <input
+            type="file"
+            accept=".yaml,.yml,text/yaml,application/x-yaml"
+            className="hidden"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+          />
+        </label>
+
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setFileName(null);
+          }}
+          placeholder={'...or paste it here\n\nrun_settings:\n  models:\n    - provider: google\n      model_name: models/gemini-2.5-flash\nbrands:\n  mine: [...]'}
+          rows={10}
+          spellCheck={false}
+          className={`w-full px-3 py-2 rounded-lg border font-mono text-xs ${theme === 'dark' ? 'bg-navy-950 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`}
+        />
+
+        {readError && <p className="text-sm text-rose-400 mt-2">{readError}</p>}
+
+        {parsed && parsed.errors.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg border border-rose-500/30 bg-rose-500/10 text-sm">
+            <p className="font-medium text-rose-400 flex items-center gap-2 mb-1">
+              <XCircle className="w-4 h-4" /> This config can't be imported
+            </p>
+            <ul className={`list-disc pl-6 space-y-0.5 ${theme === 'dark' ? 'text-rose-200' : 'text-rose-700'}`}>
+              {parsed.errors.map(error => <li key={error.text}>{error.text}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {config && (
+          <p className={`mt-3 text-sm ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}>
+            {[
+              plural(config.models.length, 'model'),
+              plural(config.myBrands.length, 'brand'),
+              plural(config.competitors.length, 'competitor'),
+              plural(config.intents.length, 'intent'),
+              ...(config.globalOperations.length > 0 ? [plural(config.globalOperations.length, 'global operation')] : []),
+            ].join(', ')}
+          </p>
+        )}
+
+        {parsed && parsed.warnings.length > 0 && (
+          <div className="mt-3 p-3 rounded-lg border border-amber-500/30 bg-amber-500/10 text-sm">
+            <p className="font-medium text-amber-400 flex items-center gap-2 mb-1">
+              <AlertTriangle className="w-4 h-4" /> Not imported
+            </p>
+            <ul className={`list-disc pl-6 space-y-0.5 ${theme === 'dark' ? 'text-amber-100' : 'text-amber-800'}`}>
+              {parsed.warnings.map(warning => <li key={warning.text}>{warning.text}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => config && parsed && onImport(config, parsed.warnings)}
+            disabled={!config}
+            className="btn-primary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
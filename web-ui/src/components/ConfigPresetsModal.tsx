@@ -0,0 +1,348 @@
+import { useEffect, useState } from 'react';
+import { Bookmark, GitCompare, History, Loader2, RotateCcw, Trash2, Upload, X } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { isAbortError, presetApi } from '../api/client';
+import { countChanges, diffLines, type ActivePreset } from '../config/presets';
+import type { ConfigPreset, ConfigPresetVersion } from '../types';
+
+interface ConfigPresetsModalProps {
+  // Current Dashboard configuration, as sent to /run_watcher
+  yamlConfig: string;
+  activePreset: ActivePreset | null;
+  // Fill the form with a saved version
+  onLoad: (preset: ActivePreset, yamlConfig: string) => void;
+  onSaved: (preset: ActivePreset) => void;
+  onDeleted: (presetId: number) => void;
+  onClose: () => void;
+  theme: string;
+}
+
+// Which version is diffed, and against what
+interface DiffTarget {
+  version: number;
+  against: 'previous' | 'form';
+}
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Named, versioned Dashboard configurations: save, load, browse history, restore and diff
+export function ConfigPresetsModal({ yamlConfig, activePreset, onLoad, onSaved, onDeleted, onClose, theme }: ConfigPresetsModalProps) {
+  const { showToast } = useToast();
+  const [presets, setPresets] = useState<ConfigPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Preset whose history is shown, with its versions once loaded
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [versions, setVersions] = useState<ConfigPresetVersion[] | null>(null);
+  const [diffTarget, setDiffTarget] = useState<DiffTarget | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    presetApi.list(controller.signal)
+      .then(data => {
+        setPresets(data);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to load presets');
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    if (historyId === null) return;
+    const controller = new AbortController();
+    presetApi.listVersions(historyId, controller.signal)
+      .then(setVersions)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to load the version history');
+      });
+    return () => controller.abort();
+  }, [historyId]);
+
+  const current = activePreset ? presets.find(preset => preset.id === activePreset.id) : undefined;
+  const unchanged = current?.yaml_config === yamlConfig;
+
+  const storeSaved = (saved: ConfigPreset) => {
+    setPresets(prev => [...prev.filter(preset => preset.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    if (historyId === saved.id) {
+      presetApi.listVersions(saved.id).then(setVersions).catch(() => setVersions(null));
+    }
+    onSaved({ id: saved.id, name: saved.name, version: saved.latest_version });
+    setNote('');
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    setIsSaving(true);
+    setError(null);
+    const body = { yaml_config: yamlConfig, ...(note.trim() && { note: note.trim() }) };
+    try {
+      if (asNew) {
+        const saved = await presetApi.create({ name: name.trim(), ...body });
+        storeSaved(saved);
+        setName('');
+        showToast(`Saved preset "${saved.name}"`, 'success');
+      } else if (current) {
+        const saved = await presetApi.saveVersion(current.id, body);
+        storeSaved(saved);
+        showToast(`Saved "${saved.name}" v${saved.latest_version}`, 'success');
+      }
+    } catch (err) {
+      // Duplicate names and configs the backend cannot validate come back as a 400 detail
+      setError(err instanceof Error ? err.message : 'Failed to save preset');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: ConfigPreset) => {
+    if (!confirm(`Delete the preset "${preset.name}" and all ${preset.latest_version} of its versions?`)) return;
+    try {
+      await presetApi.delete(preset.id);
+      setPresets(prev => prev.filter(p => p.id !== preset.id));
+      if (historyId === preset.id) setHistoryId(null);
+      onDeleted(preset.id);
+      showToast(`Deleted "${preset.name}"`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete preset', 'error');
+    }
+  };
+
+  const toggleHistory = (presetId: number) => {
+    setVersions(null);
+    setDiffTarget(null);
+    setHistoryId(prev => (prev === presetId ? null : presetId));
+  };
+
+  const toggleDiff = (target: DiffTarget) =>
+    setDiffTarget(prev => (prev?.version === target.version && prev.against === target.against ? null : target));
+
+  const renderDiff = (version: ConfigPresetVersion) => {
+    if (!versions || diffTarget?.version !== version.version) return null;
+    const previous = versions.find(v => v.version < version.version);
+    const [before, after, caption] = diffTarget.against === 'form'
+      ? [version.yaml_config, yamlConfig, `v${version.version} → current form`]
+      : [previous?.yaml_config ?? '', version.yaml_config, previous ? `v${previous.version} → v${version.version}` : `v${version.version} (first version)`];
+    const diff = diffLines(before, after);
+    const { added, removed } = countChanges(diff);
+    return (
+      <div className="mt-2">
+        <p className={`text-xs mb-1 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+          {caption}: <span className="text-emerald-500">+{added}</span> <span className="text-rose-400">-{removed}</span>
+        </p>
+        {added + removed === 0 ? (
+          <p className={`text-xs ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>No differences</p>
+        ) : (
+          <pre className={`max-h-64 overflow-auto rounded-lg border p-2 text-xs font-mono ${theme === 'dark' ? 'bg-navy-950 border-navy-800 text-navy-300' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+            {diff.map((line, index) => (
+              <div
+                key={index}
+                className={line.kind === 'added'
+                  ? 'bg-emerald-500/15 text-emerald-500'
+                  : line.kind === 'removed' ? 'bg-rose-500/15 text-rose-400' : ''}
+              >
+                {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </pre>
+        )}
+      </div>
+    );
+  };
+
+  const fieldClass = `w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-950 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`;
+  const mutedClass = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+  const iconButtonClass = `p-1.5 rounded-lg transition-colors ${theme === 'dark' ? 'text-navy-400 hover:bg-navy-800 hover:text-white' : 'text-gray-400 hover:bg-gray-100 hover:text-gray-700'}`;
+  const smallButtonClass = `px-2 py-1 rounded-lg text-xs font-medium flex items-center gap-1 transition-colors ${theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl border p-6 shadow-2xl ${
+          theme === 'dark' ? 'bg-navy-900 border-navy-700' : 'bg-white border-gray-200'
+        } animate-scale-in`}
+      >
+        <div className="flex items-start gap-4 mb-5">
+          <div className="flex-shrink-0 p-3 rounded-full text-primary-500 bg-primary-500/10">
+            <Bookmark className="w-6 h-6" />
+          </div>
+          <div className="flex-1">
+            <h3 className={`text-lg font-bold leading-6 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              Configuration presets
+            </h3>
+            <p className={`mt-1 text-sm ${mutedClass}`}>
+              Save the models, brands, competitors, intents, web search and extraction settings under a name. Every save keeps the previous versions.
+            </p>
+          </div>
+          <button onClick={onClose} className={`flex-shrink-0 ${iconButtonClass}`}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Save */}
+        <div className="space-y-3">
+          <label className="block">
+            <span className={labelClass}>Version note (optional)</span>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g., Added two competitors"
+              className={fieldClass}
+            />
+          </label>
+          {current && (
+            <button
+              type="button"
+              onClick={() => handleSave(false)}
+              disabled={isSaving || unchanged}
+              title={unchanged ? `No changes since v${current.latest_version}` : undefined}
+              className="btn-primary w-full text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Bookmark className="w-4 h-4" />}
+              Save as v{current.latest_version + 1} of "{current.name}"
+            </button>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="New preset name, e.g., CRM market - EU"
+              className={fieldClass}
+            />
+            <button
+              type="button"
+              onClick={() => handleSave(true)}
+              disabled={isSaving || !name.trim()}
+              className={`${current ? 'btn-secondary' : 'btn-primary'} text-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed`}
+            >
+              Save as new
+            </button>
+          </div>
+          {error && <p className="text-sm text-rose-400">{error}</p>}
+        </div>
+
+        {/* Saved presets */}
+        <div className={`mt-6 pt-4 border-t ${theme === 'dark' ? 'border-navy-800' : 'border-gray-100'}`}>
+          <h4 className={`text-sm font-medium mb-2 ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>Saved presets</h4>
+          {loading ? (
+            <div className={`flex items-center gap-2 text-sm ${mutedClass}`}>
+              <Loader2 className="w-4 h-4 animate-spin" /> Loading presets...
+            </div>
+          ) : presets.length === 0 ? (
+            <p className={`text-sm ${mutedClass}`}>No presets yet - save the current configuration above.</p>
+          ) : (
+            <ul className="space-y-2">
+              {presets.map(preset => (
+                <li
+                  key={preset.id}
+                  className={`rounded-lg border p-3 ${
+                    preset.id === activePreset?.id
+                      ? 'border-primary-500/50 bg-primary-500/5'
+                      : theme === 'dark' ? 'border-navy-800' : 'border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm font-medium truncate ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>{preset.name}</p>
+                      <p className={`text-xs ${mutedClass}`}>v{preset.latest_version} · saved {formatDate(preset.updated_at)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => onLoad({ id: preset.id, name: preset.name, version: preset.latest_version }, preset.yaml_config)}
+                      className={smallButtonClass}
+                      title="Fill the form with the latest version"
+                    >
+                      <Upload className="w-3.5 h-3.5" /> Load
+                    </button>
+                    <button type="button" onClick={() => toggleHistory(preset.id)} className={smallButtonClass}>
+                      <History className="w-3.5 h-3.5" /> History
+                    </button>
+                    <button type="button" onClick={() => handleDelete(preset)} className={iconButtonClass} title="Delete preset">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {historyId === preset.id && (
+                    <div className={`mt-3 pt-3 border-t ${theme === 'dark' ? 'border-navy-800' : 'border-gray-100'}`}>
+                      {!versions ? (
+                        <div className={`flex items-center gap-2 text-xs ${mutedClass}`}>
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Loading versions...
+                        </div>
+                      ) : (
+                        <ol className="space-y-2">
+                          {versions.map(version => (
+                            <li key={version.version}>
+                              <div className="flex items-center gap-2">
+                                <span className="font-mono text-xs text-primary-400 w-8">v{version.version}</span>
+                                <div className="flex-1 min-w-0">
+                                  <p className={`text-xs truncate ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}>
+                                    {version.note ?? <span className={mutedClass}>No note</span>}
+                                  </p>
+                                  <p className={`text-xs ${mutedClass}`}>{formatDate(version.created_at)}</p>
+                                </div>
+                                {version.version > 1 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => toggleDiff({ version: version.version, against: 'previous' })}
+                                    className={smallButtonClass}
+                                    title="Changes from the previous version"
+                                  >
+                                    <GitCompare className="w-3.5 h-3.5" /> Diff
+                                  </button>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() => toggleDiff({ version: version.version, against: 'form' })}
+                                  className={smallButtonClass}
+                                  title="Changes in the current form since this version"
+                                >
+                                  <GitCompare className="w-3.5 h-3.5" /> vs form
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => onLoad({ id: preset.id, name: preset.name, version: version.version }, version.yaml_config)}
+                                  className={smallButtonClass}
+                                  title="Fill the form with this version; saving then adds a new version"
+                                >
+                                  <RotateCcw className="w-3.5 h-3.5" /> Restore
+                                </button>
+                              </div>
+                              {renderDiff(version)}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
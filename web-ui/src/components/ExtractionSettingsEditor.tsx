@@ -0,0 +1,134 @@
+import { PROVIDERS } from '../providers/registry';
+import { EXTRACTION_METHODS, confidenceLevel } from '../config/extraction';
+import type { ExtractionOptions } from '../config/extraction';
+import type { Provider } from '../types';
+
+interface ExtractionSettingsEditorProps {
+  options: ExtractionOptions;
+  onChange: (options: ExtractionOptions) => void;
+  theme: string;
+}
+
+// Edits the `extraction_settings` block: which model reads the answers and how mentions are detected
+export function ExtractionSettingsEditor({ options, onChange, theme }: ExtractionSettingsEditorProps) {
+  const update = (changes: Partial<ExtractionOptions>) => onChange({ ...options, ...changes });
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`;
+  const hintClass = `block text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`;
+  const usesFunctionCalling = options.method !== 'regex';
+
+  const toggleRow = (label: string, hint: string, checked: boolean, onToggle: (checked: boolean) => void, disabled = false) => (
+    <label className={`flex items-center justify-between gap-4 ${disabled ? 'opacity-50' : 'cursor-pointer'}`}>
+      <span>
+        <span className={`block text-sm font-medium ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>{label}</span>
+        <span className={hintClass}>{hint}</span>
+      </span>
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onToggle(e.target.checked)}
+        className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-5">
+      {toggleRow(
+        'Use an extraction model',
+        'Off: brands are found by regex only, without sentiment or intent data.',
+        options.enabled,
+        enabled => update({ enabled })
+      )}
+
+      <div className={`space-y-5 ${options.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+        <div>
+          <span className={labelClass}>Extraction model</span>
+          <select
+            value={`${options.model.provider}:${options.model.model_name}`}
+            onChange={(e) => {
+              const [provider, ...rest] = e.target.value.split(':');
+              update({ model: { provider: provider as Provider, model_name: rest.join(':') } });
+            }}
+            disabled={!options.enabled}
+            className={`w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white' : 'bg-white border-gray-200 text-gray-900'}`}
+          >
+            {PROVIDERS.map(provider => (
+              <optgroup key={provider.id} label={provider.name}>
+                {provider.models.map(model => (
+                  <option key={model.id} value={`${provider.id}:${model.id}`}>{model.name}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <span className={`${hintClass} mt-1`}>Its provider needs an API key, even if it answers no questions.</span>
+        </div>
+
+        <div>
+          <span className={labelClass}>Method</span>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {EXTRACTION_METHODS.map(method => (
+              <button
+                key={method.id}
+                type="button"
+                onClick={() => update({ method: method.id })}
+                className={`p-3 rounded-lg border text-left transition-colors ${options.method === method.id
+                  ? 'border-primary-500 bg-primary-500/10'
+                  : theme === 'dark' ? 'border-navy-700/50 hover:border-navy-600' : 'border-gray-200 hover:border-gray-300 bg-white'
+                }`}
+              >
+                <span className={`block text-sm font-medium ${options.method === method.id ? 'text-primary-400' : theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>
+                  {method.name}
+                </span>
+                <span className={hintClass}>{method.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {toggleRow(
+          'Fall back to regex',
+          'Use regex detection for an answer when function calling fails.',
+          options.method === 'hybrid' || options.fallback_to_regex,
+          fallback_to_regex => update({ fallback_to_regex }),
+          options.method !== 'function_calling'
+        )}
+
+        <div className={usesFunctionCalling ? '' : 'opacity-50 pointer-events-none'}>
+          <div className="flex items-center justify-between">
+            <span className={labelClass}>Minimum confidence</span>
+            <span className={`text-xs font-mono ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}>
+              {options.min_confidence.toFixed(2)} · keeps {confidenceLevel(options.min_confidence)}
+              {confidenceLevel(options.min_confidence) === 'high' ? ' only' : '+'}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={options.min_confidence}
+            onChange={(e) => update({ min_confidence: Number(e.target.value) })}
+            disabled={!usesFunctionCalling}
+            className="w-full accent-primary-500"
+          />
+          <span className={hintClass}>Mentions the extraction model rates below this are dropped. Higher means fewer, surer mentions.</span>
+        </div>
+
+        {toggleRow(
+          'Sentiment analysis',
+          'Rate each mention as positive, neutral or negative.',
+          options.enable_sentiment_analysis,
+          enable_sentiment_analysis => update({ enable_sentiment_analysis }),
+          !usesFunctionCalling
+        )}
+        {toggleRow(
+          'Intent classification',
+          'Classify each question once before it is asked (one extra call per question).',
+          options.enable_intent_classification,
+          enable_intent_classification => update({ enable_intent_classification })
+        )}
+      </div>
+    </div>
+  );
+}
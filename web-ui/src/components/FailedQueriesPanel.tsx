@@ -0,0 +1,69 @@
+import { AlertTriangle, RotateCcw, XCircle } from 'lucide-react';
+import type { QueryFailure } from '../types';
+
+interface FailedQueriesPanelProps {
+  failures: QueryFailure[];
+  theme: string;
+  onRetry: () => void;
+  disabled?: boolean;
+}
+
+const modelLabel = (failure: QueryFailure) =>
+  `${failure.model_provider} · ${failure.model_name.replace(/^models\//, '')}`;
+
+// Inline flag for a failed model, shown on the intent it belongs to
+export function FailedQueryBadge({ failure, theme }: { failure: QueryFailure; theme: string }) {
+  return (
+    <div
+      className={`flex items-center gap-2 mb-4 px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-rose-500/10 border-rose-500/20 text-rose-300' : 'bg-rose-50 border-rose-200 text-rose-600'}`}
+      title={failure.error_message}
+    >
+      <XCircle className="w-4 h-4 shrink-0" />
+      <span className="font-medium">{modelLabel(failure)}</span>
+      <span className="truncate opacity-80">- no answer: {failure.error_message}</span>
+    </div>
+  );
+}
+
+export function FailedQueriesPanel({ failures, theme, onRetry, disabled }: FailedQueriesPanelProps) {
+  if (failures.length === 0) return null;
+
+  return (
+    <div className={`mb-8 rounded-2xl border p-5 ${theme === 'dark' ? 'bg-rose-500/5 border-rose-500/20' : 'bg-rose-50/60 border-rose-200'}`}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <AlertTriangle className="w-5 h-5 text-rose-400 shrink-0" />
+          <div>
+            <h3 className={`font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              {failures.length} {failures.length === 1 ? 'query has' : 'queries have'} no answer
+            </h3>
+            <p className={`text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'}`}>
+              Retrying re-sends only these intent × model queries and adds the answers to this run.
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onRetry}
+          disabled={disabled}
+          className={`flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${theme === 'dark' ? 'border-rose-500/30 text-rose-300 hover:bg-rose-500/10' : 'border-rose-200 text-rose-600 hover:bg-rose-100'}`}
+        >
+          <RotateCcw className="w-4 h-4" />
+          Retry failed
+        </button>
+      </div>
+
+      <ul className={`divide-y text-sm ${theme === 'dark' ? 'divide-navy-700/50' : 'divide-rose-100'}`}>
+        {failures.map(failure => (
+          <li
+            key={`${failure.intent_id}|${failure.model_provider}|${failure.model_name}`}
+            className="flex flex-col md:flex-row md:items-center gap-1 md:gap-4 py-2"
+          >
+            <span className={`font-medium md:w-48 truncate ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}>{failure.intent_id}</span>
+            <span className={`font-mono text-xs md:w-64 truncate ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{modelLabel(failure)}</span>
+            <span className="text-rose-400 flex-1 truncate" title={failure.error_message}>{failure.error_message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, Plus, Send, Trash2, Webhook as WebhookIcon, XCircle } from 'lucide-react';
+import { isAbortError, webhookApi } from '../api/client';
+import { useToast } from '../context/ToastContext';
+import type { Webhook, WebhookDelivery, WebhookFormat } from '../types';
+
+interface IntegrationsSettingsProps {
+  theme: string;
+}
+
+const WEBHOOK_FORMATS: { id: WebhookFormat; label: string; hint: string }[] = [
+  { id: 'slack', label: 'Slack', hint: 'Slack incoming webhook URL (hooks.slack.com/services/...)' },
+  { id: 'teams', label: 'Microsoft Teams', hint: 'Teams incoming webhook URL (a message card per run)' },
+  { id: 'generic', label: 'Generic JSON', hint: 'Any endpoint; receives the summary as raw JSON' },
+];
+
+const formatLabel = (id: WebhookFormat) => WEBHOOK_FORMATS.find(format => format.id === id)?.label ?? id;
+
+export default function IntegrationsSettings({ theme }: IntegrationsSettingsProps) {
+  const { showToast } = useToast();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState({ name: '', url: '', payload_format: 'slack' as WebhookFormat });
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  // Delivery log of the expanded webhook
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    webhookApi.list(controller.signal)
+      .then(data => {
+        setWebhooks(data);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Failed to load webhooks', err);
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const loadDeliveries = (webhookId: number) => {
+    webhookApi.listDeliveries(webhookId)
+      .then(setDeliveries)
+      .catch(err => console.error('Failed to load webhook deliveries', err));
+  };
+
+  const toggleLog = (webhookId: number) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    setDeliveries([]);
+    loadDeliveries(webhookId);
+  };
+
+  const canSave = form.name.trim() !== '' && /^https?:\/\/.+/.test(form.url.trim()) && !isSaving;
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const webhook = await webhookApi.create({ ...form, name: form.name.trim(), url: form.url.trim() });
+      setWebhooks(prev => [...prev, webhook]);
+      setForm(prev => ({ ...prev, name: '', url: '' }));
+      showToast(`Webhook "${webhook.name}" added`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to add webhook', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setTestingId(webhook.id);
+    try {
+      const delivery = await webhookApi.sendTest(webhook.id);
+      if (delivery.success) {
+        showToast(`Test delivered to "${webhook.name}" (HTTP ${delivery.status_code})`, 'success');
+      } else {
+        showToast(`Test to "${webhook.name}" failed: ${delivery.error}`, 'error');
+      }
+      if (expandedId === webhook.id) loadDeliveries(webhook.id);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to send test', 'error');
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const toggleWebhook = async (webhook: Webhook) => {
+    try {
+      const updated = await webhookApi.setEnabled(webhook.id, !webhook.enabled);
+      setWebhooks(prev => prev.map(w => (w.id === updated.id ? updated : w)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update webhook', 'error');
+    }
+  };
+
+  const deleteWebhook = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook "${webhook.name}" and its delivery log?`)) return;
+    try {
+      await webhookApi.delete(webhook.id);
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+      if (expandedId === webhook.id) setExpandedId(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete webhook', 'error');
+    }
+  };
+
+  const glassCardClass = theme === 'dark' ? 'glass-card' : 'glass-card-light';
+  const mutedClass = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+  const fieldClass = `px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`;
+
+  const toggleClass = (isActive: boolean) => `
+    relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent
+    transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2
+    ${isActive ? 'bg-primary-500' : (theme === 'dark' ? 'bg-navy-700' : 'bg-gray-200')}
+  `;
+
+  const toggleSpanClass = (isActive: boolean) => `
+    pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0
+    transition duration-200 ease-in-out ${isActive ? 'translate-x-5' : 'translate-x-0'}
+  `;
+
+  return (
+    <div className={`${glassCardClass} p-6`}>
+      <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+        <WebhookIcon className="w-5 h-5 text-sky-400" />
+        Integrations
+      </h2>
+      <p className={`text-sm mb-6 ${mutedClass}`}>
+        Post a summary of every completed run (share of voice, rank changes and cost) to chat or any webhook
+      </p>
+
+      <div className="space-y-6">
+        {/* Add webhook */}
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto_auto] gap-2">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Name (e.g., #marketing)"
+            className={fieldClass}
+          />
+          <input
+            type="url"
+            value={form.url}
+            onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+            placeholder="https://..."
+            title={WEBHOOK_FORMATS.find(format => format.id === form.payload_format)?.hint}
+            className={`${fieldClass} font-mono`}
+          />
+          <select
+            value={form.payload_format}
+            onChange={(e) => setForm(prev => ({ ...prev, payload_format: e.target.value as WebhookFormat }))}
+            className={fieldClass}
+            aria-label="Payload format"
+          >
+            {WEBHOOK_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label}</option>)}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={!canSave}
+            className="btn-primary text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4" /> Add
+          </button>
+        </div>
+
+        {/* Webhooks */}
+        {loading ? (
+          <p className={`text-sm ${mutedClass}`}>Loading webhooks...</p>
+        ) : webhooks.length === 0 ? (
+          <p className={`text-sm italic text-center py-4 ${mutedClass}`}>No webhooks yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {webhooks.map(webhook => (
+              <li
+                key={webhook.id}
+                className={`rounded-xl border ${theme === 'dark' ? 'border-navy-700 bg-navy-800/30' : 'border-gray-200 bg-white'}`}
+              >
+                <div className="flex items-center gap-3 p-3">
+                  <button
+                    onClick={() => toggleLog(webhook.id)}
+                    className={`p-1 rounded ${theme === 'dark' ? 'hover:bg-navy-700' : 'hover:bg-gray-100'}`}
+                    title="Delivery log"
+                  >
+                    {expandedId === webhook.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  </button>
+                  <div className={`flex-1 min-w-0 ${webhook.enabled ? '' : 'opacity-60'}`}>
+                    <p className="font-medium truncate">
+                      {webhook.name}
+                      <span className={`ml-2 text-xs font-normal ${mutedClass}`}>{formatLabel(webhook.payload_format)}</span>
+                    </p>
+                    <p className={`text-xs font-mono truncate ${mutedClass}`}>{webhook.url}</p>
+                  </div>
+                  <button
+                    onClick={() => handleTest(webhook)}
+                    disabled={testingId === webhook.id}
+                    className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <Send className="w-3.5 h-3.5" /> {testingId === webhook.id ? 'Sending...' : 'Send test'}
+                  </button>
+                  <button
+                    onClick={() => toggleWebhook(webhook)}
+                    className={toggleClass(webhook.enabled)}
+                    title={webhook.enabled ? 'Pause' : 'Resume'}
+                  >
+                    <span className={toggleSpanClass(webhook.enabled)} />
+                  </button>
+                  <button onClick={() => deleteWebhook(webhook)} className="btn-danger p-2" title="Delete webhook">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {expandedId === webhook.id && (
+                  <div className={`border-t px-3 py-2 ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+                    {deliveries.length === 0 ? (
+                      <p className={`text-xs italic py-2 ${mutedClass}`}>No deliveries yet</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {deliveries.map(delivery => (
+                            <tr key={delivery.id}>
+                              <td className="py-1 pr-2 w-5">
+                                {delivery.success
+                                  ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />
+                                  : <XCircle className="w-3.5 h-3.5 text-rose-500" />}
+                              </td>
+                              <td className={`py-1 pr-3 whitespace-nowrap ${mutedClass}`}>
+                                {delivery.created_at && new Date(delivery.created_at).toLocaleString()}
+                              </td>
+                              <td className="py-1 pr-3 whitespace-nowrap">
+                                {delivery.event === 'test' ? 'Test' : delivery.run_id}
+                              </td>
+                              <td className="py-1 pr-3 font-mono">{delivery.status_code ?? '—'}</td>
+                              <td className={`py-1 truncate max-w-xs ${mutedClass}`} title={delivery.error ?? undefined}>
+                                {delivery.error}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from 'react';
+import { modelLabel } from '../analytics/metrics';
+import type { Brands, RunResults } from '../types';
+
+interface IntentBrandHeatmapProps {
+  results: RunResults;
+  brands: Brands;
+  theme: string;
+  onSelectIntent: (intentId: string) => void;
+}
+
+// Best rank per brand within an intent; 0 = mentioned without a rank, missing = absent
+type IntentRow = { intent_id: string; prompt: string; ranks: Map<string, number> };
+
+const ALL_MODELS = '__all__';
+
+function buildRows(results: RunResults, brandNames: string[], model: string): IntentRow[] {
+  const columns = new Map(brandNames.map(name => [name.toLowerCase(), name]));
+
+  return results.intents_data.map(intent => {
+    const ranks = new Map<string, number>();
+    intent.answers
+      .filter(answer => model === ALL_MODELS || modelLabel(answer.model) === model)
+      .forEach(answer => answer.mentions.forEach(mention => {
+        const column = columns.get(mention.normalized_name.toLowerCase()) ?? columns.get(mention.brand.toLowerCase());
+        if (!column) return;
+        const rank = mention.rank ?? 0;
+        const current = ranks.get(column);
+        if (current === undefined || (rank > 0 && (current === 0 || rank < current))) {
+          ranks.set(column, rank);
+        }
+      }));
+    return { intent_id: intent.intent_id, prompt: intent.prompt, ranks };
+  });
+}
+
+export function IntentBrandHeatmap({ results, brands, theme, onSelectIntent }: IntentBrandHeatmapProps) {
+  const [model, setModel] = useState(ALL_MODELS);
+
+  const models = useMemo(
+    () => [...new Set(results.intents_data.flatMap(intent => intent.answers.map(answer => modelLabel(answer.model))))].sort(),
+    [results]
+  );
+  const brandNames = useMemo(() => [...brands.mine, ...brands.competitors], [brands]);
+  const mine = useMemo(() => new Set(brands.mine), [brands]);
+  // Fall back to all models when the selected one is not part of these results
+  const activeModel = models.includes(model) ? model : ALL_MODELS;
+  const rows = useMemo(() => buildRows(results, brandNames, activeModel), [results, brandNames, activeModel]);
+
+  const cellClass = (rank: number | undefined) => {
+    if (rank === undefined) {
+      return theme === 'dark' ? 'bg-navy-900/40 text-navy-600' : 'bg-gray-50 text-gray-300';
+    }
+    if (rank === 0) return theme === 'dark' ? 'bg-navy-700/60 text-navy-200' : 'bg-gray-200 text-gray-700';
+    if (rank === 1) return 'bg-emerald-500/70 text-white';
+    if (rank <= 3) return `bg-emerald-500/35 ${theme === 'dark' ? 'text-emerald-100' : 'text-emerald-900'}`;
+    if (rank <= 5) return `bg-amber-500/35 ${theme === 'dark' ? 'text-amber-100' : 'text-amber-900'}`;
+    return `bg-rose-500/35 ${theme === 'dark' ? 'text-rose-100' : 'text-rose-900'}`;
+  };
+
+  const cellLabel = (rank: number | undefined) => {
+    if (rank === undefined) return '–';
+    return rank === 0 ? '✓' : `#${rank}`;
+  };
+
+  const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+    active
+      ? 'bg-primary-500 text-white'
+      : theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'
+  }`;
+
+  if (brandNames.length === 0) {
+    return (
+      <div className={`text-sm italic text-center py-8 rounded-xl border border-dashed ${theme === 'dark' ? 'text-navy-400 border-navy-700' : 'text-gray-400 border-gray-200'}`}>
+        Add your brand and competitors to see the matrix
+      </div>
+    );
+  }
+
+  return (
+    <div className={`rounded-2xl border p-6 ${theme === 'dark' ? 'bg-navy-800/20 border-navy-700/40' : 'bg-gray-100/50 border-gray-200/40'}`}>
+      {models.length > 1 && (
+        <div className={`inline-flex flex-wrap rounded-xl border p-1 mb-4 ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+          <button onClick={() => setModel(ALL_MODELS)} className={toggleClass(activeModel === ALL_MODELS)}>
+            All models
+          </button>
+          {models.map(name => (
+            <button key={name} onClick={() => setModel(name)} className={toggleClass(activeModel === name)}>
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-1 text-sm">
+          <thead>
+            <tr>
+              <th className={`text-left font-semibold text-xs uppercase tracking-wider px-2 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                Intent
+              </th>
+              {brandNames.map(name => (
+                <th
+                  key={name}
+                  className={`px-2 py-1 font-semibold whitespace-nowrap ${mine.has(name) ? 'text-primary-400' : theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}
+                >
+                  {name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.intent_id}>
+                <td className={`px-2 py-1 max-w-xs truncate ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`} title={row.prompt}>
+                  {row.intent_id}
+                </td>
+                {brandNames.map(name => {
+                  const rank = row.ranks.get(name);
+                  return (
+                    <td key={name} className="p-0">
+                      <button
+                        onClick={() => onSelectIntent(row.intent_id)}
+                        title={`${name} in "${row.intent_id}": ${rank === undefined ? 'not mentioned' : rank === 0 ? 'mentioned, no rank' : `best rank #${rank}`}`}
+                        className={`w-full min-w-[3.5rem] px-2 py-2 rounded-md text-center font-medium transition-transform hover:scale-105 ${cellClass(rank)}`}
+                      >
+                        {cellLabel(rank)}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className={`flex flex-wrap items-center gap-4 mt-4 text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+        {[1, 3, 5, 6, 0, undefined].map(rank => (
+          <span key={String(rank)} className="flex items-center gap-1.5">
+            <span className={`w-4 h-4 rounded ${cellClass(rank)}`} />
+            {rank === undefined ? 'Absent' : rank === 0 ? 'Unranked' : rank === 1 ? '#1' : rank === 3 ? '#2-3' : rank === 5 ? '#4-5' : '#6+'}
+          </span>
+        ))}
+        <span>Click a cell to open the answers</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { CheckCircle2, Globe } from 'lucide-react';
+import { PROVIDERS } from '../providers/registry';
+import type { ModelSelection } from '../types';
+
+interface ModelPickerProps {
+  selections: ModelSelection[];
+  onChange: (selections: ModelSelection[]) => void;
+  theme: string;
+}
+
+const isSelected = (selections: ModelSelection[], provider: string, modelId: string) =>
+  selections.some(s => s.provider === provider && s.model_name === modelId);
+
+// Pick any number of models across all registered providers (at least one stays selected)
+export function ModelPicker({ selections, onChange, theme }: ModelPickerProps) {
+  const toggle = (selection: ModelSelection) => {
+    if (isSelected(selections, selection.provider, selection.model_name)) {
+      if (selections.length === 1) return;
+      onChange(selections.filter(s => !(s.provider === selection.provider && s.model_name === selection.model_name)));
+    } else {
+      onChange([...selections, selection]);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {PROVIDERS.map(provider => {
+        const Icon = provider.icon;
+        const active = selections.some(s => s.provider === provider.id);
+        return (
+          <div
+            key={provider.id}
+            className={`p-4 rounded-xl border transition-all ${active
+              ? 'bg-primary-500/10 border-primary-500/60'
+              : theme === 'dark' ? 'bg-navy-800/30 border-navy-700/50' : 'bg-gray-100 border-gray-200'
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <Icon className={`w-4 h-4 ${active ? 'text-primary-400' : theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`} />
+              <span className={`font-medium ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>{provider.name}</span>
+              {provider.supportsWebSearch && (
+                <span className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded border uppercase ${theme === 'dark' ? 'border-navy-600 text-navy-300' : 'border-gray-300 text-gray-500'}`}>
+                  <Globe className="w-3 h-3" /> Web search
+                </span>
+              )}
+            </div>
+            <p className={`text-xs mb-3 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{provider.tagline}</p>
+
+            <div className="space-y-1.5">
+              {provider.models.map(model => {
+                const checked = isSelected(selections, provider.id, model.id);
+                return (
+                  <button
+                    key={model.id}
+                    onClick={() => toggle({ provider: provider.id, model_name: model.id })}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg border text-left text-sm transition-colors ${checked
+                      ? 'border-primary-500 text-primary-300 bg-primary-500/10'
+                      : theme === 'dark' ? 'border-navy-700/50 text-navy-300 hover:border-navy-600' : 'border-gray-200 text-gray-600 hover:border-gray-300 bg-white'
+                    }`}
+                    title={model.description}
+                  >
+                    <span>
+                      <span className="font-medium">{model.name}</span>
+                      <span className="block text-xs opacity-70">
+                        {model.description}{provider.supportsWebSearch && model.webSearch === false && ' - no web search'}
+                      </span>
+                    </span>
+                    <CheckCircle2 className={`w-4 h-4 shrink-0 transition-opacity ${checked ? 'opacity-100' : 'opacity-0'}`} />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, BellRing, CheckCheck } from 'lucide-react';
+import { alertApi, isAbortError } from '../api/client';
+import type { InboxNotification, NotificationInbox } from '../types';
+
+interface NotificationCenterProps {
+  theme: string;
+  // Also show new alerts as browser notifications (Settings > Notifications)
+  browserNotifications: boolean;
+  // Bump to reload right away, e.g. when a run has just completed
+  refreshKey: number;
+}
+
+// Scheduled runs finish while nobody is watching, so the inbox polls as well
+const POLL_INTERVAL_MS = 60_000;
+
+// Bell with unread badge and a dropdown of the latest alerts
+export function NotificationCenter({ theme, browserNotifications, refreshKey }: NotificationCenterProps) {
+  const [inbox, setInbox] = useState<NotificationInbox | null>(null);
+  const [open, setOpen] = useState(false);
+  // Ids already seen, so only new alerts pop up in the browser; null until the first load
+  const seenIds = useRef<Set<number> | null>(null);
+  const browserRef = useRef(browserNotifications);
+
+  useEffect(() => {
+    browserRef.current = browserNotifications;
+  }, [browserNotifications]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = () => alertApi.listNotifications(controller.signal)
+      .then(data => {
+        const seen = seenIds.current;
+        const fresh = seen ? data.notifications.filter(n => !n.read && !seen.has(n.id)) : [];
+        seenIds.current = new Set([...(seen ?? []), ...data.notifications.map(n => n.id)]);
+        setInbox(data);
+
+        if (browserRef.current && 'Notification' in window && Notification.permission === 'granted') {
+          fresh.forEach(n => new Notification(n.title, { body: n.message, icon: '/vite.svg', tag: `alert-${n.id}` }));
+        }
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Failed to load notifications', err);
+      });
+
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      controller.abort();
+    };
+  }, [refreshKey]);
+
+  const markRead = (notification: InboxNotification) => {
+    if (notification.read) return;
+    setInbox(prev => prev && {
+      unread_count: Math.max(0, prev.unread_count - 1),
+      notifications: prev.notifications.map(n => (n.id === notification.id ? { ...n, read: true } : n)),
+    });
+    alertApi.markRead(notification.id).catch(err => console.error('Failed to mark notification as read', err));
+  };
+
+  const markAllRead = () => {
+    setInbox(prev => prev && { unread_count: 0, notifications: prev.notifications.map(n => ({ ...n, read: true })) });
+    alertApi.markAllRead().catch(err => console.error('Failed to mark notifications as read', err));
+  };
+
+  const unread = inbox?.unread_count ?? 0;
+  const latest = inbox?.notifications.slice(0, 8) ?? [];
+  const itemClass = theme === 'dark' ? 'hover:bg-navy-800' : 'hover:bg-gray-100';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`relative p-2 rounded-lg transition-colors ${theme === 'dark' ? 'text-navy-300 hover:bg-navy-800 hover:text-white' : 'text-gray-600 hover:bg-gray-200'} ${open ? (theme === 'dark' ? 'bg-navy-800 text-white' : 'bg-gray-200 text-gray-900') : ''}`}
+        title="Notifications"
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+      >
+        {unread > 0 ? <BellRing className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className={`absolute right-0 mt-2 w-80 rounded-xl border shadow-lg z-100 ${
+          theme === 'dark'
+            ? 'bg-navy-900 border-navy-700 text-navy-100'
+            : 'bg-white border-gray-200 text-gray-900'
+        }`}>
+          <div className={`flex items-center justify-between px-4 py-3 border-b ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+            <span className="font-medium text-sm">Notifications</span>
+            {unread > 0 && (
+              <button
+                onClick={markAllRead}
+                className={`flex items-center gap-1 text-xs ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}
+              >
+                <CheckCheck className="w-3.5 h-3.5" /> Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto p-2">
+            {latest.length === 0 ? (
+              <p className={`text-sm text-center py-6 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>
+                No alerts yet
+              </p>
+            ) : latest.map(notification => {
+              const content = (
+                <div className="flex items-start gap-2">
+                  {!notification.read && <span className="mt-1.5 w-2 h-2 rounded-full bg-primary-500 shrink-0" />}
+                  <div className="min-w-0">
+                    <p className={`text-sm ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                    <p className={`text-xs mt-0.5 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{notification.message}</p>
+                    <p className={`text-[11px] mt-1 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>
+                      {new Date(notification.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              );
+              return notification.run_id ? (
+                <Link
+                  key={notification.id}
+                  to={`/app?runId=${notification.run_id}&tab=results`}
+                  onClick={() => { markRead(notification); setOpen(false); }}
+                  className={`block px-3 py-2 rounded-lg ${itemClass}`}
+                >
+                  {content}
+                </Link>
+              ) : (
+                <button
+                  key={notification.id}
+                  onClick={() => markRead(notification)}
+                  className={`block w-full text-left px-3 py-2 rounded-lg ${itemClass}`}
+                >
+                  {content}
+                </button>
+              );
+            })}
+          </div>
+
+          <Link
+            to="/alerts"
+            onClick={() => setOpen(false)}
+            className={`block text-center text-sm px-4 py-3 border-t ${theme === 'dark' ? 'border-navy-700 text-primary-400 hover:text-primary-300' : 'border-gray-200 text-primary-600 hover:text-primary-700'}`}
+          >
+            Manage alert rules
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
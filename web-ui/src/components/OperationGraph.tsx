@@ -0,0 +1,98 @@
+import { GLOBAL_SCOPE, operationGraph, scopeLabel } from '../config/operations';
+import type { ScopedOperation } from '../config/operations';
+
+interface OperationGraphProps {
+  operations: ScopedOperation[];
+  theme: string;
+}
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 60;
+const ROW_GAP = 14;
+
+// Dependency graph preview: one column per execution level, arrows from a dependency to its dependents
+export function OperationGraph({ operations, theme }: OperationGraphProps) {
+  const { nodes, edges } = operationGraph(operations);
+
+  if (nodes.length === 0) {
+    return (
+      <p className={`text-sm italic text-center py-6 rounded-lg border border-dashed ${theme === 'dark' ? 'text-navy-500 border-navy-800' : 'text-gray-400 border-gray-200'}`}>
+        Operations with an ID appear here
+      </p>
+    );
+  }
+
+  const columns: typeof nodes[] = [];
+  for (const node of nodes) (columns[node.level] ??= []).push(node);
+
+  const position = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, level) => column.forEach((node, row) => position.set(node.id, {
+    x: level * (NODE_WIDTH + COLUMN_GAP),
+    y: row * (NODE_HEIGHT + ROW_GAP),
+  })));
+
+  const width = columns.length * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = Math.max(...columns.map(column => column.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+  const edgeColor = theme === 'dark' ? '#475569' : '#cbd5e1';
+
+  return (
+    <div className="overflow-x-auto">
+      <svg width={width + 2} height={height + 2} viewBox={`-1 -1 ${width + 2} ${height + 2}`} role="img" aria-label="Operation dependency graph">
+        <defs>
+          <marker id="operation-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={edgeColor} />
+          </marker>
+        </defs>
+
+        {edges.map(edge => {
+          const from = position.get(edge.from);
+          const to = position.get(edge.to);
+          const x1 = from.x + NODE_WIDTH;
+          const y1 = from.y + NODE_HEIGHT / 2;
+          const x2 = to.x;
+          const y2 = to.y + NODE_HEIGHT / 2;
+          // Edges inside a cycle can point backwards; bend them below the nodes
+          const path = x2 > x1
+            ? `M ${x1} ${y1} C ${x1 + COLUMN_GAP / 2} ${y1}, ${x2 - COLUMN_GAP / 2} ${y2}, ${x2} ${y2}`
+            : `M ${from.x + NODE_WIDTH / 2} ${from.y + NODE_HEIGHT} Q ${(from.x + to.x) / 2 + NODE_WIDTH / 2} ${height}, ${to.x + NODE_WIDTH / 2} ${to.y + NODE_HEIGHT}`;
+          return (
+            <path
+              key={`${edge.from}->${edge.to}`}
+              d={path}
+              fill="none"
+              stroke={edgeColor}
+              strokeWidth={1.5}
+              markerEnd="url(#operation-arrow)"
+            />
+          );
+        })}
+
+        {nodes.map(node => {
+          const { x, y } = position.get(node.id);
+          const isGlobal = node.scope === GLOBAL_SCOPE;
+          const stroke = node.onCycle ? '#f43f5e' : isGlobal ? '#a855f7' : '#0ea5e9';
+          return (
+            <g key={node.id} transform={`translate(${x}, ${y})`}>
+              <title>{`${node.id} (${scopeLabel(node.scope)})`}</title>
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                fill={theme === 'dark' ? '#0f172a' : '#ffffff'}
+                stroke={stroke}
+                strokeWidth={1.5}
+              />
+              <text x={10} y={16} fontSize={11} fontFamily="monospace" fill={theme === 'dark' ? '#e2e8f0' : '#111827'}>
+                {node.id.length > 20 ? `${node.id.slice(0, 19)}…` : node.id}
+              </text>
+              <text x={10} y={31} fontSize={10} fill={stroke}>
+                {node.onCycle ? 'cycle' : isGlobal ? 'global' : node.scope.length > 22 ? `${node.scope.slice(0, 21)}…` : node.scope}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
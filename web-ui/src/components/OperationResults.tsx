@@ -0,0 +1,78 @@
+import { Workflow, XCircle } from 'lucide-react';
+import { formatUsd } from '../analytics/estimate';
+import type { OperationResult } from '../types';
+
+interface OperationResultsProps {
+  operations: OperationResult[];
+  theme: string;
+}
+
+// Pretty-print JSON outputs (output_format: json, structured operations); anything else is shown as is
+function formatOutput(result: string): { text: string; isJson: boolean } {
+  try {
+    const parsed: unknown = JSON.parse(result);
+    if (typeof parsed === 'object' && parsed !== null) return { text: JSON.stringify(parsed, null, 2), isJson: true };
+  } catch {
+    // Plain text output
+  }
+  return { text: result, isJson: false };
+}
+
+// Outputs of the operations run on one answer, shown under it in the results tab
+export function OperationResults({ operations, theme }: OperationResultsProps) {
+  if (operations.length === 0) return null;
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Workflow className="w-4 h-4 text-violet-400" />
+        <h4 className={`font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} text-sm uppercase tracking-wider`}>Operations</h4>
+      </div>
+      <div className="space-y-2">
+        {operations.map(operation => {
+          const output = formatOutput(operation.result);
+          return (
+            <details
+              key={operation.operation_id}
+              open={!operation.error}
+              className={`rounded-lg border ${operation.error
+                ? theme === 'dark' ? 'border-rose-500/30 bg-rose-500/5' : 'border-rose-200 bg-rose-50/60'
+                : theme === 'dark' ? 'border-navy-700/50 bg-navy-900/30' : 'border-gray-200 bg-white/60'
+              }`}
+            >
+              <summary className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  {operation.error && <XCircle className="w-4 h-4 text-rose-400 shrink-0" />}
+                  <span className={`font-mono font-medium ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>{operation.operation_id}</span>
+                  {operation.description && (
+                    <span className={`truncate ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{operation.description}</span>
+                  )}
+                </span>
+                <span className={`text-xs shrink-0 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>
+                  {operation.model.replace(/^models\//, '')}
+                  {operation.cost_usd !== null && operation.cost_usd > 0 && ` · ${formatUsd(operation.cost_usd)}`}
+                </span>
+              </summary>
+              <div className="px-3 pb-3">
+                {operation.depends_on.length > 0 && (
+                  <p className={`text-xs mb-2 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>
+                    After {operation.depends_on.join(', ')}
+                  </p>
+                )}
+                {operation.error ? (
+                  <p className="text-sm text-rose-400">Failed: {operation.error}</p>
+                ) : output.isJson ? (
+                  <pre className={`text-xs font-mono whitespace-pre-wrap break-words p-2 rounded ${theme === 'dark' ? 'bg-navy-950/60 text-navy-200' : 'bg-gray-50 text-gray-700'}`}>
+                    {output.text}
+                  </pre>
+                ) : (
+                  <p className={`text-sm whitespace-pre-wrap ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}>{output.text}</p>
+                )}
+              </div>
+            </details>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { FUNCTION_TEMPLATES, OPERATION_TYPES, TEMPLATE_VARIABLES, emptyOperation, operationLabel } from '../config/operations';
+import type { OperationIssue } from '../config/operations';
+import type { Operation, OperationType } from '../types';
+
+interface OperationsEditorProps {
+  operations: Operation[];
+  onChange: (operations: Operation[]) => void;
+  theme: string;
+  // Operations outside this list that these may depend on (the global ones, for an intent)
+  externalIds?: string[];
+  // model_name of every selected model, for per-operation overrides
+  modelNames: string[];
+  // Issues of the operations in this list
+  issues: OperationIssue[];
+}
+
+// Custom function schema typed as JSON; only valid JSON objects reach the config
+function FunctionSchemaInput({ schema, onChange, className }: {
+  schema: Record<string, unknown> | undefined;
+  onChange: (schema: Record<string, unknown> | undefined) => void;
+  className: string;
+}) {
+  const [text, setText] = useState(() => (schema ? JSON.stringify(schema, null, 2) : ''));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (value: string) => {
+    setText(value);
+    if (!value.trim()) {
+      setError(null);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('expected an object');
+      setError(null);
+      onChange(parsed as Record<string, unknown>);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(e) => update(e.target.value)}
+        placeholder={'{\n  "name": "extract_alternatives",\n  "parameters": { "type": "object", "properties": {} }\n}'}
+        rows={5}
+        className={`${className} font-mono text-xs`}
+      />
+      {error && <p className="text-xs text-rose-400 mt-1">Not saved: {error}</p>}
+    </div>
+  );
+}
+
+// Builder for a list of operations: an intent's `operations` or the config's `global_operations`
+export function OperationsEditor({ operations, onChange, theme, externalIds = [], modelNames, issues }: OperationsEditorProps) {
+  const update = (index: number, changes: Partial<Operation>) =>
+    onChange(operations.map((operation, i) => (i === index ? { ...operation, ...changes } : operation)));
+  const remove = (index: number) => onChange(operations.filter((_, i) => i !== index));
+
+  const fieldClass = `w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`;
+  const ids = operations.map(operation => operation.id.trim()).filter(Boolean);
+
+  return (
+    <div className="space-y-3">
+      {operations.map((operation, index) => {
+        const id = operation.id.trim();
+        const type = operation.type ?? 'standard';
+        const dependsOn = operation.depends_on ?? [];
+        const candidates = [...new Set([...ids, ...externalIds])].filter(candidate => candidate !== id);
+        // Dependencies that no longer exist stay visible so they can be removed
+        const stale = dependsOn.filter(dep => !candidates.includes(dep));
+        const ownIssues = issues.filter(issue => issue.operationId === operationLabel(operation, index));
+
+        const toggleDependency = (dep: string) => update(index, {
+          depends_on: dependsOn.includes(dep) ? dependsOn.filter(d => d !== dep) : [...dependsOn, dep],
+        });
+
+        return (
+          <div
+            key={index}
+            className={`p-4 rounded-lg border space-y-3 ${theme === 'dark' ? 'bg-navy-900/40 border-navy-700/50' : 'bg-white border-gray-200'} ${operation.enabled === false ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-start gap-3">
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={operation.id}
+                  onChange={(e) => update(index, { id: e.target.value })}
+                  placeholder="Operation ID (e.g., content-gaps)"
+                  className={`${fieldClass} font-mono`}
+                />
+                <input
+                  type="text"
+                  value={operation.description ?? ''}
+                  onChange={(e) => update(index, { description: e.target.value })}
+                  placeholder="Description (optional)"
+                  className={fieldClass}
+                />
+              </div>
+              <label className={`flex items-center gap-2 pt-2 text-xs cursor-pointer ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>
+                <input
+                  type="checkbox"
+                  checked={operation.enabled !== false}
+                  onChange={(e) => update(index, { enabled: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Enabled
+              </label>
+              <button onClick={() => remove(index)} className="btn-danger p-2" title="Remove operation">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div>
+              <textarea
+                value={operation.prompt}
+                onChange={(e) => update(index, { prompt: e.target.value })}
+                placeholder="What would make {brand:mine} rank higher in this answer? {intent:response}"
+                rows={3}
+                className={`${fieldClass} resize-y`}
+              />
+              <div className="flex flex-wrap gap-1 mt-1">
+                {[...TEMPLATE_VARIABLES, ...dependsOn.map(dep => ({ token: `{operation:${dep}}`, description: `Output of ${dep}` }))].map(variable => (
+                  <button
+                    key={variable.token}
+                    type="button"
+                    title={variable.description}
+                    onClick={() => update(index, { prompt: `${operation.prompt}${operation.prompt && !operation.prompt.endsWith(' ') ? ' ' : ''}${variable.token}` })}
+                    className={`px-1.5 py-0.5 rounded font-mono text-[11px] ${theme === 'dark' ? 'bg-navy-800 text-navy-300 hover:text-primary-400' : 'bg-gray-100 text-gray-600 hover:text-primary-600'}`}
+                  >
+                    {variable.token}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="block">
+                <span className={labelClass}>Type</span>
+                <select
+                  value={type}
+                  onChange={(e) => update(index, { type: e.target.value as OperationType })}
+                  title={OPERATION_TYPES.find(t => t.id === type)?.description}
+                  className={fieldClass}
+                >
+                  {OPERATION_TYPES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className={labelClass}>Output</span>
+                <select
+                  value={operation.output_format ?? 'text'}
+                  onChange={(e) => update(index, { output_format: e.target.value as Operation['output_format'] })}
+                  className={fieldClass}
+                >
+                  <option value="text">Text</option>
+                  <option value="json">JSON</option>
+                </select>
+              </label>
+              <label className="block">
+                <span className={labelClass}>Model</span>
+                <select
+                  value={operation.model ?? ''}
+                  onChange={(e) => update(index, { model: e.target.value || undefined })}
+                  className={fieldClass}
+                >
+                  <option value="">First selected model</option>
+                  {[...new Set([...modelNames, ...(operation.model ? [operation.model] : [])])].map(name => (
+                    <option key={name} value={name}>{name.replace(/^models\//, '')}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {type === 'structured' && (
+              <label className="block">
+                <span className={labelClass}>Function</span>
+                <select
+                  value={operation.function_template ?? ''}
+                  onChange={(e) => update(index, { function_template: e.target.value || undefined })}
+                  className={`${fieldClass} mb-2`}
+                >
+                  <option value="">Custom schema</option>
+                  {FUNCTION_TEMPLATES.map(template => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+                {!operation.function_template && (
+                  <FunctionSchemaInput
+                    schema={operation.function_schema}
+                    onChange={function_schema => update(index, { function_schema })}
+                    className={fieldClass}
+                  />
+                )}
+              </label>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <span className={labelClass}>Depends on</span>
+                <div className="flex flex-wrap gap-1">
+                  {candidates.length === 0 && stale.length === 0 && (
+                    <span className={`text-xs italic ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>No other operations yet</span>
+                  )}
+                  {candidates.map(candidate => (
+                    <button
+                      key={candidate}
+                      type="button"
+                      onClick={() => toggleDependency(candidate)}
+                      className={`px-2 py-0.5 rounded-full border font-mono text-xs transition-colors ${dependsOn.includes(candidate)
+                        ? 'border-primary-500 bg-primary-500/10 text-primary-400'
+                        : theme === 'dark' ? 'border-navy-700 text-navy-400 hover:border-navy-500' : 'border-gray-200 text-gray-500 hover:border-gray-400'
+                      }`}
+                    >
+                      {candidate}
+                    </button>
+                  ))}
+                  {stale.map(dep => (
+                    <button
+                      key={dep}
+                      type="button"
+                      onClick={() => toggleDependency(dep)}
+                      title="Unknown operation - click to remove"
+                      className="px-2 py-0.5 rounded-full border border-rose-500/50 bg-rose-500/10 text-rose-400 font-mono text-xs line-through"
+                    >
+                      {dep}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <label className="block">
+                <span className={labelClass}>Run only if (optional)</span>
+                <input
+                  type="text"
+                  value={operation.condition ?? ''}
+                  onChange={(e) => update(index, { condition: e.target.value })}
+                  placeholder="{rank:mine} > 3"
+                  className={`${fieldClass} font-mono`}
+                />
+              </label>
+            </div>
+
+            {ownIssues.map((issue, i) => (
+              <p key={i} className={`text-xs flex items-center gap-1 ${issue.level === 'error' ? 'text-rose-400' : 'text-amber-400'}`}>
+                {issue.level === 'error' ? <AlertCircle className="w-3 h-3 shrink-0" /> : <AlertTriangle className="w-3 h-3 shrink-0" />}
+                {issue.message}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...operations, emptyOperation()])}
+        className={`w-full py-2 border border-dashed rounded-lg flex items-center justify-center gap-2 text-sm transition-colors ${theme === 'dark'
+          ? 'border-navy-700 text-navy-400 hover:border-primary-500/50 hover:text-primary-400'
+          : 'border-gray-300 text-gray-500 hover:border-primary-400 hover:text-primary-600'
+        }`}
+      >
+        <Plus className="w-4 h-4" />
+        Add operation
+      </button>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 import { useState } from 'react';
 import { Sparkles, Loader2, Wand2 } from 'lucide-react';
 import { useToast } from '../context/ToastContext';
+import { watcherApi } from '../api/client';
+import type { Provider } from '../types';
 
 interface PromptOptimizerProps {
   currentPrompt: string;
   onOptimize: (newPrompt: string) => void;
   apiKey: string;
-  provider: 'google' | 'groq' | 'both';
+  provider: Provider;
   modelName: string;
   competitors: string[];
   myBrands: string[];
@@ -50,38 +52,18 @@ export function PromptOptimizer({ currentPrompt, onOptimize, apiKey, provider, m
     setIsOptimizing(true);
 
     try {
-      // We will use the /api/optimize_prompt endpoint that we will create
-      // For now, we will assume it exists. If not, we might need to implement the call here directly?
-      // Actually, calling LLM from client-side is risky with CORS if not proxied.
-      // But let's try to use the backend endpoint we plan to add.
-      
-      const response = await fetch('http://localhost:8000/optimize_prompt', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          prompt: currentPrompt,
-          provider: provider, 
-          api_key: apiKey,
-          model_name: modelName,
-          competitors: competitors,
-          my_brands: myBrands
-        }),
+      const data = await watcherApi.optimizePrompt({
+        prompt: currentPrompt,
+        provider: provider,
+        api_key: apiKey,
+        model_name: modelName,
+        competitors: competitors,
+        my_brands: myBrands
       });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to optimize prompt');
-      }
-
-      const data = await response.json();
       onOptimize(data.optimized_prompt);
       showToast('Prompt optimized successfully!', 'success');
     } catch (error) {
         console.error("Optimization error:", error);
-        // Fallback: If backend endpoint is missing, maybe we can't do much.
-        // But since we are the developer, we WILL add the endpoint.
         showToast(error instanceof Error ? error.message : 'Failed to optimize prompt', 'error');
     } finally {
       setIsOptimizing(false);
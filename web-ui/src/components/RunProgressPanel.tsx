@@ -0,0 +1,141 @@
+import { Clock, Loader2, CheckCircle2, XCircle, DollarSign, Ban } from 'lucide-react';
+import type { QueryProgress, QueryStatus, RunProgress } from '../types';
+import { StatsBar } from './ui/StatsBar';
+
+interface RunProgressPanelProps {
+  progress: RunProgress;
+  theme: string;
+  onCancel?: () => void;
+}
+
+const STATUS_LABELS: Record<QueryStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const modelKey = (query: QueryProgress) => `${query.model_provider}/${query.model_name}`;
+
+function StatusIcon({ status }: { status: QueryStatus }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-primary-400 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="w-4 h-4 text-emerald-400" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-rose-400" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-amber-400" />;
+    default:
+      return <Clock className="w-4 h-4 text-navy-400" />;
+  }
+}
+
+export function RunProgressPanel({ progress, theme, onCancel }: RunProgressPanelProps) {
+  // Rows are intents, columns are models - both in the order the backend queued them
+  const intentIds = [...new Set(progress.queries.map(q => q.intent_id))];
+  const models = [...new Map(progress.queries.map(q => [modelKey(q), q])).values()];
+  const cells = new Map(progress.queries.map(q => [`${q.intent_id}|${modelKey(q)}`, q]));
+
+  const cellClass = (status: QueryStatus) => {
+    switch (status) {
+      case 'running':
+        return theme === 'dark' ? 'bg-primary-500/10 border-primary-500/30' : 'bg-primary-50 border-primary-200';
+      case 'done':
+        return theme === 'dark' ? 'bg-emerald-500/10 border-emerald-500/20' : 'bg-emerald-50 border-emerald-200';
+      case 'failed':
+        return theme === 'dark' ? 'bg-rose-500/10 border-rose-500/20' : 'bg-rose-50 border-rose-200';
+      case 'cancelled':
+        return theme === 'dark' ? 'bg-amber-500/10 border-amber-500/20' : 'bg-amber-50 border-amber-200';
+      default:
+        return theme === 'dark' ? 'bg-navy-900/50 border-navy-700/50' : 'bg-gray-50 border-gray-200';
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+            {progress.cancel_requested ? 'Cancelling Run' : 'LLM Answer Watcher is Analyzing'}
+          </h3>
+          <p className={`text-sm mt-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'}`}>
+            Run <code className="font-mono text-primary-400">{progress.run_id}</code> · {progress.completed_queries} of {progress.total_queries} queries finished
+            {progress.cancel_requested && ' · waiting for running queries, answers collected so far are kept'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className={`flex items-center gap-2 px-4 py-2 rounded-xl border ${theme === 'dark' ? 'bg-navy-900/50 border-navy-700 text-white' : 'bg-white border-gray-200 text-gray-900'}`}>
+            <DollarSign className="w-4 h-4 text-emerald-400" />
+            <span className="text-sm font-mono font-medium">{progress.total_cost_usd.toFixed(4)}</span>
+          </div>
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              disabled={progress.cancel_requested}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${theme === 'dark' ? 'border-rose-500/30 text-rose-300 hover:bg-rose-500/10' : 'border-rose-200 text-rose-600 hover:bg-rose-50'}`}
+            >
+              {progress.cancel_requested ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+              {progress.cancel_requested ? 'Cancelling...' : 'Cancel Run'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <StatsBar
+        label="Progress"
+        value={progress.completed_queries}
+        total={progress.total_queries}
+        suffix={` / ${progress.total_queries}`}
+        theme={theme}
+      />
+
+      <div className={`rounded-xl border overflow-x-auto ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+        <table className="w-full text-left border-collapse text-sm">
+          <thead>
+            <tr className={`border-b ${theme === 'dark' ? 'border-navy-700 bg-navy-900/50' : 'border-gray-200 bg-gray-50/80'}`}>
+              <th className="p-3 font-semibold">Intent</th>
+              {models.map(model => (
+                <th key={modelKey(model)} className="p-3 font-semibold whitespace-nowrap">
+                  <span className={theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}>{model.model_provider} · </span>
+                  {model.model_name.replace(/^models\//, '')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${theme === 'dark' ? 'divide-navy-700/50' : 'divide-gray-200/50'}`}>
+            {intentIds.map(intentId => (
+              <tr key={intentId}>
+                <td className={`p-3 font-medium ${theme === 'dark' ? 'text-navy-200' : 'text-gray-700'}`}>{intentId}</td>
+                {models.map(model => {
+                  const cell = cells.get(`${intentId}|${modelKey(model)}`);
+                  if (!cell) return <td key={modelKey(model)} className="p-3" />;
+                  return (
+                    <td key={modelKey(model)} className="p-2">
+                      <div
+                        className={`flex items-center justify-between gap-3 px-3 py-2 rounded-lg border transition-colors ${cellClass(cell.status)}`}
+                        title={cell.error_message || undefined}
+                      >
+                        <span className="flex items-center gap-2">
+                          <StatusIcon status={cell.status} />
+                          {STATUS_LABELS[cell.status]}
+                        </span>
+                        {cell.status === 'done' && (
+                          <span className={`font-mono text-xs ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'}`}>
+                            ${cell.cost_usd.toFixed(4)}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,470 @@
+import { AlertCircle, Brain, CheckCircle2, Info, MessageSquare, Sparkles, Target, TrendingUp, Zap } from 'lucide-react';
+import type { BrandMention, RunResults } from '../types';
+import { StatsBar } from './ui/StatsBar';
+import { FailedQueryBadge } from './FailedQueriesPanel';
+import { OperationResults } from './OperationResults';
+import { getModelName, providerOfModel } from '../providers/registry';
+import { mentionTerms } from '../config/brands';
+
+export const BrandRecommendation = ({ results, theme }: { results: RunResults, theme: string }) => {
+  if (!results) return null;
+
+  let totalMentions = 0;
+  let myMentions = 0;
+  const myRanks: number[] = [];
+
+  results.intents_data.forEach((intent) => {
+    intent.answers.forEach((answer) => {
+      totalMentions += answer.mentions.length;
+      answer.mentions.forEach((mention) => {
+        if (mention.is_mine) {
+          myMentions++;
+          if (mention.rank) myRanks.push(mention.rank);
+        }
+      });
+    });
+  });
+
+  const sov = totalMentions > 0 ? (myMentions / totalMentions) * 100 : 0;
+  const avgRank = myRanks.length > 0 ? myRanks.reduce((a, b) => a + b, 0) / myRanks.length : 0;
+
+  let title = "";
+  let message = "";
+  let colorClass = "";
+  let icon = null;
+
+  if (myMentions === 0) {
+    title = "Invisible to AI";
+    message = "Your brand was not mentioned in any responses. You are effectively invisible to these models for these queries. Immediate action required: Update your website content to explicitly answer these questions, and consider PR or social proof to increase brand corpus frequency.";
+    colorClass = theme === 'dark' ? "text-red-400 bg-red-500/10 border-red-500/20" : "text-red-700 bg-red-50 border-red-200";
+    icon = <AlertCircle className="w-6 h-6" />;
+  } else if (sov < 20) {
+    title = "Low Visibility";
+    message = `You have only ${sov.toFixed(1)}% Share of Voice. Competitors are dominating the conversation. Focus on differentiating your value proposition and getting mentioned in comparison articles and reviews that LLMs cite.`;
+    colorClass = theme === 'dark' ? "text-orange-400 bg-orange-500/10 border-orange-500/20" : "text-orange-700 bg-orange-50 border-orange-200";
+    icon = <AlertCircle className="w-6 h-6" />;
+  } else if (sov < 50) {
+    title = "Growing Presence";
+    message = `You have a healthy ${sov.toFixed(1)}% Share of Voice. To become the market leader, focus on "best of" lists and specific feature comparisons where you can win.`;
+    colorClass = theme === 'dark' ? "text-yellow-400 bg-yellow-500/10 border-yellow-500/20" : "text-yellow-700 bg-yellow-50 border-yellow-200";
+    icon = <TrendingUp className="w-6 h-6" />;
+  } else {
+    title = "Market Leader";
+    message = `Excellent! You command ${sov.toFixed(1)}% of mentions. Your strategy should shift to defense: monitor for new entrants and sentiment shifts.`;
+    colorClass = theme === 'dark' ? "text-green-400 bg-green-500/10 border-green-500/20" : "text-green-700 bg-green-50 border-green-200";
+    icon = <CheckCircle2 className="w-6 h-6" />;
+  }
+
+  // Rank adjustments
+  if (myMentions > 0 && avgRank > 3) {
+     message += ` However, your average rank is low (${avgRank.toFixed(1)}). Work on technical SEO and specific attribute association to climb the lists.`;
+  }
+
+  return (
+    <div className={`p-6 rounded-2xl border ${colorClass} h-full`}>
+      <div className="flex items-center gap-3 mb-3">
+        {icon}
+        <h3 className="text-lg font-bold">{title}</h3>
+      </div>
+      <p className={`text-sm ${theme === 'dark' ? 'text-navy-100' : 'text-gray-800'} leading-relaxed`}>
+        {message}
+      </p>
+    </div>
+  );
+};
+
+// Per-model accents for the comparison columns, cycled when a run has more models
+const MODEL_COLORS = [
+  { text: 'text-primary-300', textLight: 'text-primary-500', border: 'border-primary-500/30', bar: 'bg-primary-500', icon: 'bg-primary-500/10 text-primary-500', tag: 'bg-primary-500/20 text-primary-300', tagLight: 'bg-primary-100 text-primary-700' },
+  { text: 'text-accent-300', textLight: 'text-accent-500', border: 'border-accent-500/30', bar: 'bg-accent-500', icon: 'bg-accent-500/10 text-accent-500', tag: 'bg-accent-500/20 text-accent-300', tagLight: 'bg-accent-100 text-accent-700' },
+  { text: 'text-sky-300', textLight: 'text-sky-500', border: 'border-sky-500/30', bar: 'bg-sky-500', icon: 'bg-sky-500/10 text-sky-500', tag: 'bg-sky-500/20 text-sky-300', tagLight: 'bg-sky-100 text-sky-700' },
+  { text: 'text-amber-300', textLight: 'text-amber-500', border: 'border-amber-500/30', bar: 'bg-amber-500', icon: 'bg-amber-500/10 text-amber-500', tag: 'bg-amber-500/20 text-amber-300', tagLight: 'bg-amber-100 text-amber-700' },
+];
+
+// Models that answered in a run, in order of first appearance
+const answeredModels = (results: RunResults) =>
+  [...new Set(results.intents_data.flatMap(intent => intent.answers.map(answer => answer.model)))];
+
+export const StatsComparison = ({ results, theme }: { results: RunResults, theme: string }) => {
+  if (!results) return null;
+
+  const models = answeredModels(results);
+  if (models.length < 2) return null;
+
+  const stats = new Map(models.map(model => [model, {
+    totalMentions: 0,
+    myBrandMentions: 0,
+    competitorMentions: 0,
+    myBrandRanks: [] as number[],
+    myBrandRank1Mentions: 0,
+    competitorRanks: [] as number[],
+  }]));
+
+  results.intents_data.forEach((intent) => {
+    intent.answers.forEach((answer) => {
+      const modelStats = stats.get(answer.model)!;
+      modelStats.totalMentions += answer.mentions.length;
+      answer.mentions.forEach((mention) => {
+        if (mention.is_mine) {
+          modelStats.myBrandMentions++;
+          if (mention.rank) {
+            modelStats.myBrandRanks.push(mention.rank);
+            if (mention.rank === 1) {
+              modelStats.myBrandRank1Mentions++;
+            }
+          }
+        } else {
+          modelStats.competitorMentions++;
+          if (mention.rank) {
+            modelStats.competitorRanks.push(mention.rank);
+          }
+        }
+      });
+    });
+  });
+
+  const avgRank = (ranks: number[]) => {
+    if (ranks.length === 0) return 0;
+    return parseFloat((ranks.reduce((a, b) => a + b, 0) / ranks.length).toFixed(2));
+  };
+  
+  const glassCardClass = theme === 'dark'
+    ? 'glass-card'
+    : 'glass-card-light';
+
+  return (
+    <div className={`${glassCardClass} p-6 mt-8`}>
+      <div className="flex items-center gap-2 mb-4">
+        <Sparkles className="w-5 h-5 text-primary-400" />
+        <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-navy-200' : 'text-black'}`}>Model Comparison</h3>
+      </div>
+      
+      <p className={`text-sm ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} mb-6`}>
+        Compare how different AI models perceive your brand against competitors across all search queries.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {models.map((model, index) => {
+          const modelStats = stats.get(model)!;
+          const color = MODEL_COLORS[index % MODEL_COLORS.length];
+          const provider = providerOfModel(model);
+          return (
+            <div key={model}>
+              <h4 className={`font-bold text-lg ${theme === 'dark' ? color.text : color.textLight} mb-4 flex items-center gap-2`}>
+                {getModelName(model)}
+                {provider && (
+                  <span className={`text-[10px] px-1.5 py-0.5 rounded border ${color.border} uppercase`}>{provider.name}</span>
+                )}
+              </h4>
+              <div className="space-y-6">
+                 <div title="Percentage of mentions belonging to your brand out of all brand mentions detected.">
+                   <StatsBar 
+                      label="Share of Voice" 
+                      value={modelStats.myBrandMentions} 
+                      total={modelStats.totalMentions || 1} 
+                      theme={theme}
+                      colorClass={color.bar}
+                      suffix={` / ${modelStats.totalMentions} total mentions`}
+                   />
+                   <p className="text-[11px] text-navy-400 mt-1">How often you appear compared to everyone else.</p>
+                 </div>
+
+                 <div title="How often your brand was the first one mentioned in the response.">
+                   <StatsBar 
+                      label="#1 Ranking Rate" 
+                      value={modelStats.myBrandRank1Mentions} 
+                      total={modelStats.myBrandMentions || 1} 
+                      theme={theme}
+                      colorClass="bg-emerald-500"
+                      suffix={` / ${modelStats.myBrandMentions} of your mentions`}
+                   />
+                   <p className="text-[11px] text-navy-400 mt-1">Frequency of being the top recommendation.</p>
+                 </div>
+
+                 <div className="grid grid-cols-2 gap-4 mt-2">
+                    <div 
+                      className={`p-3 rounded-lg border ${theme === 'dark' ? 'bg-navy-900 border-navy-800' : 'bg-slate-50 border-slate-200'}`}
+                      title="Average numerical position of your brand in the response lists (Lower is better)."
+                    >
+                        <div className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} flex items-center gap-1`}>
+                          Avg My Rank <Info className="w-3 h-3" />
+                        </div>
+                        <div className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{avgRank(modelStats.myBrandRanks) || '-'}</div>
+                    </div>
+                    <div 
+                      className={`p-3 rounded-lg border ${theme === 'dark' ? 'bg-navy-900 border-navy-800' : 'bg-slate-50 border-slate-200'}`}
+                      title="Average numerical position of competitor brands (Higher than yours is better)."
+                    >
+                        <div className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} flex items-center gap-1`}>
+                          Avg Comp Rank <Info className="w-3 h-3" />
+                        </div>
+                        <div className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{avgRank(modelStats.competitorRanks) || '-'}</div>
+                    </div>
+                 </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export const TokenUsageStats = ({ results, theme }: { results: RunResults, theme: string }) => {
+  if (!results) return null;
+
+  const models = answeredModels(results);
+  const used = new Map(models.map(model => [model, 0]));
+
+  // Calculate tokens used from API response
+  results.intents_data.forEach((intent) => {
+    intent.answers.forEach((answer) => {
+      used.set(answer.model, (used.get(answer.model) ?? 0) + (answer.usage.total_tokens || 0));
+    });
+  });
+
+  const cardStyle = `p-6 ${theme === 'dark' ? 'bg-navy-800/20 border-navy-700/40' : 'bg-gray-100/50 border-gray-200/40'} rounded-2xl border`;
+
+  return (
+    <div className={cardStyle}>
+      <div className="flex items-center gap-3 mb-6">
+         <div className={`p-2 rounded-lg ${theme === 'dark' ? 'bg-primary-500/10 text-primary-500' : 'bg-primary-100 text-primary-600'}`}>
+            <Zap className="w-5 h-5" />
+         </div>
+         <div>
+            <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-navy-200' : 'text-black'}`}>Token Consumption</h3>
+            <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>Total generated tokens for this search run</p>
+         </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {models.map((model, index) => {
+          const color = MODEL_COLORS[index % MODEL_COLORS.length];
+          const provider = providerOfModel(model);
+          const Icon = provider?.icon ?? Brain;
+          return (
+           <div key={model} className={`relative overflow-hidden rounded-2xl border p-6 transition-all duration-300 ${
+              theme === 'dark' 
+                ? 'bg-navy-900/40 border-navy-800' 
+                : 'bg-white border-slate-200 shadow-sm'
+           }`}>
+              <div className="relative z-10">
+                 <div className="flex justify-between items-start mb-4">
+                    <div className="flex items-center gap-3">
+                       <div className={`p-2.5 rounded-xl ${color.icon}`}>
+                          <Icon className="w-5 h-5" />
+                       </div>
+                       <div>
+                          <h4 className={`font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{provider?.name ?? getModelName(model)}</h4>
+                          <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>{model}</p>
+                       </div>
+                    </div>
+                 </div>
+
+                 <div className="mt-2">
+                    <div className={`text-3xl font-bold font-mono tracking-tight ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>
+                       {(used.get(model) ?? 0).toLocaleString()}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1">
+                        <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${theme === 'dark' ? color.tag : color.tagLight}`}>
+                           TOKENS
+                        </span>
+                        <span className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>generated total</span>
+                    </div>
+                 </div>
+              </div>
+           </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+
+export const FormattedAnswer = ({ text, mentions = [], theme }: { text: string; mentions?: BrandMention[]; theme: string }) => {
+  if (!text) return null;
+
+  const terms = mentionTerms(mentions);
+  const sortedTerms = [...terms.keys()].sort((a, b) => b.length - a.length);
+  const brandPattern = sortedTerms.length > 0
+    ? new RegExp(`((?<!\\w)(?:${sortedTerms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?!\\w))`, 'gi')
+    : null;
+
+  const highlightText = (content: string) => {
+    if (!brandPattern || !content) return content;
+
+    return content.split(brandPattern).map((part, i) => {
+      const lower = part.toLowerCase();
+      if (terms.has(lower)) {
+        const isMine = terms.get(lower);
+        return (
+          <span key={i} className={isMine ? "text-emerald-400 font-medium" : "text-rose-400 font-medium"}>
+            {part}
+          </span>
+        );
+      }
+      return part;
+    });
+  };
+
+  const processText = (str: string): React.ReactNode => {
+    const parts = str.split(/(\*\*.*?\*\*)/g);
+    return parts.map((part, i) => {
+      if (part.startsWith('**') && part.endsWith('**')) {
+        const content = part.slice(2, -2);
+        return (
+          <strong key={i} className={`${theme === 'dark' ? 'text-primary-300' : 'text-primary-600'} font-bold`}>
+            {highlightText(content)}
+          </strong>
+        );
+      }
+      return highlightText(part);
+    });
+  };
+
+  const sections = text.split(/\n\n+/);
+
+  return (
+    <div className="space-y-4">
+      {sections.map((section, sIdx) => {
+        if (section.startsWith('### ')) {
+          return (
+            <h4 key={sIdx} className={`text-lg font-bold ${theme === 'dark' ? 'text-navy-100' : 'text-black'} mt-6 mb-3 flex items-center gap-3`}>
+              <span className={`h-px flex-1 bg-gradient-to-r ${theme === 'dark' ? 'from-primary-500/50' : 'from-primary-300/50'} to-transparent`}></span>
+              <span className={`${theme === 'dark' ? 'text-primary-200' : 'text-primary-600'}`}>{processText(section.slice(4))}</span>
+              <span className={`h-px flex-1 bg-gradient-to-l ${theme === 'dark' ? 'from-primary-500/50' : 'from-primary-300/50'} to-transparent`}></span>
+            </h4>
+          );
+        }
+
+        const lines = section.split('\n').filter(l => l.trim());
+        const isList = lines.every(line => /^\s*([-*•]|\d+\.)/.test(line.trim()));
+
+        if (isList && lines.length > 0) {
+          return (
+            <ul key={sIdx} className="space-y-2 ml-1">
+              {lines.map((line, lIdx) => {
+                const match = line.match(/^\s*([-*•]|\d+\.)\s*(.*)/);
+                if (match) {
+                  return (
+                    <li key={lIdx} className={`flex gap-3 text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-black'}`}>
+                      <span className={`${theme === 'dark' ? 'text-primary-400' : 'text-primary-500'} font-bold min-w-[12px] flex justify-center`}>{match[1].length > 1 ? match[1] : '•'}</span>
+                      <span className="flex-1">{processText(match[2])}</span>
+                    </li>
+                  );
+                }
+                return <p key={lIdx} className={`text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-black'} ml-6`}>{processText(line)}</p>;
+              })}
+            </ul>
+          );
+        }
+
+        return (
+          <p key={sIdx} className={`text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-black'} leading-relaxed whitespace-pre-wrap`}>
+            {processText(section)}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+// The text a mention was found as, when it isn't the canonical brand name
+const mentionTitle = (mention: BrandMention) =>
+  mention.brand.toLowerCase() !== mention.normalized_name.toLowerCase() ? `Mentioned as "${mention.brand}"` : undefined;
+
+// One card per intent with each model's answer, its brand mentions and operation outputs
+export const IntentAnswers = ({ results, theme, focusedIntent = null }: { results: RunResults; theme: string; focusedIntent?: string | null }) => (
+    <div className="space-y-8">
+      {results.intents_data.map((intentResult) => (
+        <div
+          key={intentResult.intent_id}
+          id={`intent-${intentResult.intent_id}`}
+          className={`scroll-mt-6 p-6 ${theme === 'dark' ? 'bg-navy-800/20' : 'bg-gray-100/50'} rounded-2xl border ${theme === 'dark' ? 'border-navy-700/40 hover:border-navy-600/60' : 'border-gray-200/40 hover:border-gray-300/60'} transition-colors ${focusedIntent === intentResult.intent_id ? 'ring-2 ring-primary-500/60' : ''}`}
+        >
+          <div className="flex items-start gap-4 mb-4">
+            <div className="w-8 h-8 rounded-lg bg-primary-500/20 flex items-center justify-center shrink-0">
+              <MessageSquare className="w-4 h-4 text-primary-400" />
+            </div>
+            <h3 className={`font-bold text-xl ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>{intentResult.prompt}</h3>
+          </div>
+
+          {results.failures
+            .filter(failure => failure.intent_id === intentResult.intent_id)
+            .map(failure => (
+              <FailedQueryBadge key={`${failure.model_provider}|${failure.model_name}`} failure={failure} theme={theme} />
+            ))}
+
+          {intentResult.answers.length !== 1 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {intentResult.answers.map((answer, index) => (
+                <div key={index} className={`${theme === 'dark' ? 'bg-navy-900/40' : 'bg-white/50'} rounded-xl p-5 border ${theme === 'dark' ? 'border-navy-800/50' : 'border-gray-200/50'}`}>
+                  <h4 className={`font-bold text-lg ${theme === 'dark' ? 'text-primary-300' : 'text-primary-600'} mb-3`}>{answer.model}</h4>
+                  <FormattedAnswer text={answer.answer} mentions={answer.mentions} theme={theme} />
+                  <div className="mt-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <Target className="w-4 h-4 text-accent-400" />
+                      <h4 className={`font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} text-sm uppercase tracking-wider`}>Detected Mentions</h4>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      {answer.mentions && answer.mentions.length > 0 ? (
+                        answer.mentions.map((mention, mIndex) => (
+                          <div key={mIndex} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border ${mention.is_mine
+                              ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
+                              : 'bg-rose-500/10 border-rose-500/30 text-rose-400'}`}>
+                            <span className="font-medium" title={mentionTitle(mention)}>{mention.normalized_name}</span>
+                            {mention.rank && (
+                              <span className={`text-xs px-1.5 py-0.5 rounded ${mention.is_mine ? 'bg-emerald-500/20' : 'bg-rose-500/20'}`}>
+                                #{mention.rank}
+                              </span>
+                            )}
+                          </div>
+                        ))
+                      ) : (
+                        <span className={`text-sm italic text-center w-full py-2 rounded-lg border border-dashed ${theme === 'dark' ? 'text-navy-500 bg-navy-900/20 border-navy-800' : 'text-gray-400 bg-gray-100/50 border-gray-200'}`}>
+                          No brand mentions detected
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <OperationResults operations={answer.operations} theme={theme} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className={`${theme === 'dark' ? 'bg-navy-900/40' : 'bg-white/50'} rounded-xl p-5 mb-6 border ${theme === 'dark' ? 'border-navy-800/50' : 'border-gray-200/50'}`}>
+              <FormattedAnswer text={intentResult.answers[0].answer} mentions={intentResult.answers[0].mentions} theme={theme} />
+              <div className="mt-4">
+                <div className="flex items-center gap-2 mb-3">
+                  <Target className="w-4 h-4 text-accent-400" />
+                  <h4 className={`font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} text-sm uppercase tracking-wider`}>Detected Mentions</h4>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  {intentResult.answers[0].mentions && intentResult.answers[0].mentions.length > 0 ? (
+                    intentResult.answers[0].mentions.map((mention, mIndex) => (
+                      <div key={mIndex} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border ${mention.is_mine
+                          ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
+                          : 'bg-rose-500/10 border-rose-500/30 text-rose-400'}`}>
+                        <span className="font-medium" title={mentionTitle(mention)}>{mention.normalized_name}</span>
+                        {mention.rank && (
+                          <span className={`text-xs px-1.5 py-0.5 rounded ${mention.is_mine ? 'bg-emerald-500/20' : 'bg-rose-500/20'}`}>
+                            #{mention.rank}
+                          </span>
+                        )}
+                      </div>
+                    ))
+                  ) : (
+                    <span className={`text-sm italic text-center w-full py-2 rounded-lg border border-dashed ${theme === 'dark' ? 'text-navy-500 bg-navy-900/20 border-navy-800' : 'text-gray-400 bg-gray-100/50 border-gray-200'}`}>
+                      No brand mentions detected
+                    </span>
+                  )}
+                </div>
+              </div>
+              <OperationResults operations={intentResult.answers[0].operations} theme={theme} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+);
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock, Loader2, X } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { scheduleApi } from '../api/client';
+import { DEFAULT_TIMING, SCHEDULE_PRESETS, WEEKDAYS, describeCron, isCronSyntax, timingToCron } from '../config/schedules';
+import type { ScheduleTiming } from '../config/schedules';
+
+interface ScheduleRunModalProps {
+  // Dashboard configuration to save, as sent to /run_watcher
+  yamlConfig: string;
+  onClose: () => void;
+  theme: string;
+}
+
+// Saves the current configuration as a schedule; scheduled runs use the saved API keys
+export function ScheduleRunModal({ yamlConfig, onClose, theme }: ScheduleRunModalProps) {
+  const { showToast } = useToast();
+  const [name, setName] = useState('');
+  const [timing, setTiming] = useState<ScheduleTiming>(DEFAULT_TIMING);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cron = timingToCron(timing);
+  const cronValid = timing.preset !== 'custom' || isCronSyntax(timing.cron);
+  const canSave = name.trim() !== '' && cronValid && !isSaving;
+
+  const update = (changes: Partial<ScheduleTiming>) => setTiming(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const schedule = await scheduleApi.create({ name: name.trim(), yaml_config: yamlConfig, cron });
+      showToast(`Scheduled "${schedule.name}" - ${describeCron(schedule.cron)}`, 'success');
+      onClose();
+    } catch (err) {
+      // Missing saved keys and invalid cron fields come back as a 400 detail
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass = `w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-950 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-md rounded-2xl border p-6 shadow-2xl ${
+          theme === 'dark' ? 'bg-navy-900 border-navy-700' : 'bg-white border-gray-200'
+        } animate-scale-in`}
+      >
+        <div className="flex items-start gap-4 mb-5">
+          <div className="flex-shrink-0 p-3 rounded-full text-primary-500 bg-primary-500/10">
+            <CalendarClock className="w-6 h-6" />
+          </div>
+          <div className="flex-1">
+            <h3 className={`text-lg font-bold leading-6 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              Schedule this configuration
+            </h3>
+            <p className={`mt-1 text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'}`}>
+              Runs use your saved API keys for each provider.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`flex-shrink-0 p-1 rounded-lg transition-colors ${
+              theme === 'dark'
+                ? 'text-navy-400 hover:bg-navy-800 hover:text-white'
+                : 'text-gray-400 hover:bg-gray-100 hover:text-gray-600'
+            }`}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className={labelClass}>Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Weekly pricing check"
+              className={fieldClass}
+              autoFocus
+            />
+          </label>
+
+          <div>
+            <span className={labelClass}>Repeat</span>
+            <div className="grid grid-cols-3 gap-2">
+              {SCHEDULE_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => update({ preset: preset.id })}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${timing.preset === preset.id
+                    ? 'border-primary-500 bg-primary-500/10 text-primary-400'
+                    : theme === 'dark' ? 'border-navy-700 text-navy-300 hover:border-navy-500' : 'border-gray-200 text-gray-600 hover:border-gray-400'
+                  }`}
+                >
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {timing.preset === 'custom' ? (
+            <label className="block">
+              <span className={labelClass}>Cron expression (minute hour day month weekday, UTC)</span>
+              <input
+                type="text"
+                value={timing.cron}
+                onChange={(e) => update({ cron: e.target.value })}
+                placeholder="0 9 * * 1-5"
+                className={`${fieldClass} font-mono`}
+              />
+              {!cronValid && <p className="text-xs text-rose-400 mt-1">Needs five fields, e.g. "0 9 * * 1-5"</p>}
+            </label>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {timing.preset === 'weekly' && (
+                <label className="block">
+                  <span className={labelClass}>Day</span>
+                  <select
+                    value={timing.weekday}
+                    onChange={(e) => update({ weekday: Number(e.target.value) })}
+                    className={fieldClass}
+                  >
+                    {WEEKDAYS.map((day, index) => <option key={day} value={index}>{day}</option>)}
+                  </select>
+                </label>
+              )}
+              <label className="block">
+                <span className={labelClass}>Time (UTC)</span>
+                <input
+                  type="time"
+                  value={timing.time}
+                  onChange={(e) => e.target.value && update({ time: e.target.value })}
+                  className={`${fieldClass} ${theme === 'dark' ? '[color-scheme:dark]' : ''}`}
+                />
+              </label>
+            </div>
+          )}
+
+          {cronValid && (
+            <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+              {describeCron(cron)}
+            </p>
+          )}
+
+          {error && <p className="text-sm text-rose-400">{error}</p>}
+        </div>
+
+        <div className="mt-6 flex items-center justify-between gap-3">
+          <Link to="/schedules" className={`text-sm ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}>
+            View schedules
+          </Link>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave}
+            className="btn-primary text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save schedule
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
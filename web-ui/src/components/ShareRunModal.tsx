@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Copy, Link2, Loader2, X } from 'lucide-react';
+import { shareApi } from '../api/client';
+import { SHARE_EXPIRY_OPTIONS, shareUrl } from '../config/shares';
+import type { ShareLink } from '../types';
+
+interface ShareRunModalProps {
+  runId: string;
+  onClose: () => void;
+  theme: string;
+}
+
+// Mints a public read-only link to a run's results; revocable from the Profile page
+export function ShareRunModal({ runId, onClose, theme }: ShareRunModalProps) {
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setLink(await shareApi.create({ run_id: runId, ...(expiresInDays !== null && { expires_in_days: expiresInDays }) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy - select the link and copy it manually');
+    }
+  };
+
+  const fieldClass = `w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-950 border-navy-700 text-white' : 'bg-white border-gray-200 text-gray-900'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div
+        className={`relative w-full max-w-md rounded-2xl border p-6 shadow-2xl ${
+          theme === 'dark' ? 'bg-navy-900 border-navy-700' : 'bg-white border-gray-200'
+        } animate-scale-in`}
+      >
+        <div className="flex items-start gap-4 mb-5">
+          <div className="flex-shrink-0 p-3 rounded-full text-primary-500 bg-primary-500/10">
+            <Link2 className="w-6 h-6" />
+          </div>
+          <div className="flex-1">
+            <h3 className={`text-lg font-bold leading-6 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+              Share these results
+            </h3>
+            <p className={`mt-1 text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'}`}>
+              Anyone with the link sees the answers and mentions of this run, read-only. No sign-in, API keys or configuration.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`flex-shrink-0 p-1 rounded-lg transition-colors ${
+              theme === 'dark'
+                ? 'text-navy-400 hover:bg-navy-800 hover:text-white'
+                : 'text-gray-400 hover:bg-gray-100 hover:text-gray-600'
+            }`}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {link ? (
+          <div className="space-y-3">
+            <span className={labelClass}>Link</span>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={shareUrl(link.token)}
+                onFocus={(e) => e.target.select()}
+                className={`${fieldClass} font-mono text-xs`}
+              />
+              <button onClick={handleCopy} className="btn-primary text-sm flex items-center gap-2 shrink-0">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+            <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+              {link.expires_at ? `Expires ${new Date(link.expires_at).toLocaleString()}` : 'Never expires'} - revoke it any time from your Profile.
+            </p>
+          </div>
+        ) : (
+          <div>
+            <span className={labelClass}>Link expires after</span>
+            <div className="grid grid-cols-4 gap-2">
+              {SHARE_EXPIRY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setExpiresInDays(option.days)}
+                  className={`px-3 py-2 rounded-lg border text-sm transition-colors ${expiresInDays === option.days
+                    ? 'border-primary-500 bg-primary-500/10 text-primary-400'
+                    : theme === 'dark' ? 'border-navy-700 text-navy-300 hover:border-navy-500' : 'border-gray-200 text-gray-600 hover:border-gray-400'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-rose-400 mt-3">{error}</p>}
+
+        <div className="mt-6 flex items-center justify-between gap-3">
+          <Link to="/profile" className={`text-sm ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}>
+            Manage shared links
+          </Link>
+          {!link && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="btn-primary text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCreating && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create link
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
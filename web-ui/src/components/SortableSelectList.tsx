@@ -0,0 +1,132 @@
+import { useState, type ReactNode } from 'react';
+import { GripVertical, Trash2 } from 'lucide-react';
+
+interface SortableSelectListProps<T extends { id: number }> {
+  items: T[];
+  renderItem: (item: T) => ReactNode;
+  // Rows being edited can't be dragged, so their inputs stay usable
+  isLocked?: (item: T) => boolean;
+  selectedIds: Set<number>;
+  onSelectionChange: (ids: Set<number>) => void;
+  onDeleteSelected: () => void;
+  // Called once per drag, with every ID in the new order
+  onReorder: (ids: number[]) => void;
+  // Plural noun for the header, e.g. "brands"
+  noun: string;
+  emptyText: string;
+  theme: string;
+}
+
+// List with checkboxes, a bulk delete bar and drag-to-reorder rows
+export function SortableSelectList<T extends { id: number }>({
+  items,
+  renderItem,
+  isLocked,
+  selectedIds,
+  onSelectionChange,
+  onDeleteSelected,
+  onReorder,
+  noun,
+  emptyText,
+  theme,
+}: SortableSelectListProps<T>) {
+  // Order shown while a row is dragged; committed on drop
+  const [dragOrder, setDragOrder] = useState<number[] | null>(null);
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+
+  const byId = new Map(items.map(item => [item.id, item]));
+  const shown = dragOrder ? dragOrder.flatMap(id => byId.get(id) ?? []) : items;
+  const selectedCount = items.filter(item => selectedIds.has(item.id)).length;
+  const allSelected = selectedCount === items.length;
+
+  const toggle = (id: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    onSelectionChange(next);
+  };
+
+  const moveOver = (targetId: number) => {
+    if (draggedId === null || targetId === draggedId || !dragOrder) return;
+    const order = dragOrder.filter(id => id !== draggedId);
+    order.splice(dragOrder.indexOf(targetId), 0, draggedId);
+    setDragOrder(order);
+  };
+
+  const finishDrag = () => {
+    if (dragOrder && dragOrder.some((id, index) => id !== items[index]?.id)) onReorder(dragOrder);
+    setDragOrder(null);
+    setDraggedId(null);
+  };
+
+  const mutedTextClass = theme === 'dark' ? 'text-navy-400' : 'text-slate-500';
+  const cardBgClass = theme === 'dark' ? 'bg-navy-900/50' : 'bg-white/50';
+
+  if (items.length === 0) return <p className={`text-center py-6 ${mutedTextClass}`}>{emptyText}</p>;
+
+  return (
+    <div>
+      <div className={`flex items-center justify-between gap-3 mb-3 px-1 text-sm ${mutedTextClass}`}>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => onSelectionChange(allSelected ? new Set() : new Set(items.map(item => item.id)))}
+            className="accent-primary-500"
+          />
+          {selectedCount > 0 ? `${selectedCount} of ${items.length} selected` : `Select all ${noun}`}
+        </label>
+        {selectedCount > 0 ? (
+          <button
+            type="button"
+            onClick={onDeleteSelected}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-red-500 hover:bg-red-500/10 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" /> Delete selected
+          </button>
+        ) : (
+          <span className="text-xs">Drag <GripVertical className="inline w-3.5 h-3.5" /> to reorder</span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {shown.map(item => {
+          const locked = isLocked?.(item) ?? false;
+          return (
+            <div
+              key={item.id}
+              draggable={!locked}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(item.id);
+                setDragOrder(items.map(i => i.id));
+              }}
+              onDragOver={(e) => {
+                if (draggedId === null) return;
+                e.preventDefault();
+                moveOver(item.id);
+              }}
+              onDrop={(e) => e.preventDefault()}
+              onDragEnd={finishDrag}
+              className={`${cardBgClass} p-4 rounded-xl border flex items-center gap-3 transition-opacity ${
+                selectedIds.has(item.id) ? 'border-primary-500/50' : 'border-navy-700/50'
+              } ${draggedId === item.id ? 'opacity-50' : ''}`}
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.has(item.id)}
+                onChange={() => toggle(item.id)}
+                className="accent-primary-500 flex-shrink-0"
+                aria-label="Select"
+              />
+              <GripVertical
+                className={`w-4 h-4 flex-shrink-0 ${locked ? 'opacity-20' : `${mutedTextClass} cursor-grab active:cursor-grabbing`}`}
+              />
+              <div className="flex-1 min-w-0">{renderItem(item)}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
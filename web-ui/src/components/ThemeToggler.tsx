@@ -4,7 +4,7 @@ const ThemeToggler = ({ theme, toggleTheme }) => {
   return (
     <button
       onClick={toggleTheme}
-      className={`fixed bottom-4 right-4 z-50 w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300
+      className={`print:hidden fixed bottom-4 right-4 z-50 w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300
       ${
         theme === 'dark'
           ? 'bg-navy-700 hover:bg-navy-600 text-yellow-400'
@@ -0,0 +1,126 @@
+export interface TrendPoint {
+  time: number;
+  value: number;
+  runId: string;
+}
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  color: string;
+  points: TrendPoint[];
+}
+
+interface TrendChartProps {
+  series: TrendSeries[];
+  theme: string;
+  format: (value: number) => string;
+  // Fixed y range (e.g. 0-100 for percentages); derived from the data when null
+  domain: [number, number] | null;
+  // Draws lower values at the top (ranks)
+  invert?: boolean;
+  onPointClick?: (runId: string) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 56 };
+const Y_TICKS = 5;
+const X_TICKS = 5;
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export function TrendChart({ series, theme, format, domain, invert = false, onPointClick }: TrendChartProps) {
+  const points = series.flatMap(s => s.points);
+  if (points.length === 0) {
+    return (
+      <div className={`flex items-center justify-center h-48 text-sm italic rounded-xl border border-dashed ${theme === 'dark' ? 'text-navy-400 border-navy-700' : 'text-gray-400 border-gray-200'}`}>
+        No data for this metric in the selected range
+      </div>
+    );
+  }
+
+  const times = points.map(p => p.time);
+  let minTime = Math.min(...times);
+  let maxTime = Math.max(...times);
+  if (minTime === maxTime) {
+    // A single run - center it
+    minTime -= 12 * 60 * 60 * 1000;
+    maxTime += 12 * 60 * 60 * 1000;
+  }
+
+  let [minValue, maxValue] = domain ?? [Math.min(...points.map(p => p.value)), Math.max(...points.map(p => p.value))];
+  if (minValue === maxValue) {
+    minValue -= 1;
+    maxValue += 1;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + ((time - minTime) / (maxTime - minTime)) * plotWidth;
+  const y = (value: number) => {
+    const ratio = (value - minValue) / (maxValue - minValue);
+    return PADDING.top + (invert ? ratio : 1 - ratio) * plotHeight;
+  };
+
+  const yTicks = Array.from({ length: Y_TICKS }, (_, i) => minValue + ((maxValue - minValue) * i) / (Y_TICKS - 1));
+  const xTicks = Array.from({ length: X_TICKS }, (_, i) => minTime + ((maxTime - minTime) * i) / (X_TICKS - 1));
+
+  const gridColor = theme === 'dark' ? '#1e293b' : '#e5e7eb';
+  const labelColor = theme === 'dark' ? '#94a3b8' : '#6b7280';
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {yTicks.map(tick => (
+          <g key={`y-${tick}`}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke={gridColor} strokeWidth={1} />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" fontSize={11} fill={labelColor}>
+              {format(tick)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map(tick => (
+          <text key={`x-${tick}`} x={x(tick)} y={HEIGHT - 8} textAnchor="middle" fontSize={11} fill={labelColor}>
+            {formatDate(tick)}
+          </text>
+        ))}
+
+        {series.map(s => {
+          const sorted = [...s.points].sort((a, b) => a.time - b.time);
+          const path = sorted.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.time)},${y(p.value)}`).join(' ');
+          return (
+            <g key={s.key}>
+              <path d={path} fill="none" stroke={s.color} strokeWidth={2} strokeLinejoin="round" />
+              {sorted.map(p => (
+                <circle
+                  key={p.runId}
+                  cx={x(p.time)}
+                  cy={y(p.value)}
+                  r={4}
+                  fill={s.color}
+                  className={onPointClick ? 'cursor-pointer' : undefined}
+                  onClick={onPointClick ? () => onPointClick(p.runId) : undefined}
+                >
+                  <title>{`${s.label} · ${new Date(p.time).toLocaleString()}: ${format(p.value)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 mt-3">
+          {series.map(s => (
+            <span key={s.key} className={`flex items-center gap-2 text-xs ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
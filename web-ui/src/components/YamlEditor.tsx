@@ -0,0 +1,191 @@
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { yamlPathLine, type ConfigIssue } from '../config/configImport';
+
+interface YamlEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+  theme: string;
+}
+
+type TokenKind = 'plain' | 'key' | 'dash' | 'string' | 'scalar' | 'comment';
+
+interface Token {
+  text: string;
+  kind: TokenKind;
+}
+
+const LINE_START = /^(\s*)((?:-(?:\s+|$))*)/;
+const KEY = /^("[^"]*"|'[^']*'|[^\s#:"'][^#:]*?)(\s*:)(?=\s|$)/;
+const SCALAR = /^(?:-?\d+(?:\.\d+)?(?:e[+-]?\d+)?|true|false|yes|no|null|~)$/i;
+const QUOTED = /^(["']).*\1$/;
+
+function valueToken(text: string): Token {
+  const trimmed = text.trim();
+  if (QUOTED.test(trimmed)) return { text, kind: 'string' };
+  return { text, kind: SCALAR.test(trimmed) ? 'scalar' : 'plain' };
+}
+
+// Block-style YAML is highlighted line by line: list dashes, keys, values, comments
+function tokenizeLine(line: string): Token[] {
+  const tokens: Token[] = [];
+  const [start, indent, dashes] = LINE_START.exec(line)!;
+  if (indent) tokens.push({ text: indent, kind: 'plain' });
+  if (dashes) tokens.push({ text: dashes, kind: 'dash' });
+  let rest = line.slice(start.length);
+
+  if (!rest.startsWith('#')) {
+    const key = KEY.exec(rest);
+    if (key) {
+      tokens.push({ text: key[1], kind: 'key' }, { text: key[2], kind: 'plain' });
+      rest = rest.slice(key[0].length);
+    }
+  }
+
+  // A comment starts at a `#` outside quotes that follows whitespace
+  const comment = rest.search(/(^|\s)#(?=(?:[^"']|"[^"]*"|'[^']*')*$)/);
+  const value = comment < 0 ? rest : rest.slice(0, comment);
+  if (value) tokens.push(valueToken(value));
+  if (comment >= 0) tokens.push({ text: rest.slice(comment), kind: 'comment' });
+  return tokens;
+}
+
+// A line with errors shows red, with warnings only amber
+interface LineMarker {
+  level: 'error' | 'warning';
+  messages: string[];
+}
+
+function lineMarkers(text: string, errors: ConfigIssue[], warnings: ConfigIssue[]): Map<number, LineMarker> {
+  const markers = new Map<number, LineMarker>();
+  const mark = (issue: ConfigIssue, level: LineMarker['level']) => {
+    const line = issue.line ?? yamlPathLine(text, issue.path);
+    if (line === null) return;
+    const marker = markers.get(line) ?? { level, messages: [] };
+    markers.set(line, { level: marker.level === 'error' ? 'error' : level, messages: [...marker.messages, issue.text] });
+  };
+  warnings.forEach(issue => mark(issue, 'warning'));
+  errors.forEach(issue => mark(issue, 'error'));
+  return markers;
+}
+
+// Editable YAML with syntax highlighting and a gutter marking the lines with schema issues
+export function YamlEditor({ value, onChange, onFocus, onBlur, errors, warnings, theme }: YamlEditorProps) {
+  const lines = value.split('\n');
+  const markers = lineMarkers(value, errors, warnings);
+  const isDark = theme === 'dark';
+
+  const tokenClass: Record<TokenKind, string> = {
+    plain: '',
+    key: isDark ? 'text-sky-300' : 'text-sky-700',
+    dash: isDark ? 'text-primary-400' : 'text-primary-600',
+    string: isDark ? 'text-emerald-300' : 'text-emerald-700',
+    scalar: isDark ? 'text-amber-300' : 'text-amber-700',
+    comment: `italic ${isDark ? 'text-navy-500' : 'text-gray-400'}`,
+  };
+  const markerClass = {
+    error: 'bg-rose-500/20 text-rose-400',
+    warning: 'bg-amber-500/20 text-amber-400',
+  };
+
+  const issueLine = (issue: ConfigIssue) => issue.line ?? yamlPathLine(value, issue.path);
+
+  return (
+    <div className="mb-4">
+      <div
+        className={`max-h-80 overflow-auto rounded-xl border font-mono text-xs leading-5 ${
+          isDark ? 'bg-navy-900 border-navy-800 text-navy-300' : 'bg-gray-100 border-gray-200 text-gray-800'
+        }`}
+      >
+        <div className="flex min-w-max">
+          {/* Gutter */}
+          <div
+            aria-hidden
+            className={`sticky left-0 z-10 py-3 select-none text-right border-r ${
+              isDark ? 'bg-navy-900 border-navy-800 text-navy-600' : 'bg-gray-100 border-gray-200 text-gray-400'
+            }`}
+          >
+            {lines.map((_, index) => {
+              const marker = markers.get(index + 1);
+              return (
+                <div
+                  key={index}
+                  title={marker?.messages.join('\n')}
+                  className={`px-2 ${marker ? markerClass[marker.level] : ''}`}
+                >
+                  {index + 1}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* The transparent textarea sits on top of the highlighted copy of its text */}
+          <div className="grid flex-1 py-3 px-3">
+            <pre aria-hidden className="col-start-1 row-start-1 m-0 font-mono whitespace-pre pointer-events-none">
+              {lines.map((line, index) => (
+                <div key={index} className={markers.get(index + 1)?.level === 'error' ? 'underline decoration-wavy decoration-rose-500/70' : ''}>
+                  {tokenizeLine(line).map((token, tokenIndex) => (
+                    <span key={tokenIndex} className={tokenClass[token.kind]}>{token.text}</span>
+                  ))}
+                  {/* Keeps empty lines one line tall */}
+                  {line === '' && ' '}
+                </div>
+              ))}
+            </pre>
+            <textarea
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+              onFocus={onFocus}
+              onBlur={onBlur}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              wrap="off"
+              aria-label="Config YAML"
+              className={`col-start-1 row-start-1 m-0 p-0 w-full h-full resize-none overflow-hidden border-0 bg-transparent font-mono text-transparent outline-none whitespace-pre ${
+                isDark ? 'caret-white selection:bg-navy-600/60' : 'caret-gray-900 selection:bg-sky-200/60'
+              }`}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-1 text-xs">
+        {errors.length === 0 ? (
+          <p className="flex items-center gap-1.5 text-emerald-500">
+            <CheckCircle2 className="w-3.5 h-3.5" /> Valid - edits update the form
+          </p>
+        ) : (
+          <p className="flex items-center gap-1.5 text-rose-400">
+            <XCircle className="w-3.5 h-3.5" /> Fix the errors below to update the form
+          </p>
+        )}
+        {[...errors.map(issue => ({ issue, level: 'error' as const })), ...warnings.map(issue => ({ issue, level: 'warning' as const }))]
+          .map(({ issue, level }) => {
+            const line = issueLine(issue);
+            return (
+              <p
+                key={`${level}-${issue.text}`}
+                className={`flex items-start gap-1.5 ${
+                  level === 'error'
+                    ? isDark ? 'text-rose-200' : 'text-rose-700'
+                    : isDark ? 'text-amber-100' : 'text-amber-800'
+                }`}
+              >
+                {level === 'error'
+                  ? <XCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-rose-400" />
+                  : <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-amber-400" />}
+                <span>
+                  {line !== null && <span className="font-mono opacity-70">L{line} </span>}
+                  {issue.text}
+                </span>
+              </p>
+            );
+          })}
+      </div>
+    </div>
+  );
+}
@@ -49,6 +49,7 @@ export function TagInput({ tags, onChange, placeholder = 'Add tag...', className
         >
           <span>{tag}</span>
           <button
+            type="button"
             onClick={(e) => { e.stopPropagation(); removeTag(index); }}
             className={`p-0.5 hover:bg-black/10 rounded-md transition-colors`}
           >
@@ -0,0 +1,47 @@
+import type { AlertRule, AlertRuleType } from '../types';
+
+export const ALERT_RULE_TYPES: {
+  id: AlertRuleType;
+  name: string;
+  description: string;
+  // Label and default of the threshold input, for types that need one
+  threshold?: { label: string; defaultValue: number; min: number; max?: number; step: number };
+}[] = [
+  {
+    id: 'rank_drop',
+    name: 'Drops out of the top N',
+    description: 'Your best rank across models falls outside the top N, or you are not ranked at all.',
+    threshold: { label: 'Top', defaultValue: 3, min: 1, step: 1 },
+  },
+  {
+    id: 'competitor_overtakes',
+    name: 'Competitor overtakes',
+    description: 'A competitor (or the one you name) ranks above your brand.',
+  },
+  {
+    id: 'negative_sentiment',
+    name: 'Sentiment turns negative',
+    description: 'Negative mentions of your brand outweigh positive ones (needs sentiment extraction).',
+  },
+  {
+    id: 'share_of_voice_below',
+    name: 'Share of voice below',
+    description: 'Your brand gets less than this share of all brand mentions.',
+    threshold: { label: 'Below %', defaultValue: 20, min: 1, max: 100, step: 1 },
+  },
+];
+
+export const alertRuleType = (id: AlertRuleType) => ALERT_RULE_TYPES.find(type => type.id === id);
+
+// One-line summary of what a rule watches, e.g. "Drops out of the top 3 · intent best-tools"
+export function describeAlertRule(rule: AlertRule): string {
+  const name = alertRuleType(rule.rule_type)?.name ?? rule.rule_type;
+  const condition = rule.rule_type === 'rank_drop'
+    ? `Drops out of the top ${rule.threshold}`
+    : rule.rule_type === 'share_of_voice_below'
+      ? `Share of voice below ${rule.threshold}%`
+      : rule.rule_type === 'competitor_overtakes' && rule.competitor
+        ? `${rule.competitor} overtakes`
+        : name;
+  return `${condition} · ${rule.intent_id ? `intent ${rule.intent_id}` : 'all intents'}`;
+}
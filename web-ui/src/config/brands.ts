@@ -0,0 +1,55 @@
+import type { BrandEntity, BrandMention, Brands } from '../types';
+
+export const BRAND_TERM_FIELDS: { key: keyof BrandEntity; label: string; placeholder: string; description: string }[] = [
+  { key: 'aliases', label: 'Aliases', placeholder: 'e.g., HubSpot CRM', description: 'Other names and spellings, counted as this brand' },
+  { key: 'products', label: 'Product lines', placeholder: 'e.g., Sales Hub', description: 'Products whose mentions count as this brand' },
+  { key: 'exclude', label: 'Excluded terms', placeholder: 'e.g., HubSpot Academy', description: 'Contain the brand name but are not the brand; never counted' },
+];
+
+export const EMPTY_BRAND_ENTITY: BrandEntity = { aliases: [], products: [], exclude: [] };
+
+// Trimmed, without empty or repeated (case-insensitive) terms, as the backend stores them
+export function cleanTerms(terms: string[]): string[] {
+  const seen = new Set<string>();
+  return terms
+    .map(term => term.trim())
+    .filter(term => term && !seen.has(term.toLowerCase()) && seen.add(term.toLowerCase()));
+}
+
+export const toBrandEntity = (value: Partial<BrandEntity> | undefined): BrandEntity => ({
+  aliases: cleanTerms(value?.aliases ?? []),
+  products: cleanTerms(value?.products ?? []),
+  exclude: cleanTerms(value?.exclude ?? []),
+});
+
+export const isEmptyEntity = (entity: BrandEntity) =>
+  BRAND_TERM_FIELDS.every(({ key }) => entity[key].length === 0);
+
+/**
+ * The `brands.entities` block for the YAML config: the listed brands that
+ * have terms, each with its non-empty lists only. Undefined when there are none.
+ */
+export function toConfigEntities(brandNames: string[], entities: Record<string, BrandEntity>): Brands['entities'] {
+  const block: NonNullable<Brands['entities']> = {};
+  brandNames.forEach(name => {
+    const entity = toBrandEntity(entities[name]);
+    if (isEmptyEntity(entity)) return;
+    block[name] = Object.fromEntries(BRAND_TERM_FIELDS
+      .filter(({ key }) => entity[key].length > 0)
+      .map(({ key }) => [key, entity[key]]));
+  });
+  return Object.keys(block).length > 0 ? block : undefined;
+}
+
+/**
+ * Text to highlight as each mentioned brand: the text the run matched and the
+ * canonical name it was counted under, so highlighting follows the run rather
+ * than the current form. Keys are lowercase; the value is whether the brand is mine.
+ */
+export function mentionTerms(mentions: BrandMention[]): Map<string, boolean> {
+  const terms = new Map<string, boolean>();
+  mentions.forEach(mention => {
+    [mention.brand, mention.normalized_name].forEach(term => terms.set(term.toLowerCase(), mention.is_mine));
+  });
+  return terms;
+}
@@ -0,0 +1,58 @@
+import type { BudgetConfig } from '../types';
+
+export type BudgetLimit = 'max_per_run_usd' | 'max_per_intent_usd' | 'warn_threshold_usd';
+
+export const BUDGET_LIMITS: { key: BudgetLimit; label: string; description: string }[] = [
+  { key: 'max_per_run_usd', label: 'Max per run', description: 'Refuse the run if its estimated cost is above this' },
+  { key: 'max_per_intent_usd', label: 'Max per question', description: 'Refuse the run if any single question is estimated above this' },
+  { key: 'warn_threshold_usd', label: 'Warn above', description: 'Log a warning but still run' },
+];
+
+export const DEFAULT_BUDGET: BudgetConfig = {
+  enabled: false,
+  max_per_run_usd: null,
+  max_per_intent_usd: null,
+  warn_threshold_usd: null,
+};
+
+// Budget shared by the Setup Wizard and the Dashboard
+const BUDGET_STORAGE_KEY = 'default_budget';
+
+// The backend rejects limits <= 0, so anything else means "no limit"
+const asLimit = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+export const hasBudgetLimits = (budget: BudgetConfig) =>
+  BUDGET_LIMITS.some(({ key }) => asLimit(budget[key]) !== null);
+
+/**
+ * The `run_settings.budget` block for the YAML config, or undefined when
+ * budget controls are off or no limit is set.
+ */
+export function toBudgetConfig(budget: BudgetConfig): BudgetConfig | undefined {
+  const normalized = parseBudget(budget);
+  return normalized.enabled && hasBudgetLimits(normalized) ? normalized : undefined;
+}
+
+export function parseBudget(value: unknown): BudgetConfig {
+  if (typeof value !== 'object' || value === null) return DEFAULT_BUDGET;
+  const obj = value as Record<string, unknown>;
+  return {
+    enabled: obj.enabled === true,
+    max_per_run_usd: asLimit(obj.max_per_run_usd),
+    max_per_intent_usd: asLimit(obj.max_per_intent_usd),
+    warn_threshold_usd: asLimit(obj.warn_threshold_usd),
+  };
+}
+
+export function loadBudget(): BudgetConfig {
+  try {
+    return parseBudget(JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+}
+
+export function saveBudget(budget: BudgetConfig) {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+}
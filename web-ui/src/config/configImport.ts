@@ -0,0 +1,468 @@
+import yaml from 'js-yaml';
+
+import { findModelId, getProvider, isProvider, supportsWebSearch } from '../providers/registry';
+import type { BrandEntity, BudgetConfig, Intent, ModelSelection, Operation, Provider } from '../types';
+import { BRAND_TERM_FIELDS, cleanTerms } from './brands';
+import { parseBudget } from './budget';
+import { parseExtractionOptions, type ExtractionOptions } from './extraction';
+import { OPERATION_TYPES } from './operations';
+
+// run_settings the Dashboard always writes; imported configs with other values are reported
+export const DASHBOARD_RUN_SETTINGS = {
+  output_dir: './output',
+  sqlite_db_path: './output/watcher.db',
+  max_concurrent_requests: 10,
+  use_llm_rank_extraction: false,
+} as const;
+
+/**
+ * What a watcher YAML config fills in on the Dashboard. `enableWebSearch` is
+ * null when no imported model supports web search, `budget`/`extraction` are
+ * null when the config has no such block.
+ */
+export interface ImportedConfig {
+  models: ModelSelection[];
+  enableWebSearch: boolean | null;
+  myBrands: string[];
+  competitors: string[];
+  // Keyed by a name from myBrands or competitors
+  brandEntities: Record<string, BrandEntity>;
+  intents: Intent[];
+  globalOperations: Operation[];
+  budget: BudgetConfig | null;
+  extraction: ExtractionOptions | null;
+}
+
+// A problem with one field of the config
+export interface ConfigIssue {
+  // Field path, e.g. `intents[1].prompt`; empty for the whole document
+  path: string;
+  text: string;
+  // 1-based line, set for YAML syntax errors (yamlPathLine locates the others)
+  line?: number;
+}
+
+/**
+ * Result of importing a config. `errors` make the config unusable (config is
+ * null); `warnings` list the fields the Dashboard cannot represent and dropped.
+ */
+export interface ConfigImport {
+  config: ImportedConfig | null;
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+const KNOWN_KEYS = {
+  root: ['run_settings', 'extraction_settings', 'brands', 'intents', 'global_operations'],
+  runSettings: ['output_dir', 'sqlite_db_path', 'max_concurrent_requests', 'models', 'use_llm_rank_extraction', 'budget'],
+  model: ['provider', 'model_name', 'env_api_key', 'system_prompt', 'tools', 'tool_choice'],
+  extraction: ['extraction_model', 'method', 'fallback_to_regex', 'min_confidence', 'enable_sentiment_analysis', 'enable_intent_classification'],
+  extractionModel: ['provider', 'model_name', 'env_api_key'],
+  brands: ['mine', 'competitors', 'entities'],
+  brandEntity: BRAND_TERM_FIELDS.map(({ key }) => key),
+  intent: ['id', 'prompt', 'operations'],
+  operation: ['id', 'description', 'prompt', 'model', 'enabled', 'depends_on', 'condition', 'output_format', 'type', 'function_template', 'function_schema'],
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const describe = (value: unknown) =>
+  value === null ? 'empty' : Array.isArray(value) ? 'a list' : isObject(value) ? 'a mapping' : typeof value;
+
+class ImportContext {
+  errors: ConfigIssue[] = [];
+  warnings: ConfigIssue[] = [];
+
+  error(path: string, message: string) {
+    this.errors.push({ path, text: `${path}: ${message}` });
+  }
+
+  notImported(path: string, reason = 'is not supported by the Dashboard and was not imported', label = path) {
+    this.warnings.push({ path, text: `${label} ${reason}` });
+  }
+
+  unknownKeys(obj: Record<string, unknown>, known: string[], path: string) {
+    Object.keys(obj)
+      .filter(key => !known.includes(key))
+      .forEach(key => this.notImported(path ? `${path}.${key}` : key));
+  }
+
+  // A required non-empty string
+  string(obj: Record<string, unknown>, key: string, path: string): string | null {
+    const value = obj[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    this.error(`${path}.${key}`, value === undefined ? 'is required' : `should be text, got ${describe(value)}`);
+    return null;
+  }
+}
+
+function parseModels(ctx: ImportContext, value: unknown): { models: ModelSelection[]; enableWebSearch: boolean | null } {
+  const models: ModelSelection[] = [];
+  let webSearchModels = 0;
+  let searchCapableModels = 0;
+
+  if (value === undefined) return { models, enableWebSearch: null };
+  if (!Array.isArray(value)) {
+    ctx.error('run_settings.models', `should be a list, got ${describe(value)}`);
+    return { models, enableWebSearch: null };
+  }
+
+  value.forEach((item, index) => {
+    const path = `run_settings.models[${index}]`;
+    if (!isObject(item)) {
+      ctx.error(path, `should be a mapping, got ${describe(item)}`);
+      return;
+    }
+    const providerId = ctx.string(item, 'provider', path);
+    const configModelName = ctx.string(item, 'model_name', path);
+    if (!providerId || !configModelName) return;
+
+    const modelName = isProvider(providerId) ? findModelId(providerId, configModelName) : null;
+    if (!isProvider(providerId) || !modelName) {
+      ctx.notImported(path, 'is not available in the Dashboard and was skipped', `${path} (${providerId}/${configModelName})`);
+      return;
+    }
+    const provider = getProvider(providerId);
+    const selection: ModelSelection = { provider: provider.id, model_name: modelName };
+    ctx.unknownKeys(item, KNOWN_KEYS.model, path);
+    if (item.env_api_key !== undefined && item.env_api_key !== provider.envApiKey) {
+      ctx.notImported(`${path}.env_api_key`, `is always ${provider.envApiKey} in the Dashboard`);
+    }
+    if (item.system_prompt !== undefined && item.system_prompt !== provider.defaultSystemPrompt) {
+      ctx.notImported(`${path}.system_prompt`, `is replaced by the ${provider.name} default prompt`);
+    }
+    if (item.tool_choice !== undefined && item.tool_choice !== 'auto') {
+      ctx.notImported(`${path}.tool_choice`);
+    }
+
+    const tools = Array.isArray(item.tools) ? item.tools : [];
+    const googleSearch = tools.some(tool => isObject(tool) && 'google_search' in tool);
+    if (tools.some(tool => !isObject(tool) || Object.keys(tool).some(key => key !== 'google_search'))
+      || (googleSearch && !supportsWebSearch(selection))) {
+      ctx.notImported(`${path}.tools`, 'other than google_search on Gemini 2 models are not supported by the Dashboard and were not imported');
+    }
+    if (supportsWebSearch(selection)) {
+      searchCapableModels++;
+      if (googleSearch) webSearchModels++;
+    }
+
+    if (!models.some(m => m.provider === provider.id && m.model_name === modelName)) {
+      models.push(selection);
+    }
+  });
+
+  // Web search is one switch for all models in the Dashboard
+  if (webSearchModels > 0 && webSearchModels < searchCapableModels) {
+    ctx.notImported('run_settings.models[*].tools', 'differ between models; web search is turned on for all of them');
+  }
+  return { models, enableWebSearch: searchCapableModels > 0 ? webSearchModels > 0 : null };
+}
+
+function parseBudgetBlock(ctx: ImportContext, value: unknown): BudgetConfig | null {
+  if (value === undefined || value === null) return null;
+  if (!isObject(value)) {
+    ctx.error('run_settings.budget', `should be a mapping, got ${describe(value)}`);
+    return null;
+  }
+  ctx.unknownKeys(value, ['enabled', 'max_per_run_usd', 'max_per_intent_usd', 'warn_threshold_usd'], 'run_settings.budget');
+  // The backend enables a budget block unless it says otherwise
+  return parseBudget({ enabled: true, ...value });
+}
+
+function parseExtraction(ctx: ImportContext, value: unknown): ExtractionOptions | null {
+  if (value === undefined || value === null) return null;
+  const path = 'extraction_settings';
+  if (!isObject(value)) {
+    ctx.error(path, `should be a mapping, got ${describe(value)}`);
+    return null;
+  }
+  ctx.unknownKeys(value, KNOWN_KEYS.extraction, path);
+
+  let model: ModelSelection | undefined;
+  const extractionModel = value.extraction_model;
+  if (!isObject(extractionModel)) {
+    ctx.error(`${path}.extraction_model`, extractionModel === undefined ? 'is required' : `should be a mapping, got ${describe(extractionModel)}`);
+  } else {
+    ctx.unknownKeys(extractionModel, KNOWN_KEYS.extractionModel, `${path}.extraction_model`);
+    const { provider, model_name: modelName } = extractionModel;
+    const modelId = typeof provider === 'string' && isProvider(provider) && typeof modelName === 'string'
+      ? findModelId(provider, modelName)
+      : null;
+    if (modelId) {
+      model = { provider: provider as Provider, model_name: modelId };
+    } else {
+      ctx.notImported(
+        `${path}.extraction_model`,
+        'is not available in the Dashboard; the default extraction model is used',
+        `${path}.extraction_model (${String(provider)}/${String(modelName)})`
+      );
+    }
+  }
+
+  const options = parseExtractionOptions({ ...value, enabled: true, model });
+  (['method', 'fallback_to_regex', 'min_confidence', 'enable_sentiment_analysis', 'enable_intent_classification'] as const)
+    .filter(key => value[key] !== undefined && value[key] !== options[key])
+    .forEach(key => ctx.notImported(`${path}.${key}`, `has an invalid value; ${String(options[key])} is used`));
+  return options;
+}
+
+function parseOperations(ctx: ImportContext, value: unknown, path: string): Operation[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    ctx.error(path, `should be a list, got ${describe(value)}`);
+    return [];
+  }
+
+  return value.flatMap((item, index): Operation[] => {
+    const itemPath = `${path}[${index}]`;
+    if (!isObject(item)) {
+      ctx.error(itemPath, `should be a mapping, got ${describe(item)}`);
+      return [];
+    }
+    const id = ctx.string(item, 'id', itemPath);
+    const prompt = ctx.string(item, 'prompt', itemPath);
+    if (!id || !prompt) return [];
+    ctx.unknownKeys(item, KNOWN_KEYS.operation, itemPath);
+
+    const operation: Operation = { id, prompt };
+    const optional = <K extends keyof Operation>(key: K, valid: boolean) => {
+      if (item[key] === undefined || item[key] === null) return;
+      if (valid) operation[key] = item[key] as Operation[K];
+      else ctx.error(`${itemPath}.${key}`, `has an invalid value (${describe(item[key])})`);
+    };
+    optional('description', typeof item.description === 'string');
+    optional('model', typeof item.model === 'string');
+    optional('enabled', typeof item.enabled === 'boolean');
+    optional('depends_on', isStringList(item.depends_on));
+    optional('condition', typeof item.condition === 'string');
+    optional('output_format', item.output_format === 'text' || item.output_format === 'json');
+    optional('type', OPERATION_TYPES.some(type => type.id === item.type));
+    optional('function_template', typeof item.function_template === 'string');
+    optional('function_schema', isObject(item.function_schema));
+    return [operation];
+  });
+}
+
+function parseIntents(ctx: ImportContext, value: unknown): Intent[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    ctx.error('intents', value === undefined ? 'is required' : Array.isArray(value) ? 'needs at least one intent' : `should be a list, got ${describe(value)}`);
+    return [];
+  }
+
+  return value.flatMap((item, index): Intent[] => {
+    const path = `intents[${index}]`;
+    if (!isObject(item)) {
+      ctx.error(path, `should be a mapping, got ${describe(item)}`);
+      return [];
+    }
+    ctx.unknownKeys(item, KNOWN_KEYS.intent, path);
+    const id = ctx.string(item, 'id', path);
+    const prompt = ctx.string(item, 'prompt', path);
+    const operations = parseOperations(ctx, item.operations, `${path}.operations`);
+    if (!id || !prompt) return [];
+    return [{ id, prompt, ...(operations.length > 0 && { operations }) }];
+  });
+}
+
+function parseBrands(
+  ctx: ImportContext,
+  value: unknown,
+): { mine: string[]; competitors: string[]; entities: Record<string, BrandEntity> } {
+  if (!isObject(value)) {
+    ctx.error('brands', value === undefined ? 'is required' : `should be a mapping, got ${describe(value)}`);
+    return { mine: [], competitors: [], entities: {} };
+  }
+  ctx.unknownKeys(value, KNOWN_KEYS.brands, 'brands');
+
+  const list = (key: 'mine' | 'competitors', required: boolean) => {
+    const items = value[key];
+    if (items === undefined || items === null) {
+      if (required) ctx.error(`brands.${key}`, 'is required');
+      return [];
+    }
+    if (!isStringList(items)) {
+      ctx.error(`brands.${key}`, 'should be a list of brand names');
+      return [];
+    }
+    const names = [...new Set(items.map(name => name.trim()).filter(Boolean))];
+    if (required && names.length === 0) ctx.error(`brands.${key}`, 'needs at least one brand');
+    return names;
+  };
+  const mine = list('mine', true);
+  const competitors = list('competitors', false);
+  return { mine, competitors, entities: parseBrandEntities(ctx, value.entities, [...mine, ...competitors]) };
+}
+
+function parseBrandEntities(ctx: ImportContext, value: unknown, tracked: string[]): Record<string, BrandEntity> {
+  const entities: Record<string, BrandEntity> = {};
+  if (value === undefined || value === null) return entities;
+  if (!isObject(value)) {
+    ctx.error('brands.entities', `should be a mapping, got ${describe(value)}`);
+    return entities;
+  }
+
+  Object.entries(value).forEach(([name, entity]) => {
+    const path = `brands.entities.${name}`;
+    if (!tracked.includes(name)) {
+      ctx.error(path, 'is not in brands.mine or brands.competitors');
+      return;
+    }
+    if (!isObject(entity)) {
+      ctx.error(path, `should be a mapping, got ${describe(entity)}`);
+      return;
+    }
+    ctx.unknownKeys(entity, KNOWN_KEYS.brandEntity, path);
+    const terms = (key: keyof BrandEntity) => {
+      const items = entity[key];
+      if (items === undefined || items === null) return [];
+      if (!isStringList(items)) {
+        ctx.error(`${path}.${key}`, 'should be a list of terms');
+        return [];
+      }
+      return cleanTerms(items);
+    };
+    entities[name] = { aliases: terms('aliases'), products: terms('products'), exclude: terms('exclude') };
+  });
+  return entities;
+}
+
+/**
+ * Parse a watcher YAML config (as used by the CLI) into Dashboard state.
+ * Validates the shape of WatcherConfig; fields the Dashboard has no control
+ * for are reported as warnings instead of being silently dropped.
+ */
+export function importWatcherConfig(text: string): ConfigImport {
+  let document: unknown;
+  try {
+    document = yaml.load(text);
+  } catch (err) {
+    const message = err instanceof yaml.YAMLException
+      ? `Invalid YAML at line ${err.mark.line + 1}: ${err.reason}`
+      : `Invalid YAML: ${err instanceof Error ? err.message : String(err)}`;
+    const line = err instanceof yaml.YAMLException ? err.mark.line + 1 : undefined;
+    return { config: null, errors: [{ path: '', text: message, line }], warnings: [] };
+  }
+  if (!isObject(document)) {
+    return { config: null, errors: [{ path: '', text: `The config should be a YAML mapping, got ${describe(document)}` }], warnings: [] };
+  }
+
+  const ctx = new ImportContext();
+  ctx.unknownKeys(document, KNOWN_KEYS.root, '');
+
+  const runSettings = document.run_settings;
+  let models: ModelSelection[] = [];
+  let enableWebSearch: boolean | null = null;
+  let budget: BudgetConfig | null = null;
+  if (!isObject(runSettings)) {
+    ctx.error('run_settings', runSettings === undefined ? 'is required' : `should be a mapping, got ${describe(runSettings)}`);
+  } else {
+    ctx.unknownKeys(runSettings, KNOWN_KEYS.runSettings, 'run_settings');
+    (Object.keys(DASHBOARD_RUN_SETTINGS) as (keyof typeof DASHBOARD_RUN_SETTINGS)[])
+      .filter(key => runSettings[key] !== undefined && runSettings[key] !== DASHBOARD_RUN_SETTINGS[key])
+      .forEach(key => ctx.notImported(`run_settings.${key}`, `is always ${DASHBOARD_RUN_SETTINGS[key]} in the Dashboard`));
+    ({ models, enableWebSearch } = parseModels(ctx, runSettings.models));
+    budget = parseBudgetBlock(ctx, runSettings.budget);
+    if (models.length === 0 && Array.isArray(runSettings.models) && runSettings.models.length > 0) {
+      ctx.notImported('run_settings.models', 'has no model the Dashboard supports; the current selection is kept');
+    }
+  }
+
+  const brands = parseBrands(ctx, document.brands);
+  const intents = parseIntents(ctx, document.intents);
+  const globalOperations = parseOperations(ctx, document.global_operations, 'global_operations');
+  const extraction = parseExtraction(ctx, document.extraction_settings);
+
+  if (ctx.errors.length > 0) {
+    return { config: null, errors: ctx.errors, warnings: ctx.warnings };
+  }
+  return {
+    config: {
+      models,
+      enableWebSearch,
+      myBrands: brands.mine,
+      competitors: brands.competitors,
+      brandEntities: brands.entities,
+      intents,
+      globalOperations,
+      budget,
+      extraction,
+    },
+    errors: [],
+    warnings: ctx.warnings,
+  };
+}
+
+// `key`, `index` and `*` segments of an issue path such as `intents[1].operations[*].id`
+const PATH_SEGMENT = /([^.[\]]+)|\[(\d+|\*)\]/g;
+
+// A `key:` line, possibly inside list items; group 1 ends at the key's column
+const KEY_LINE = /^((?:\s*-\s+)*\s*)(["']?)([^\s"'#:][^"'#:]*?)\2\s*:(?:\s|$)/;
+
+const ITEM_LINE = /^\s*-(?:\s|$)/;
+
+/**
+ * 1-based line of an issue path in a block-style YAML document, falling back
+ * to the deepest ancestor that was found (flow collections are not followed).
+ * Null when not even the first key is in the text.
+ */
+export function yamlPathLine(text: string, path: string): number | null {
+  const lines = text.split(/\r?\n/);
+  const indent = (line: string) => line.length - line.trimStart().length;
+  const isContent = (line: string) => line.trim() !== '' && !line.trimStart().startsWith('#');
+
+  // End of the block that belongs to a node at `column`
+  const blockEnd = (from: number, column: number, sameColumnItems: boolean) => {
+    for (let i = from; i < lines.length; i++) {
+      if (!isContent(lines[i])) continue;
+      const lineIndent = indent(lines[i]);
+      if (lineIndent > column) continue;
+      if (sameColumnItems && lineIndent === column && ITEM_LINE.test(lines[i])) continue;
+      return i;
+    }
+    return lines.length;
+  };
+
+  let start = 0;
+  let end = lines.length;
+  let column = -1;
+  let found: number | null = null;
+  for (const [, key, index] of path.matchAll(PATH_SEGMENT)) {
+    if (index === '*') break;
+    let match = -1;
+    let matchColumn = -1;
+    if (key !== undefined) {
+      // Keys of this mapping all sit at the column of its first key
+      let mappingColumn: number | null = null;
+      for (let i = start; i < end && match < 0; i++) {
+        const keyLine = KEY_LINE.exec(lines[i]);
+        if (!keyLine || keyLine[1].length <= column) continue;
+        mappingColumn ??= keyLine[1].length;
+        if (keyLine[1].length === mappingColumn && keyLine[3] === key) match = i;
+      }
+      if (match < 0) break;
+      matchColumn = mappingColumn!;
+      start = match + 1;
+      end = blockEnd(start, matchColumn, true);
+    } else {
+      let itemColumn: number | null = null;
+      let count = 0;
+      for (let i = start; i < end && match < 0; i++) {
+        if (!isContent(lines[i]) || !ITEM_LINE.test(lines[i])) continue;
+        itemColumn ??= indent(lines[i]);
+        if (indent(lines[i]) === itemColumn && count++ === Number(index)) match = i;
+      }
+      if (match < 0) break;
+      matchColumn = itemColumn!;
+      // The item line itself holds the first key of a mapping item
+      start = match;
+      end = blockEnd(match + 1, matchColumn, false);
+    }
+    found = match;
+    column = matchColumn;
+  }
+  return found === null ? null : found + 1;
+}
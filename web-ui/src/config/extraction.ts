@@ -0,0 +1,101 @@
+import { DEFAULT_MODEL_SELECTIONS, getProvider, isProvider } from '../providers/registry';
+import type { ExtractionSettings, ModelSelection } from '../types';
+
+export type ExtractionMethod = ExtractionSettings['method'];
+
+/**
+ * Extraction panel state. `extraction_settings` is only written to the config
+ * when enabled; without it the backend falls back to regex mention detection.
+ */
+export interface ExtractionOptions {
+  enabled: boolean;
+  model: ModelSelection;
+  method: ExtractionMethod;
+  fallback_to_regex: boolean;
+  min_confidence: number;
+  enable_sentiment_analysis: boolean;
+  enable_intent_classification: boolean;
+}
+
+export const EXTRACTION_METHODS: { id: ExtractionMethod; name: string; description: string }[] = [
+  { id: 'function_calling', name: 'Function calling', description: 'The extraction model returns structured mentions. Most accurate, one extra call per answer.' },
+  { id: 'hybrid', name: 'Hybrid', description: 'Function calling, always backed up by regex when it fails.' },
+  { id: 'regex', name: 'Regex only', description: 'Match brand names in the text. Free, but misses paraphrases.' },
+];
+
+export const DEFAULT_EXTRACTION: ExtractionOptions = {
+  enabled: false,
+  model: DEFAULT_MODEL_SELECTIONS[0],
+  method: 'function_calling',
+  fallback_to_regex: true,
+  min_confidence: 0.7,
+  enable_sentiment_analysis: true,
+  enable_intent_classification: true,
+};
+
+// Extraction settings shared across Dashboard visits
+const EXTRACTION_STORAGE_KEY = 'default_extraction_settings';
+
+/**
+ * Confidence level kept by the backend for a threshold: extract_with_function_calling
+ * drops mentions rated below high (>= 0.8), medium (>= 0.5) or low.
+ */
+export const confidenceLevel = (minConfidence: number): 'high' | 'medium' | 'low' =>
+  minConfidence >= 0.8 ? 'high' : minConfidence >= 0.5 ? 'medium' : 'low';
+
+// Whether the run calls the extraction model at all (function calling or intent classification)
+export const usesExtractionModel = (options: ExtractionOptions) =>
+  options.enabled && (options.method !== 'regex' || options.enable_intent_classification);
+
+export function toExtractionSettings(options: ExtractionOptions): ExtractionSettings | undefined {
+  if (!options.enabled) return undefined;
+  const provider = getProvider(options.model.provider);
+  return {
+    // No system_prompt: the backend picks the provider's extraction prompt
+    extraction_model: {
+      provider: provider.id,
+      model_name: options.model.model_name,
+      env_api_key: provider.envApiKey,
+    },
+    method: options.method,
+    fallback_to_regex: options.method === 'hybrid' || options.fallback_to_regex,
+    min_confidence: options.min_confidence,
+    enable_sentiment_analysis: options.enable_sentiment_analysis,
+    enable_intent_classification: options.enable_intent_classification,
+  };
+}
+
+export function parseExtractionOptions(value: unknown): ExtractionOptions {
+  if (typeof value !== 'object' || value === null) return DEFAULT_EXTRACTION;
+  const obj = value as Partial<Record<keyof ExtractionOptions, unknown>>;
+  const model = obj.model as ModelSelection | undefined;
+  const knownModel = typeof model?.provider === 'string'
+    && isProvider(model.provider)
+    && getProvider(model.provider).models.some(m => m.id === model.model_name);
+  const flag = (key: keyof ExtractionOptions) =>
+    typeof obj[key] === 'boolean' ? obj[key] as boolean : DEFAULT_EXTRACTION[key] as boolean;
+
+  return {
+    enabled: flag('enabled'),
+    model: knownModel ? { provider: model.provider, model_name: model.model_name } : DEFAULT_EXTRACTION.model,
+    method: EXTRACTION_METHODS.some(m => m.id === obj.method) ? obj.method as ExtractionMethod : DEFAULT_EXTRACTION.method,
+    fallback_to_regex: flag('fallback_to_regex'),
+    min_confidence: typeof obj.min_confidence === 'number' && obj.min_confidence >= 0 && obj.min_confidence <= 1
+      ? obj.min_confidence
+      : DEFAULT_EXTRACTION.min_confidence,
+    enable_sentiment_analysis: flag('enable_sentiment_analysis'),
+    enable_intent_classification: flag('enable_intent_classification'),
+  };
+}
+
+export function loadExtractionOptions(): ExtractionOptions {
+  try {
+    return parseExtractionOptions(JSON.parse(localStorage.getItem(EXTRACTION_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_EXTRACTION;
+  }
+}
+
+export function saveExtractionOptions(options: ExtractionOptions) {
+  localStorage.setItem(EXTRACTION_STORAGE_KEY, JSON.stringify(options));
+}
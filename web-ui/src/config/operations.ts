@@ -0,0 +1,235 @@
+import type { Intent, Operation, OperationType } from '../types';
+
+export const OPERATION_TYPES: { id: OperationType; name: string; description: string }[] = [
+  { id: 'standard', name: 'Standard', description: 'Send the prompt and keep the reply as text or JSON.' },
+  { id: 'structured', name: 'Structured', description: 'Function calling with a built-in template or your own JSON schema.' },
+  { id: 'webhook', name: 'Webhook', description: 'Reserved for webhook delivery; the backend currently runs it like a standard prompt.' },
+];
+
+// Built-in schemas from llm_runner/operation_templates.py (FUNCTION_TEMPLATES)
+export const FUNCTION_TEMPLATES: { id: string; name: string }[] = [
+  { id: 'extract_features', name: 'Extract features' },
+  { id: 'analyze_brand_sentiment', name: 'Analyze brand sentiment' },
+  { id: 'generate_action_items', name: 'Generate action items' },
+  { id: 'extract_pricing', name: 'Extract pricing' },
+  { id: 'identify_gaps', name: 'Identify gaps' },
+  { id: 'classify_mentions', name: 'Classify mentions' },
+];
+
+// Variables render_template() substitutes in operation prompts and conditions
+export const TEMPLATE_VARIABLES: { token: string; description: string }[] = [
+  { token: '{intent:response}', description: 'The answer being analyzed' },
+  { token: '{intent:prompt}', description: 'The question that was asked' },
+  { token: '{brand:mine}', description: 'Your primary brand' },
+  { token: '{brand:competitors}', description: 'All tracked competitors' },
+  { token: '{competitors:mentioned}', description: 'Competitors found in the answer' },
+  { token: '{rank:mine}', description: 'Rank of your brand, or "not found"' },
+  { token: '{mentions:mine}', description: 'How your brand was mentioned' },
+  { token: '{model:name}', description: 'Model that answered' },
+];
+
+// Scope of global_operations; intent scopes are config intent ids, which are never empty
+export const GLOBAL_SCOPE = '';
+
+export const scopeLabel = (scope: string) => (scope === GLOBAL_SCOPE ? 'global' : `intent ${scope}`);
+
+const OPERATION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const OPERATION_REFERENCE_PATTERN = /\{operation:([^}]+)\}/g;
+
+export const emptyOperation = (): Operation => ({ id: '', prompt: '' });
+
+// How issues refer to an operation: its id, or its position in its list until it has one
+export const operationLabel = (operation: Operation, index: number) => operation.id.trim() || `#${index + 1}`;
+
+/**
+ * Operation as written to the config: trimmed, with empty optional fields and
+ * backend defaults left out (js-yaml cannot dump `undefined`).
+ */
+export function toConfigOperation(operation: Operation): Operation {
+  const type = operation.type ?? 'standard';
+  const dependsOn = (operation.depends_on ?? []).filter(Boolean);
+  const structured = type === 'structured';
+  return {
+    id: operation.id.trim(),
+    ...(operation.description?.trim() && { description: operation.description.trim() }),
+    prompt: operation.prompt.trim(),
+    ...(operation.model && { model: operation.model }),
+    ...(operation.enabled === false && { enabled: false }),
+    ...(dependsOn.length > 0 && { depends_on: dependsOn }),
+    ...(operation.condition?.trim() && { condition: operation.condition.trim() }),
+    ...(operation.output_format === 'json' && { output_format: 'json' as const }),
+    ...(type !== 'standard' && { type }),
+    ...(structured && operation.function_template && { function_template: operation.function_template }),
+    ...(structured && operation.function_schema && { function_schema: operation.function_schema }),
+  };
+}
+
+// Intents as the config writes them: complete ones only, with slugified ids
+export const configIntentId = (id: string) => id.trim().toLowerCase().replace(/\s+/g, '-');
+
+// One operation of the config, with the intent it belongs to (GLOBAL_SCOPE for global_operations)
+export interface ScopedOperation {
+  scope: string;
+  operation: Operation;
+  // Position in its intent's operations or in global_operations
+  index: number;
+}
+
+export function collectOperations(intents: Intent[], globalOperations: Operation[]): ScopedOperation[] {
+  return [
+    ...intents
+      .filter(intent => intent.id.trim() && intent.prompt.trim())
+      .flatMap(intent => (intent.operations ?? []).map((operation, index) => ({ scope: configIntentId(intent.id), operation, index }))),
+    ...globalOperations.map((operation, index) => ({ scope: GLOBAL_SCOPE, operation, index })),
+  ];
+}
+
+export interface OperationIssue {
+  // Errors are refused by the backend; warnings run but probably not as intended
+  level: 'error' | 'warning';
+  scope: string;
+  operationId: string;
+  message: string;
+}
+
+/**
+ * Ids on a dependency cycle, found by depth-first search from every operation,
+ * with one path per cycle for the message (e.g. `a -> b -> a`).
+ */
+function findCycles(dependencies: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    const onStack = stack.indexOf(id);
+    if (onStack !== -1) {
+      cycles.push([...stack.slice(onStack), id]);
+      return;
+    }
+    if (done.has(id) || !dependencies.has(id)) return;
+    stack.push(id);
+    for (const dep of dependencies.get(id) ?? []) visit(dep);
+    stack.pop();
+    done.add(id);
+  };
+
+  for (const id of dependencies.keys()) visit(id);
+  return cycles;
+}
+
+/**
+ * Client-side version of the checks in Operation and
+ * WatcherConfig.validate_operation_dependencies, plus warnings for dependencies
+ * that validate but never run (an operation only sees the operations of its own
+ * intent and the global ones).
+ */
+export function validateOperations(operations: ScopedOperation[], modelNames: string[]): OperationIssue[] {
+  const issues: OperationIssue[] = [];
+  const scopeById = new Map<string, string>();
+  const dependencies = new Map<string, string[]>();
+
+  operations.forEach(({ scope, operation, index }) => {
+    const id = operation.id.trim();
+    const label = operationLabel(operation, index);
+    const issue = (level: OperationIssue['level'], message: string) =>
+      issues.push({ level, scope, operationId: label, message });
+
+    if (!id) issue('error', 'needs an ID');
+    else if (!OPERATION_ID_PATTERN.test(id)) issue('error', 'ID may only contain letters, digits, - and _');
+    else if (scopeById.has(id)) issue('error', `ID is already used by another operation (${scopeLabel(scopeById.get(id))})`);
+    else scopeById.set(id, scope);
+
+    if (!operation.prompt.trim()) issue('error', 'needs a prompt');
+    if (operation.type === 'structured' && !operation.function_template && !operation.function_schema) {
+      issue('error', 'structured operations need a function template or schema');
+    }
+    if (operation.model && !modelNames.includes(operation.model)) {
+      issue('error', `runs on ${operation.model}, which is not selected for this run`);
+    }
+
+    const dependsOn = operation.depends_on ?? [];
+    for (const match of operation.prompt.matchAll(OPERATION_REFERENCE_PATTERN)) {
+      if (!dependsOn.includes(match[1])) {
+        issue('warning', `uses {operation:${match[1]}} without depending on it, so it may be empty`);
+      }
+    }
+    if (id) dependencies.set(id, dependsOn);
+  });
+
+  operations.forEach(({ scope, operation, index }) => {
+    const id = operationLabel(operation, index);
+    for (const dep of operation.depends_on ?? []) {
+      const depScope = scopeById.get(dep);
+      if (depScope === undefined) {
+        issues.push({ level: 'error', scope, operationId: id, message: `depends on unknown operation "${dep}"` });
+      } else if (depScope !== GLOBAL_SCOPE && depScope !== scope) {
+        issues.push({
+          level: 'warning',
+          scope,
+          operationId: id,
+          message: scope === GLOBAL_SCOPE
+            ? `depends on "${dep}" from ${scopeLabel(depScope)}, so it only runs for that intent`
+            : `depends on "${dep}" from ${scopeLabel(depScope)}, so it never runs`,
+        });
+      }
+    }
+  });
+
+  for (const cycle of findCycles(dependencies)) {
+    issues.push({
+      level: 'error',
+      scope: scopeById.get(cycle[0]) ?? GLOBAL_SCOPE,
+      operationId: cycle[0],
+      message: `is part of a dependency cycle: ${cycle.join(' -> ')}`,
+    });
+  }
+
+  return issues;
+}
+
+export interface OperationNode {
+  id: string;
+  scope: string;
+  // Longest dependency chain before this operation; 0 = runs first
+  level: number;
+  onCycle: boolean;
+}
+
+export interface OperationEdge {
+  from: string;
+  to: string;
+}
+
+// Layered layout for the dependency graph preview; unknown dependencies are left out
+export function operationGraph(operations: ScopedOperation[]): { nodes: OperationNode[]; edges: OperationEdge[] } {
+  const byId = new Map<string, ScopedOperation>();
+  for (const scoped of operations) {
+    const id = scoped.operation.id.trim();
+    if (id && !byId.has(id)) byId.set(id, scoped);
+  }
+
+  const edges: OperationEdge[] = [];
+  const dependencies = new Map<string, string[]>();
+  for (const [id, { operation }] of byId) {
+    const known = (operation.depends_on ?? []).filter(dep => byId.has(dep));
+    dependencies.set(id, known);
+    edges.push(...known.map(dep => ({ from: dep, to: id })));
+  }
+
+  const cycleIds = new Set(findCycles(dependencies).flat());
+  const levels = new Map<string, number>();
+  const levelOf = (id: string): number => {
+    if (cycleIds.has(id)) return 0;
+    const cached = levels.get(id);
+    if (cached !== undefined) return cached;
+    const level = Math.max(-1, ...(dependencies.get(id) ?? []).map(levelOf)) + 1;
+    levels.set(id, level);
+    return level;
+  };
+
+  return {
+    nodes: [...byId].map(([id, { scope }]) => ({ id, scope, level: levelOf(id), onCycle: cycleIds.has(id) })),
+    edges,
+  };
+}
@@ -0,0 +1,57 @@
+// The preset (and version) the Dashboard form was last loaded from or saved to
+export interface ActivePreset {
+  id: number;
+  name: string;
+  version: number;
+}
+
+export type DiffLineKind = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+}
+
+/**
+ * Line diff of two preset versions (longest common subsequence). Dashboard
+ * YAML is a few hundred lines at most, so the quadratic table is fine.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.replace(/\n$/, '').split('\n');
+  const b = after.replace(/\n$/, '').split('\n');
+
+  // lcs[i][j] = common lines of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      diff.push({ kind: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Removed lines come before the ones that replace them
+      diff.push({ kind: 'removed', text: a[i] });
+      i++;
+    } else {
+      diff.push({ kind: 'added', text: b[j] });
+      j++;
+    }
+  }
+  return diff;
+}
+
+export const countChanges = (diff: DiffLine[]) => ({
+  added: diff.filter(line => line.kind === 'added').length,
+  removed: diff.filter(line => line.kind === 'removed').length,
+});
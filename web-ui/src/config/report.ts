@@ -0,0 +1,61 @@
+import type { ReportBranding } from '../types';
+
+export const DEFAULT_REPORT_BRANDING: ReportBranding = {
+  companyName: '',
+  logoUrl: '',
+  primaryColor: '#F63049',
+  accentColor: '#10b981',
+};
+
+// Uploaded logos are stored inline in the settings document, so keep them small
+export const MAX_LOGO_BYTES = 256 * 1024;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const asColor = (value: unknown, fallback: string) =>
+  typeof value === 'string' && HEX_COLOR.test(value) ? value : fallback;
+
+export function parseReportBranding(value: unknown): ReportBranding {
+  if (typeof value !== 'object' || value === null) return DEFAULT_REPORT_BRANDING;
+  const obj = value as Record<string, unknown>;
+  return {
+    companyName: typeof obj.companyName === 'string' ? obj.companyName : '',
+    logoUrl: typeof obj.logoUrl === 'string' && /^(https?:|data:image\/)/.test(obj.logoUrl) ? obj.logoUrl : '',
+    primaryColor: asColor(obj.primaryColor, DEFAULT_REPORT_BRANDING.primaryColor),
+    accentColor: asColor(obj.accentColor, DEFAULT_REPORT_BRANDING.accentColor),
+  };
+}
+
+// Page of the branded report of a run (opened from the results export menu)
+export const reportPath = (runId: string) => `/report/${encodeURIComponent(runId)}`;
+
+/**
+ * A self-contained HTML document of the rendered report: the app's CSS is
+ * inlined so the file still looks right when opened offline or emailed.
+ */
+export function standaloneReportHtml(report: HTMLElement, title: string): string {
+  const css = Array.from(document.styleSheets)
+    .flatMap(sheet => {
+      try {
+        return Array.from(sheet.cssRules).map(rule => rule.cssText);
+      } catch {
+        // Cross-origin sheets (web fonts) can't be read; the report falls back to system fonts
+        return [];
+      }
+    })
+    .join('\n');
+  const escapedTitle = title.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapedTitle}</title>
+<style>${css}</style>
+</head>
+<body class="report-body">
+${report.outerHTML}
+</body>
+</html>
+`;
+}
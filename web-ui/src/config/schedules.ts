@@ -0,0 +1,49 @@
+export type SchedulePreset = 'daily' | 'weekly' | 'custom';
+
+export const SCHEDULE_PRESETS: { id: SchedulePreset; name: string }[] = [
+  { id: 'daily', name: 'Daily' },
+  { id: 'weekly', name: 'Weekly' },
+  { id: 'custom', name: 'Custom (cron)' },
+];
+
+// Cron day-of-week numbers: 0 = Sunday
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface ScheduleTiming {
+  preset: SchedulePreset;
+  // "HH:MM" in UTC, for daily and weekly
+  time: string;
+  weekday: number;
+  // Five-field cron expression, for custom
+  cron: string;
+}
+
+export const DEFAULT_TIMING: ScheduleTiming = { preset: 'daily', time: '09:00', weekday: 1, cron: '0 9 * * 1-5' };
+
+const CRON_FIELD_PATTERN = /^(\*|\d+(-\d+)?)(\/\d+)?(,(\*|\d+(-\d+)?)(\/\d+)?)*$/;
+
+/**
+ * Quick syntax check so the form can complain before saving; value ranges are
+ * checked by the backend (scheduler.parse_cron), which reports the exact field.
+ */
+export const isCronSyntax = (cron: string) => {
+  const fields = cron.trim().split(/\s+/);
+  return fields.length === 5 && fields.every(field => CRON_FIELD_PATTERN.test(field));
+};
+
+export function timingToCron(timing: ScheduleTiming): string {
+  if (timing.preset === 'custom') return timing.cron.trim();
+  const [hour, minute] = timing.time.split(':').map(Number);
+  return `${minute} ${hour} * * ${timing.preset === 'weekly' ? timing.weekday : '*'}`;
+}
+
+const pad = (value: string) => value.padStart(2, '0');
+
+// "Daily at 09:00 UTC" for the cron expressions the presets produce, the expression itself otherwise
+export function describeCron(cron: string): string {
+  const match = /^(\d{1,2}) (\d{1,2}) \* \* (\*|[0-7])$/.exec(cron.trim());
+  if (!match) return `${cron} (UTC)`;
+  const [, minute, hour, weekday] = match;
+  const time = `${pad(hour)}:${pad(minute)} UTC`;
+  return weekday === '*' ? `Daily at ${time}` : `Weekly on ${WEEKDAYS[Number(weekday) % 7]} at ${time}`;
+}
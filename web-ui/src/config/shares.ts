@@ -0,0 +1,10 @@
+// How long a new share link stays valid; null = until revoked
+export const SHARE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' },
+];
+
+// Public URL of a share link (served by the SharedResultsPage route)
+export const shareUrl = (token: string) => `${window.location.origin}/shared/${token}`;
@@ -0,0 +1,17 @@
+import type { Cell, Table } from './tables';
+
+// Fields with a delimiter, quote or line break are quoted, quotes doubled (RFC 4180)
+const csvField = (cell: Cell) => {
+  if (cell === null) return '';
+  const text = typeof cell === 'boolean' ? (cell ? 'TRUE' : 'FALSE') : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV of a table: header row, CRLF line endings. Starts with a
+ * UTF-8 byte order mark so Excel does not mangle non-ASCII brand names.
+ */
+export function toCsv(table: Table): string {
+  const lines = [table.columns, ...table.rows].map(row => row.map(csvField).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
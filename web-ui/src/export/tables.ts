@@ -0,0 +1,155 @@
+import { answerCostUsd } from '../analytics/report';
+import { computeBrandMetrics, modelLabel } from '../analytics/metrics';
+import type { Answer, RunResults } from '../types';
+
+export type Cell = string | number | boolean | null;
+
+// One sheet of the XLSX export; the CSV export is a single table
+export interface Table {
+  name: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+const operationsCostUsd = (answer: Answer) =>
+  answer.operations.reduce((sum, op) => sum + (op.cost_usd ?? 0), 0);
+
+const tokens = (answer: Answer) => [
+  answer.usage.prompt_tokens ?? null,
+  answer.usage.completion_tokens ?? null,
+  answer.usage.total_tokens ?? null,
+];
+
+function answersTable(results: RunResults): Table {
+  return {
+    name: 'Answers',
+    columns: ['Intent ID', 'Prompt', 'Model', 'Answer', 'Mentions', 'My Mentions', 'Cost USD', 'Prompt Tokens', 'Completion Tokens', 'Total Tokens'],
+    rows: results.intents_data.flatMap(intent => intent.answers.map(answer => [
+      intent.intent_id,
+      intent.prompt,
+      modelLabel(answer.model),
+      answer.answer,
+      answer.mentions.length,
+      answer.mentions.filter(mention => mention.is_mine).length,
+      answerCostUsd(answer),
+      ...tokens(answer),
+    ])),
+  };
+}
+
+function mentionsTable(results: RunResults): Table {
+  return {
+    name: 'Mentions',
+    columns: ['Intent ID', 'Prompt', 'Model', 'Brand', 'Matched Text', 'Is Mine', 'Rank', 'Sentiment', 'Context'],
+    rows: results.intents_data.flatMap(intent => intent.answers.flatMap(answer => answer.mentions.map(mention => [
+      intent.intent_id,
+      intent.prompt,
+      modelLabel(answer.model),
+      mention.normalized_name,
+      mention.brand,
+      mention.is_mine,
+      mention.rank,
+      mention.sentiment,
+      mention.context,
+    ]))),
+  };
+}
+
+function intentSummaryTable(results: RunResults): Table {
+  return {
+    name: 'Intent Summary',
+    columns: ['Intent ID', 'Prompt', 'Answers', 'Mentions', 'My Mentions', 'Share of Voice %', 'Average Rank', '#1 Rate %', 'Net Sentiment', 'Top Competitor', 'Cost USD'],
+    rows: results.intents_data.map(intent => {
+      const metrics = computeBrandMetrics(intent.answers);
+      const competitors = new Map<string, number>();
+      intent.answers.forEach(answer => answer.mentions
+        .filter(mention => !mention.is_mine)
+        .forEach(mention => competitors.set(mention.normalized_name, (competitors.get(mention.normalized_name) ?? 0) + 1)));
+      const topCompetitor = [...competitors.entries()].sort((a, b) => b[1] - a[1])[0];
+      return [
+        intent.intent_id,
+        intent.prompt,
+        intent.answers.length,
+        metrics.totalMentions,
+        metrics.myMentions,
+        metrics.shareOfVoice,
+        metrics.averageRank,
+        metrics.rank1Rate,
+        metrics.netSentiment,
+        topCompetitor?.[0] ?? null,
+        intent.answers.reduce((sum, answer) => sum + answerCostUsd(answer), 0),
+      ];
+    }),
+  };
+}
+
+function costTable(results: RunResults): Table {
+  const models = new Map<string, Answer[]>();
+  results.intents_data.forEach(intent => intent.answers.forEach(answer => {
+    const model = modelLabel(answer.model);
+    models.set(model, [...(models.get(model) ?? []), answer]);
+  }));
+
+  const costRow = (label: string, answers: Answer[]): Cell[] => {
+    const sum = (value: (answer: Answer) => number) => answers.reduce((total, answer) => total + value(answer), 0);
+    return [
+      label,
+      answers.length,
+      sum(answer => answer.usage.prompt_tokens ?? 0),
+      sum(answer => answer.usage.completion_tokens ?? 0),
+      sum(answer => answer.usage.total_tokens ?? 0),
+      sum(answer => answer.cost_usd ?? 0),
+      sum(operationsCostUsd),
+      sum(answerCostUsd),
+    ];
+  };
+
+  return {
+    name: 'Cost & Tokens',
+    columns: ['Model', 'Answers', 'Prompt Tokens', 'Completion Tokens', 'Total Tokens', 'Answer Cost USD', 'Operations Cost USD', 'Total Cost USD'],
+    rows: [
+      ...[...models.entries()].map(([model, answers]) => costRow(model, answers)),
+      costRow('Total', results.intents_data.flatMap(intent => intent.answers)),
+    ],
+  };
+}
+
+// Sheets of the XLSX export, in workbook order
+export const resultSheets = (results: RunResults): Table[] => [
+  answersTable(results),
+  mentionsTable(results),
+  intentSummaryTable(results),
+  costTable(results),
+];
+
+/**
+ * The CSV export: one row per brand mention (one empty-brand row for answers
+ * without mentions), with the answer's cost and tokens on its first row only
+ * so that summing a column never counts an answer twice.
+ */
+export function resultRows(results: RunResults): Table {
+  const rows: Cell[][] = [];
+  results.intents_data.forEach(intent => intent.answers.forEach(answer => {
+    const answerCells = [intent.intent_id, intent.prompt, modelLabel(answer.model), answer.answer];
+    const usageCells = [answerCostUsd(answer), ...tokens(answer)];
+    if (answer.mentions.length === 0) {
+      rows.push([...answerCells, null, null, null, null, null, ...usageCells]);
+      return;
+    }
+    answer.mentions.forEach((mention, index) => rows.push([
+      ...answerCells,
+      mention.normalized_name,
+      mention.is_mine,
+      mention.rank,
+      mention.sentiment,
+      mention.context,
+      ...(index === 0 ? usageCells : usageCells.map(() => null)),
+    ]));
+  }));
+
+  return {
+    name: 'Results',
+    columns: ['Intent ID', 'Prompt', 'Model', 'Answer', 'Brand', 'Is Mine', 'Rank', 'Sentiment', 'Context', 'Cost USD', 'Prompt Tokens', 'Completion Tokens', 'Total Tokens'],
+    rows,
+  };
+}
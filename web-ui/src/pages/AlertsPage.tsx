@@ -0,0 +1,338 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  Bell,
+  CheckCheck,
+  ChevronRight,
+  Pause,
+  Play,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+
+import { useAuth } from '../auth/AuthContext';
+import { alertApi, isAbortError, userApi } from '../api/client';
+import { ALERT_RULE_TYPES, alertRuleType, describeAlertRule } from '../config/alerts';
+import { configIntentId } from '../config/operations';
+import { useToast } from '../context/ToastContext';
+import type { AlertRule, AlertRuleType, InboxNotification, UserBrand, UserIntent } from '../types';
+
+interface RuleForm {
+  name: string;
+  rule_type: AlertRuleType;
+  intent_id: string;
+  competitor: string;
+  threshold: string;
+}
+
+const emptyForm = (): RuleForm => ({ name: '', rule_type: 'rank_drop', intent_id: '', competitor: '', threshold: '3' });
+
+export default function AlertsPage({ theme }: { theme: string }) {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [savedIntents, setSavedIntents] = useState<UserIntent[]>([]);
+  const [savedBrands, setSavedBrands] = useState<UserBrand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    Promise.all([alertApi.listRules(controller.signal), alertApi.listNotifications(controller.signal)])
+      .then(([ruleData, inbox]) => {
+        setRules(ruleData);
+        setNotifications(inbox.notifications);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setError('Failed to load alerts. Make sure the backend is running.');
+        setLoading(false);
+      });
+
+    // Suggestions for the intent and competitor fields
+    userApi.listIntents(controller.signal)
+      .then(setSavedIntents)
+      .catch(err => { if (!isAbortError(err)) console.error('Failed to load intents', err); });
+    userApi.listBrands(controller.signal)
+      .then(setSavedBrands)
+      .catch(err => { if (!isAbortError(err)) console.error('Failed to load brands', err); });
+
+    return () => controller.abort();
+  }, [token]);
+
+  const selectedType = alertRuleType(form.rule_type);
+  const threshold = Number(form.threshold);
+  const thresholdValid = !selectedType?.threshold || (form.threshold.trim() !== '' && Number.isFinite(threshold)
+    && threshold >= selectedType.threshold.min && threshold <= (selectedType.threshold.max ?? Infinity));
+  const canSave = form.name.trim() !== '' && thresholdValid && !isSaving;
+
+  const changeType = (rule_type: AlertRuleType) => {
+    const type = alertRuleType(rule_type);
+    setForm(prev => ({ ...prev, rule_type, threshold: type?.threshold ? String(type.threshold.defaultValue) : '' }));
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const rule = await alertApi.createRule({
+        name: form.name.trim(),
+        rule_type: form.rule_type,
+        ...(form.intent_id.trim() && { intent_id: configIntentId(form.intent_id) }),
+        ...(form.rule_type === 'competitor_overtakes' && form.competitor.trim() && { competitor: form.competitor.trim() }),
+        ...(selectedType?.threshold && { threshold }),
+      });
+      setRules(prev => [...prev, rule]);
+      setForm(emptyForm());
+      showToast(`Alert "${rule.name}" created`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to create alert', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      const updated = await alertApi.setRuleEnabled(rule.id, !rule.enabled);
+      setRules(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update alert', 'error');
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete the alert "${rule.name}"? Notifications it sent stay in the inbox.`)) return;
+    try {
+      await alertApi.deleteRule(rule.id);
+      setRules(prev => prev.filter(r => r.id !== rule.id));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete alert', 'error');
+    }
+  };
+
+  const openNotification = (notification: InboxNotification) => {
+    if (!notification.read) {
+      setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+      alertApi.markRead(notification.id).catch(err => console.error('Failed to mark notification as read', err));
+    }
+    if (notification.run_id) navigate(`/app?runId=${notification.run_id}&tab=results`);
+  };
+
+  const markAllRead = async () => {
+    try {
+      await alertApi.markAllRead();
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to mark notifications as read', 'error');
+    }
+  };
+
+  const glassCardClass = theme === 'dark'
+    ? 'bg-navy-900/50 border-navy-700/50 backdrop-blur-xl'
+    : 'bg-white/80 border-gray-200/80 backdrop-blur-xl';
+  const mutedClass = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+  const fieldClass = `w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`;
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'bg-navy-950 text-white' : 'bg-slate-50 text-black'} p-6 md:p-12`}>
+      <div className="max-w-6xl mx-auto">
+
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <button
+            onClick={() => navigate('/app')}
+            className={`p-2 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-800 text-navy-300' : 'hover:bg-gray-200 text-gray-600'}`}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <Bell className="w-8 h-8 text-primary-500" />
+              Alerts
+            </h1>
+            <p className={`mt-1 ${mutedClass}`}>
+              Rules are checked whenever a run completes, including scheduled runs
+            </p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Rules */}
+            <section className={`rounded-2xl border p-6 ${glassCardClass}`}>
+              <h2 className="text-lg font-semibold mb-4">Alert rules</h2>
+
+              <div className={`p-4 rounded-xl border space-y-3 mb-6 ${theme === 'dark' ? 'border-navy-700/50 bg-navy-900/40' : 'border-gray-200 bg-gray-50/60'}`}>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Name (e.g., Top 3 on pricing)"
+                  className={fieldClass}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className={labelClass}>When</span>
+                    <select
+                      value={form.rule_type}
+                      onChange={(e) => changeType(e.target.value as AlertRuleType)}
+                      className={fieldClass}
+                    >
+                      {ALERT_RULE_TYPES.map(type => <option key={type.id} value={type.id}>{type.name}</option>)}
+                    </select>
+                  </label>
+                  {selectedType?.threshold && (
+                    <label className="block">
+                      <span className={labelClass}>{selectedType.threshold.label}</span>
+                      <input
+                        type="number"
+                        value={form.threshold}
+                        min={selectedType.threshold.min}
+                        max={selectedType.threshold.max}
+                        step={selectedType.threshold.step}
+                        onChange={(e) => setForm(prev => ({ ...prev, threshold: e.target.value }))}
+                        className={fieldClass}
+                      />
+                    </label>
+                  )}
+                  <label className="block">
+                    <span className={labelClass}>Intent (empty = all)</span>
+                    <input
+                      type="text"
+                      list="alert-intents"
+                      value={form.intent_id}
+                      onChange={(e) => setForm(prev => ({ ...prev, intent_id: e.target.value }))}
+                      placeholder="e.g., best-crm-tools"
+                      className={`${fieldClass} font-mono`}
+                    />
+                    <datalist id="alert-intents">
+                      {savedIntents.map(intent => <option key={intent.id} value={configIntentId(intent.intent_alias)} />)}
+                    </datalist>
+                  </label>
+                  {form.rule_type === 'competitor_overtakes' && (
+                    <label className="block">
+                      <span className={labelClass}>Competitor (empty = any)</span>
+                      <input
+                        type="text"
+                        list="alert-competitors"
+                        value={form.competitor}
+                        onChange={(e) => setForm(prev => ({ ...prev, competitor: e.target.value }))}
+                        placeholder="e.g., HubSpot"
+                        className={fieldClass}
+                      />
+                      <datalist id="alert-competitors">
+                        {savedBrands.filter(brand => !brand.is_mine).map(brand => <option key={brand.id} value={brand.brand_name} />)}
+                      </datalist>
+                    </label>
+                  )}
+                </div>
+                <p className={`text-xs ${mutedClass}`}>
+                  {selectedType?.description} Notifies once when this starts happening, not on every run while it lasts.
+                </p>
+                <button
+                  onClick={handleCreate}
+                  disabled={!canSave}
+                  className="btn-primary text-sm flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Plus className="w-4 h-4" /> Add rule
+                </button>
+              </div>
+
+              {rules.length === 0 ? (
+                <p className={`text-sm italic text-center py-6 ${mutedClass}`}>No alert rules yet</p>
+              ) : (
+                <ul className={`divide-y ${theme === 'dark' ? 'divide-navy-700/50' : 'divide-gray-200/50'}`}>
+                  {rules.map(rule => (
+                    <li key={rule.id} className={`flex items-center gap-3 py-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{rule.name}</p>
+                        <p className={`text-xs truncate ${mutedClass}`}>{describeAlertRule(rule)}</p>
+                      </div>
+                      <button
+                        onClick={() => toggleRule(rule)}
+                        className="btn-secondary p-2"
+                        title={rule.enabled ? 'Pause' : 'Resume'}
+                      >
+                        {rule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      </button>
+                      <button onClick={() => deleteRule(rule)} className="btn-danger p-2" title="Delete rule">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* Inbox */}
+            <section className={`rounded-2xl border p-6 ${glassCardClass}`}>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">
+                  Inbox {unreadCount > 0 && <span className="ml-1 px-2 py-0.5 rounded-full bg-rose-500 text-white text-xs align-middle">{unreadCount}</span>}
+                </h2>
+                {unreadCount > 0 && (
+                  <button
+                    onClick={markAllRead}
+                    className={`flex items-center gap-1 text-sm ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}
+                  >
+                    <CheckCheck className="w-4 h-4" /> Mark all read
+                  </button>
+                )}
+              </div>
+
+              {notifications.length === 0 ? (
+                <p className={`text-sm italic text-center py-6 ${mutedClass}`}>No alerts have fired yet</p>
+              ) : (
+                <ul className="space-y-2">
+                  {notifications.map(notification => (
+                    <li key={notification.id}>
+                      <button
+                        onClick={() => openNotification(notification)}
+                        className={`w-full text-left p-3 rounded-lg border transition-colors ${notification.read
+                          ? theme === 'dark' ? 'border-navy-700/50 hover:bg-navy-800/50' : 'border-gray-200 hover:bg-gray-50'
+                          : 'border-primary-500/40 bg-primary-500/5 hover:bg-primary-500/10'
+                        }`}
+                      >
+                        <div className="flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className={`text-sm ${notification.read ? '' : 'font-semibold'}`}>{notification.title}</p>
+                            <p className={`text-xs mt-0.5 ${mutedClass}`}>{notification.message}</p>
+                            <p className={`text-[11px] mt-1 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>
+                              {new Date(notification.created_at).toLocaleString()}
+                            </p>
+                          </div>
+                          {notification.run_id && <ChevronRight className={`w-4 h-4 shrink-0 ${mutedClass}`} />}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  ArrowRight,
+  ChevronDown,
+  ChevronRight,
+  GitCompare,
+} from 'lucide-react';
+
+import { useAuth } from '../auth/AuthContext';
+import { ApiError, isAbortError, watcherApi } from '../api/client';
+import { ResponseValidationError } from '../api/validation';
+import { compareRuns, diffWords, hasBrandChanges } from '../analytics/compare';
+import type { BrandChange, ModelComparison } from '../analytics/compare';
+import type { MentionSentiment, RunResults } from '../types';
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const SENTIMENT_ORDER: Record<MentionSentiment, number> = { negative: -1, neutral: 0, positive: 1 };
+
+function RankChange({ change, theme }: { change: BrandChange; theme: string }) {
+  const format = (rank: number | null) => (rank === null ? 'unranked' : `#${rank}`);
+  const muted = theme === 'dark' ? 'text-navy-400' : 'text-gray-400';
+
+  if (change.kind === 'added') return <span>{format(change.targetRank)}</span>;
+  if (change.kind === 'removed') return <span className={muted}>{format(change.baseRank)}</span>;
+  if (change.baseRank === change.targetRank) return <span className={muted}>{format(change.targetRank)}</span>;
+
+  // Any rank beats no rank, a lower number beats a higher one
+  const improved = change.baseRank === null || (change.targetRank !== null && change.targetRank < change.baseRank);
+  return (
+    <span className={`font-medium ${improved ? 'text-emerald-400' : 'text-rose-400'}`}>
+      {format(change.baseRank)} → {format(change.targetRank)}
+    </span>
+  );
+}
+
+function SentimentChange({ change, theme }: { change: BrandChange; theme: string }) {
+  const muted = theme === 'dark' ? 'text-navy-400' : 'text-gray-400';
+  const before = change.baseSentiment;
+  const after = change.targetSentiment;
+
+  if (change.kind !== 'kept' || before === after) {
+    return <span className={muted}>{(change.kind === 'removed' ? before : after) ?? '-'}</span>;
+  }
+  if (before === null || after === null) {
+    return <span>{before ?? '-'} → {after ?? '-'}</span>;
+  }
+  const improved = SENTIMENT_ORDER[after] > SENTIMENT_ORDER[before];
+  return (
+    <span className={`font-medium ${improved ? 'text-emerald-400' : 'text-rose-400'}`}>
+      {before} → {after}
+    </span>
+  );
+}
+
+function AnswerDiff({ before, after, theme }: { before: string; after: string; theme: string }) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <div className={`text-sm leading-relaxed whitespace-pre-wrap p-4 rounded-xl border ${theme === 'dark' ? 'bg-navy-950/50 border-navy-700/50 text-navy-200' : 'bg-gray-50 border-gray-200 text-gray-700'}`}>
+      {segments.map((segment, index) => {
+        if (segment.kind === 'added') {
+          return <ins key={index} className="no-underline bg-emerald-500/20 text-emerald-500">{segment.text}</ins>;
+        }
+        if (segment.kind === 'removed') {
+          return <del key={index} className="bg-rose-500/20 text-rose-400">{segment.text}</del>;
+        }
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </div>
+  );
+}
+
+function ModelComparisonCard({ comparison, theme }: { comparison: ModelComparison; theme: string }) {
+  const [showDiff, setShowDiff] = useState(false);
+  const { baseAnswer, targetAnswer, brands } = comparison;
+  const muted = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+
+  const kindBadge = (change: BrandChange) => {
+    if (change.kind === 'added') {
+      return <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${theme === 'dark' ? 'bg-emerald-500/10 text-emerald-300' : 'bg-emerald-50 text-emerald-700'}`}>Appeared</span>;
+    }
+    if (change.kind === 'removed') {
+      return <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${theme === 'dark' ? 'bg-rose-500/10 text-rose-300' : 'bg-rose-50 text-rose-700'}`}>Disappeared</span>;
+    }
+    return null;
+  };
+
+  return (
+    <div className={`rounded-xl border p-4 ${theme === 'dark' ? 'border-navy-700/50 bg-navy-900/30' : 'border-gray-200 bg-white'}`}>
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <span className="font-mono text-sm font-semibold">{comparison.model}</span>
+        {!baseAnswer && <span className={`text-xs ${muted}`}>No answer in the earlier run</span>}
+        {!targetAnswer && <span className={`text-xs ${muted}`}>No answer in the later run</span>}
+      </div>
+
+      {brands.length === 0 ? (
+        <p className={`text-sm italic ${muted}`}>No brands mentioned in either run</p>
+      ) : (
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className={`text-xs uppercase tracking-wider ${muted}`}>
+              <th className="py-1 font-semibold">Brand</th>
+              <th className="py-1 font-semibold">Rank</th>
+              <th className="py-1 font-semibold">Sentiment</th>
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${theme === 'dark' ? 'divide-navy-700/50' : 'divide-gray-100'}`}>
+            {brands.map(change => (
+              <tr key={change.brand}>
+                <td className="py-1.5">
+                  <span className={`mr-2 ${change.is_mine ? 'font-bold text-primary-400' : ''} ${change.kind === 'removed' ? 'line-through opacity-70' : ''}`}>
+                    {change.brand}
+                  </span>
+                  {kindBadge(change)}
+                </td>
+                <td className="py-1.5"><RankChange change={change} theme={theme} /></td>
+                <td className="py-1.5"><SentimentChange change={change} theme={theme} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {baseAnswer && targetAnswer && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowDiff(!showDiff)}
+            className={`flex items-center gap-1 text-sm font-medium transition-colors ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}
+          >
+            {showDiff ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            {baseAnswer.answer === targetAnswer.answer ? 'Answer unchanged' : 'Show answer diff'}
+          </button>
+          {showDiff && (
+            <div className="mt-2">
+              <AnswerDiff before={baseAnswer.answer} after={targetAnswer.answer} theme={theme} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ComparePage({ theme }: { theme: string }) {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const [searchParams] = useSearchParams();
+  const baseId = searchParams.get('base');
+  const targetId = searchParams.get('target');
+  const [changesOnly, setChangesOnly] = useState(true);
+  // Keyed by the requested pair so a stale comparison is never shown for new params
+  const requestKey = `${baseId}|${targetId}`;
+  const [loaded, setLoaded] = useState<{ key: string; runs?: [RunResults, RunResults]; error?: string } | null>(null);
+
+  useEffect(() => {
+    if (!token || !baseId || !targetId) return;
+
+    const controller = new AbortController();
+    Promise.all([
+      watcherApi.getResults(baseId, controller.signal),
+      watcherApi.getResults(targetId, controller.signal),
+    ])
+      .then(data => setLoaded({ key: `${baseId}|${targetId}`, runs: data }))
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        let message = 'Failed to load runs. Make sure the backend is running.';
+        if (err instanceof ResponseValidationError) {
+          message = err.message;
+        } else if (err instanceof ApiError && err.status === 404) {
+          message = 'One of the runs could not be found.';
+        }
+        setLoaded({ key: `${baseId}|${targetId}`, error: message });
+      });
+
+    return () => controller.abort();
+  }, [token, baseId, targetId]);
+
+  const missingParams = !baseId || !targetId;
+  const loading = !missingParams && loaded?.key !== requestKey;
+  const runs = !loading && !missingParams ? loaded?.runs ?? null : null;
+  const error = missingParams
+    ? 'Select two runs in Run History to compare them.'
+    : loaded?.error ?? '';
+
+  const intents = useMemo(() => {
+    if (!runs) return [];
+    return compareRuns(runs[0], runs[1])
+      .map(intent => ({
+        ...intent,
+        models: changesOnly
+          ? intent.models.filter(model =>
+            hasBrandChanges(model) || model.baseAnswer?.answer !== model.targetAnswer?.answer)
+          : intent.models,
+      }))
+      .filter(intent => intent.models.length > 0);
+  }, [runs, changesOnly]);
+
+  const glassCardClass = theme === 'dark'
+    ? 'bg-navy-900/50 border-navy-700/50 backdrop-blur-xl'
+    : 'bg-white/80 border-gray-200/80 backdrop-blur-xl';
+
+  const runCard = (label: string, run: RunResults) => (
+    <div className={`flex-1 p-4 rounded-2xl border ${glassCardClass}`}>
+      <div className={`text-xs uppercase tracking-wider font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{label}</div>
+      <div className="font-bold mt-1">{formatDate(run.run_summary.timestamp_utc)}</div>
+      <button
+        onClick={() => navigate(`/app?runId=${run.run_summary.run_id}&tab=results`)}
+        className={`mt-1 text-xs font-mono transition-colors ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}
+      >
+        {run.run_summary.run_id.substring(0, 8)}...
+      </button>
+    </div>
+  );
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'bg-navy-950 text-white' : 'bg-slate-50 text-black'} p-6 md:p-12`}>
+      <div className="max-w-6xl mx-auto">
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 gap-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate('/history')}
+              className={`p-2 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-800 text-navy-300' : 'hover:bg-gray-200 text-gray-600'}`}
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <GitCompare className="w-8 h-8 text-primary-500" />
+                Compare Runs
+              </h1>
+              <p className={`mt-1 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                What changed between two analysis runs
+              </p>
+            </div>
+          </div>
+
+          {runs && (
+            <label className={`flex items-center gap-2 text-sm cursor-pointer ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>
+              <input
+                type="checkbox"
+                checked={changesOnly}
+                onChange={e => setChangesOnly(e.target.checked)}
+                className="rounded accent-primary-500"
+              />
+              Only show changes
+            </label>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+          </div>
+        ) : error || !runs ? (
+          <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-col md:flex-row items-stretch md:items-center gap-4">
+              {runCard('Before', runs[0])}
+              <ArrowRight className={`w-6 h-6 shrink-0 self-center ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`} />
+              {runCard('After', runs[1])}
+            </div>
+
+            {intents.length === 0 ? (
+              <div className={`text-center py-20 rounded-2xl border border-dashed ${theme === 'dark' ? 'border-navy-700 bg-navy-900/30' : 'border-gray-300 bg-gray-50'}`}>
+                <GitCompare className={`w-12 h-12 mx-auto mb-4 ${theme === 'dark' ? 'text-navy-600' : 'text-gray-400'}`} />
+                <h3 className="text-xl font-medium mb-2">No differences</h3>
+                <p className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                  Both runs returned the same answers and brand mentions.
+                </p>
+              </div>
+            ) : (
+              intents.map(intent => (
+                <div key={intent.intent_id} className={`rounded-2xl border p-6 ${glassCardClass}`}>
+                  <h2 className="text-lg font-bold">{intent.intent_id}</h2>
+                  <p className={`text-sm mb-4 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{intent.prompt}</p>
+                  <div className="space-y-4">
+                    {intent.models.map(model => (
+                      <ModelComparisonCard key={model.model} comparison={model} theme={theme} />
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import {
   Search,
   Settings,
+  Wallet,
+  ScanSearch,
   Sparkles,
   Target,
   Users,
@@ -38,18 +40,67 @@ import {
   Trash2,
   Menu,
   TrendingUp,
+  Ban,
+  LayoutGrid,
+  List,
+  Workflow,
+  CalendarClock,
+  Bell,
+  Share2,
+  Printer,
+  Sheet,
+  FileUp,
+  Bookmark,
 } from 'lucide-react';
-import type { WatcherConfig, Intent, BrandMention, Provider, ModelConfig, UserBrand, UserIntent } from '../types.ts';
-import { GEMINI_MODELS, GROQ_MODELS } from '../types.ts';
+import type { WatcherConfig, Intent, Operation, BudgetConfig, BudgetExceeded, Provider, ModelSelection, RunCompletionSummary, RunProgress, RunResults, StoredAPIKey, UserBrand, UserIntent, UserSettings, BrandEntity } from '../types.ts';
 import yaml from 'js-yaml';
 import { useAuth } from '../auth/AuthContext';
 import { useToast } from '../context/ToastContext';
 import { Skeleton } from '../components/ui/Skeleton';
-import { StatsBar } from '../components/ui/StatsBar';
 import { TagInput } from '../components/ui/TagInput';
 import { CollapsibleSection } from '../components/ui/CollapsibleSection';
 import { ConfirmationModal } from '../components/ui/ConfirmationModal';
 import { PromptOptimizer } from '../components/PromptOptimizer';
+import { RunProgressPanel } from '../components/RunProgressPanel';
+import { FailedQueriesPanel } from '../components/FailedQueriesPanel';
+import { IntentBrandHeatmap } from '../components/IntentBrandHeatmap';
+import { ModelPicker } from '../components/ModelPicker';
+import { BudgetEditor } from '../components/BudgetEditor';
+import { BrandEntitiesPanel } from '../components/BrandEntityEditor';
+import { ExtractionSettingsEditor } from '../components/ExtractionSettingsEditor';
+import { OperationsEditor } from '../components/OperationsEditor';
+import { OperationGraph } from '../components/OperationGraph';
+import { BrandRecommendation, IntentAnswers, StatsComparison, TokenUsageStats } from '../components/RunResultsView';
+import { ScheduleRunModal } from '../components/ScheduleRunModal';
+import { ShareRunModal } from '../components/ShareRunModal';
+import { ConfigImportModal } from '../components/ConfigImportModal';
+import { YamlEditor } from '../components/YamlEditor';
+import { ConfigPresetsModal } from '../components/ConfigPresetsModal';
+import { NotificationCenter } from '../components/NotificationCenter';
+import { DEFAULT_CONFIRM_ABOVE_USD, ESTIMATED_OUTPUT_TOKENS_PER_ANSWER, estimateRun, formatUsd } from '../analytics/estimate';
+import { runBrands } from '../analytics/metrics';
+import {
+  emptyApiKeys,
+  getModelName,
+  loadModelSelections,
+  saveModelSelections,
+  selectedProviders,
+  supportsWebSearch,
+  toModelConfig,
+} from '../providers/registry';
+import { DEFAULT_BUDGET, loadBudget, saveBudget, toBudgetConfig } from '../config/budget';
+import { isEmptyEntity, toBrandEntity, toConfigEntities } from '../config/brands';
+import { EXTRACTION_METHODS, loadExtractionOptions, saveExtractionOptions, toExtractionSettings, usesExtractionModel } from '../config/extraction';
+import type { ExtractionOptions } from '../config/extraction';
+import { GLOBAL_SCOPE, collectOperations, configIntentId, scopeLabel, toConfigOperation, validateOperations } from '../config/operations';
+import { reportPath } from '../config/report';
+import { DASHBOARD_RUN_SETTINGS, importWatcherConfig, type ConfigIssue, type ImportedConfig } from '../config/configImport';
+import type { ActivePreset } from '../config/presets';
+import { toCsv } from '../export/csv';
+import { resultRows, resultSheets } from '../export/tables';
+import { toXlsx } from '../export/xlsx';
+import { ApiError, authApi, isAbortError, userApi, watcherApi } from '../api/client';
+import { ResponseValidationError } from '../api/validation';
 
 const INTENT_TEMPLATES = [
   { id: 'pricing-compare', label: 'Pricing Comparison', prompt: 'Compare the pricing models of [MyBrand] vs [Competitor]. Which offers better value for small businesses?' },
@@ -59,457 +110,16 @@ const INTENT_TEMPLATES = [
   { id: 'security-review', label: 'Security Review', prompt: 'How does [MyBrand] compare to [Competitor] in terms of security and compliance certifications?' },
 ];
 
-const BrandRecommendation = ({ results, theme }: { results: any, theme: string }) => {
-  if (!results || !results.intents_data) return null;
-
-  let totalMentions = 0;
-  let myMentions = 0;
-  let myRanks: number[] = [];
-
-  results.intents_data.forEach((intent: any) => {
-    intent.answers.forEach((answer: any) => {
-      totalMentions += answer.mentions.length;
-      answer.mentions.forEach((mention: any) => {
-        if (mention.is_mine) {
-          myMentions++;
-          if (mention.rank) myRanks.push(mention.rank);
-        }
-      });
-    });
-  });
-
-  const sov = totalMentions > 0 ? (myMentions / totalMentions) * 100 : 0;
-  const avgRank = myRanks.length > 0 ? myRanks.reduce((a, b) => a + b, 0) / myRanks.length : 0;
-
-  let title = "";
-  let message = "";
-  let colorClass = "";
-  let icon = null;
-
-  if (myMentions === 0) {
-    title = "Invisible to AI";
-    message = "Your brand was not mentioned in any responses. You are effectively invisible to these models for these queries. Immediate action required: Update your website content to explicitly answer these questions, and consider PR or social proof to increase brand corpus frequency.";
-    colorClass = theme === 'dark' ? "text-red-400 bg-red-500/10 border-red-500/20" : "text-red-700 bg-red-50 border-red-200";
-    icon = <AlertCircle className="w-6 h-6" />;
-  } else if (sov < 20) {
-    title = "Low Visibility";
-    message = `You have only ${sov.toFixed(1)}% Share of Voice. Competitors are dominating the conversation. Focus on differentiating your value proposition and getting mentioned in comparison articles and reviews that LLMs cite.`;
-    colorClass = theme === 'dark' ? "text-orange-400 bg-orange-500/10 border-orange-500/20" : "text-orange-700 bg-orange-50 border-orange-200";
-    icon = <AlertCircle className="w-6 h-6" />;
-  } else if (sov < 50) {
-    title = "Growing Presence";
-    message = `You have a healthy ${sov.toFixed(1)}% Share of Voice. To become the market leader, focus on "best of" lists and specific feature comparisons where you can win.`;
-    colorClass = theme === 'dark' ? "text-yellow-400 bg-yellow-500/10 border-yellow-500/20" : "text-yellow-700 bg-yellow-50 border-yellow-200";
-    icon = <TrendingUp className="w-6 h-6" />;
-  } else {
-    title = "Market Leader";
-    message = `Excellent! You command ${sov.toFixed(1)}% of mentions. Your strategy should shift to defense: monitor for new entrants and sentiment shifts.`;
-    colorClass = theme === 'dark' ? "text-green-400 bg-green-500/10 border-green-500/20" : "text-green-700 bg-green-50 border-green-200";
-    icon = <CheckCircle2 className="w-6 h-6" />;
-  }
-
-  // Rank adjustments
-  if (myMentions > 0 && avgRank > 3) {
-     message += ` However, your average rank is low (${avgRank.toFixed(1)}). Work on technical SEO and specific attribute association to climb the lists.`;
-  }
-
-  return (
-    <div className={`p-6 rounded-2xl border ${colorClass} h-full`}>
-      <div className="flex items-center gap-3 mb-3">
-        {icon}
-        <h3 className="text-lg font-bold">{title}</h3>
-      </div>
-      <p className={`text-sm ${theme === 'dark' ? 'text-navy-100' : 'text-gray-800'} leading-relaxed`}>
-        {message}
-      </p>
-    </div>
-  );
-};
-
-const StatsComparison = ({ results, theme }: { results: any, theme: string }) => {
-  if (!results || !results.intents_data) return null;
-
-  const stats = {
-    google: {
-      totalMentions: 0,
-      myBrandMentions: 0,
-      competitorMentions: 0,
-      myBrandRanks: [] as number[],
-      myBrandRank1Mentions: 0,
-      competitorRanks: [] as number[],
-    },
-    groq: {
-      totalMentions: 0,
-      myBrandMentions: 0,
-      competitorMentions: 0,
-      myBrandRanks: [] as number[],
-      myBrandRank1Mentions: 0,
-      competitorRanks: [] as number[],
-    },
-  };
-
-  results.intents_data.forEach((intent: any) => {
-    intent.answers.forEach((answer: any) => {
-      const provider = answer.model.includes('gemini') ? 'google' : 'groq';
-      stats[provider].totalMentions += answer.mentions.length;
-      answer.mentions.forEach((mention: any) => {
-        if (mention.is_mine) {
-          stats[provider].myBrandMentions++;
-          if (mention.rank) {
-            stats[provider].myBrandRanks.push(mention.rank);
-            if (mention.rank === 1) {
-              stats[provider].myBrandRank1Mentions++;
-            }
-          }
-        } else {
-          stats[provider].competitorMentions++;
-          if (mention.rank) {
-            stats[provider].competitorRanks.push(mention.rank);
-          }
-        }
-      });
-    });
-  });
-
-  const avgRank = (ranks: number[]) => {
-    if (ranks.length === 0) return 0;
-    return parseFloat((ranks.reduce((a, b) => a + b, 0) / ranks.length).toFixed(2));
-  };
-  
-  const glassCardClass = theme === 'dark'
-    ? 'glass-card'
-    : 'glass-card-light';
-
-  return (
-    <div className={`${glassCardClass} p-6 mt-8`}>
-      <div className="flex items-center gap-2 mb-4">
-        <Sparkles className="w-5 h-5 text-primary-400" />
-        <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-navy-200' : 'text-black'}`}>Model Comparison</h3>
-      </div>
-      
-      <p className={`text-sm ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} mb-6`}>
-        Compare how different AI models perceive your brand against competitors across all search queries.
-      </p>
-
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-        {/* Google Gemini Column */}
-        <div>
-          <h4 className={`font-bold text-lg ${theme === 'dark' ? 'text-primary-300' : 'text-primary-500'} mb-4 flex items-center gap-2`}>
-            Google Gemini
-            <span className="text-[10px] px-1.5 py-0.5 rounded border border-primary-500/30 uppercase">With Search</span>
-          </h4>
-          <div className="space-y-6">
-             <div title="Percentage of mentions belonging to your brand out of all brand mentions detected.">
-               <StatsBar 
-                  label="Share of Voice" 
-                  value={stats.google.myBrandMentions} 
-                  total={stats.google.totalMentions || 1} 
-                  theme={theme}
-                  colorClass="bg-primary-500"
-                  suffix={` / ${stats.google.totalMentions} total mentions`}
-               />
-               <p className="text-[11px] text-navy-400 mt-1">How often you appear compared to everyone else.</p>
-             </div>
-
-             <div title="How often your brand was the first one mentioned in the response.">
-               <StatsBar 
-                  label="#1 Ranking Rate" 
-                  value={stats.google.myBrandRank1Mentions} 
-                  total={stats.google.myBrandMentions || 1} 
-                  theme={theme}
-                  colorClass="bg-emerald-500"
-                  suffix={` / ${stats.google.myBrandMentions} of your mentions`}
-               />
-               <p className="text-[11px] text-navy-400 mt-1">Frequency of being the top recommendation.</p>
-             </div>
-
-             <div className="grid grid-cols-2 gap-4 mt-2">
-                <div 
-                  className={`p-3 rounded-lg border ${theme === 'dark' ? 'bg-navy-900 border-navy-800' : 'bg-slate-50 border-slate-200'}`}
-                  title="Average numerical position of your brand in the response lists (Lower is better)."
-                >
-                    <div className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} flex items-center gap-1`}>
-                      Avg My Rank <Info className="w-3 h-3" />
-                    </div>
-                    <div className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{avgRank(stats.google.myBrandRanks) || '-'}</div>
-                </div>
-                <div 
-                  className={`p-3 rounded-lg border ${theme === 'dark' ? 'bg-navy-900 border-navy-800' : 'bg-slate-50 border-slate-200'}`}
-                  title="Average numerical position of competitor brands (Higher than yours is better)."
-                >
-                    <div className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} flex items-center gap-1`}>
-                      Avg Comp Rank <Info className="w-3 h-3" />
-                    </div>
-                    <div className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{avgRank(stats.google.competitorRanks) || '-'}</div>
-                </div>
-             </div>
-          </div>
-        </div>
-
-        {/* Groq Column */}
-        <div>
-          <h4 className={`font-bold text-lg ${theme === 'dark' ? 'text-accent-300' : 'text-accent-500'} mb-4 flex items-center gap-2`}>
-            Groq
-            <span className="text-[10px] px-1.5 py-0.5 rounded border border-accent-500/30 uppercase">Llama 3</span>
-          </h4>
-          <div className="space-y-6">
-             <div title="Percentage of mentions belonging to your brand out of all brand mentions detected.">
-               <StatsBar 
-                  label="Share of Voice" 
-                  value={stats.groq.myBrandMentions} 
-                  total={stats.groq.totalMentions || 1} 
-                  theme={theme}
-                  colorClass="bg-accent-500"
-                  suffix={` / ${stats.groq.totalMentions} total mentions`}
-               />
-               <p className="text-[11px] text-navy-400 mt-1">How often you appear compared to everyone else.</p>
-             </div>
-
-             <div title="How often your brand was the first one mentioned in the response.">
-               <StatsBar 
-                  label="#1 Ranking Rate" 
-                  value={stats.groq.myBrandRank1Mentions} 
-                  total={stats.groq.myBrandMentions || 1} 
-                  theme={theme}
-                  colorClass="bg-emerald-500"
-                  suffix={` / ${stats.groq.myBrandMentions} of your mentions`}
-               />
-               <p className="text-[11px] text-navy-400 mt-1">Frequency of being the top recommendation.</p>
-             </div>
-
-             <div className="grid grid-cols-2 gap-4 mt-2">
-                <div 
-                  className={`p-3 rounded-lg border ${theme === 'dark' ? 'bg-navy-900 border-navy-800' : 'bg-slate-50 border-slate-200'}`}
-                  title="Average numerical position of your brand in the response lists (Lower is better)."
-                >
-                    <div className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} flex items-center gap-1`}>
-                      Avg My Rank <Info className="w-3 h-3" />
-                    </div>
-                    <div className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{avgRank(stats.groq.myBrandRanks) || '-'}</div>
-                </div>
-                <div 
-                  className={`p-3 rounded-lg border ${theme === 'dark' ? 'bg-navy-900 border-navy-800' : 'bg-slate-50 border-slate-200'}`}
-                  title="Average numerical position of competitor brands (Higher than yours is better)."
-                >
-                    <div className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'} flex items-center gap-1`}>
-                      Avg Comp Rank <Info className="w-3 h-3" />
-                    </div>
-                    <div className={`text-xl font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>{avgRank(stats.groq.competitorRanks) || '-'}</div>
-                </div>
-             </div>
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-const TokenUsageStats = ({ results, selectedProvider, selectedGoogleModel, selectedGroqModel, theme }: { results: any, selectedProvider: string, selectedGoogleModel: string, selectedGroqModel: string, theme: string }) => {
-  if (!results || !results.intents_data) return null;
-
-  const modelInfo = {
-    google: {
-      used: 0,
-    },
-    groq: {
-      used: 0,
-    },
-  };
-
-  // Calculate tokens used from API response
-  results.intents_data.forEach((intent: any) => {
-    intent.answers.forEach((answer: any) => {
-      const provider = answer.model.includes('gemini') ? 'google' : 'groq';
-      if (answer.usage) {
-        modelInfo[provider].used += answer.usage.total_tokens || 0;
-      }
-    });
-  });
-
-  const cardStyle = `p-6 ${theme === 'dark' ? 'bg-navy-800/20 border-navy-700/40' : 'bg-gray-100/50 border-gray-200/40'} rounded-2xl border`;
-
-  return (
-    <div className={cardStyle}>
-      <div className="flex items-center gap-3 mb-6">
-         <div className={`p-2 rounded-lg ${theme === 'dark' ? 'bg-primary-500/10 text-primary-500' : 'bg-primary-100 text-primary-600'}`}>
-            <Zap className="w-5 h-5" />
-         </div>
-         <div>
-            <h3 className={`text-xl font-bold ${theme === 'dark' ? 'text-navy-200' : 'text-black'}`}>Token Consumption</h3>
-            <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>Total generated tokens for this search run</p>
-         </div>
-      </div>
-
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {(selectedProvider === 'google' || selectedProvider === 'both') && (
-           <div className={`relative overflow-hidden rounded-2xl border p-6 transition-all duration-300 ${
-              theme === 'dark' 
-                ? 'bg-navy-900/40 border-navy-800' 
-                : 'bg-white border-slate-200 shadow-sm'
-           }`}>
-              <div className="relative z-10">
-                 <div className="flex justify-between items-start mb-4">
-                    <div className="flex items-center gap-3">
-                       <div className="p-2.5 rounded-xl bg-primary-500/10 text-primary-500">
-                          <Sparkles className="w-5 h-5" />
-                       </div>
-                       <div>
-                          <h4 className={`font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>Google Gemini</h4>
-                          <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>{selectedGoogleModel}</p>
-                       </div>
-                    </div>
-                 </div>
-
-                 <div className="mt-2">
-                    <div className={`text-3xl font-bold font-mono tracking-tight ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>
-                       {modelInfo.google.used.toLocaleString()}
-                    </div>
-                    <div className="flex items-center gap-2 mt-1">
-                        <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${theme === 'dark' ? 'bg-primary-500/20 text-primary-300' : 'bg-primary-100 text-primary-700'}`}>
-                           TOKENS
-                        </span>
-                        <span className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>generated total</span>
-                    </div>
-                 </div>
-              </div>
-           </div>
-        )}
-
-        {(selectedProvider === 'groq' || selectedProvider === 'both') && (
-           <div className={`relative overflow-hidden rounded-2xl border p-6 transition-all duration-300 ${
-              theme === 'dark' 
-                ? 'bg-navy-900/40 border-navy-800' 
-                : 'bg-white border-slate-200 shadow-sm'
-           }`}>
-              <div className="relative z-10">
-                 <div className="flex justify-between items-start mb-4">
-                    <div className="flex items-center gap-3">
-                       <div className="p-2.5 rounded-xl bg-accent-500/10 text-accent-500">
-                          <Zap className="w-5 h-5" />
-                       </div>
-                       <div>
-                          <h4 className={`font-bold ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>Groq</h4>
-                          <p className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>{selectedGroqModel}</p>
-                       </div>
-                    </div>
-                 </div>
-
-                 <div className="mt-2">
-                    <div className={`text-3xl font-bold font-mono tracking-tight ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>
-                       {modelInfo.groq.used.toLocaleString()}
-                    </div>
-                    <div className="flex items-center gap-2 mt-1">
-                        <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${theme === 'dark' ? 'bg-accent-500/20 text-accent-300' : 'bg-accent-100 text-accent-700'}`}>
-                           TOKENS
-                        </span>
-                        <span className={`text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-slate-500'}`}>generated total</span>
-                    </div>
-                 </div>
-              </div>
-           </div>
-        )}
-      </div>
-    </div>
-  );
-};
-
+// How often a running analysis is polled for progress
+const RUN_PROGRESS_POLL_MS = 1500;
 
-// API base URL: use environment variable or default based on environment
-const API_BASE_URL = import.meta.env.VITE_API_URL ||
-  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
-
-const FormattedAnswer = ({ text, mentions = [], theme }: { text: string; mentions?: BrandMention[], theme: string }) => {
-  if (!text) return null;
-
-  const uniqueBrands = Array.from(new Set(mentions.map(m => m.brand)));
-  const sortedBrands = uniqueBrands.sort((a, b) => b.length - a.length);
-  const brandPattern = sortedBrands.length > 0
-    ? new RegExp(`(${sortedBrands.map(b => b.replace(/[.*+?^${}()|[\\]/g, '\\$&')).join('|')})`, 'gi')
-    : null;
-
-  const brandMap = new Map<string, boolean>();
-  mentions.forEach(m => brandMap.set(m.brand.toLowerCase(), m.is_mine));
-
-  const highlightText = (content: string) => {
-    if (!brandPattern || !content) return content;
-
-    return content.split(brandPattern).map((part, i) => {
-      const lower = part.toLowerCase();
-      if (brandMap.has(lower)) {
-        const isMine = brandMap.get(lower);
-        return (
-          <span key={i} className={isMine ? "text-emerald-400 font-medium" : "text-rose-400 font-medium"}>
-            {part}
-          </span>
-        );
-      }
-      return part;
-    });
-  };
-
-  const processText = (str: string | any): any => {
-    if (typeof str !== 'string') return str;
-
-    const parts = str.split(/(\*\*.*?\*\*)/g);
-    return parts.map((part, i) => {
-      if (part.startsWith('**') && part.endsWith('**')) {
-        const content = part.slice(2, -2);
-        return (
-          <strong key={i} className={`${theme === 'dark' ? 'text-primary-300' : 'text-primary-600'} font-bold`}>
-            {highlightText(content)}
-          </strong>
-        );
-      }
-      return highlightText(part);
-    });
-  };
-
-  const sections = text.split(/\n\n+/);
-
-  return (
-    <div className="space-y-4">
-      {sections.map((section, sIdx) => {
-        if (section.startsWith('### ')) {
-          return (
-            <h4 key={sIdx} className={`text-lg font-bold ${theme === 'dark' ? 'text-navy-100' : 'text-black'} mt-6 mb-3 flex items-center gap-3`}>
-              <span className={`h-px flex-1 bg-gradient-to-r ${theme === 'dark' ? 'from-primary-500/50' : 'from-primary-300/50'} to-transparent`}></span>
-              <span className={`${theme === 'dark' ? 'text-primary-200' : 'text-primary-600'}`}>{processText(section.slice(4))}</span>
-              <span className={`h-px flex-1 bg-gradient-to-l ${theme === 'dark' ? 'from-primary-500/50' : 'from-primary-300/50'} to-transparent`}></span>
-            </h4>
-          );
-        }
-
-        const lines = section.split('\n').filter(l => l.trim());
-        const isList = lines.every(line => /^\s*([-*•]|\d+\.)/.test(line.trim()));
-
-        if (isList && lines.length > 0) {
-          return (
-            <ul key={sIdx} className="space-y-2 ml-1">
-              {lines.map((line, lIdx) => {
-                const match = line.match(/^\s*([-*•]|\d+\.)\s*(.*)/);
-                if (match) {
-                  return (
-                    <li key={lIdx} className={`flex gap-3 text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-black'}`}>
-                      <span className={`${theme === 'dark' ? 'text-primary-400' : 'text-primary-500'} font-bold min-w-[12px] flex justify-center`}>{match[1].length > 1 ? match[1] : '•'}</span>
-                      <span className="flex-1">{processText(match[2])}</span>
-                    </li>
-                  );
-                }
-                return <p key={lIdx} className={`text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-black'} ml-6`}>{processText(line)}</p>;
-              })}
-            </ul>
-          );
-        }
-
-        return (
-          <p key={sIdx} className={`text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-black'} leading-relaxed whitespace-pre-wrap`}>
-            {processText(section)}
-          </p>
-        );
-      })}
-    </div>
-  );
-};
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
 
 export default function Dashboard({ theme }) {
   const navigate = useNavigate();
@@ -526,18 +136,15 @@ export default function Dashboard({ theme }) {
     await logout();
   };
 
-  const [savedKeys, setSavedKeys] = useState<any[]>([]);
+  const [savedKeys, setSavedKeys] = useState<StoredAPIKey[]>([]);
   const [savedBrands, setSavedBrands] = useState<UserBrand[]>([]);
   const [savedIntents, setSavedIntents] = useState<UserIntent[]>([]);
-  const [userSettings, setUserSettings] = useState<any>(null);
+  const [userSettings, setUserSettings] = useState<UserSettings | null>(null);
 
   // Load user settings to check notification preferences
   useEffect(() => {
     if (!token) return;
-    fetch(`${API_BASE_URL}/user/settings`, {
-      headers: { 'Authorization': `Bearer ${token}` }
-    })
-    .then(res => res.ok ? res.json() : null)
+    userApi.getSettings()
     .then(data => {
       if (data) setUserSettings(data);
     })
@@ -549,26 +156,17 @@ export default function Dashboard({ theme }) {
     if (!token) return;
 
     // Load saved API keys
-    fetch(`${API_BASE_URL}/auth/api-keys`, {
-      headers: { 'Authorization': `Bearer ${token}` }
-    })
-    .then(res => res.ok ? res.json() : [])
+    authApi.listApiKeys()
     .then(data => setSavedKeys(data))
     .catch(err => console.error('Failed to load API keys', err));
 
     // Load saved brands
-    fetch(`${API_BASE_URL}/user/brands`, {
-      headers: { 'Authorization': `Bearer ${token}` }
-    })
-    .then(res => res.ok ? res.json() : [])
+    userApi.listBrands()
     .then(data => setSavedBrands(data))
     .catch(err => console.error('Failed to load brands', err));
 
     // Load saved intents
-    fetch(`${API_BASE_URL}/user/intents`, {
-      headers: { 'Authorization': `Bearer ${token}` }
-    })
-    .then(res => res.ok ? res.json() : [])
+    userApi.listIntents()
     .then(data => setSavedIntents(data))
     .catch(err => console.error('Failed to load intents', err));
   }, [token]);
@@ -578,6 +176,15 @@ export default function Dashboard({ theme }) {
   const [showIntentDropdown, setShowIntentDropdown] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [useWizardMode, setUseWizardMode] = useState(true);
+  const [resultsView, setResultsView] = useState<'cards' | 'matrix'>('cards');
+  // Intent picked in the matrix, highlighted in the cards view
+  const [focusedIntent, setFocusedIntent] = useState<string | null>(null);
+
+  // Scroll to the picked intent once its card is rendered
+  useEffect(() => {
+    if (resultsView !== 'cards' || !focusedIntent) return;
+    document.getElementById(`intent-${focusedIntent}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [resultsView, focusedIntent]);
 
   // Load view preference on mount
   useEffect(() => {
@@ -602,136 +209,148 @@ export default function Dashboard({ theme }) {
     if (runIdParam) {
       setRunId(runIdParam);
       setIsRunning(true);
+      setResultsError(null);
       setActiveTab('results');
 
-      fetch(`${API_BASE_URL}/results/${runIdParam}`, {
-          headers: { 'Authorization': `Bearer ${token}` }
-      })
-      .then(res => {
-          if (!res.ok) throw new Error('Failed to fetch results');
-          return res.json();
-      })
+      const controller = new AbortController();
+      watcherApi.getResults(runIdParam, controller.signal)
       .then(data => {
           setResults(data);
+          setIsRunning(false);
       })
       .catch(err => {
+          if (isAbortError(err)) return;
           console.error("Error fetching run results:", err);
-          showToast("Failed to load report", "error");
-      })
-      .finally(() => {
+          if (err instanceof ResponseValidationError) {
+            setResultsError(err.message);
+          } else {
+            showToast("Failed to load report", "error");
+          }
           setIsRunning(false);
       });
+
+      return () => controller.abort();
     }
   }, [token, searchParams.get('runId')]);
 
   // State
   const [activeTab, setActiveTab] = useState<'config' | 'results'>('config');
-  const [selectedProvider, setSelectedProvider] = useState<Provider | 'both'>('google');
-  const [apiKeys, setApiKeys] = useState({ google: '', groq: '' });
-  const [selectedModel, setSelectedModel] = useState<string>(GEMINI_MODELS[0].id);
-  const [selectedGoogleModel, setSelectedGoogleModel] = useState<string>(GEMINI_MODELS[0].id);
-  const [selectedGroqModel, setSelectedGroqModel] = useState<string>(GROQ_MODELS[0].id);
+  const [selectedModels, setSelectedModels] = useState<ModelSelection[]>(loadModelSelections);
+  const [apiKeys, setApiKeys] = useState<Record<Provider, string>>(emptyApiKeys);
   const [enableWebSearch, setEnableWebSearch] = useState(true);
+  const [budget, setBudget] = useState<BudgetConfig>(loadBudget);
+  const [extraction, setExtraction] = useState<ExtractionOptions>(loadExtractionOptions);
 
-  // Get available models based on selected provider
-  const availableModels = selectedProvider === 'google' ? GEMINI_MODELS : GROQ_MODELS;
+  // Providers of the selected models and of the extraction model - each needs an API key
+  const activeProviders = selectedProviders(usesExtractionModel(extraction) ? [...selectedModels, extraction.model] : selectedModels);
+  const webSearchProviders = activeProviders.filter(provider =>
+    selectedModels.some(selection => selection.provider === provider.id && supportsWebSearch(selection)));
 
   const [myBrands, setMyBrands] = useState<string[]>(['']);
   const [competitors, setCompetitors] = useState<string[]>(['']);
+  // Aliases, product lines and excluded terms, keyed by brand name
+  const [brandEntities, setBrandEntities] = useState<Record<string, BrandEntity>>({});
   const [intents, setIntents] = useState<Intent[]>([{ id: '', prompt: '' }]);
+  const [globalOperations, setGlobalOperations] = useState<Operation[]>([]);
+  const trackedBrands = [...new Set([...myBrands, ...competitors].map(b => b.trim()).filter(Boolean))];
+  const runEstimate = estimateRun(intents, selectedModels, extraction, globalOperations);
+  // Operations of the intents that make it into the config, plus the global ones
+  const scopedOperations = collectOperations(intents, globalOperations);
+  const selectedModelNames = selectedModels.map(selection => selection.model_name);
+  const operationIssues = validateOperations(scopedOperations, selectedModelNames);
+  const operationErrors = operationIssues.filter(issue => issue.level === 'error');
+  const globalOperationIds = globalOperations.map(operation => operation.id.trim()).filter(Boolean);
+  const confirmAboveUsd = userSettings?.spending?.confirmAboveUsd ?? DEFAULT_CONFIRM_ABOVE_USD;
+  const [showCostConfirm, setShowCostConfirm] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showPresetsModal, setShowPresetsModal] = useState(false);
+  const [activePreset, setActivePreset] = useState<ActivePreset | null>(null);
+  // Bumped when a run completes so the notification bell picks up its alerts
+  const [alertsRefreshKey, setAlertsRefreshKey] = useState(0);
   const [showYamlPreview, setShowYamlPreview] = useState(false);
+  // YAML typed in the Config Preview, with the form YAML it was typed against
+  const [yamlDraft, setYamlDraft] = useState<{ text: string; formYaml: string } | null>(null);
+  const [editingYaml, setEditingYaml] = useState(false);
   const [runId, setRunId] = useState<string | null>(null);
-  const [results, setResults] = useState<any | null>(null);
+  const [results, setResults] = useState<RunResults | null>(null);
+  // Set when the backend returned results we cannot display
+  const [resultsError, setResultsError] = useState<string | null>(null);
+  // Set when the backend refused the last run because of a budget limit
+  const [budgetStop, setBudgetStop] = useState<BudgetExceeded | null>(null);
+  const [runProgress, setRunProgress] = useState<RunProgress | null>(null);
+  const runAbortRef = useRef<AbortController | null>(null);
   const [showApiKey, setShowApiKey] = useState(false);
   const [showKeyDropdown, setShowKeyDropdown] = useState<{[key: string]: boolean}>({});
 
-  // Handle provider change - reset model to first available
-  const handleProviderChange = (provider: Provider | 'both') => {
-    setSelectedProvider(provider);
-    if (provider === 'google') {
-      setSelectedModel(GEMINI_MODELS[0].id);
-      setEnableWebSearch(true); // Google supports web search
-    } else if (provider === 'groq') {
-      setSelectedModel(GROQ_MODELS[0].id);
-      setEnableWebSearch(false); // Groq doesn't support web search yet
-    } else {
-      setEnableWebSearch(true);
-    }
-  };
+  // Stop polling a running analysis when leaving the Dashboard (the run itself continues server-side)
+  useEffect(() => {
+    return () => runAbortRef.current?.abort();
+  }, []);
+
+  // Remember the model selection and budget for the next visit
+  useEffect(() => {
+    saveModelSelections(selectedModels);
+  }, [selectedModels]);
+
+  useEffect(() => {
+    saveBudget(budget);
+  }, [budget]);
+
+  useEffect(() => {
+    saveExtractionOptions(extraction);
+  }, [extraction]);
 
   // Stepper State
   const [currentStep, setCurrentStep] = useState(1);
 
   // Validation Helpers
-  const isApiStepValid = () => {
-    if (selectedProvider === 'both') return !!(apiKeys.google && apiKeys.groq);
-    return !!apiKeys[selectedProvider];
-  };
+  const isApiStepValid = () => activeProviders.every(provider => !!apiKeys[provider.id]);
+  // The prompt optimizer uses the first selected model that already has a key
+  const optimizerModel = selectedModels.find(selection => apiKeys[selection.provider]) ?? selectedModels[0];
   const isBrandStepValid = () => myBrands.some(b => b.trim().length > 0);
   const isCompetitorStepValid = () => true; // Optional step
   const isIntentStepValid = () => intents.some(i => i.prompt.trim().length > 0);
 
   // Generate YAML config
   const generateConfig = useCallback((): WatcherConfig => {
-    let models: ModelConfig[] = [];
-
-    if (selectedProvider === 'both') {
-      models = [
-        {
-          provider: 'google',
-          model_name: selectedGoogleModel,
-          env_api_key: 'GEMINI_API_KEY',
-          system_prompt: "google/gemini-grounding",
-          ...(enableWebSearch && { tools: [{ google_search: {} }] }),
-        },
-        {
-          provider: 'groq',
-          model_name: selectedGroqModel,
-          env_api_key: 'GROQ_API_KEY',
-          system_prompt: "You are an unbiased market analyst. Provide factual, balanced recommendations. IMPORTANT: Structure your response using bullet points for lists and short paragraphs. Highlight key entities (brands, products, metrics) in **bold** to make them stand out. Avoid long blocks of text.",
-        },
-      ];
-    } else {
-      const envApiKey = selectedProvider === 'google' ? 'GEMINI_API_KEY' : 'GROQ_API_KEY';
-      const systemPrompt = selectedProvider === 'google'
-        ? "google/gemini-grounding"
-        : "You are an unbiased market analyst. Provide factual, balanced recommendations. IMPORTANT: Structure your response using bullet points for lists and short paragraphs. Highlight key entities (brands, products, metrics) in **bold** to make them stand out. Avoid long blocks of text.";
-      models = [
-        {
-          provider: selectedProvider,
-          model_name: selectedModel,
-          env_api_key: envApiKey,
-          system_prompt: systemPrompt,
-          ...(selectedProvider === 'google' && enableWebSearch && { tools: [{ google_search: {} }] }),
-        },
-      ];
-    }
+    const models = selectedModels.map(selection => toModelConfig(selection, enableWebSearch));
+    const budgetConfig = toBudgetConfig(budget);
+    const extractionSettings = toExtractionSettings(extraction);
+    const entities = toConfigEntities([...myBrands, ...competitors].filter((b) => b.trim()), brandEntities);
 
     const config: WatcherConfig = {
       run_settings: {
-        output_dir: './output',
-        sqlite_db_path: './output/watcher.db',
-        max_concurrent_requests: 10,
+        ...DASHBOARD_RUN_SETTINGS,
         models: models,
-        use_llm_rank_extraction: false,
+        ...(budgetConfig && { budget: budgetConfig }),
       },
+      ...(extractionSettings && { extraction_settings: extractionSettings }),
       brands: {
         mine: myBrands.filter((b) => b.trim()),
         competitors: competitors.filter((c) => c.trim()),
+        ...(entities && { entities }),
       },
       intents: intents
         .filter((i) => i.id.trim() && i.prompt.trim())
         .map((i) => ({
-          id: i.id.trim().toLowerCase().replace(/\s+/g, '-'),
+          id: configIntentId(i.id),
           prompt: i.prompt.trim(),
+          ...(i.operations?.length && { operations: i.operations.map(toConfigOperation) }),
         })),
+      ...(globalOperations.length > 0 && { global_operations: globalOperations.map(toConfigOperation) }),
     };
     return config;
-  }, [selectedProvider, selectedModel, selectedGoogleModel, selectedGroqModel, enableWebSearch, myBrands, competitors, intents]);
+  }, [selectedModels, enableWebSearch, budget, extraction, myBrands, competitors, brandEntities, intents, globalOperations]);
 
   const yamlOutput = yaml.dump(generateConfig(), { lineWidth: -1 });
+  // The draft stays on screen while it is edited, or (when invalid) until the form changes
+  const editorYaml = yamlDraft && (editingYaml || yamlDraft.formYaml === yamlOutput) ? yamlDraft.text : yamlOutput;
+  const editorCheck = useMemo(() => importWatcherConfig(editorYaml), [editorYaml]);
+  const activeBudget = toBudgetConfig(budget);
 
   // Dynamic Styles
   const sectionBorderClass = useWizardMode 
@@ -753,6 +372,12 @@ export default function Dashboard({ theme }) {
     setIntents(updated);
   };
 
+  const updateIntentOperations = (index: number, operations: Operation[]) => {
+    const updated = [...intents];
+    updated[index] = { ...updated[index], operations };
+    setIntents(updated);
+  };
+
   const applyTemplate = (templateId: string) => {
     const template = INTENT_TEMPLATES.find(t => t.id === templateId);
     if (!template) return;
@@ -805,12 +430,65 @@ export default function Dashboard({ theme }) {
     URL.revokeObjectURL(url);
   };
 
-  const loadSavedKey = async (provider: string, keyId: string, keyName: string) => {
+  // Saved brands bring their aliases, product lines and excluded terms along
+  const loadSavedEntity = (brand: UserBrand) => {
+    const entity = toBrandEntity(brand);
+    if (!isEmptyEntity(entity)) setBrandEntities(prev => ({ ...prev, [brand.brand_name]: entity }));
+  };
+
+  // Replaces the form with a config parsed from YAML
+  const applyConfigToForm = (config: ImportedConfig) => {
+    if (config.models.length > 0) setSelectedModels(config.models);
+    if (config.enableWebSearch !== null) setEnableWebSearch(config.enableWebSearch);
+    setMyBrands(config.myBrands.length > 0 ? config.myBrands : ['']);
+    setCompetitors(config.competitors.length > 0 ? config.competitors : ['']);
+    setBrandEntities(config.brandEntities);
+    setIntents(config.intents);
+    setGlobalOperations(config.globalOperations);
+    setBudget(config.budget ?? DEFAULT_BUDGET);
+    setExtraction(prev => config.extraction ?? { ...prev, enabled: false });
+  };
+
+  const applyImportedConfig = (config: ImportedConfig, warnings: ConfigIssue[]) => {
+    applyConfigToForm(config);
+    setShowImportModal(false);
+    showToast(
+      warnings.length > 0
+        ? `Config imported - ${warnings.length} ${warnings.length === 1 ? 'field was' : 'fields were'} not imported`
+        : 'Config imported',
+      warnings.length > 0 ? 'info' : 'success'
+    );
+  };
+
+  const loadPreset = (preset: ActivePreset, presetYaml: string) => {
+    const { config, errors } = importWatcherConfig(presetYaml);
+    if (!config) {
+      showToast(`Could not load "${preset.name}" v${preset.version}: ${errors[0]?.text}`, 'error');
+      return;
+    }
+    applyConfigToForm(config);
+    setYamlDraft(null);
+    setActivePreset(preset);
+    setShowPresetsModal(false);
+    showToast(`Loaded "${preset.name}" v${preset.version}`, 'success');
+  };
+
+  // Valid YAML edits go straight to the form; invalid ones wait in the editor
+  const editYaml = (text: string) => {
+    const { config } = importWatcherConfig(text);
+    if (config) applyConfigToForm(config);
+    setYamlDraft({ text, formYaml: yamlOutput });
+  };
+
+  // Once valid YAML loses focus the editor shows the form's own YAML again
+  const finishYamlEdit = () => {
+    setEditingYaml(false);
+    if (editorCheck.config) setYamlDraft(null);
+  };
+
+  const loadSavedKey = async (provider: string, keyId: number, keyName: string | null) => {
     try {
-      const res = await fetch(`${API_BASE_URL}/auth/api-keys/${keyId}`, {
-          headers: { 'Authorization': `Bearer ${token}` }
-      });
-      const data = await res.json();
+      const data = await authApi.getApiKey(keyId);
       if (data.api_key) {
         setApiKeys(prev => ({ ...prev, [provider]: data.api_key }));
         showToast(`Loaded ${keyName || 'default'} key for ${provider}`, 'success');
@@ -823,78 +501,151 @@ export default function Dashboard({ theme }) {
     }
   };
 
-  const handleRunWatcher = async () => {
-    if (selectedProvider === 'both') {
-      if (!apiKeys.google || !apiKeys.groq) {
-        showToast('Please enter API keys for both Google and Groq', 'error');
-        return;
-      }
-    } else {
-      if (!apiKeys[selectedProvider]) {
-        showToast(`Please enter your ${selectedProvider === 'google' ? 'Gemini' : 'Groq'} API key`, 'error');
-        return;
-      }
+  const hasRequiredApiKeys = () => {
+    const missing = activeProviders.filter(provider => !apiKeys[provider.id]);
+    if (missing.length > 0) {
+      showToast(`Please enter your ${missing.map(provider => provider.name).join(' and ')} API ${missing.length > 1 ? 'keys' : 'key'}`, 'error');
+      return false;
     }
+    return true;
+  };
+
+  // Starts a background run (or retry), polls its progress until it finishes and loads the results
+  const followRun = async (
+    start: (signal: AbortSignal) => Promise<RunProgress>,
+    completedMessage: (summary: RunCompletionSummary | null) => string
+  ) => {
     setIsRunning(true);
-    setResults(null);
-    setRunId(null);
+    setRunProgress(null);
+    setResultsError(null);
+    setBudgetStop(null);
     setActiveTab('results'); // Switch immediately to show loading state
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/run_watcher`, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}` 
-        },
-        body: JSON.stringify({ api_keys: apiKeys, yaml_config: yamlOutput }),
-      });
+    const controller = new AbortController();
+    runAbortRef.current = controller;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to run watcher');
+    try {
+      // The run starts in the background, poll its progress until it finishes
+      let progress: RunProgress = await start(controller.signal);
+      setRunId(progress.run_id);
+      setRunProgress(progress);
+
+      while (progress.status === 'running') {
+        await wait(RUN_PROGRESS_POLL_MS, controller.signal);
+        try {
+          progress = await watcherApi.getProgress(progress.run_id, controller.signal);
+          setRunProgress(progress);
+        } catch (err) {
+          // Progress is gone (e.g. server restarted) - give up; anything else is retried on the next tick
+          if (isAbortError(err) || (err instanceof ApiError && err.status === 404)) throw err;
+          console.error('Failed to poll run progress', err);
+        }
       }
 
-      const runData = await response.json();
-      setRunId(runData.run_id);
-      
-      // Poll for results if needed, or just fetch immediately if synchronous
-      // Assuming synchronous for now based on previous code, but could be async
-      const resultsResponse = await fetch(`${API_BASE_URL}/results/${runData.run_id}`);
-      if(!resultsResponse.ok) {
-        const errorData = await resultsResponse.json();
-        throw new Error(errorData.detail || 'Failed to fetch results');
+      if (progress.status === 'failed' && progress.budget_exceeded) {
+        // Stay on the results tab, which explains which limit was hit
+        setBudgetStop(progress.budget_exceeded);
+        showToast('Run stopped: budget limit exceeded', 'error');
+        return;
+      }
+      if (progress.status === 'failed') {
+        throw new Error(progress.error || 'Run failed');
       }
 
-      const resultsData = await resultsResponse.json();
+      const resultsData = await watcherApi.getResults(progress.run_id, controller.signal);
       setResults(resultsData);
-      showToast('Search completed successfully', 'success');
+      if (progress.summary?.cancelled) {
+        showToast(`Run cancelled - kept ${progress.summary.success_count} of ${progress.summary.total_queries} answers`, 'info');
+      } else {
+        showToast(completedMessage(progress.summary), 'success');
+      }
+      setAlertsRefreshKey(key => key + 1);
 
       // Check settings fresh to ensure we have latest preferences
       try {
-        const settingsRes = await fetch(`${API_BASE_URL}/user/settings`, {
-           headers: { 'Authorization': `Bearer ${token}` }
-        });
-        if (settingsRes.ok) {
-           const settings = await settingsRes.json();
-           if (settings?.notifications?.browser && 'Notification' in window && Notification.permission === 'granted') {
-             showToast('Attempting to send browser notification...', 'info'); // Debug toast
-             new Notification('Scan Completed', {
-               body: 'Your brand monitoring scan has finished successfully.',
-               icon: '/vite.svg'
-             });
-           }
+        const settings = await userApi.getSettings();
+        if (settings?.notifications?.browser && 'Notification' in window && Notification.permission === 'granted') {
+          new Notification('Scan Completed', {
+            body: 'Your brand monitoring scan has finished successfully.',
+            icon: '/vite.svg'
+          });
         }
       } catch (e) {
         console.error("Failed to check notification settings", e);
       }
       
     } catch (error) {
+      if (isAbortError(error)) return;
+      if (error instanceof ResponseValidationError) {
+        // The run itself finished - keep the results tab and explain why nothing is shown
+        setResultsError(error.message);
+        return;
+      }
       const message = error instanceof Error ? error.message : 'Unknown error';
       showToast(`An error occurred: ${message}`, 'error');
       setActiveTab('config'); // Switch back to config on error
     } finally {
+      if (runAbortRef.current === controller) {
+        runAbortRef.current = null;
+      }
       setIsRunning(false);
+      setRunProgress(null);
+    }
+  };
+
+  const handleRunWatcher = async () => {
+    if (!hasRequiredApiKeys()) return;
+    if (operationErrors.length > 0) {
+      showToast(`Fix the operations first: ${operationErrors[0].operationId} ${operationErrors[0].message}`, 'error');
+      return;
+    }
+    if (runEstimate.costUsd > confirmAboveUsd) {
+      setShowCostConfirm(true);
+      return;
+    }
+    await startRun();
+  };
+
+  const startRun = async () => {
+    setShowCostConfirm(false);
+    setResults(null);
+    setRunId(null);
+    await followRun(
+      signal => watcherApi.run({ api_keys: apiKeys, yaml_config: yamlOutput }, signal),
+      () => 'Search completed successfully'
+    );
+  };
+
+  const handleRetryFailed = async () => {
+    if (!runId || !hasRequiredApiKeys()) return;
+    const retryRunId = runId;
+    await followRun(
+      signal => watcherApi.retryFailed(retryRunId, { api_keys: apiKeys, yaml_config: yamlOutput }, signal),
+      summary => summary
+        ? `Retry finished - ${summary.success_count} of ${summary.total_queries} queries answered`
+        : 'Retry finished'
+    );
+  };
+
+  const handleCancelRun = async () => {
+    if (!runProgress) {
+      // The backend has not accepted the run yet - dropping the request is all there is to cancel
+      runAbortRef.current?.abort();
+      showToast('Run cancelled', 'info');
+      return;
+    }
+
+    try {
+      // Stops dispatching new queries; polling continues until running ones finish
+      setRunProgress(await watcherApi.cancelRun(runProgress.run_id));
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) return; // Already finished, the poll picks it up
+      if (err instanceof ApiError && err.status === 404) {
+        runAbortRef.current?.abort();
+        return;
+      }
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      showToast(`Failed to cancel run: ${message}`, 'error');
     }
   };
 
@@ -910,42 +661,8 @@ export default function Dashboard({ theme }) {
   };
 
   const downloadResultsCSV = () => {
-    if (!results || !results.intents_data) return;
-
-    const headers = ['Intent ID', 'Prompt', 'Model', 'Answer', 'Brand', 'Rank', 'Is Mine'];
-    const rows = [headers.join(',')];
-
-    results.intents_data.forEach((intent: any) => {
-      intent.answers.forEach((answer: any) => {
-        if (answer.mentions && answer.mentions.length > 0) {
-          answer.mentions.forEach((mention: any) => {
-            const row = [
-              `"${intent.intent_id}"`, 
-              `"${intent.prompt.replace(/"/g, '""')}"`, 
-              `"${answer.model}"`, 
-              `"${answer.answer.replace(/"/g, '""')}"`, 
-              `"${mention.brand}"`, 
-              mention.rank || '',
-              mention.is_mine ? 'Yes' : 'No'
-            ];
-            rows.push(row.join(','));
-          });
-        } else {
-          const row = [
-              `"${intent.intent_id}"`, 
-              `"${intent.prompt.replace(/"/g, '""')}"`, 
-              `"${answer.model}"`, 
-              `"${answer.answer.replace(/"/g, '""')}"`, 
-              '',
-              '',
-              ''
-          ];
-          rows.push(row.join(','));
-        }
-      });
-    });
-
-    const blob = new Blob([rows.join('\n')], { type: 'text/csv' });
+    if (!results) return;
+    const blob = new Blob([toCsv(resultRows(results))], { type: 'text/csv;charset=utf-8' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -954,23 +671,33 @@ export default function Dashboard({ theme }) {
     URL.revokeObjectURL(url);
   };
 
+  const downloadResultsXLSX = () => {
+    if (!results) return;
+    const url = URL.createObjectURL(toXlsx(resultSheets(results)));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `results-${runId}.xlsx`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const downloadResultsText = () => {
-    if (!results || !results.intents_data) return;
+    if (!results) return;
 
     let text = `Search Results for Run: ${runId}\n`;
     text += `Date: ${new Date().toLocaleString()}\n`;
     text += '----------------------------------------\n\n';
 
-    results.intents_data.forEach((intent: any) => {
+    results.intents_data.forEach((intent) => {
       text += `Query: ${intent.prompt}\n`;
       text += `ID: ${intent.intent_id}\n\n`;
-      intent.answers.forEach((answer: any) => {
+      intent.answers.forEach((answer) => {
         text += `Model: ${answer.model}\n`;
         text += `Answer:\n${answer.answer}\n\n`;
         text += 'Mentions:\n';
         if (answer.mentions && answer.mentions.length > 0) {
-          answer.mentions.forEach((mention: any) => {
-            text += `- ${mention.brand} (Rank: ${mention.rank || 'N/A'}) - ${mention.is_mine ? 'My Brand' : 'Competitor'}\n`;
+          answer.mentions.forEach((mention) => {
+            text += `- ${mention.normalized_name} (Rank: ${mention.rank || 'N/A'}) - ${mention.is_mine ? 'My Brand' : 'Competitor'}\n`;
           });
         } else {
           text += 'No mentions found.\n';
@@ -990,11 +717,16 @@ export default function Dashboard({ theme }) {
   };
 
   const isConfigValid =
-    (selectedProvider === 'both'
-      ? apiKeys.google && apiKeys.groq
-      : selectedProvider && apiKeys[selectedProvider]) &&
+    isApiStepValid() &&
     myBrands.some((b) => b.trim()) &&
-    intents.some((i) => i.id.trim() && i.prompt.trim());
+    intents.some((i) => i.id.trim() && i.prompt.trim()) &&
+    operationErrors.length === 0;
+
+  // Scheduled runs use saved API keys, so the keys typed in here are not required
+  const canSchedule =
+    myBrands.some((b) => b.trim()) &&
+    intents.some((i) => i.id.trim() && i.prompt.trim()) &&
+    operationErrors.length === 0;
 
   const glassCardClass = theme === 'dark'
     ? 'glass-card'
@@ -1056,6 +788,36 @@ export default function Dashboard({ theme }) {
                       <Clock className="w-4 h-4" />
                       Run History
                     </Link>
+                    <Link
+                      to="/schedules"
+                      className={`block w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${
+                        theme === 'dark' ? 'hover:bg-navy-800' : 'hover:bg-gray-100'
+                      }`}
+                      onClick={() => setShowMainMenu(false)}
+                    >
+                      <CalendarClock className="w-4 h-4" />
+                      Schedules
+                    </Link>
+                    <Link
+                      to="/alerts"
+                      className={`block w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${
+                        theme === 'dark' ? 'hover:bg-navy-800' : 'hover:bg-gray-100'
+                      }`}
+                      onClick={() => setShowMainMenu(false)}
+                    >
+                      <Bell className="w-4 h-4" />
+                      Alerts
+                    </Link>
+                    <Link
+                      to="/trends"
+                      className={`block w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${
+                        theme === 'dark' ? 'hover:bg-navy-800' : 'hover:bg-gray-100'
+                      }`}
+                      onClick={() => setShowMainMenu(false)}
+                    >
+                      <TrendingUp className="w-4 h-4" />
+                      Trends
+                    </Link>
                     <Link
                       to="/settings"
                       className={`block w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 ${
@@ -1114,6 +876,12 @@ export default function Dashboard({ theme }) {
                 Results
               </button>
 
+              <NotificationCenter
+                theme={theme}
+                browserNotifications={!!userSettings?.notifications?.browser}
+                refreshKey={alertsRefreshKey}
+              />
+
               <div className={`h-6 w-px mx-2 ${theme === 'dark' ? 'bg-navy-700' : 'bg-gray-300'}`}></div>
 
               <div className="relative">
@@ -1229,220 +997,94 @@ export default function Dashboard({ theme }) {
                 className={sectionBorderClass}
               >
                 <div className="space-y-6">
-                  {/* Provider Selection */}
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-                    <button
-                      onClick={() => handleProviderChange('google')}
-                      className={`p-3 rounded-xl border transition-all ${selectedProvider === 'google'
-                          ? 'bg-primary-500/20 border-primary-500 text-primary-300'
-                          : `${theme === 'dark' ? 'bg-navy-800/30 border-navy-700/50 text-navy-400 hover:border-navy-600' : 'bg-gray-100 border-gray-200 text-gray-500 hover:border-gray-300 hover:bg-gray-200'}`
-                      }`}
-                    >
-                      <div className="flex items-center gap-2 justify-center">
-                        <Sparkles className="w-4 h-4" />
-                        <span className="font-medium">Google Gemini</span>
-                      </div>
-                      <p className="text-xs mt-1 opacity-70">With web search</p>
-                    </button>
-                    <button
-                      onClick={() => handleProviderChange('groq')}
-                      className={`p-3 rounded-xl border transition-all ${selectedProvider === 'groq'
-                          ? 'bg-primary-500/20 border-primary-500 text-primary-300'
-                          : `${theme === 'dark' ? 'bg-navy-800/30 border-navy-700/50 text-navy-400 hover:border-navy-600' : 'bg-gray-100 border-gray-200 text-gray-500 hover:border-gray-300 hover:bg-gray-200'}`
-                      }`}
-                    >
-                      <div className="flex items-center gap-2 justify-center">
-                        <Zap className="w-4 h-4" />
-                        <span className="font-medium">Groq</span>
-                      </div>
-                      <p className="text-xs mt-1 opacity-70">Ultra-fast inference</p>
-                    </button>
-                    <button
-                      onClick={() => handleProviderChange('both')}
-                      className={`p-3 rounded-xl border transition-all ${selectedProvider === 'both'
-                          ? 'bg-accent-500/20 border-accent-500 text-accent-300'
-                          : `${theme === 'dark' ? 'bg-navy-800/30 border-navy-700/50 text-navy-400 hover:border-navy-600' : 'bg-gray-100 border-gray-200 text-gray-500 hover:border-gray-300 hover:bg-gray-200'}`
-                      }`}
-                    >
-                      <div className="flex items-center gap-2 justify-center">
-                        <Users className="w-4 h-4" />
-                        <span className="font-medium">Try Both</span>
-                      </div>
-                      <p className="text-xs mt-1 opacity-70">Compare models</p>
-                    </button>
-                  </div>
+                  {/* Model Selection */}
+                  <ModelPicker selections={selectedModels} onChange={setSelectedModels} theme={theme} />
+
+                  {/* API keys for every provider in use */}
+                  <div className={`grid grid-cols-1 ${activeProviders.length > 1 ? 'md:grid-cols-2' : ''} gap-4`}>
+                    {activeProviders.map(provider => {
+                      const providerKeys = savedKeys.filter(k => k.provider === provider.id);
+                      return (
+                        <div key={provider.id}>
+                          <label className={theme === 'dark' ? 'label' : 'label-light'}>{provider.name} API Key</label>
+                          <div className="relative">
+                            <input
+                              type={showApiKey ? 'text' : 'password'}
+                              value={apiKeys[provider.id]}
+                              onChange={(e) => setApiKeys({ ...apiKeys, [provider.id]: e.target.value })}
+                              placeholder={provider.keyPlaceholder}
+                              className={`${inputClass} pr-12`}
+                            />
+                            <button
+                              onClick={() => setShowApiKey(!showApiKey)}
+                              className={`absolute right-3 top-1/2 -translate-y-1/2 ${theme === 'dark' ? 'text-navy-400 hover:text-navy-200' : 'text-gray-400 hover:text-gray-600'}`}
+                            >
+                              {showApiKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                            </button>
+                          </div>
 
-                {selectedProvider !== 'both' ? (
-                  <div>
-                    <label className={theme === 'dark' ? 'label' : 'label-light'}>{selectedProvider === 'google' ? 'Gemini' : 'Groq'} API Key</label>
-                    <div className="relative">
-                      <input
-                        type={showApiKey ? 'text' : 'password'}
-                        value={selectedProvider === 'google' ? apiKeys.google : apiKeys.groq}
-                        onChange={(e) =>
-                          setApiKeys({ ...apiKeys, [selectedProvider]: e.target.value })
-                        }
-                        placeholder={selectedProvider === 'google' ? 'AIzaSy...' : 'gsk_...'}
-                        className={`${inputClass} pr-12`}
-                      />
-                      <button
-                        onClick={() => setShowApiKey(!showApiKey)}
-                        className={`absolute right-3 top-1/2 -translate-y-1/2 ${theme === 'dark' ? 'text-navy-400 hover:text-navy-200' : 'text-gray-400 hover:text-gray-600'}`}
-                      >
-                        {showApiKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                      </button>
-                    </div>
-                    
-                    {savedKeys.filter(k => k.provider === selectedProvider).length > 0 && (
-                      <div className="mt-2 relative">
-                        <button
-                          onClick={() => setShowKeyDropdown(prev => ({ ...prev, [selectedProvider]: !prev[selectedProvider] }))}
-                          className={`text-xs font-medium flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-all ${theme === 'dark' ? 'bg-navy-800 border-navy-700 text-primary-300 hover:bg-navy-700 hover:border-primary-500/50' : 'bg-white border-gray-200 text-primary-600 hover:bg-gray-50 hover:border-primary-200'}`}
-                        >
-                          <Key className="w-3 h-3" /> Use saved key <ChevronDown className="w-3 h-3" />
-                        </button>
-                        
-                        {showKeyDropdown[selectedProvider] && (
-                          <div className={`absolute left-0 top-full mt-2 w-full rounded-xl border shadow-xl z-20 backdrop-blur-xl p-1 ${
-                            theme === 'dark' ? 'bg-navy-900/90 border-navy-700/50' : 'bg-white/90 border-gray-200/50'
-                          }`}>
-                            {savedKeys.filter(k => k.provider === selectedProvider).map(key => (
+                          {providerKeys.length > 0 && (
+                            <div className="mt-2 relative">
                               <button
-                                key={key.id}
-                                onClick={() => {
-                                  loadSavedKey(selectedProvider, key.id, key.key_name);
-                                  setShowKeyDropdown(prev => ({ ...prev, [selectedProvider]: false }));
-                                }}
-                                className={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
-                                  theme === 'dark' ? 'hover:bg-white/5 text-navy-100' : 'hover:bg-black/5 text-gray-900'
-                                }`}
+                                onClick={() => setShowKeyDropdown(prev => ({ ...prev, [provider.id]: !prev[provider.id] }))}
+                                className={`text-xs font-medium flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-all ${theme === 'dark' ? 'bg-navy-800 border-navy-700 text-primary-300 hover:bg-navy-700 hover:border-primary-500/50' : 'bg-white border-gray-200 text-primary-600 hover:bg-gray-50 hover:border-primary-200'}`}
                               >
-                                {key.key_name || 'Default Key'}
-                                <span className={`ml-2 text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
-                                  {new Date(key.created_at).toLocaleDateString()}
-                                </span>
+                                <Key className="w-3 h-3" /> Use saved key <ChevronDown className="w-3 h-3" />
                               </button>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    )}
 
-                    <p className={`text-xs ${theme === 'dark' ? 'text-navy-500' : 'text-gray-500'} mt-1`}>
-                      Get your key from{' '}
-                      {selectedProvider === 'google' ? (
-                        <a
-                          href="https://aistudio.google.com/app/apikey"
-                          target="_blank"
-                          rel="noopener"
-                          className="text-primary-500 hover:text-primary-600"
-                        >
-                          Google AI Studio
-                        </a>
-                      ) : (
-                        <a
-                          href="https://console.groq.com/keys"
-                          target="_blank"
-                          rel="noopener"
-                          className="text-primary-500 hover:text-primary-600"
-                        >
-                          Groq Console
-                        </a>
-                      )}
-                    </p>
-                  </div>
-                ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <label className={theme === 'dark' ? 'label' : 'label-light'}>Google Gemini API Key</label>
-                      <input
-                        type="password"
-                        value={apiKeys.google}
-                        onChange={(e) => setApiKeys({ ...apiKeys, google: e.target.value })}
-                        placeholder="AIzaSy..."
-                        className={inputClass}
-                      />
-                      {savedKeys.filter(k => k.provider === 'google').length > 0 && (
-                        <div className="mt-2 relative">
-                          <button
-                            onClick={() => setShowKeyDropdown(prev => ({ ...prev, google: !prev.google }))}
-                            className={`text-xs font-medium flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-all ${theme === 'dark' ? 'bg-navy-800 border-navy-700 text-primary-300 hover:bg-navy-700 hover:border-primary-500/50' : 'bg-white border-gray-200 text-primary-600 hover:bg-gray-50 hover:border-primary-200'}`}
-                          >
-                            <Key className="w-3 h-3" /> Use saved key <ChevronDown className="w-3 h-3" />
-                          </button>
-                          {showKeyDropdown['google'] && (
-                            <div className={`absolute left-0 top-full mt-2 w-full rounded-xl border shadow-xl z-20 backdrop-blur-xl p-1 ${theme === 'dark' ? 'bg-navy-900/90 border-navy-700/50' : 'bg-white/90 border-gray-200/50'}`}>
-                              {savedKeys.filter(k => k.provider === 'google').map(key => (
-                                <button
-                                  key={key.id}
-                                  onClick={() => {
-                                    loadSavedKey('google', key.id, key.key_name);
-                                    setShowKeyDropdown(prev => ({ ...prev, google: false }));
-                                  }}
-                                  className={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-white/5 text-navy-100' : 'hover:bg-black/5 text-gray-900'}`}
-                                >
-                                  {key.key_name || 'Default Key'}
-                                </button>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                    <div>
-                      <label className={theme === 'dark' ? 'label' : 'label-light'}>Groq API Key</label>
-                      <input
-                        type="password"
-                        value={apiKeys.groq}
-                        onChange={(e) => setApiKeys({ ...apiKeys, groq: e.target.value })}
-                        placeholder="gsk_..."
-                        className={inputClass}
-                      />
-                      {savedKeys.filter(k => k.provider === 'groq').length > 0 && (
-                        <div className="mt-2 relative">
-                          <button
-                            onClick={() => setShowKeyDropdown(prev => ({ ...prev, groq: !prev.groq }))}
-                            className={`text-xs font-medium flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-all ${theme === 'dark' ? 'bg-navy-800 border-navy-700 text-primary-300 hover:bg-navy-700 hover:border-primary-500/50' : 'bg-white border-gray-200 text-primary-600 hover:bg-gray-50 hover:border-primary-200'}`}
-                          >
-                            <Key className="w-3 h-3" /> Use saved key <ChevronDown className="w-3 h-3" />
-                          </button>
-                          {showKeyDropdown['groq'] && (
-                            <div className={`absolute left-0 top-full mt-2 w-full rounded-xl border shadow-xl z-20 backdrop-blur-xl p-1 ${theme === 'dark' ? 'bg-navy-900/90 border-navy-700/50' : 'bg-white/90 border-gray-200/50'}`}>
-                              {savedKeys.filter(k => k.provider === 'groq').map(key => (
-                                <button
-                                  key={key.id}
-                                  onClick={() => {
-                                    loadSavedKey('groq', key.id, key.key_name);
-                                    setShowKeyDropdown(prev => ({ ...prev, groq: false }));
-                                  }}
-                                  className={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-white/5 text-navy-100' : 'hover:bg-black/5 text-gray-900'}`}
-                                >
-                                  {key.key_name || 'Default Key'}
-                                </button>
-                              ))}
+                              {showKeyDropdown[provider.id] && (
+                                <div className={`absolute left-0 top-full mt-2 w-full rounded-xl border shadow-xl z-20 backdrop-blur-xl p-1 ${
+                                  theme === 'dark' ? 'bg-navy-900/90 border-navy-700/50' : 'bg-white/90 border-gray-200/50'
+                                }`}>
+                                  {providerKeys.map(key => (
+                                    <button
+                                      key={key.id}
+                                      onClick={() => {
+                                        loadSavedKey(provider.id, key.id, key.key_name);
+                                        setShowKeyDropdown(prev => ({ ...prev, [provider.id]: false }));
+                                      }}
+                                      className={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
+                                        theme === 'dark' ? 'hover:bg-white/5 text-navy-100' : 'hover:bg-black/5 text-gray-900'
+                                      }`}
+                                    >
+                                      {key.key_name || 'Default Key'}
+                                      <span className={`ml-2 text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                                        {new Date(key.created_at).toLocaleDateString()}
+                                      </span>
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           )}
+
+                          <p className={`text-xs ${theme === 'dark' ? 'text-navy-500' : 'text-gray-500'} mt-1`}>
+                            Get your key from{' '}
+                            <a
+                              href={provider.keyUrl}
+                              target="_blank"
+                              rel="noopener"
+                              className="text-primary-500 hover:text-primary-600"
+                            >
+                              {provider.keyUrlLabel}
+                            </a>
+                          </p>
                         </div>
-                      )}
-                    </div>
+                      );
+                    })}
                   </div>
-                )}
 
-                {/* Model Selection (Simplified) */}
-                {selectedProvider !== 'both' && (
-                  <div>
-                    <label className={theme === 'dark' ? 'label' : 'label-light'}>Model</label>
-                    <select
-                        value={selectedModel}
-                        onChange={(e) => setSelectedModel(e.target.value)}
-                        className={`${inputClass} appearance-none cursor-pointer`}
-                      >
-                        {availableModels.map((model) => (
-                          <option key={model.id} value={model.id}>{model.name}</option>
-                        ))}
-                      </select>
-                  </div>
-                )}
+                  {webSearchProviders.length > 0 && (
+                    <label className={`flex items-center gap-2 text-sm cursor-pointer ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>
+                      <input
+                        type="checkbox"
+                        checked={enableWebSearch}
+                        onChange={(e) => setEnableWebSearch(e.target.checked)}
+                        className="rounded accent-primary-500"
+                      />
+                      Ground {webSearchProviders.map(provider => provider.name).join(' and ')} answers with web search
+                    </label>
+                  )}
 
                 {useWizardMode && (
                   <div className="pt-4 border-t border-gray-200/10 flex justify-end">
@@ -1501,6 +1143,7 @@ export default function Dashboard({ theme }) {
                                           if (newBrands.length === 1 && newBrands[0] === '') newBrands[0] = brand.brand_name;
                                           else newBrands.push(brand.brand_name);
                                           setMyBrands(newBrands);
+                                          loadSavedEntity(brand);
                                         }
                                         setShowBrandDropdown(false);
                                       }}
@@ -1563,6 +1206,7 @@ export default function Dashboard({ theme }) {
                                           if (newCompetitors.length === 1 && newCompetitors[0] === '') newCompetitors[0] = brand.brand_name;
                                           else newCompetitors.push(brand.brand_name);
                                           setCompetitors(newCompetitors);
+                                          loadSavedEntity(brand);
                                         }
                                         setShowCompetitorDropdown(false);
                                       }}
@@ -1579,6 +1223,7 @@ export default function Dashboard({ theme }) {
                         <TagInput tags={competitors.filter(c => c.trim())} onChange={setCompetitors} placeholder="Type competitor & press Enter (e.g. Adidas)" theme={theme} />
                         <p className={`text-[10px] mt-1 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>You can add multiple brands by pressing enter.</p>
                       </div>
+                      <BrandEntitiesPanel brandNames={trackedBrands} entities={brandEntities} onChange={setBrandEntities} theme={theme} />
                       <div className="pt-4 border-t border-gray-200/10 flex justify-end">
                         <button onClick={() => setCurrentStep(4)} className="btn-primary flex items-center justify-center whitespace-nowrap">
                           Next: Define Questions <ArrowRight className="w-4 h-4 ml-2" />
@@ -1623,6 +1268,7 @@ export default function Dashboard({ theme }) {
                                         if (newBrands.length === 1 && newBrands[0] === '') newBrands[0] = brand.brand_name;
                                         else newBrands.push(brand.brand_name);
                                         setMyBrands(newBrands);
+                                        loadSavedEntity(brand);
                                       }
                                       setShowBrandDropdown(false);
                                     }}
@@ -1665,6 +1311,7 @@ export default function Dashboard({ theme }) {
                                         if (newCompetitors.length === 1 && newCompetitors[0] === '') newCompetitors[0] = brand.brand_name;
                                         else newCompetitors.push(brand.brand_name);
                                         setCompetitors(newCompetitors);
+                                        loadSavedEntity(brand);
                                       }
                                       setShowCompetitorDropdown(false);
                                     }}
@@ -1682,6 +1329,9 @@ export default function Dashboard({ theme }) {
                       <p className={`text-[10px] mt-1 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>You can add multiple brands by pressing enter.</p>
                     </div>
                   </div>
+                  <div className="mt-6">
+                    <BrandEntitiesPanel brandNames={trackedBrands} entities={brandEntities} onChange={setBrandEntities} theme={theme} />
+                  </div>
                 </CollapsibleSection>
               )}
 
@@ -1700,7 +1350,41 @@ export default function Dashboard({ theme }) {
                 <div className="space-y-6">
                   {/* Suggestion Rail */}
                   <div>
-                    <p className={`text-xs mb-3 font-medium ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>Quick Start Templates</p>
+                    <div className="flex justify-between items-center mb-3">
+                      <p className={`text-xs font-medium ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>Quick Start Templates</p>
+                      {savedIntents.length > 0 && (
+                        <div className="relative">
+                          <button
+                            onClick={() => setShowIntentDropdown(!showIntentDropdown)}
+                            className={`text-xs font-medium flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-all ${theme === 'dark' ? 'bg-navy-800 border-navy-700 text-primary-300 hover:bg-navy-700 hover:border-primary-500/50' : 'bg-white border-gray-200 text-primary-600 hover:bg-gray-50 hover:border-primary-200'}`}
+                          >
+                            <MessageSquare className="w-3 h-3" /> Load Saved <ChevronDown className="w-3 h-3" />
+                          </button>
+                          {showIntentDropdown && (
+                            <div className={`absolute right-0 top-full mt-2 w-72 max-h-72 overflow-y-auto rounded-xl border shadow-xl z-20 backdrop-blur-xl p-1 ${theme === 'dark' ? 'bg-navy-900/90 border-navy-700/50' : 'bg-white/90 border-gray-200/50'}`}>
+                              {/* In the order set on the Profile page */}
+                              {savedIntents.map(saved => (
+                                <button
+                                  key={saved.id}
+                                  onClick={() => {
+                                    if (!intents.some(i => i.id === saved.intent_alias)) {
+                                      const newIntent = { id: saved.intent_alias, prompt: saved.prompt };
+                                      if (intents.length === 1 && !intents[0].id && !intents[0].prompt) setIntents([newIntent]);
+                                      else setIntents([...intents, newIntent]);
+                                    }
+                                    setShowIntentDropdown(false);
+                                  }}
+                                  className={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-white/5 text-navy-100' : 'hover:bg-black/5 text-gray-900'}`}
+                                >
+                                  <span className="block font-medium">{saved.intent_alias}</span>
+                                  <span className={`block text-xs truncate ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{saved.prompt}</span>
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
                     <div className="flex gap-2 overflow-x-auto pb-2 no-scrollbar">
                       {INTENT_TEMPLATES.map((template) => (
                         <button
@@ -1742,9 +1426,9 @@ export default function Dashboard({ theme }) {
                                 <PromptOptimizer
                                   currentPrompt={intent.prompt}
                                   onOptimize={(newPrompt) => updateIntent(index, 'prompt', newPrompt)}
-                                  apiKey={selectedProvider === 'both' ? (apiKeys.google || apiKeys.groq) : apiKeys[selectedProvider]}
-                                  provider={selectedProvider === 'both' ? (apiKeys.google ? 'google' : 'groq') : selectedProvider}
-                                  modelName={selectedProvider === 'both' ? (apiKeys.google ? selectedGoogleModel : selectedGroqModel) : selectedModel}
+                                  apiKey={apiKeys[optimizerModel.provider]}
+                                  provider={optimizerModel.provider}
+                                  modelName={optimizerModel.model_name}
                                   competitors={competitors}
                                   myBrands={myBrands}
                                   theme={theme}
@@ -1760,6 +1444,26 @@ export default function Dashboard({ theme }) {
                             <Trash2 className="w-4 h-4" />
                           </button>
                         </div>
+                        <details className="mt-3" open={(intent.operations?.length ?? 0) > 0}>
+                          <summary className={`cursor-pointer text-xs font-medium flex items-center gap-1.5 ${theme === 'dark' ? 'text-navy-400 hover:text-navy-200' : 'text-gray-500 hover:text-gray-700'}`}>
+                            <Workflow className="w-3.5 h-3.5 text-violet-400" />
+                            Operations{intent.operations?.length ? ` (${intent.operations.length})` : ''}
+                            <span className="font-normal opacity-70">- follow-up prompts run on each answer to this question</span>
+                          </summary>
+                          <div className="mt-3">
+                            {!(intent.id.trim() && intent.prompt.trim()) && (intent.operations?.length ?? 0) > 0 && (
+                              <p className="text-xs text-amber-400 mb-2">Give this question an ID and a prompt, or its operations are left out of the config.</p>
+                            )}
+                            <OperationsEditor
+                              operations={intent.operations ?? []}
+                              onChange={(operations) => updateIntentOperations(index, operations)}
+                              theme={theme}
+                              externalIds={globalOperationIds}
+                              modelNames={selectedModelNames}
+                              issues={operationIssues.filter(issue => issue.scope === configIntentId(intent.id))}
+                            />
+                          </div>
+                        </details>
                       </div>
                     ))}
                     
@@ -1793,6 +1497,79 @@ export default function Dashboard({ theme }) {
                 </div>
               </CollapsibleSection>
 
+              {/* Extraction */}
+              <CollapsibleSection
+                title="Extraction"
+                icon={<ScanSearch className="w-5 h-5 text-sky-400" />}
+                theme={theme}
+                isComplete={extraction.enabled}
+                defaultOpen={false}
+                className={`${useWizardMode && currentStep < 4 ? 'opacity-50 pointer-events-none' : ''} ${sectionBorderClass}`}
+              >
+                <ExtractionSettingsEditor options={extraction} onChange={setExtraction} theme={theme} />
+              </CollapsibleSection>
+
+              {/* Operations */}
+              <CollapsibleSection
+                title="Operations"
+                icon={<Workflow className="w-5 h-5 text-violet-400" />}
+                theme={theme}
+                isComplete={scopedOperations.length > 0 && operationErrors.length === 0}
+                defaultOpen={false}
+                className={`${useWizardMode && currentStep < 4 ? 'opacity-50 pointer-events-none' : ''} ${sectionBorderClass}`}
+              >
+                <div className="space-y-6">
+                  <div>
+                    <h4 className={`text-sm font-semibold mb-1 ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>Global operations</h4>
+                    <p className={`text-xs mb-3 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                      Run on every answer, after the operations of its question. Question-specific operations are added under each question.
+                    </p>
+                    <OperationsEditor
+                      operations={globalOperations}
+                      onChange={setGlobalOperations}
+                      theme={theme}
+                      modelNames={selectedModelNames}
+                      issues={operationIssues.filter(issue => issue.scope === GLOBAL_SCOPE)}
+                    />
+                  </div>
+
+                  <div>
+                    <h4 className={`text-sm font-semibold mb-3 ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>Dependency graph</h4>
+                    <OperationGraph operations={scopedOperations} theme={theme} />
+                  </div>
+
+                  {operationIssues.length > 0 && (
+                    <ul className="space-y-1">
+                      {operationIssues.map((issue, i) => (
+                        <li key={i} className={`text-xs flex items-center gap-1 ${issue.level === 'error' ? 'text-rose-400' : 'text-amber-400'}`}>
+                          <AlertCircle className="w-3 h-3 shrink-0" />
+                          <span className="font-mono">{issue.operationId}</span>
+                          <span className="opacity-70">({scopeLabel(issue.scope)})</span>
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CollapsibleSection>
+
+              {/* Budget Controls */}
+              <CollapsibleSection
+                title="Budget Controls"
+                icon={<Wallet className="w-5 h-5 text-amber-400" />}
+                theme={theme}
+                isComplete={activeBudget !== undefined}
+                defaultOpen={false}
+                className={`${useWizardMode && currentStep < 4 ? 'opacity-50 pointer-events-none' : ''} ${sectionBorderClass}`}
+              >
+                <BudgetEditor
+                  budget={budget}
+                  onChange={setBudget}
+                  theme={theme}
+                  estimatedCostUsd={runEstimate.costUsd}
+                />
+              </CollapsibleSection>
+
               {/* STEP 5: Review & Launch (Wizard Only) */}
               {useWizardMode && currentStep === 5 && (
                 <div className={`p-6 rounded-2xl border ${theme === 'dark' ? 'bg-navy-800/50 border-primary-500/30 shadow-lg shadow-primary-500/5' : 'bg-white border-primary-200 shadow-xl'}`}>
@@ -1803,8 +1580,8 @@ export default function Dashboard({ theme }) {
                   
                   <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-navy-900' : 'bg-gray-50'}`}>
-                      <p className="text-xs opacity-70 mb-1">Provider</p>
-                      <p className="font-medium capitalize">{selectedProvider}</p>
+                      <p className="text-xs opacity-70 mb-1">{activeProviders.length > 1 ? 'Providers' : 'Provider'}</p>
+                      <p className="font-medium">{activeProviders.map(provider => provider.name).join(' + ')}</p>
                     </div>
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-navy-900' : 'bg-gray-50'}`}>
                       <p className="text-xs opacity-70 mb-1">Brand</p>
@@ -1820,7 +1597,7 @@ export default function Dashboard({ theme }) {
                     </div>
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-navy-900' : 'bg-gray-50'}`}>
                       <p className="text-xs opacity-70 mb-1">Est. Cost</p>
-                      <p className="font-medium">~$0.001</p>
+                      <p className="font-medium">~{formatUsd(runEstimate.costUsd)}</p>
                     </div>
                     <div className={`p-3 rounded-lg ${theme === 'dark' ? 'bg-navy-900' : 'bg-gray-50'}`}>
                       <p className="text-xs opacity-70 mb-1">Est. Time</p>
@@ -1874,14 +1651,16 @@ export default function Dashboard({ theme }) {
                 {!isConfigValid && (
                   <p className="text-xs text-amber-400 mt-3 flex items-center gap-1">
                     <AlertCircle className="w-3 h-3" />
-                    Enter API key, at least one brand, and one intent
+                    {operationErrors.length > 0
+                      ? `Fix ${operationErrors.length} operation ${operationErrors.length === 1 ? 'error' : 'errors'}`
+                      : 'Enter API key, at least one brand, and one intent'}
                   </p>
                 )}
 
                 <div className={`mt-4 pt-4 border-t ${theme === 'dark' ? 'border-navy-700/50' : 'border-gray-200/50'}`}>
                   <div className="flex items-center justify-between text-sm">
                     <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>Estimated cost</span>
-                    <span className={`${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'} font-medium`}>~$0.001</span>
+                    <span className={`${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'} font-medium`}>~{formatUsd(runEstimate.costUsd)}</span>
                   </div>
                   <div className="flex items-center justify-between text-sm mt-1">
                     <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>Estimated time</span>
@@ -1906,7 +1685,15 @@ export default function Dashboard({ theme }) {
                 </div>
 
                 {showYamlPreview && (
-                  <div className={`code-block max-h-80 overflow-auto text-xs mb-4 ${theme === 'light' ? 'bg-gray-100 text-gray-800' : ''}`}>{yamlOutput}</div>
+                  <YamlEditor
+                    value={editorYaml}
+                    onChange={editYaml}
+                    onFocus={() => setEditingYaml(true)}
+                    onBlur={finishYamlEdit}
+                    errors={editorCheck.errors}
+                    warnings={editorCheck.warnings}
+                    theme={theme}
+                  />
                 )}
 
                 <div className="flex gap-2">
@@ -1925,6 +1712,29 @@ export default function Dashboard({ theme }) {
                     <Download className="w-4 h-4" /> Download
                   </button>
                 </div>
+                <button
+                  onClick={() => setShowScheduleModal(true)}
+                  disabled={!canSchedule}
+                  title={canSchedule ? 'Run this configuration automatically' : 'Add a brand and an intent first'}
+                  className={`${btnSecondaryClass} w-full mt-2 text-sm flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  <CalendarClock className="w-4 h-4" /> Schedule
+                </button>
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className={`${btnSecondaryClass} w-full mt-2 text-sm flex items-center justify-center gap-2`}
+                  title="Fill the form from a watcher.config.yaml"
+                >
+                  <FileUp className="w-4 h-4" /> Import YAML
+                </button>
+                <button
+                  onClick={() => setShowPresetsModal(true)}
+                  className={`${btnSecondaryClass} w-full mt-2 text-sm flex items-center justify-center gap-2`}
+                  title="Save or load a named configuration"
+                >
+                  <Bookmark className="w-4 h-4" />
+                  <span className="truncate">{activePreset ? `${activePreset.name} · v${activePreset.version}` : 'Presets'}</span>
+                </button>
               </div>
 
               {/* Quick Stats */}
@@ -1935,8 +1745,8 @@ export default function Dashboard({ theme }) {
                     <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} flex items-center gap-2`}>
                       <Brain className="w-4 h-4" /> Provider
                     </span>
-                    <span className={`text-sm ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'} capitalize`}>
-                      {selectedProvider}
+                    <span className={`text-sm ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
+                      {activeProviders.map(provider => provider.name).join(', ')}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -1944,7 +1754,7 @@ export default function Dashboard({ theme }) {
                       <Zap className="w-4 h-4" /> Model
                     </span>
                     <span className={`text-sm ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
-                      {selectedProvider === 'google' ? selectedGoogleModel : selectedGroqModel}
+                      {selectedModels.map(selection => getModelName(selection.model_name)).join(', ')}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -1975,17 +1785,80 @@ export default function Dashboard({ theme }) {
                     <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} flex items-center gap-2`}>
                       <Search className="w-4 h-4" /> Web Search
                     </span>
-                    <span className={`text-sm ${enableWebSearch ? 'text-green-400' : 'text-red-400'}`}>
-                      {enableWebSearch ? 'Enabled' : 'Disabled'}
+                    <span className={`text-sm ${enableWebSearch && webSearchProviders.length > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {enableWebSearch && webSearchProviders.length > 0 ? 'Enabled' : 'Disabled'}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} flex items-center gap-2`}>
+                      <ScanSearch className="w-4 h-4" /> Extraction
+                    </span>
+                    <span className={`text-sm ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
+                      {extraction.enabled
+                        ? `${EXTRACTION_METHODS.find(method => method.id === extraction.method)?.name} · ${getModelName(extraction.model.model_name)}`
+                        : 'Regex only'}
                     </span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} flex items-center gap-2`}>
+                      <Workflow className="w-4 h-4" /> Operations
+                    </span>
+                    <span className={`text-sm ${operationErrors.length > 0 ? 'text-red-400' : theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
+                      {operationErrors.length > 0
+                        ? `${operationErrors.length} to fix`
+                        : `${scopedOperations.length - globalOperations.length} per question · ${globalOperations.length} global`}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} flex items-center gap-2`}>
+                      <Wallet className="w-4 h-4" /> Budget
+                    </span>
+                    <span className={`text-sm ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
+                      {activeBudget
+                        ? activeBudget.max_per_run_usd !== null ? `Max ${formatUsd(activeBudget.max_per_run_usd)} per run` : 'Custom limits'
+                        : 'No limit'}
+                    </span>
+                  </div>
+                </div>
+
+                {/* Pre-run estimate */}
+                <div className={`mt-4 pt-4 border-t ${theme === 'dark' ? 'border-navy-700/50' : 'border-gray-200/50'}`}>
+                  <div className="flex items-center justify-between mb-3">
+                    <span className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} flex items-center gap-2`}>
+                      <DollarSign className="w-4 h-4" /> Estimated cost
+                    </span>
+                    <span className={`text-sm font-medium ${runEstimate.costUsd > confirmAboveUsd ? 'text-amber-400' : theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
+                      ~{formatUsd(runEstimate.costUsd)}{runEstimate.incomplete && '+'}
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {runEstimate.models.map(estimate => (
+                      <div
+                        key={`${estimate.role}:${estimate.selection.provider}:${estimate.selection.model_name}`}
+                        className={`flex items-center justify-between text-xs ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}
+                      >
+                        <span>{estimate.modelName}{estimate.role !== 'answers' && ` (${estimate.role})`}</span>
+                        <span className="font-mono">
+                          {estimate.inputTokens.toLocaleString()} in / {estimate.outputTokens.toLocaleString()} out
+                          {' · '}
+                          {estimate.costUsd === null ? 'no pricing' : formatUsd(estimate.costUsd)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className={`text-xs mt-3 ${theme === 'dark' ? 'text-navy-500' : 'text-gray-400'}`}>
+                    {runEstimate.queries} {runEstimate.queries === 1 ? 'query' : 'queries'}, assuming ~{ESTIMATED_OUTPUT_TOKENS_PER_ANSWER} output tokens per answer.
+                    {' '}Runs above {formatUsd(confirmAboveUsd)} ask for confirmation (change in <Link to="/settings" className="underline">Settings</Link>).
+                  </p>
                 </div>
               </div>
             </div>
           </div>
         ) : (
           <div className={`${glassCardClass} p-8`}> 
-            {isRunning ? (
+            {isRunning && runProgress ? (
+               <RunProgressPanel progress={runProgress} theme={theme} onCancel={handleCancelRun} />
+            ) : isRunning ? (
                <div className="space-y-8">
                   {/* Loading Indicator */}
                   <div className="flex flex-col items-center justify-center py-8 animate-fade-in">
@@ -2006,6 +1879,13 @@ export default function Dashboard({ theme }) {
                     <p className={`text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'} max-w-sm text-center`}>
                       We're querying the models and extracting brand mentions. This may take a few seconds...
                     </p>
+                    <button
+                      onClick={handleCancelRun}
+                      className={`mt-6 flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-colors ${theme === 'dark' ? 'border-rose-500/30 text-rose-300 hover:bg-rose-500/10' : 'border-rose-200 text-rose-600 hover:bg-rose-50'}`}
+                    >
+                      <Ban className="w-4 h-4" />
+                      Cancel Run
+                    </button>
                   </div>
 
                   {/* Skeletons */}
@@ -2028,16 +1908,67 @@ export default function Dashboard({ theme }) {
                       ))}
                    </div>
                </div>
-            ) : results && results.intents_data && results.intents_data.length > 0 ? (
+            ) : budgetStop ? (
+              <div className="flex flex-col items-center justify-center py-16 animate-fade-in">
+                <div className={`p-4 rounded-2xl mb-6 ${theme === 'dark' ? 'bg-amber-500/10 text-amber-400' : 'bg-amber-50 text-amber-600'}`}>
+                  <DollarSign className="w-10 h-10" />
+                </div>
+                <h2 className={`text-2xl font-bold mb-3 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  Run stopped by your budget
+                </h2>
+                <p className={`text-center max-w-lg mb-6 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>
+                  The estimated cost of {formatUsd(budgetStop.estimated_cost)}
+                  {budgetStop.budget_type === 'per_intent' ? ' for a single question' : ''} exceeds
+                  the {budgetStop.budget_type === 'per_intent' ? 'max per question' : 'max per run'} limit
+                  of {formatUsd(budgetStop.budget_limit)}. No queries were sent and nothing was charged.
+                </p>
+                <button onClick={() => setActiveTab('config')} className="btn-primary flex items-center gap-2">
+                  <Settings className="w-4 h-4" /> Adjust budget or questions
+                </button>
+              </div>
+            ) : resultsError ? (
+              <div className="flex flex-col items-center justify-center py-16 animate-fade-in">
+                <div className={`p-4 rounded-2xl mb-6 ${theme === 'dark' ? 'bg-rose-500/10 text-rose-400' : 'bg-rose-50 text-rose-600'}`}>
+                  <AlertCircle className="w-10 h-10" />
+                </div>
+                <h2 className={`text-2xl font-bold mb-3 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}>
+                  Results could not be displayed
+                </h2>
+                <p className={`text-center max-w-lg mb-2 ${theme === 'dark' ? 'text-navy-300' : 'text-gray-600'}`}>
+                  The server returned data for run <code className="font-mono text-primary-400">{runId}</code> in an unexpected format.
+                </p>
+                <code className={`text-xs text-center max-w-lg px-3 py-2 rounded-lg ${theme === 'dark' ? 'bg-navy-900 text-rose-300' : 'bg-gray-100 text-rose-600'}`}>
+                  {resultsError}
+                </code>
+              </div>
+            ) : results && (results.intents_data.length > 0 || results.failures.length > 0) ? (
               <>
                 <div className="flex flex-col md:flex-row md:items-center justify-between mb-6 gap-4">
                   <h2 className={`text-2xl font-bold ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
                     Search Results for Run: <span className="text-primary-400">{runId}</span>
+                    {results.run_summary.status === 'partial' && (
+                      <span
+                        className={`ml-3 align-middle inline-flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs font-semibold ${theme === 'dark' ? 'bg-amber-500/10 border-amber-500/20 text-amber-300' : 'bg-amber-50 border-amber-200 text-amber-700'}`}
+                        title="Run was cancelled or some queries failed - only the answers collected are shown"
+                      >
+                        Partial
+                      </span>
+                    )}
                   </h2>
                   <div className="flex items-center gap-4">
                     <span className={`hidden sm:block text-xs ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} italic text-right max-w-[150px]`}>
                       Download your analysis for reports or further processing
                     </span>
+                    {runId && (
+                      <button
+                        onClick={() => setShowShareModal(true)}
+                        className={`${btnSecondaryClass} flex items-center gap-2 px-4 py-2`}
+                        title="Create a read-only link for people without an account"
+                      >
+                        <Share2 className="w-4 h-4" />
+                        Share
+                      </button>
+                    )}
                     <div className="relative">
                       <button
                         onClick={() => setShowExportMenu(!showExportMenu)}
@@ -2062,7 +1993,16 @@ export default function Dashboard({ theme }) {
                               </div>
                               <div className="flex flex-col">
                                 <span className="font-medium">CSV Spreadsheet</span>
-                                <span className={`text-[10px] ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`}>For Excel/Sheets</span>
+                                <span className={`text-[10px] ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`}>One row per mention</span>
+                              </div>
+                           </button>
+                           <button onClick={() => { downloadResultsXLSX(); setShowExportMenu(false); }} className={`w-full text-left px-3 py-2.5 text-sm flex items-center gap-3 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-700 text-navy-100' : 'hover:bg-gray-50 text-gray-900'}`}>
+                              <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${theme === 'dark' ? 'bg-green-500/10' : 'bg-green-50'} shrink-0`}>
+                                <Sheet className="w-4 h-4 text-green-600" />
+                              </div>
+                              <div className="flex flex-col">
+                                <span className="font-medium">Excel Workbook</span>
+                                <span className={`text-[10px] ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`}>Answers, mentions, summary, cost</span>
                               </div>
                            </button>
                            <button onClick={() => { downloadResultsJSON(); setShowExportMenu(false); }} className={`w-full text-left px-3 py-2.5 text-sm flex items-center gap-3 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-700 text-navy-100' : 'hover:bg-gray-50 text-gray-900'}`}>
@@ -2083,94 +2023,64 @@ export default function Dashboard({ theme }) {
                                 <span className={`text-[10px] ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`}>Readable summary</span>
                               </div>
                            </button>
+                           {runId && (
+                             <button onClick={() => { window.open(reportPath(runId), '_blank'); setShowExportMenu(false); }} className={`w-full text-left px-3 py-2.5 text-sm flex items-center gap-3 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-700 text-navy-100' : 'hover:bg-gray-50 text-gray-900'}`}>
+                                <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${theme === 'dark' ? 'bg-primary-500/10' : 'bg-primary-50'} shrink-0`}>
+                                  <Printer className="w-4 h-4 text-primary-500" />
+                                </div>
+                                <div className="flex flex-col">
+                                  <span className="font-medium">Branded Report</span>
+                                  <span className={`text-[10px] ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`}>PDF or HTML with your logo</span>
+                                </div>
+                             </button>
+                           )}
                          </div>
                       </div>
                     )}
                   </div>
                 </div>
                 </div>
-                <div className="space-y-8">
-                  {results.intents_data.map((intentResult: any) => (
-                    <div key={intentResult.intent_id} className={`p-6 ${theme === 'dark' ? 'bg-navy-800/20' : 'bg-gray-100/50'} rounded-2xl border ${theme === 'dark' ? 'border-navy-700/40 hover:border-navy-600/60' : 'border-gray-200/40 hover:border-gray-300/60'} transition-colors`}>
-                      <div className="flex items-start gap-4 mb-4">
-                        <div className="w-8 h-8 rounded-lg bg-primary-500/20 flex items-center justify-center shrink-0">
-                          <MessageSquare className="w-4 h-4 text-primary-400" />
-                        </div>
-                        <h3 className={`font-bold text-xl ${theme === 'dark' ? 'text-navy-100' : 'text-gray-900'}`}>{intentResult.prompt}</h3>
-                      </div>
-
-                      {selectedProvider === 'both' ? (
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                          {intentResult.answers.map((answer: any, index: number) => (
-                            <div key={index} className={`${theme === 'dark' ? 'bg-navy-900/40' : 'bg-white/50'} rounded-xl p-5 border ${theme === 'dark' ? 'border-navy-800/50' : 'border-gray-200/50'}`}>
-                              <h4 className={`font-bold text-lg ${theme === 'dark' ? 'text-primary-300' : 'text-primary-600'} mb-3`}>{answer.model}</h4>
-                              <FormattedAnswer text={answer.answer} mentions={answer.mentions} theme={theme} />
-                              <div className="mt-4">
-                                <div className="flex items-center gap-2 mb-3">
-                                  <Target className="w-4 h-4 text-accent-400" />
-                                  <h4 className={`font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} text-sm uppercase tracking-wider`}>Detected Mentions</h4>
-                                </div>
-                                <div className="flex flex-wrap gap-3">
-                                  {answer.mentions && answer.mentions.length > 0 ? (
-                                    answer.mentions.map((mention: any, mIndex: number) => (
-                                      <div key={mIndex} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border ${mention.is_mine
-                                          ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
-                                          : 'bg-rose-500/10 border-rose-500/30 text-rose-400'}`}>
-                                        <span className="font-medium">{mention.brand}</span>
-                                        {mention.rank && (
-                                          <span className={`text-xs px-1.5 py-0.5 rounded ${mention.is_mine ? 'bg-emerald-500/20' : 'bg-rose-500/20'}`}>
-                                            #{mention.rank}
-                                          </span>
-                                        )}
-                                      </div>
-                                    ))
-                                  ) : (
-                                    <span className={`text-sm italic text-center w-full py-2 rounded-lg border border-dashed ${theme === 'dark' ? 'text-navy-500 bg-navy-900/20 border-navy-800' : 'text-gray-400 bg-gray-100/50 border-gray-200'}`}>
-                                      No brand mentions detected
-                                    </span>
-                                  )}
-                                </div>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      ) : (
-                        <div className={`${theme === 'dark' ? 'bg-navy-900/40' : 'bg-white/50'} rounded-xl p-5 mb-6 border ${theme === 'dark' ? 'border-navy-800/50' : 'border-gray-200/50'}`}>
-                          <FormattedAnswer text={intentResult.answers[0].answer} mentions={intentResult.answers[0].mentions} theme={theme} />
-                          <div className="mt-4">
-                            <div className="flex items-center gap-2 mb-3">
-                              <Target className="w-4 h-4 text-accent-400" />
-                              <h4 className={`font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'} text-sm uppercase tracking-wider`}>Detected Mentions</h4>
-                            </div>
-                            <div className="flex flex-wrap gap-3">
-                              {intentResult.answers[0].mentions && intentResult.answers[0].mentions.length > 0 ? (
-                                intentResult.answers[0].mentions.map((mention: any, mIndex: number) => (
-                                  <div key={mIndex} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border ${mention.is_mine
-                                      ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
-                                      : 'bg-rose-500/10 border-rose-500/30 text-rose-400'}`}>
-                                    <span className="font-medium">{mention.brand}</span>
-                                    {mention.rank && (
-                                      <span className={`text-xs px-1.5 py-0.5 rounded ${mention.is_mine ? 'bg-emerald-500/20' : 'bg-rose-500/20'}`}>
-                                        #{mention.rank}
-                                      </span>
-                                    )}
-                                  </div>
-                                ))
-                              ) : (
-                                <span className={`text-sm italic text-center w-full py-2 rounded-lg border border-dashed ${theme === 'dark' ? 'text-navy-500 bg-navy-900/20 border-navy-800' : 'text-gray-400 bg-gray-100/50 border-gray-200'}`}>
-                                  No brand mentions detected
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      )}
-                    </div>
+                <FailedQueriesPanel
+                  failures={results.failures}
+                  theme={theme}
+                  onRetry={handleRetryFailed}
+                  disabled={isRunning}
+                />
+                <div className={`inline-flex rounded-xl border p-1 mb-6 ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+                  {([
+                    { id: 'cards', label: 'Answers', icon: List },
+                    { id: 'matrix', label: 'Matrix', icon: LayoutGrid },
+                  ] as const).map(({ id, label, icon: Icon }) => (
+                    <button
+                      key={id}
+                      onClick={() => setResultsView(id)}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        resultsView === id
+                          ? 'bg-primary-500 text-white'
+                          : theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
                   ))}
                 </div>
-                {selectedProvider === 'both' && <StatsComparison results={results} theme={theme} />}
+                {resultsView === 'matrix' ? (
+                  <IntentBrandHeatmap
+                    results={results}
+                    brands={runBrands(results.intents_data)}
+                    theme={theme}
+                    onSelectIntent={(intentId) => {
+                      setFocusedIntent(intentId);
+                      setResultsView('cards');
+                    }}
+                  />
+                ) : (
+                <IntentAnswers results={results} theme={theme} focusedIntent={focusedIntent} />
+                )}
+                <StatsComparison results={results} theme={theme} />
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
-                  <TokenUsageStats results={results} selectedProvider={selectedProvider} selectedGoogleModel={selectedGoogleModel} selectedGroqModel={selectedGroqModel} theme={theme} />
+                  <TokenUsageStats results={results} theme={theme} />
                   <BrandRecommendation results={results} theme={theme} />
                 </div>
               </>
@@ -2242,6 +2152,54 @@ export default function Dashboard({ theme }) {
         </div>
       </footer>
 
+      {/* Cost Confirmation Modal */}
+      <ConfirmationModal
+        isOpen={showCostConfirm}
+        onClose={() => setShowCostConfirm(false)}
+        onConfirm={startRun}
+        title="Run an expensive search?"
+        message={`This run sends ${runEstimate.queries} queries and is estimated at ~${formatUsd(runEstimate.costUsd)}, above your ${formatUsd(confirmAboveUsd)} confirmation threshold.`}
+        confirmLabel="Run anyway"
+        theme={theme}
+        variant="warning"
+      />
+
+      {showImportModal && (
+        <ConfigImportModal
+          onImport={applyImportedConfig}
+          onClose={() => setShowImportModal(false)}
+          theme={theme}
+        />
+      )}
+
+      {showPresetsModal && (
+        <ConfigPresetsModal
+          yamlConfig={yamlOutput}
+          activePreset={activePreset}
+          onLoad={loadPreset}
+          onSaved={setActivePreset}
+          onDeleted={(presetId) => setActivePreset(prev => (prev?.id === presetId ? null : prev))}
+          onClose={() => setShowPresetsModal(false)}
+          theme={theme}
+        />
+      )}
+
+      {showShareModal && runId && (
+        <ShareRunModal
+          runId={runId}
+          onClose={() => setShowShareModal(false)}
+          theme={theme}
+        />
+      )}
+
+      {showScheduleModal && (
+        <ScheduleRunModal
+          yamlConfig={yamlOutput}
+          onClose={() => setShowScheduleModal(false)}
+          theme={theme}
+        />
+      )}
+
       {/* Logout Confirmation Modal */}
       <ConfirmationModal
         isOpen={showLogoutConfirm}
@@ -9,57 +9,43 @@ import {
   Calendar,
   Layers,
   DollarSign,
-  Search
+  Search,
+  GitCompare
 } from 'lucide-react';
 
 import { useAuth } from '../auth/AuthContext';
-
-// API base URL
-const API_BASE_URL = import.meta.env.VITE_API_URL || 
-  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
-
-interface Run {
-  run_id: string;
-  timestamp_utc: string;
-  total_intents: number;
-  total_models: number;
-  total_cost_usd: number;
-  input_tokens: number;
-  output_tokens: number;
-  my_brands: string;
-}
+import { isAbortError, watcherApi } from '../api/client';
+import type { RunListItem } from '../types';
 
 export default function HistoryPage({ theme }: { theme: string }) {
   const navigate = useNavigate();
   const { token } = useAuth();
-  const [runs, setRuns] = useState<Run[]>([]);
+  const [runs, setRuns] = useState<RunListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [idFilter, setIdFilter] = useState('');
   const [dateFilter, setDateFilter] = useState('');
   const [brandFilter, setBrandFilter] = useState('');
+  // Up to two run ids picked for comparison, in the order they were picked
+  const [selectedRuns, setSelectedRuns] = useState<string[]>([]);
 
   useEffect(() => {
     if (!token) return;
 
-    fetch(`${API_BASE_URL}/runs`, {
-      headers: {
-        'Authorization': `Bearer ${token}`
-      }
-    })
-      .then(res => {
-        if (!res.ok) throw new Error('Failed to fetch runs');
-        return res.json();
-      })
+    const controller = new AbortController();
+    watcherApi.listRuns(controller.signal)
       .then(data => {
         setRuns(data);
         setLoading(false);
       })
       .catch(err => {
+        if (isAbortError(err)) return;
         console.error(err);
         setError('Failed to load history. Make sure the backend is running.');
         setLoading(false);
       });
+
+    return () => controller.abort();
   }, [token]);
 
   const formatDate = (isoString: string) => {
@@ -80,6 +66,22 @@ export default function HistoryPage({ theme }: { theme: string }) {
     return matchesId && matchesDate && matchesBrand;
   });
 
+  const toggleSelected = (runId: string) => {
+    setSelectedRuns(prev => {
+      if (prev.includes(runId)) return prev.filter(id => id !== runId);
+      // Picking a third run replaces the first pick
+      return [...prev, runId].slice(-2);
+    });
+  };
+
+  const handleCompare = () => {
+    // Always diff the older run against the newer one
+    const [base, target] = runs
+      .filter(run => selectedRuns.includes(run.run_id))
+      .sort((a, b) => a.timestamp_utc.localeCompare(b.timestamp_utc));
+    navigate(`/compare?base=${base.run_id}&target=${target.run_id}`);
+  };
+
   const glassCardClass = theme === 'dark' 
     ? 'bg-navy-900/50 border-navy-700/50 backdrop-blur-xl' 
     : 'bg-white/80 border-gray-200/80 backdrop-blur-xl';
@@ -186,11 +188,26 @@ export default function HistoryPage({ theme }: { theme: string }) {
             )}
           </div>
         ) : (
+          <>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <p className={`text-sm ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+              {selectedRuns.length === 2 ? '2 runs selected' : 'Select two runs to compare them'}
+            </p>
+            <button
+              onClick={handleCompare}
+              disabled={selectedRuns.length !== 2}
+              className="btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </button>
+          </div>
           <div className={`rounded-2xl border overflow-hidden ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'} ${glassCardClass}`}>
             <div className="overflow-x-auto">
               <table className="w-full text-left border-collapse">
                 <thead>
                   <tr className={`border-b ${theme === 'dark' ? 'border-navy-700 bg-navy-900/50' : 'border-gray-200 bg-gray-50/80'}`}>
+                    <th className="p-4 w-10"><span className="sr-only">Select</span></th>
                     <th className="p-4 font-semibold text-sm">Date</th>
                     <th className="p-4 font-semibold text-sm">Run ID</th>
                     <th className="p-4 font-semibold text-sm">Scope</th>
@@ -204,6 +221,15 @@ export default function HistoryPage({ theme }: { theme: string }) {
                       key={run.run_id} 
                       className={`group transition-colors ${theme === 'dark' ? 'hover:bg-navy-800/50' : 'hover:bg-gray-50'}`}
                     >
+                      <td className="p-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedRuns.includes(run.run_id)}
+                          onChange={() => toggleSelected(run.run_id)}
+                          className="rounded accent-primary-500 cursor-pointer"
+                          aria-label={`Select run ${run.run_id.substring(0, 8)} for comparison`}
+                        />
+                      </td>
                       <td className="p-4">
                         <div className="flex items-center gap-2">
                           <Calendar className={`w-4 h-4 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`} />
@@ -214,6 +240,11 @@ export default function HistoryPage({ theme }: { theme: string }) {
                         <code className={`px-2 py-1 rounded text-xs font-mono ${theme === 'dark' ? 'bg-navy-900 text-navy-300' : 'bg-gray-100 text-gray-600'}`}>
                           {run.run_id.substring(0, 8)}...
                         </code>
+                        {run.status === 'partial' && (
+                          <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium ${theme === 'dark' ? 'bg-amber-500/10 text-amber-300' : 'bg-amber-50 text-amber-700'}`}>
+                            Partial
+                          </span>
+                        )}
                       </td>
                       <td className="p-4">
                         <div className="flex items-center gap-4 text-sm">
@@ -251,6 +282,7 @@ export default function HistoryPage({ theme }: { theme: string }) {
               </table>
             </div>
           </div>
+          </>
         )}
       </div>
     </div>
@@ -20,31 +20,23 @@ import {
   Layout,
   Check,
   Smartphone,
-  Copy
+  Copy,
+  Link2,
+  Pencil,
+  X
 } from 'lucide-react';
-import type { UserBrand, UserIntent } from '../types';
-
-// API base URL
-const API_BASE_URL = import.meta.env.VITE_API_URL ||
-  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
-
-interface StoredAPIKey {
-  id: number;
-  provider: string;
-  key_name: string | null;
-  created_at: string;
-  last_used_at: string | null;
-}
+import type { BrandEntity, ShareLink, StoredAPIKey, UserBrand, UserIntent } from '../types';
+import { ApiError, authApi, shareApi, userApi } from '../api/client';
+import { BRAND_TERM_FIELDS, EMPTY_BRAND_ENTITY, toBrandEntity } from '../config/brands';
+import { shareUrl } from '../config/shares';
+import { PROVIDERS } from '../providers/registry';
+import { SortableSelectList } from '../components/SortableSelectList';
+import { BrandEntityEditor } from '../components/BrandEntityEditor';
 
 interface ProfilePageProps {
   theme: string;
 }
 
-const PROVIDERS = [
-  { value: 'google', label: 'Google Gemini' },
-  { value: 'groq', label: 'Groq' },
-];
-
 const AVATAR_COLORS = [
   'bg-primary-500',
   'bg-blue-500',
@@ -94,15 +86,26 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
   
   const [newBrandName, setNewBrandName] = useState('');
   const [newBrandIsMine, setNewBrandIsMine] = useState(true);
+  const [newBrandEntity, setNewBrandEntity] = useState<BrandEntity>(EMPTY_BRAND_ENTITY);
   
   const [newIntentAlias, setNewIntentAlias] = useState('');
   const [newIntentPrompt, setNewIntentPrompt] = useState('');
 
+  // Inline editing, bulk selection
+  const [editingBrand, setEditingBrand] = useState<UserBrand | null>(null);
+  const [editingIntent, setEditingIntent] = useState<UserIntent | null>(null);
+  const [selectedBrandIds, setSelectedBrandIds] = useState<Set<number>>(new Set());
+  const [selectedIntentIds, setSelectedIntentIds] = useState<Set<number>>(new Set());
+
+  // Shared Links State
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+
   // Fetch API keys on mount
   useEffect(() => {
     fetchApiKeys();
     fetchBrands();
     fetchIntents();
+    fetchShareLinks();
     if (user?.username) setDisplayName(user.username);
   }, [token, user]);
 
@@ -118,19 +121,7 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
 
           // Update backend profile if changed
           if (displayName && displayName !== user?.username) {
-              const res = await fetch(`${API_BASE_URL}/auth/me`, {
-                  method: 'PUT',
-                  headers: { 
-                      'Content-Type': 'application/json',
-                      'Authorization': `Bearer ${token}` 
-                  },
-                  body: JSON.stringify({ username: displayName })
-              });
-
-              if (!res.ok) {
-                  const data = await res.json();
-                  throw new Error(data.detail || "Failed to update profile");
-              }
+              await authApi.updateMe({ username: displayName });
           }
 
           setSuccess('Profile updated successfully. Please reload to see changes globally.');
@@ -146,20 +137,9 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
     if (!token) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/api-keys`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        setApiKeys(data);
-      } else {
-        setError('Failed to fetch API keys');
-      }
+      setApiKeys(await authApi.listApiKeys());
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? 'Failed to fetch API keys' : 'Failed to connect to server');
     } finally {
       setIsLoading(false);
     }
@@ -168,12 +148,7 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
   const fetchBrands = async () => {
     if (!token) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/user/brands`, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
-      if (response.ok) {
-        setBrands(await response.json());
-      }
+      setBrands(await userApi.listBrands());
     } catch (err) {
       console.error('Failed to fetch brands', err);
     }
@@ -182,17 +157,21 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
   const fetchIntents = async () => {
     if (!token) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/user/intents`, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
-      if (response.ok) {
-        setIntents(await response.json());
-      }
+      setIntents(await userApi.listIntents());
     } catch (err) {
       console.error('Failed to fetch intents', err);
     }
   };
 
+  const fetchShareLinks = async () => {
+    if (!token) return;
+    try {
+      setShareLinks(await shareApi.list());
+    } catch (err) {
+      console.error('Failed to fetch share links', err);
+    }
+  };
+
   const handleAddKey = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -206,31 +185,18 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
     setIsSubmitting(true);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/api-keys`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          provider: newProvider,
-          api_key: newApiKey,
-          key_name: newKeyName || null,
-        }),
+      await authApi.createApiKey({
+        provider: newProvider,
+        api_key: newApiKey,
+        key_name: newKeyName || null,
       });
-
-      if (response.ok) {
-        setSuccess('API key added successfully');
-        setNewApiKey('');
-        setNewKeyName('');
-        setShowAddForm(false);
-        await fetchApiKeys();
-      } else {
-        const data = await response.json();
-        setError(data.detail || 'Failed to add API key');
-      }
+      setSuccess('API key added successfully');
+      setNewApiKey('');
+      setNewKeyName('');
+      setShowAddForm(false);
+      await fetchApiKeys();
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
     } finally {
       setIsSubmitting(false);
     }
@@ -238,23 +204,16 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
 
   const handleCopyKey = async (keyId: number, provider: string) => {
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/api-keys/${keyId}`, {
-        headers: { 'Authorization': `Bearer ${token}` },
-      });
-      if (response.ok) {
-        const data = await response.json();
-        if (data.api_key) {
-          await navigator.clipboard.writeText(data.api_key);
-          setSuccess(`Copied ${provider} key to clipboard`);
-          setTimeout(() => setSuccess(''), 3000);
-        } else {
-           setError('Key data not found');
-        }
+      const data = await authApi.getApiKey(keyId);
+      if (data.api_key) {
+        await navigator.clipboard.writeText(data.api_key);
+        setSuccess(`Copied ${provider} key to clipboard`);
+        setTimeout(() => setSuccess(''), 3000);
       } else {
-        setError('Failed to fetch key for copying');
+         setError('Key data not found');
       }
     } catch (err) {
-      setError('Failed to copy key');
+      setError(err instanceof ApiError ? 'Failed to fetch key for copying' : 'Failed to copy key');
     }
   };
 
@@ -267,22 +226,11 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
     setSuccess('');
 
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/api-keys/${keyId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        setSuccess('API key deleted successfully');
-        await fetchApiKeys();
-      } else {
-        const data = await response.json();
-        setError(data.detail || 'Failed to delete API key');
-      }
+      await authApi.deleteApiKey(keyId);
+      setSuccess('API key deleted successfully');
+      await fetchApiKeys();
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
     }
   };
 
@@ -298,29 +246,18 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
 
     setIsSubmitting(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/user/brands`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          brand_name: newBrandName,
-          is_mine: newBrandIsMine,
-        }),
+      await userApi.createBrand({
+        brand_name: newBrandName,
+        is_mine: newBrandIsMine,
+        ...newBrandEntity,
       });
-
-      if (response.ok) {
-        setSuccess('Brand added successfully');
-        setNewBrandName('');
-        setShowAddBrandForm(false);
-        await fetchBrands();
-      } else {
-        const data = await response.json();
-        setError(data.detail || 'Failed to add brand');
-      }
+      setSuccess('Brand added successfully');
+      setNewBrandName('');
+      setNewBrandEntity(EMPTY_BRAND_ENTITY);
+      setShowAddBrandForm(false);
+      await fetchBrands();
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
     } finally {
       setIsSubmitting(false);
     }
@@ -329,18 +266,68 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
   const handleDeleteBrand = async (id: number) => {
     if (!confirm('Are you sure you want to delete this brand?')) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/user/brands/${id}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` },
+      await userApi.deleteBrand(id);
+      setSelectedBrandIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
       });
-      if (response.ok) {
-        await fetchBrands();
-        setSuccess('Brand deleted successfully');
-      } else {
-        setError('Failed to delete brand');
-      }
+      await fetchBrands();
+      setSuccess('Brand deleted successfully');
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? 'Failed to delete brand' : 'Failed to connect to server');
+    }
+  };
+
+  const handleSaveBrand = async () => {
+    if (!editingBrand) return;
+    setError('');
+    setSuccess('');
+
+    if (!editingBrand.brand_name.trim()) {
+      setError('Please enter a brand name');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await userApi.updateBrand(editingBrand.id, {
+        brand_name: editingBrand.brand_name,
+        is_mine: editingBrand.is_mine,
+        ...toBrandEntity(editingBrand),
+      });
+      setEditingBrand(null);
+      setSuccess('Brand updated successfully');
+      await fetchBrands();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteSelectedBrands = async () => {
+    const ids = [...selectedBrandIds];
+    if (!confirm(`Are you sure you want to delete ${ids.length} brand${ids.length === 1 ? '' : 's'}?`)) return;
+    try {
+      const result = await userApi.deleteBrands(ids);
+      setSelectedBrandIds(new Set());
+      await fetchBrands();
+      setSuccess(result.message);
+    } catch (err) {
+      setError(err instanceof ApiError ? 'Failed to delete brands' : 'Failed to connect to server');
+    }
+  };
+
+  const handleReorderBrands = async (ids: number[]) => {
+    // Show the new order right away; the server answers with the stored one
+    const byId = new Map(brands.map(brand => [brand.id, brand]));
+    setBrands(ids.flatMap(id => byId.get(id) ?? []));
+    try {
+      setBrands(await userApi.reorderBrands(ids));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
+      await fetchBrands();
     }
   };
 
@@ -356,30 +343,17 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
 
     setIsSubmitting(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/user/intents`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          intent_alias: newIntentAlias,
-          prompt: newIntentPrompt,
-        }),
+      await userApi.createIntent({
+        intent_alias: newIntentAlias,
+        prompt: newIntentPrompt,
       });
-
-      if (response.ok) {
-        setSuccess('Intent added successfully');
-        setNewIntentAlias('');
-        setNewIntentPrompt('');
-        setShowAddIntentForm(false);
-        await fetchIntents();
-      } else {
-        const data = await response.json();
-        setError(data.detail || 'Failed to add intent');
-      }
+      setSuccess('Intent added successfully');
+      setNewIntentAlias('');
+      setNewIntentPrompt('');
+      setShowAddIntentForm(false);
+      await fetchIntents();
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
     } finally {
       setIsSubmitting(false);
     }
@@ -388,18 +362,87 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
   const handleDeleteIntent = async (id: number) => {
     if (!confirm('Are you sure you want to delete this intent?')) return;
     try {
-      const response = await fetch(`${API_BASE_URL}/user/intents/${id}`, {
-        method: 'DELETE',
-        headers: { 'Authorization': `Bearer ${token}` },
+      await userApi.deleteIntent(id);
+      setSelectedIntentIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
       });
-      if (response.ok) {
-        await fetchIntents();
-        setSuccess('Intent deleted successfully');
-      } else {
-        setError('Failed to delete intent');
-      }
+      await fetchIntents();
+      setSuccess('Intent deleted successfully');
     } catch (err) {
-      setError('Failed to connect to server');
+      setError(err instanceof ApiError ? 'Failed to delete intent' : 'Failed to connect to server');
+    }
+  };
+
+  const handleSaveIntent = async () => {
+    if (!editingIntent) return;
+    setError('');
+    setSuccess('');
+
+    if (!editingIntent.intent_alias.trim() || !editingIntent.prompt.trim()) {
+      setError('Please fill in all fields');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await userApi.updateIntent(editingIntent.id, {
+        intent_alias: editingIntent.intent_alias,
+        prompt: editingIntent.prompt,
+      });
+      setEditingIntent(null);
+      setSuccess('Intent updated successfully');
+      await fetchIntents();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDeleteSelectedIntents = async () => {
+    const ids = [...selectedIntentIds];
+    if (!confirm(`Are you sure you want to delete ${ids.length} intent${ids.length === 1 ? '' : 's'}?`)) return;
+    try {
+      const result = await userApi.deleteIntents(ids);
+      setSelectedIntentIds(new Set());
+      await fetchIntents();
+      setSuccess(result.message);
+    } catch (err) {
+      setError(err instanceof ApiError ? 'Failed to delete intents' : 'Failed to connect to server');
+    }
+  };
+
+  const handleReorderIntents = async (ids: number[]) => {
+    const byId = new Map(intents.map(intent => [intent.id, intent]));
+    setIntents(ids.flatMap(id => byId.get(id) ?? []));
+    try {
+      setIntents(await userApi.reorderIntents(ids));
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to connect to server');
+      await fetchIntents();
+    }
+  };
+
+  const handleCopyShareLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link.token));
+      setSuccess('Copied share link to clipboard');
+      setTimeout(() => setSuccess(''), 3000);
+    } catch {
+      setError('Failed to copy share link');
+    }
+  };
+
+  const handleRevokeShareLink = async (id: number) => {
+    if (!confirm('Revoke this link? Anyone who has it will no longer see the results.')) return;
+    try {
+      await shareApi.revoke(id);
+      await fetchShareLinks();
+      setSuccess('Share link revoked');
+    } catch (err) {
+      setError(err instanceof ApiError ? 'Failed to revoke share link' : 'Failed to connect to server');
     }
   };
 
@@ -619,8 +662,8 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
                       disabled={isSubmitting}
                     >
                       {PROVIDERS.map((p) => (
-                        <option key={p.value} value={p.value}>
-                          {p.label}
+                        <option key={p.id} value={p.id}>
+                          {p.name}
                         </option>
                       ))}
                     </select>
@@ -722,7 +765,7 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
                     </div>
                     <div>
                       <div className={`font-medium ${textClass}`}>
-                        {PROVIDERS.find((p) => p.value === key.provider)?.label || key.provider}
+                        {PROVIDERS.find((p) => p.id === key.provider)?.name || key.provider}
                         {key.key_name && (
                           <span className={`ml-2 text-sm ${mutedTextClass}`}>({key.key_name})</span>
                         )}
@@ -815,13 +858,14 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
                     </label>
                   </div>
                 </div>
+                <BrandEntityEditor entity={newBrandEntity} onChange={setNewBrandEntity} theme={theme} />
                 <div className="flex gap-3">
                   <button type="submit" disabled={isSubmitting} className="btn-primary flex items-center gap-2">
                     {isSubmitting ? 'Saving...' : 'Save Brand'}
                   </button>
                   <button
                     type="button"
-                    onClick={() => { setShowAddBrandForm(false); setNewBrandName(''); }}
+                    onClick={() => { setShowAddBrandForm(false); setNewBrandName(''); setNewBrandEntity(EMPTY_BRAND_ENTITY); }}
                     className="btn-secondary"
                   >
                     Cancel
@@ -832,28 +876,114 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
           )}
 
           {/* Brands List */}
-          <div className="space-y-3">
-            {brands.map((brand) => (
-              <div key={brand.id} className={`${cardBgClass} p-4 rounded-xl border border-navy-700/50 flex items-center justify-between`}>
-                <div className="flex items-center gap-4">
-                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${brand.is_mine ? 'bg-green-500/10' : 'bg-orange-500/10'}`}>
+          <SortableSelectList
+            items={brands}
+            isLocked={(brand) => brand.id === editingBrand?.id}
+            selectedIds={selectedBrandIds}
+            onSelectionChange={setSelectedBrandIds}
+            onDeleteSelected={handleDeleteSelectedBrands}
+            onReorder={handleReorderBrands}
+            noun="brands"
+            emptyText="No brands added yet."
+            theme={theme}
+            renderItem={(brand) => editingBrand?.id === brand.id ? (
+              <div className="space-y-3" onKeyDown={(e) => { if (e.key === 'Escape') setEditingBrand(null); }}>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="text"
+                    value={editingBrand.brand_name}
+                    onChange={(e) => setEditingBrand({ ...editingBrand, brand_name: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleSaveBrand();
+                      }
+                    }}
+                    className={`${inputClass} flex-1 min-w-[12rem]`}
+                    disabled={isSubmitting}
+                    autoFocus
+                  />
+                  <div className="flex gap-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={editingBrand.is_mine}
+                        onChange={() => setEditingBrand({ ...editingBrand, is_mine: true })}
+                        className="form-radio text-primary-500"
+                        disabled={isSubmitting}
+                      />
+                      <span className={textClass}>My Brand</span>
+                    </label>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={!editingBrand.is_mine}
+                        onChange={() => setEditingBrand({ ...editingBrand, is_mine: false })}
+                        className="form-radio text-primary-500"
+                        disabled={isSubmitting}
+                      />
+                      <span className={textClass}>Competitor</span>
+                    </label>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={handleSaveBrand}
+                      disabled={isSubmitting}
+                      title="Save"
+                      className="p-2 rounded-lg text-green-500 hover:bg-green-500/10 transition-colors"
+                    >
+                      <Check className="w-5 h-5" />
+                    </button>
+                    <button
+                      onClick={() => setEditingBrand(null)}
+                      title="Cancel"
+                      className={`p-2 rounded-lg ${mutedTextClass} hover:bg-navy-500/10 transition-colors`}
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+                <BrandEntityEditor
+                  entity={toBrandEntity(editingBrand)}
+                  onChange={(entity) => setEditingBrand({ ...editingBrand, ...entity })}
+                  theme={theme}
+                />
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className={`w-10 h-10 rounded-lg flex-shrink-0 flex items-center justify-center ${brand.is_mine ? 'bg-green-500/10' : 'bg-orange-500/10'}`}>
                     <Building2 className={`w-5 h-5 ${brand.is_mine ? 'text-green-500' : 'text-orange-500'}`} />
                   </div>
-                  <div>
-                    <div className={`font-medium ${textClass}`}>{brand.brand_name}</div>
+                  <div className="min-w-0">
+                    <div className={`font-medium truncate ${textClass}`}>{brand.brand_name}</div>
                     <div className={`text-sm ${mutedTextClass}`}>{brand.is_mine ? 'My Brand' : 'Competitor'}</div>
+                    {BRAND_TERM_FIELDS.filter(({ key }) => brand[key].length > 0).map(({ key, label }) => (
+                      <div key={key} className={`text-xs truncate ${mutedTextClass}`}>
+                        {label}: {brand[key].join(', ')}
+                      </div>
+                    ))}
                   </div>
                 </div>
-                <button
-                  onClick={() => handleDeleteBrand(brand.id)}
-                  className={`p-2 rounded-lg ${mutedTextClass} hover:text-red-500 hover:bg-red-500/10 transition-colors`}
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setEditingBrand(brand)}
+                    title="Edit brand"
+                    className={`p-2 rounded-lg ${mutedTextClass} hover:text-primary-500 hover:bg-primary-500/10 transition-colors`}
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteBrand(brand.id)}
+                    title="Delete brand"
+                    className={`p-2 rounded-lg ${mutedTextClass} hover:text-red-500 hover:bg-red-500/10 transition-colors`}
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
               </div>
-            ))}
-            {brands.length === 0 && <p className={`text-center py-6 ${mutedTextClass}`}>No brands added yet.</p>}
-          </div>
+            )}
+          />
         </div>
 
         {/* Intents Section */}
@@ -917,27 +1047,125 @@ export default function ProfilePage({ theme }: ProfilePageProps) {
           )}
 
           {/* Intents List */}
-          <div className="space-y-3">
-            {intents.map((intent) => (
-              <div key={intent.id} className={`${cardBgClass} p-4 rounded-xl border border-navy-700/50 flex items-center justify-between`}>
-                <div className="flex items-center gap-4 flex-1">
-                  <div className="w-10 h-10 rounded-lg bg-blue-500/10 flex items-center justify-center">
+          <SortableSelectList
+            items={intents}
+            isLocked={(intent) => intent.id === editingIntent?.id}
+            selectedIds={selectedIntentIds}
+            onSelectionChange={setSelectedIntentIds}
+            onDeleteSelected={handleDeleteSelectedIntents}
+            onReorder={handleReorderIntents}
+            noun="intents"
+            emptyText="No intents added yet."
+            theme={theme}
+            renderItem={(intent) => editingIntent?.id === intent.id ? (
+              <div
+                className="grid gap-3"
+                onKeyDown={(e) => {
+                  // Enter adds a line in the prompt; Ctrl/Cmd+Enter saves from it
+                  const inPrompt = e.target instanceof HTMLTextAreaElement;
+                  if (e.key === 'Enter' && (e.target instanceof HTMLInputElement || (inPrompt && (e.ctrlKey || e.metaKey)))) {
+                    e.preventDefault();
+                    handleSaveIntent();
+                  }
+                  if (e.key === 'Escape') setEditingIntent(null);
+                }}
+              >
+                <input
+                  type="text"
+                  value={editingIntent.intent_alias}
+                  onChange={(e) => setEditingIntent({ ...editingIntent, intent_alias: e.target.value })}
+                  className={inputClass}
+                  disabled={isSubmitting}
+                  autoFocus
+                />
+                <textarea
+                  value={editingIntent.prompt}
+                  onChange={(e) => setEditingIntent({ ...editingIntent, prompt: e.target.value })}
+                  className={`${inputClass} min-h-[100px]`}
+                  disabled={isSubmitting}
+                />
+                <div className="flex gap-3">
+                  <button onClick={handleSaveIntent} disabled={isSubmitting} className="btn-primary flex items-center gap-2 text-sm">
+                    <Check className="w-4 h-4" />
+                    {isSubmitting ? 'Saving...' : 'Save'}
+                  </button>
+                  <button onClick={() => setEditingIntent(null)} className="btn-secondary text-sm">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4 flex-1 min-w-0">
+                  <div className="w-10 h-10 rounded-lg flex-shrink-0 bg-blue-500/10 flex items-center justify-center">
                     <Search className="w-5 h-5 text-blue-500" />
                   </div>
-                  <div className="flex-1">
+                  <div className="flex-1 min-w-0">
                     <div className={`font-medium ${textClass}`}>{intent.intent_alias}</div>
                     <div className={`text-sm ${mutedTextClass} line-clamp-2`}>{intent.prompt}</div>
                   </div>
                 </div>
-                <button
-                  onClick={() => handleDeleteIntent(intent.id)}
-                  className={`p-2 rounded-lg ${mutedTextClass} hover:text-red-500 hover:bg-red-500/10 transition-colors`}
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setEditingIntent(intent)}
+                    title="Edit intent"
+                    className={`p-2 rounded-lg ${mutedTextClass} hover:text-primary-500 hover:bg-primary-500/10 transition-colors`}
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteIntent(intent.id)}
+                    title="Delete intent"
+                    className={`p-2 rounded-lg ${mutedTextClass} hover:text-red-500 hover:bg-red-500/10 transition-colors`}
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+            )}
+          />
+        </div>
+
+        {/* Shared Links Section */}
+        <div className={`${glassCardClass} p-6 rounded-2xl mb-8`}>
+          <div className="flex items-center gap-3 mb-2">
+            <Link2 className="w-6 h-6 text-primary-500" />
+            <h2 className={`text-xl font-semibold ${textClass}`}>Shared Links</h2>
+          </div>
+          <p className={`text-sm mb-6 ${mutedTextClass}`}>
+            Read-only links to run results. Create them with Share on the results tab.
+          </p>
+
+          <div className="space-y-3">
+            {shareLinks.map((link) => (
+              <div key={link.id} className={`${cardBgClass} p-4 rounded-xl border border-navy-700/50 flex items-center justify-between gap-4`}>
+                <div className="min-w-0 flex-1">
+                  <Link to={`/shared/${link.token}`} className={`font-medium ${textClass} hover:text-primary-500`}>
+                    Run {link.run_id}
+                  </Link>
+                  <div className={`text-sm ${mutedTextClass}`}>
+                    Created {formatDate(link.created_at)} · {link.expires_at ? `Expires ${formatDate(link.expires_at)}` : 'Never expires'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleCopyShareLink(link)}
+                    className={`p-2 rounded-lg ${mutedTextClass} hover:text-primary-500 hover:bg-primary-500/10 transition-colors`}
+                    title="Copy link"
+                  >
+                    <Copy className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleRevokeShareLink(link.id)}
+                    className={`p-2 rounded-lg ${mutedTextClass} hover:text-red-500 hover:bg-red-500/10 transition-colors`}
+                    title="Revoke link"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
               </div>
             ))}
-            {intents.length === 0 && <p className={`text-center py-6 ${mutedTextClass}`}>No intents added yet.</p>}
+            {shareLinks.length === 0 && <p className={`text-center py-6 ${mutedTextClass}`}>No active share links.</p>}
           </div>
         </div>
 
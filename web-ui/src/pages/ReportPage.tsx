@@ -0,0 +1,375 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Download, Palette, Printer } from 'lucide-react';
+
+import { useAuth } from '../auth/AuthContext';
+import { ApiError, isAbortError, userApi, watcherApi } from '../api/client';
+import { ResponseValidationError } from '../api/validation';
+import { formatUsd } from '../analytics/estimate';
+import { METRICS } from '../analytics/metrics';
+import { answerCostUsd, summarizeRunReport, type BrandShare, type RunReportSummary } from '../analytics/report';
+import { FormattedAnswer } from '../components/RunResultsView';
+import { DEFAULT_REPORT_BRANDING, parseReportBranding, standaloneReportHtml } from '../config/report';
+import { getModelName } from '../providers/registry';
+import type { ReportBranding, RunResults } from '../types';
+
+// Charts only show the most mentioned brands so they fit on a page
+const CHART_BRANDS = 10;
+
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatPercent = (value: number) => `${value.toFixed(0)}%`;
+
+function SectionTitle({ children, branding }: { children: React.ReactNode; branding: ReportBranding }) {
+  return (
+    <h2 className="text-lg font-bold mb-4 pb-2 border-b-2" style={{ color: branding.primaryColor, borderColor: branding.primaryColor }}>
+      {children}
+    </h2>
+  );
+}
+
+function StatTile({ label, value, hint, branding }: { label: string; value: string; hint?: string; branding: ReportBranding }) {
+  return (
+    <div className="rounded-xl border border-gray-200 p-4">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{label}</p>
+      <p className="text-2xl font-bold mt-1" style={{ color: branding.accentColor }}>{value}</p>
+      {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+// Horizontal bars, one per brand; my brands use the primary color, competitors the accent
+function BrandBars({ brands, value, label, branding }: {
+  brands: BrandShare[];
+  // 0-100 bar length
+  value: (brand: BrandShare) => number;
+  label: (brand: BrandShare) => string;
+  branding: ReportBranding;
+}) {
+  return (
+    <div className="space-y-2">
+      {brands.map(brand => (
+        <div key={brand.brand} className="grid grid-cols-[10rem_1fr_4rem] items-center gap-3 text-sm">
+          <span className={`truncate ${brand.is_mine ? 'font-bold' : 'text-gray-700'}`} title={brand.brand}>{brand.brand}</span>
+          <div className="h-4 rounded bg-gray-100 overflow-hidden">
+            <div
+              className="h-full rounded"
+              style={{ width: `${Math.max(value(brand), 1)}%`, backgroundColor: brand.is_mine ? branding.primaryColor : branding.accentColor }}
+            />
+          </div>
+          <span className="text-right font-mono text-gray-700">{label(brand)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ExecutiveSummary({ results, summary, branding }: { results: RunResults; summary: RunReportSummary; branding: ReportBranding }) {
+  const { metrics } = summary;
+  const topCompetitor = summary.brands.find(brand => !brand.is_mine);
+  const bestModel = [...summary.models]
+    .filter(model => model.metrics.shareOfVoice !== null)
+    .sort((a, b) => (b.metrics.shareOfVoice ?? 0) - (a.metrics.shareOfVoice ?? 0))[0];
+
+  const findings: string[] = [];
+  if (summary.answersMentioningMe === 0) {
+    findings.push(`Your brand was not mentioned in any of the ${summary.answers} answers.`);
+  } else {
+    findings.push(`Your brand was mentioned in ${summary.answersMentioningMe} of ${summary.answers} answers (${formatPercent((summary.answersMentioningMe / summary.answers) * 100)}).`);
+  }
+  if (metrics.shareOfVoice !== null) {
+    findings.push(`It holds ${METRICS.shareOfVoice.format(metrics.shareOfVoice)} of the ${metrics.totalMentions} brand mentions across all answers.`);
+  }
+  if (metrics.averageRank !== null) {
+    findings.push(`When ranked, it sits at position ${METRICS.averageRank.format(metrics.averageRank)} on average and is the top pick ${METRICS.rank1Rate.format(metrics.rank1Rate ?? 0)} of the time.`);
+  }
+  if (topCompetitor) {
+    findings.push(`The most visible competitor is ${topCompetitor.brand}, with ${topCompetitor.mentions} mentions (${formatPercent(topCompetitor.share)} share of voice).`);
+  }
+  if (bestModel && summary.models.length > 1) {
+    findings.push(`${getModelName(bestModel.model)} gives your brand the most visibility (${METRICS.shareOfVoice.format(bestModel.metrics.shareOfVoice ?? 0)} share of voice).`);
+  }
+  if (results.failures.length > 0) {
+    findings.push(`${results.failures.length} ${results.failures.length === 1 ? 'query' : 'queries'} failed and ${results.failures.length === 1 ? 'is' : 'are'} not included.`);
+  }
+
+  return (
+    <section className="mb-10 break-inside-avoid">
+      <SectionTitle branding={branding}>Executive Summary</SectionTitle>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-5">
+        <StatTile
+          label="Share of Voice"
+          value={metrics.shareOfVoice === null ? '-' : METRICS.shareOfVoice.format(metrics.shareOfVoice)}
+          hint={`${metrics.myMentions} of ${metrics.totalMentions} mentions`}
+          branding={branding}
+        />
+        <StatTile
+          label="Average Rank"
+          value={metrics.averageRank === null ? '-' : `#${METRICS.averageRank.format(metrics.averageRank)}`}
+          hint="Lower is better"
+          branding={branding}
+        />
+        <StatTile
+          label="Mention Rate"
+          value={summary.answers > 0 ? formatPercent((summary.answersMentioningMe / summary.answers) * 100) : '-'}
+          hint={`${summary.answers} answers`}
+          branding={branding}
+        />
+        <StatTile
+          label="Net Sentiment"
+          value={metrics.netSentiment === null ? '-' : METRICS.netSentiment.format(metrics.netSentiment)}
+          hint="-100 to +100"
+          branding={branding}
+        />
+      </div>
+      <ul className="list-disc pl-5 space-y-1 text-sm text-gray-800">
+        {findings.map(finding => <li key={finding}>{finding}</li>)}
+      </ul>
+    </section>
+  );
+}
+
+export default function ReportPage({ theme }: { theme: string }) {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const { runId = '' } = useParams();
+  const reportRef = useRef<HTMLElement>(null);
+  const [loaded, setLoaded] = useState<{ results?: RunResults; branding: ReportBranding; error?: string } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    // A report without custom branding is still a report
+    const brandingRequest = userApi.getSettings(controller.signal)
+      .then(settings => parseReportBranding(settings.report))
+      .catch(() => DEFAULT_REPORT_BRANDING);
+
+    Promise.all([watcherApi.getResults(runId, controller.signal), brandingRequest])
+      .then(([results, branding]) => setLoaded({ results, branding }))
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        let message = 'Failed to load the run. Make sure the backend is running.';
+        if (err instanceof ResponseValidationError) {
+          message = err.message;
+        } else if (err instanceof ApiError && err.status === 404) {
+          message = 'This run could not be found.';
+        }
+        setLoaded({ branding: DEFAULT_REPORT_BRANDING, error: message });
+      });
+
+    return () => controller.abort();
+  }, [token, runId]);
+
+  const results = loaded?.results ?? null;
+  const branding = loaded?.branding ?? DEFAULT_REPORT_BRANDING;
+  const summary = useMemo(() => (results ? summarizeRunReport(results.intents_data) : null), [results]);
+  const title = `${branding.companyName || 'LLM Answer Watcher'} - AI Visibility Report - ${runId}`;
+
+  // The browser suggests the document title as the PDF file name
+  useEffect(() => {
+    const previous = document.title;
+    document.title = title;
+    return () => {
+      document.title = previous;
+    };
+  }, [title]);
+
+  const downloadHtml = () => {
+    if (!reportRef.current) return;
+    const blob = new Blob([standaloneReportHtml(reportRef.current, title)], { type: 'text/html' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `llm-watcher-report-${runId}.html`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const chartBrands = summary?.brands.slice(0, CHART_BRANDS) ?? [];
+  const rankedBrands = summary?.brands.filter(brand => brand.averageRank !== null).slice(0, CHART_BRANDS) ?? [];
+
+  return (
+    <div className={`min-h-screen print:min-h-0 print:bg-white ${theme === 'dark' ? 'bg-navy-950' : 'light-mode-bg'}`}>
+      {/* Toolbar */}
+      <div className={`print:hidden sticky top-0 z-40 border-b backdrop-blur-xl ${theme === 'dark' ? 'border-navy-800/50 bg-navy-900/80 text-white' : 'border-slate-200 bg-white/80 text-gray-900'}`}>
+        <div className="max-w-4xl mx-auto px-6 py-3 flex items-center justify-between gap-3">
+          <button
+            onClick={() => navigate(-1)}
+            className={`flex items-center gap-2 text-sm ${theme === 'dark' ? 'text-navy-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            <ArrowLeft className="w-4 h-4" /> Back
+          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              to="/settings"
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'}`}
+              title="Logo and colors of the report"
+            >
+              <Palette className="w-4 h-4" /> Branding
+            </Link>
+            <button onClick={downloadHtml} disabled={!results} className="btn-secondary text-sm px-4 py-2 flex items-center gap-2">
+              <Download className="w-4 h-4" /> HTML
+            </button>
+            <button onClick={() => window.print()} disabled={!results} className="btn-primary text-sm px-4 py-2 flex items-center gap-2">
+              <Printer className="w-4 h-4" /> Print / Save as PDF
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {loaded?.error ? (
+        <div className="max-w-4xl mx-auto px-6 py-8">
+          <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5" />
+            {loaded.error}
+          </div>
+        </div>
+      ) : !results || !summary ? (
+        <div className="flex justify-center py-20">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      ) : (
+        <article
+          ref={reportRef}
+          className="report-page max-w-4xl mx-auto my-8 print:my-0 p-10 print:p-0 bg-white text-gray-900 rounded-2xl print:rounded-none shadow-xl print:shadow-none"
+        >
+          {/* Cover */}
+          <header className="flex items-start justify-between gap-6 pb-6 mb-8 border-b-4" style={{ borderColor: branding.primaryColor }}>
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-widest" style={{ color: branding.accentColor }}>
+                {branding.companyName || 'LLM Answer Watcher'}
+              </p>
+              <h1 className="text-3xl font-bold mt-1">AI Visibility Report</h1>
+              <p className="text-sm text-gray-500 mt-2">
+                Run {results.run_summary.run_id} - {formatDate(results.run_summary.timestamp_utc)}
+                {results.run_summary.status === 'partial' && ' - partial results'}
+              </p>
+              <p className="text-sm text-gray-500">
+                {results.intents_data.length} questions - {summary.models.length} {summary.models.length === 1 ? 'model' : 'models'} - {summary.answers} answers
+              </p>
+            </div>
+            {branding.logoUrl && (
+              <img src={branding.logoUrl} alt={branding.companyName || 'Logo'} className="max-h-16 max-w-48 object-contain" />
+            )}
+          </header>
+
+          <ExecutiveSummary results={results} summary={summary} branding={branding} />
+
+          {chartBrands.length > 0 && (
+            <section className="mb-10 break-inside-avoid">
+              <SectionTitle branding={branding}>Share of Voice</SectionTitle>
+              <p className="text-xs text-gray-500 mb-3">Share of all brand mentions across the answers. Your brands are highlighted.</p>
+              <BrandBars
+                brands={chartBrands}
+                value={brand => brand.share}
+                label={brand => formatPercent(brand.share)}
+                branding={branding}
+              />
+            </section>
+          )}
+
+          {rankedBrands.length > 0 && (
+            <section className="mb-10 break-inside-avoid">
+              <SectionTitle branding={branding}>Ranking</SectionTitle>
+              <p className="text-xs text-gray-500 mb-3">Average list position when the answer ranks the brand. Longer bars rank higher.</p>
+              <BrandBars
+                brands={rankedBrands}
+                value={brand => 100 / (brand.averageRank ?? 1)}
+                label={brand => `#${(brand.averageRank ?? 0).toFixed(1)}`}
+                branding={branding}
+              />
+            </section>
+          )}
+
+          <section className="mb-10 break-inside-avoid">
+            <SectionTitle branding={branding}>Model Comparison</SectionTitle>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3">Model</th>
+                  <th className="py-2 pr-3 text-right">Answers</th>
+                  <th className="py-2 pr-3 text-right">Mention rate</th>
+                  <th className="py-2 pr-3 text-right">Share of voice</th>
+                  <th className="py-2 pr-3 text-right">Avg. rank</th>
+                  <th className="py-2 pr-3 text-right">Tokens</th>
+                  <th className="py-2 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.models.map(model => (
+                  <tr key={model.model} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 font-medium">{getModelName(model.model)}</td>
+                    <td className="py-2 pr-3 text-right">{model.answers}</td>
+                    <td className="py-2 pr-3 text-right">{formatPercent(model.mentionRate)}</td>
+                    <td className="py-2 pr-3 text-right">{model.metrics.shareOfVoice === null ? '-' : METRICS.shareOfVoice.format(model.metrics.shareOfVoice)}</td>
+                    <td className="py-2 pr-3 text-right">{model.metrics.averageRank === null ? '-' : `#${METRICS.averageRank.format(model.metrics.averageRank)}`}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{model.totalTokens.toLocaleString()}</td>
+                    <td className="py-2 text-right font-mono">{formatUsd(model.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-bold">
+                  <td className="py-2 pr-3">Total</td>
+                  <td className="py-2 pr-3 text-right">{summary.answers}</td>
+                  <td className="py-2 pr-3" colSpan={3}></td>
+                  <td className="py-2 pr-3 text-right font-mono">{summary.totalTokens.toLocaleString()}</td>
+                  <td className="py-2 text-right font-mono" style={{ color: branding.primaryColor }}>{formatUsd(summary.costUsd)}</td>
+                </tr>
+              </tfoot>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">Costs include the operations run on each answer.</p>
+          </section>
+
+          <section>
+            <SectionTitle branding={branding}>Answers</SectionTitle>
+            <div className="space-y-8">
+              {results.intents_data.map(intent => (
+                <div key={intent.intent_id}>
+                  <h3 className="font-bold text-base mb-3">{intent.prompt}</h3>
+                  <div className="space-y-4">
+                    {intent.answers.map((answer, index) => (
+                      <div key={`${answer.model}-${index}`} className="rounded-xl border border-gray-200 p-4">
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                          <span className="text-sm font-semibold" style={{ color: branding.accentColor }}>{getModelName(answer.model)}</span>
+                          <span className="text-xs text-gray-500 font-mono">{formatUsd(answerCostUsd(answer))}</span>
+                        </div>
+                        {answer.mentions.length > 0 && (
+                          <div className="flex flex-wrap gap-1.5 mb-3">
+                            {answer.mentions.map((mention, mentionIndex) => (
+                              <span
+                                key={`${mention.normalized_name}-${mentionIndex}`}
+                                className={`px-2 py-0.5 rounded-md border text-xs ${mention.is_mine ? 'border-emerald-300 bg-emerald-50 text-emerald-700' : 'border-rose-200 bg-rose-50 text-rose-700'}`}
+                              >
+                                {mention.rank ? `#${mention.rank} ` : ''}{mention.normalized_name}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        <FormattedAnswer text={answer.answer} mentions={answer.mentions} theme="light" />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <footer className="mt-10 pt-4 border-t border-gray-200 text-xs text-gray-400 flex justify-between">
+            <span>Generated by LLM Answer Watcher</span>
+            <span>{formatDate(new Date().toISOString())}</span>
+          </footer>
+        </article>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CalendarClock,
+  ChevronRight,
+  Loader2,
+  Pause,
+  Play,
+  Trash2,
+} from 'lucide-react';
+
+import { useAuth } from '../auth/AuthContext';
+import { isAbortError, scheduleApi } from '../api/client';
+import { formatUsd } from '../analytics/estimate';
+import { describeCron } from '../config/schedules';
+import { useToast } from '../context/ToastContext';
+import type { Schedule } from '../types';
+
+const STATUS_STYLES: Record<NonNullable<Schedule['last_status']>, { label: string; dark: string; light: string }> = {
+  success: { label: 'Success', dark: 'bg-emerald-500/10 text-emerald-300', light: 'bg-emerald-50 text-emerald-700' },
+  partial: { label: 'Partial', dark: 'bg-amber-500/10 text-amber-300', light: 'bg-amber-50 text-amber-700' },
+  failed: { label: 'Failed', dark: 'bg-rose-500/10 text-rose-300', light: 'bg-rose-50 text-rose-700' },
+  running: { label: 'Running', dark: 'bg-sky-500/10 text-sky-300', light: 'bg-sky-50 text-sky-700' },
+};
+
+export default function SchedulesPage({ theme }: { theme: string }) {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const { showToast } = useToast();
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // Schedule with a pause/resume/delete request in flight
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    scheduleApi.list(controller.signal)
+      .then(data => {
+        setSchedules(data);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setError('Failed to load schedules. Make sure the backend is running.');
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [token]);
+
+  const formatDate = (isoString: string | null) => {
+    if (!isoString) return '—';
+    return new Date(isoString).toLocaleString(undefined, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const toggleEnabled = async (schedule: Schedule) => {
+    setBusyId(schedule.id);
+    try {
+      const updated = await scheduleApi.update(schedule.id, { enabled: !schedule.enabled });
+      setSchedules(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+      showToast(`${updated.enabled ? 'Resumed' : 'Paused'} "${updated.name}"`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to update schedule', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}"? Runs it already made stay in the history.`)) return;
+    setBusyId(schedule.id);
+    try {
+      await scheduleApi.delete(schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+      showToast(`Deleted "${schedule.name}"`, 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Failed to delete schedule', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const glassCardClass = theme === 'dark'
+    ? 'bg-navy-900/50 border-navy-700/50 backdrop-blur-xl'
+    : 'bg-white/80 border-gray-200/80 backdrop-blur-xl';
+  const mutedClass = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'bg-navy-950 text-white' : 'bg-slate-50 text-black'} p-6 md:p-12`}>
+      <div className="max-w-6xl mx-auto">
+
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <button
+            onClick={() => navigate('/app')}
+            className={`p-2 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-800 text-navy-300' : 'hover:bg-gray-200 text-gray-600'}`}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <CalendarClock className="w-8 h-8 text-primary-500" />
+              Schedules
+            </h1>
+            <p className={`mt-1 ${mutedClass}`}>
+              Saved configurations that run automatically with your saved API keys
+            </p>
+          </div>
+        </div>
+
+        {/* Content */}
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className={`text-center py-20 rounded-2xl border border-dashed ${theme === 'dark' ? 'border-navy-700 bg-navy-900/30' : 'border-gray-300 bg-gray-50'}`}>
+            <CalendarClock className={`w-12 h-12 mx-auto mb-4 ${theme === 'dark' ? 'text-navy-600' : 'text-gray-400'}`} />
+            <h3 className="text-xl font-medium mb-2">No schedules yet</h3>
+            <p className={mutedClass}>
+              Use "Schedule" in the Dashboard to run a configuration daily, weekly or on a cron expression.
+            </p>
+            <button
+              onClick={() => navigate('/app')}
+              className="mt-6 btn-primary"
+            >
+              Go to Dashboard
+            </button>
+          </div>
+        ) : (
+          <div className={`rounded-2xl border overflow-hidden ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'} ${glassCardClass}`}>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className={`border-b ${theme === 'dark' ? 'border-navy-700 bg-navy-900/50' : 'border-gray-200 bg-gray-50/80'}`}>
+                    <th className="p-4 font-semibold text-sm">Name</th>
+                    <th className="p-4 font-semibold text-sm">Next Run</th>
+                    <th className="p-4 font-semibold text-sm">Last Run</th>
+                    <th className="p-4 font-semibold text-sm">Last Cost</th>
+                    <th className="p-4 font-semibold text-sm">Action</th>
+                  </tr>
+                </thead>
+                <tbody className={`divide-y ${theme === 'dark' ? 'divide-navy-700/50' : 'divide-gray-200/50'}`}>
+                  {schedules.map((schedule) => {
+                    const statusStyle = schedule.last_status ? STATUS_STYLES[schedule.last_status] : null;
+                    const busy = busyId === schedule.id;
+                    return (
+                      <tr
+                        key={schedule.id}
+                        className={`transition-colors ${theme === 'dark' ? 'hover:bg-navy-800/50' : 'hover:bg-gray-50'} ${schedule.enabled ? '' : 'opacity-60'}`}
+                      >
+                        <td className="p-4">
+                          <div className="font-medium">{schedule.name}</div>
+                          <div className={`text-xs mt-0.5 ${mutedClass}`} title={schedule.cron}>
+                            {describeCron(schedule.cron)} · {schedule.run_count} {schedule.run_count === 1 ? 'run' : 'runs'}
+                          </div>
+                        </td>
+                        <td className="p-4 text-sm">
+                          {schedule.enabled ? formatDate(schedule.next_run_at) : <span className={mutedClass}>Paused</span>}
+                        </td>
+                        <td className="p-4 text-sm">
+                          <div className="flex items-center gap-2">
+                            <span>{formatDate(schedule.last_run_at)}</span>
+                            {statusStyle && (
+                              <span
+                                className={`px-1.5 py-0.5 rounded text-xs font-medium ${theme === 'dark' ? statusStyle.dark : statusStyle.light}`}
+                                title={schedule.last_error ?? undefined}
+                              >
+                                {statusStyle.label}
+                              </span>
+                            )}
+                          </div>
+                          {schedule.last_error && (
+                            <p className="text-xs text-rose-400 mt-1 max-w-xs truncate" title={schedule.last_error}>
+                              {schedule.last_error}
+                            </p>
+                          )}
+                        </td>
+                        <td className="p-4 text-sm">
+                          {schedule.last_cost_usd !== null ? formatUsd(schedule.last_cost_usd) : <span className={mutedClass}>—</span>}
+                        </td>
+                        <td className="p-4">
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => toggleEnabled(schedule)}
+                              disabled={busy}
+                              className="btn-secondary p-2 disabled:opacity-50"
+                              title={schedule.enabled ? 'Pause' : 'Resume'}
+                            >
+                              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : schedule.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => handleDelete(schedule)}
+                              disabled={busy}
+                              className="btn-danger p-2 disabled:opacity-50"
+                              title="Delete schedule"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                            {schedule.last_run_id && schedule.last_status !== 'running' && (
+                              <button
+                                onClick={() => navigate(`/app?runId=${schedule.last_run_id}&tab=results`)}
+                                className={`flex items-center gap-1 text-sm font-medium transition-colors ${theme === 'dark' ? 'text-primary-400 hover:text-primary-300' : 'text-primary-600 hover:text-primary-700'}`}
+                              >
+                                Last Report <ChevronRight className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -19,16 +19,19 @@ import {
   AlignJustify,
   Layout,
   Rows,
-  Sliders
+  Sliders,
+  DollarSign,
+  Palette,
+  Upload
 } from 'lucide-react';
 import { useAuth } from '../auth/AuthContext';
 import { useToast } from '../context/ToastContext';
 import AccessibilitySettings from '../components/AccessibilitySettings';
-
-
-// API base URL
-const API_BASE_URL = import.meta.env.VITE_API_URL ||
-  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
+import IntegrationsSettings from '../components/IntegrationsSettings';
+import { userApi } from '../api/client';
+import { DEFAULT_CONFIRM_ABOVE_USD } from '../analytics/estimate';
+import { DEFAULT_REPORT_BRANDING, MAX_LOGO_BYTES, parseReportBranding } from '../config/report';
+import type { ReportBranding } from '../types';
 
 interface SettingsPageProps {
   theme: string;
@@ -52,6 +55,12 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
     fontSize: 'medium'
   });
 
+  const [spending, setSpending] = useState({
+    confirmAboveUsd: DEFAULT_CONFIRM_ABOVE_USD
+  });
+
+  const [report, setReport] = useState<ReportBranding>(DEFAULT_REPORT_BRANDING);
+
   const [isDeleting, setIsDeleting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,20 +71,17 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
     
     const fetchSettings = async () => {
         try {
-            const res = await fetch(`${API_BASE_URL}/user/settings`, {
-                headers: { 'Authorization': `Bearer ${token}` }
-            });
-            if (res.ok) {
-                const data = await res.json();
-                if (Object.keys(data).length > 0) {
-                    if (data.notifications) setNotifications(data.notifications);
-                    if (data.appearance) {
-                        const { theme: savedTheme, ...rest } = data.appearance;
-                        setAppearance(rest);
-                        // Sync theme if different (optional, might cause flicker if App doesn't handle it)
-                        if (savedTheme && savedTheme !== theme) {
-                            toggleTheme(); 
-                        }
+            const data = await userApi.getSettings();
+            if (Object.keys(data).length > 0) {
+                if (data.notifications) setNotifications(data.notifications);
+                if (data.spending) setSpending(data.spending);
+                if (data.report) setReport(parseReportBranding(data.report));
+                if (data.appearance) {
+                    const { theme: savedTheme, ...rest } = data.appearance;
+                    setAppearance(rest);
+                    // Sync theme if different (optional, might cause flicker if App doesn't handle it)
+                    if (savedTheme && savedTheme !== theme) {
+                        toggleTheme(); 
                     }
                 }
             }
@@ -94,18 +100,11 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
 
     const saveSettings = async () => {
         try {
-            await fetch(`${API_BASE_URL}/user/settings`, {
-                method: 'PUT',
-                headers: { 
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${token}` 
-                },
-                body: JSON.stringify({ 
-                    settings: { 
-                        notifications, 
-                        appearance: { ...appearance, theme } // Include theme in saved settings
-                    } 
-                })
+            await userApi.updateSettings({
+                notifications, 
+                appearance: { ...appearance, theme }, // Include theme in saved settings
+                spending,
+                report
             });
         } catch (err) {
             console.error("Failed to save settings", err);
@@ -114,23 +113,16 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
 
     const timer = setTimeout(saveSettings, 1000);
     return () => clearTimeout(timer);
-  }, [notifications, appearance, theme, token, isLoading]);
+  }, [notifications, appearance, spending, report, theme, token, isLoading]);
 
 
-  const saveNotificationsImmediate = async (newNotifications: any) => {
+  const saveNotificationsImmediate = async (newNotifications: typeof notifications) => {
       try {
-          await fetch(`${API_BASE_URL}/user/settings`, {
-              method: 'PUT',
-              headers: { 
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${token}` 
-              },
-              body: JSON.stringify({ 
-                  settings: { 
-                      notifications: newNotifications, 
-                      appearance: { ...appearance, theme } 
-                  } 
-              })
+          await userApi.updateSettings({
+              notifications: newNotifications, 
+              appearance: { ...appearance, theme },
+              spending,
+              report
           });
       } catch (err) {
           console.error("Failed to save settings", err);
@@ -192,6 +184,23 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
     }
   };
 
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      showToast('The logo must be an image', 'error');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      showToast(`The logo must be smaller than ${MAX_LOGO_BYTES / 1024} KB`, 'error');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') setReport(prev => ({ ...prev, logoUrl: reader.result as string }));
+    };
+    reader.readAsDataURL(file);
+  };
+
   const handleLogout = async () => {
     navigate('/', { replace: true });
     await logout();
@@ -202,16 +211,8 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
     
     setIsDeleting(true);
     try {
-      const res = await fetch(`${API_BASE_URL}/user/history`, {
-          method: 'DELETE',
-          headers: { 'Authorization': `Bearer ${token}` }
-      });
-      
-      if (res.ok) {
-          showToast('Search history cleared successfully', 'success');
-      } else {
-          throw new Error('Failed to clear history');
-      }
+      await userApi.clearHistory();
+      showToast('Search history cleared successfully', 'success');
     } catch (error) {
       showToast('Failed to clear history', 'error');
     } finally {
@@ -222,13 +223,7 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
   const handleExportData = async () => {
     setIsExporting(true);
     try {
-        const res = await fetch(`${API_BASE_URL}/user/export`, {
-            headers: { 'Authorization': `Bearer ${token}` }
-        });
-        
-        if (!res.ok) throw new Error("Export failed");
-        
-        const data = await res.json();
+        const data = await userApi.exportData();
         
         const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
@@ -462,6 +457,121 @@ export default function SettingsPage({ theme, toggleTheme }: SettingsPageProps)
             </div>
           </div>
 
+          {/* Integrations */}
+          <IntegrationsSettings theme={theme} />
+
+          {/* Report Branding */}
+          <div className={`${glassCardClass} ${styles.cardPadding}`}>
+            <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+              <Palette className="w-5 h-5 text-primary-400" />
+              Report Branding
+            </h2>
+            <p className={`text-sm mb-6 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+              Name, logo and colors of the reports exported from a run's results
+            </p>
+            <div className={styles.cardSpace}>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="block text-sm font-medium mb-1">Company name</span>
+                  <input
+                    type="text"
+                    value={report.companyName}
+                    onChange={(e) => setReport(prev => ({ ...prev, companyName: e.target.value }))}
+                    placeholder="Shown on the report cover"
+                    className={`w-full px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`}
+                  />
+                </label>
+                <div>
+                  <span className="block text-sm font-medium mb-1">Logo</span>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="url"
+                      value={report.logoUrl.startsWith('data:') ? '' : report.logoUrl}
+                      onChange={(e) => setReport(prev => ({ ...prev, logoUrl: e.target.value.trim() }))}
+                      placeholder={report.logoUrl.startsWith('data:') ? 'Uploaded image' : 'https://.../logo.png'}
+                      className={`flex-1 min-w-0 px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white placeholder-navy-500' : 'bg-white border-gray-200 text-gray-900 placeholder-gray-400'}`}
+                      aria-label="Logo URL"
+                    />
+                    <label className="btn-secondary text-sm px-3 py-2 flex items-center gap-1 cursor-pointer" title="Upload an image">
+                      <Upload className="w-4 h-4" />
+                      <input type="file" accept="image/*" className="hidden" onChange={(e) => handleLogoUpload(e.target.files?.[0])} />
+                    </label>
+                    {report.logoUrl && (
+                      <button onClick={() => setReport(prev => ({ ...prev, logoUrl: '' }))} className="btn-danger p-2" title="Remove logo">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                {([
+                  { key: 'primaryColor', label: 'Primary color' },
+                  { key: 'accentColor', label: 'Accent color' },
+                ] as const).map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-sm font-medium">
+                    <input
+                      type="color"
+                      value={report[key]}
+                      onChange={(e) => setReport(prev => ({ ...prev, [key]: e.target.value }))}
+                      className="w-10 h-8 rounded cursor-pointer bg-transparent"
+                    />
+                    {label}
+                  </label>
+                ))}
+                <button
+                  onClick={() => setReport(DEFAULT_REPORT_BRANDING)}
+                  className={`text-sm ${theme === 'dark' ? 'text-navy-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                >
+                  Reset to defaults
+                </button>
+              </div>
+
+              {/* Preview of the report cover */}
+              <div className="rounded-xl bg-white text-gray-900 p-4 flex items-center justify-between gap-4 border-b-4" style={{ borderColor: report.primaryColor }}>
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-widest" style={{ color: report.accentColor }}>
+                    {report.companyName || 'LLM Answer Watcher'}
+                  </p>
+                  <p className="text-lg font-bold">AI Visibility Report</p>
+                </div>
+                {report.logoUrl && <img src={report.logoUrl} alt="Logo preview" className="max-h-10 max-w-32 object-contain" />}
+              </div>
+            </div>
+          </div>
+
+          {/* Spending */}
+          <div className={`${glassCardClass} ${styles.cardPadding}`}>
+            <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
+              <DollarSign className="w-5 h-5 text-amber-400" />
+              Spending
+            </h2>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h3 className="font-medium">Confirm expensive runs</h3>
+                <p className={`text-sm ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                  Ask before launching a run whose estimated cost is above this amount (0 confirms every run)
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <span className={theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}>$</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={spending.confirmAboveUsd}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (Number.isFinite(value) && value >= 0) setSpending({ confirmAboveUsd: value });
+                  }}
+                  className={`w-24 px-3 py-2 rounded-lg border text-sm ${theme === 'dark' ? 'bg-navy-900 border-navy-700 text-white' : 'bg-white border-gray-200 text-gray-900'}`}
+                  aria-label="Confirmation threshold in USD"
+                />
+              </div>
+            </div>
+          </div>
+
           {/* Data Management */}
           <div className={`${glassCardClass} ${styles.cardPadding}`}>
              <h2 className="text-xl font-semibold mb-6 flex items-center gap-2">
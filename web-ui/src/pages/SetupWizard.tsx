@@ -11,9 +11,7 @@ import {
   Plus,
   X,
   Sparkles,
-  Zap,
   Building2,
-  Users,
   Search,
   AlertCircle,
   HelpCircle,
@@ -23,22 +21,41 @@ import {
   Edit2,
   MessageSquare,
   ArrowRight,
-  FastForward
+  FastForward,
+  Wallet
 } from 'lucide-react';
-import { GEMINI_MODELS, GROQ_MODELS, INTENT_TEMPLATES } from '../types';
-
-// API base URL
-const API_BASE_URL = import.meta.env.VITE_API_URL ||
-  (import.meta.env.PROD ? '/api' : 'http://127.0.0.1:8000');
+import { INTENT_TEMPLATES } from '../types';
+import type { BudgetConfig, ModelSelection, Provider } from '../types';
+import { ApiError, authApi, userApi } from '../api/client';
+import { ModelPicker } from '../components/ModelPicker';
+import { BudgetEditor } from '../components/BudgetEditor';
+import { estimateRun, formatUsd } from '../analytics/estimate';
+import { loadBudget, parseBudget, saveBudget, toBudgetConfig } from '../config/budget';
+import {
+  PROVIDERS,
+  emptyApiKeys,
+  getModelName,
+  loadModelSelections,
+  parseModelSelections,
+  saveModelSelections,
+  selectedProviders,
+} from '../providers/registry';
+
+// Rejected items (e.g. a brand that already exists) must not abort the whole setup,
+// only connection failures do
+const ignoreApiError = (err: unknown) => {
+  if (!(err instanceof ApiError)) throw err;
+};
 
 // Step definitions
 const STEPS = [
   { id: 'welcome', name: 'Welcome', description: 'Quick Setup Guide' },
-  { id: 'provider', name: 'Provider', description: 'Select AI Provider' },
+  { id: 'provider', name: 'Models', description: 'Select AI Models' },
   { id: 'api-keys', name: 'API Keys', description: 'Connect Accounts' },
   { id: 'brands', name: 'Brands', description: 'Your Identity' },
   { id: 'competitors', name: 'Competitors', description: 'Rival Brands' },
   { id: 'queries', name: 'Queries', description: 'Search Intents' },
+  { id: 'budget', name: 'Budget', description: 'Cost Limits' },
   { id: 'review', name: 'Finish', description: 'Review & Confirm' },
 ];
 
@@ -48,16 +65,13 @@ interface SetupWizardProps {
 
 // Wizard state interface
 interface WizardState {
-  selectedProvider: 'google' | 'groq' | 'both';
-  googleApiKey: string;
-  groqApiKey: string;
-  googleKeyName: string;
-  groqKeyName: string;
-  selectedGoogleModel: string;
-  selectedGroqModel: string;
+  selectedModels: ModelSelection[];
+  apiKeys: Record<Provider, string>;
+  keyNames: Record<Provider, string>;
   brands: string[];
   competitors: string[];
   queries: Array<{ id: string; prompt: string }>;
+  budget: BudgetConfig;
 }
 
 // Local storage key for auto-save
@@ -77,22 +91,18 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
   // Form validation errors
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  // Password visibility
-  const [showGoogleKey, setShowGoogleKey] = useState(false);
-  const [showGroqKey, setShowGroqKey] = useState(false);
+  // Password visibility per provider
+  const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
 
   // Wizard state
   const [state, setState] = useState<WizardState>({
-    selectedProvider: 'google',
-    googleApiKey: '',
-    groqApiKey: '',
-    googleKeyName: '',
-    groqKeyName: '',
-    selectedGoogleModel: GEMINI_MODELS[0].id,
-    selectedGroqModel: GROQ_MODELS[0].id,
+    selectedModels: loadModelSelections(),
+    apiKeys: emptyApiKeys(),
+    keyNames: emptyApiKeys(),
     brands: [''],
     competitors: [''],
     queries: [{ id: '', prompt: '' }],
+    budget: loadBudget(),
   });
 
   // Load saved state from localStorage on mount
@@ -105,8 +115,10 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
         setState(prev => ({
           ...prev,
           ...parsed,
-          googleApiKey: '',
-          groqApiKey: '',
+          selectedModels: parseModelSelections(parsed.selectedModels),
+          budget: parseBudget(parsed.budget),
+          keyNames: { ...prev.keyNames, ...parsed.keyNames },
+          apiKeys: emptyApiKeys(),
         }));
       } catch {
         // Ignore parse errors
@@ -118,8 +130,7 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
   useEffect(() => {
     const toSave = {
       ...state,
-      googleApiKey: '', // Don't save API keys
-      groqApiKey: '',
+      apiKeys: emptyApiKeys(), // Don't save API keys
     };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
   }, [state]);
@@ -140,20 +151,14 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
         break;
 
       case 'api-keys':
-        if (state.selectedProvider === 'google' || state.selectedProvider === 'both') {
-          if (!state.googleApiKey.trim()) {
-            newErrors.googleApiKey = 'Google API key is required';
-          } else if (state.googleApiKey.trim().length < 10) {
-            newErrors.googleApiKey = 'Invalid API key format';
+        selectedProviders(state.selectedModels).forEach(provider => {
+          const key = state.apiKeys[provider.id].trim();
+          if (!key) {
+            newErrors[`apiKey_${provider.id}`] = `${provider.name} API key is required`;
+          } else if (key.length < 10) {
+            newErrors[`apiKey_${provider.id}`] = 'Invalid API key format';
           }
-        }
-        if (state.selectedProvider === 'groq' || state.selectedProvider === 'both') {
-          if (!state.groqApiKey.trim()) {
-            newErrors.groqApiKey = 'Groq API key is required';
-          } else if (state.groqApiKey.trim().length < 10) {
-            newErrors.groqApiKey = 'Invalid API key format';
-          }
-        }
+        });
         break;
 
       case 'brands':
@@ -222,81 +227,42 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
 
     try {
       // Save API keys
-      if (state.selectedProvider === 'google' || state.selectedProvider === 'both') {
-        await fetch(`${API_BASE_URL}/auth/api-keys`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            provider: 'google',
-            api_key: state.googleApiKey,
-            key_name: state.googleKeyName || 'Default',
-          }),
-        });
-      }
-
-      if (state.selectedProvider === 'groq' || state.selectedProvider === 'both') {
-        await fetch(`${API_BASE_URL}/auth/api-keys`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            provider: 'groq',
-            api_key: state.groqApiKey,
-            key_name: state.groqKeyName || 'Default',
-          }),
-        });
+      for (const provider of selectedProviders(state.selectedModels)) {
+        await authApi.createApiKey({
+          provider: provider.id,
+          api_key: state.apiKeys[provider.id],
+          key_name: state.keyNames[provider.id] || 'Default',
+        }).catch(ignoreApiError);
       }
 
       // Save brands
       for (const brand of state.brands.filter(b => b.trim())) {
-        await fetch(`${API_BASE_URL}/user/brands`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            brand_name: brand.trim(),
-            is_mine: true,
-          }),
-        });
+        await userApi.createBrand({
+          brand_name: brand.trim(),
+          is_mine: true,
+        }).catch(ignoreApiError);
       }
 
       // Save competitors
       for (const competitor of state.competitors.filter(c => c.trim())) {
-        await fetch(`${API_BASE_URL}/user/brands`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            brand_name: competitor.trim(),
-            is_mine: false,
-          }),
-        });
+        await userApi.createBrand({
+          brand_name: competitor.trim(),
+          is_mine: false,
+        }).catch(ignoreApiError);
       }
 
       // Save intents/queries
       for (const query of state.queries.filter(q => q.id.trim() && q.prompt.trim())) {
-        await fetch(`${API_BASE_URL}/user/intents`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            intent_alias: query.id.trim(),
-            prompt: query.prompt.trim(),
-          }),
-        });
+        await userApi.createIntent({
+          intent_alias: query.id.trim(),
+          prompt: query.prompt.trim(),
+        }).catch(ignoreApiError);
       }
 
+      // The Dashboard starts with the models and budget picked here
+      saveModelSelections(state.selectedModels);
+      saveBudget(state.budget);
+
       // Clear saved wizard state
       localStorage.removeItem(STORAGE_KEY);
 
@@ -427,6 +393,8 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
     );
   }
 
+  const reviewBudget = toBudgetConfig(state.budget);
+
   // Render step content
   const renderStepContent = () => {
     switch (STEPS[currentStep].id) {
@@ -448,7 +416,7 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
               </h3>
               <ul className="space-y-4">
                 {[
-                  'Connect AI Provider (Google/Groq)',
+                  `Connect AI Providers (${PROVIDERS.map(provider => provider.name).join(', ')})`,
                   'Define your Brand & Competitors',
                   'Set up Search Queries',
                 ].map((item, i) => (
@@ -468,100 +436,17 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
         return (
           <div className="max-w-3xl mx-auto px-4">
             <h2 className={`text-2xl font-bold ${textClass} mb-3 text-center`}>
-              Choose Your AI Provider
+              Choose Your AI Models
             </h2>
             <p className={`${mutedClass} mb-8 text-center max-w-xl mx-auto`}>
-              Select which AI models will be used to analyze your brand's presence.
+              Select which AI models will be used to analyze your brand's presence. Pick several to compare them side-by-side.
             </p>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              {/* Google Gemini */}
-              <button
-                onClick={() => updateState({ selectedProvider: 'google' })}
-                className={`${cardClass} p-6 text-left transition-all hover:scale-[1.02] ${
-                  state.selectedProvider === 'google'
-                    ? 'ring-2 ring-primary-500 border-primary-500'
-                    : 'opacity-80 hover:opacity-100'
-                }`}
-              >
-                <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 ${
-                  state.selectedProvider === 'google'
-                    ? 'bg-primary-500/20'
-                    : isDark ? 'bg-navy-800' : 'bg-slate-100'
-                }`}>
-                  <Sparkles className={`w-8 h-8 ${
-                    state.selectedProvider === 'google' ? 'text-primary-500' : mutedClass
-                  }`} />
-                </div>
-                <div className="flex items-center gap-2 mb-2">
-                  <span className={`font-bold text-lg ${textClass}`}>Google Gemini</span>
-                  <CheckCircle2 className={`w-5 h-5 text-primary-500 transition-opacity ${
-                    state.selectedProvider === 'google' ? 'opacity-100' : 'opacity-0'
-                  }`} />
-                </div>
-                <p className={`text-sm ${mutedClass}`}>
-                  Includes web search grounding. Best for real-time accuracy.
-                </p>
-              </button>
-
-              {/* Groq */}
-              <button
-                onClick={() => updateState({ selectedProvider: 'groq' })}
-                className={`${cardClass} p-6 text-left transition-all hover:scale-[1.02] ${
-                  state.selectedProvider === 'groq'
-                    ? 'ring-2 ring-primary-500 border-primary-500'
-                    : 'opacity-80 hover:opacity-100'
-                }`}
-              >
-                <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 ${
-                  state.selectedProvider === 'groq'
-                    ? 'bg-primary-500/20'
-                    : isDark ? 'bg-navy-800' : 'bg-slate-100'
-                }`}>
-                  <Zap className={`w-8 h-8 ${
-                    state.selectedProvider === 'groq' ? 'text-primary-500' : mutedClass
-                  }`} />
-                </div>
-                <div className="flex items-center gap-2 mb-2">
-                  <span className={`font-bold text-lg ${textClass}`}>Groq</span>
-                  <CheckCircle2 className={`w-5 h-5 text-primary-500 transition-opacity ${
-                    state.selectedProvider === 'groq' ? 'opacity-100' : 'opacity-0'
-                  }`} />
-                </div>
-                <p className={`text-sm ${mutedClass}`}>
-                  Ultra-fast Llama 3 models. Great for high volume analysis.
-                </p>
-              </button>
-
-              {/* Both */}
-              <button
-                onClick={() => updateState({ selectedProvider: 'both' })}
-                className={`${cardClass} p-6 text-left transition-all hover:scale-[1.02] ${
-                  state.selectedProvider === 'both'
-                    ? 'ring-2 ring-accent-500 border-accent-500'
-                    : 'opacity-80 hover:opacity-100'
-                }`}
-              >
-                <div className={`w-14 h-14 rounded-2xl flex items-center justify-center mb-4 ${
-                  state.selectedProvider === 'both'
-                    ? 'bg-accent-500/20'
-                    : isDark ? 'bg-navy-800' : 'bg-slate-100'
-                }`}>
-                  <Users className={`w-8 h-8 ${
-                    state.selectedProvider === 'both' ? 'text-accent-500' : mutedClass
-                  }`} />
-                </div>
-                <div className="flex items-center gap-2 mb-2">
-                  <span className={`font-bold text-lg ${textClass}`}>Use Both</span>
-                  <CheckCircle2 className={`w-5 h-5 text-accent-500 transition-opacity ${
-                    state.selectedProvider === 'both' ? 'opacity-100' : 'opacity-0'
-                  }`} />
-                </div>
-                <p className={`text-sm ${mutedClass}`}>
-                  Compare results side-by-side. The most comprehensive option.
-                </p>
-              </button>
-            </div>
+            <ModelPicker
+              selections={state.selectedModels}
+              onChange={(selectedModels) => updateState({ selectedModels })}
+              theme={theme}
+            />
           </div>
         );
 
@@ -578,112 +463,62 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
              </div>
 
             <div className="space-y-6">
-              {/* Google Gemini API Key */}
-              {(state.selectedProvider === 'google' || state.selectedProvider === 'both') && (
-                <div className={`${cardClass} p-6`}>
-                  <div className="flex items-center gap-3 mb-6 pb-4 border-b border-gray-100/10">
-                    <div className="p-2 rounded-lg bg-primary-500/10">
-                      <Sparkles className="w-6 h-6 text-primary-500" />
-                    </div>
-                    <span className={`font-bold text-lg ${textClass}`}>Google Gemini</span>
-                  </div>
-
-                  <div className="space-y-5">
-                    <div>
-                      <label className={labelClass}>
-                        API Key <span className="text-red-400">*</span>
-                      </label>
-                      <div className="relative">
-                        <input
-                          type={showGoogleKey ? 'text' : 'password'}
-                          value={state.googleApiKey}
-                          onChange={(e) => updateState({ googleApiKey: e.target.value })}
-                          placeholder="AIza..."
-                          className={`${inputClass} pr-12 ${errors.googleApiKey ? 'border-red-500 focus:border-red-500' : ''}`}
-                        />
-                        <button
-                          type="button"
-                          onClick={() => setShowGoogleKey(!showGoogleKey)}
-                          className={`absolute right-3 top-1/2 -translate-y-1/2 ${mutedClass} hover:text-primary-500 p-2`}
-                        >
-                          {showGoogleKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                        </button>
+              {selectedProviders(state.selectedModels).map((provider, index) => {
+                const Icon = provider.icon;
+                const error = errors[`apiKey_${provider.id}`];
+                return (
+                  <div key={provider.id} className={`${cardClass} p-6`}>
+                    <div className="flex items-center gap-3 mb-6 pb-4 border-b border-gray-100/10">
+                      <div className={`p-2 rounded-lg ${index % 2 === 0 ? 'bg-primary-500/10' : 'bg-accent-500/10'}`}>
+                        <Icon className={`w-6 h-6 ${index % 2 === 0 ? 'text-primary-500' : 'text-accent-500'}`} />
                       </div>
-                      {errors.googleApiKey && (
-                        <p className="text-red-400 text-sm mt-1 flex items-center gap-1">
-                          <AlertCircle className="w-4 h-4" />
-                          {errors.googleApiKey}
-                        </p>
-                      )}
+                      <span className={`font-bold text-lg ${textClass}`}>{provider.name}</span>
                     </div>
-                  </div>
-
-                  <div className={`mt-6 p-4 rounded-xl ${isDark ? 'bg-navy-900/50' : 'bg-slate-50'} flex items-center justify-between`}>
-                    <span className={`text-xs ${mutedClass}`}>Don't have a key?</span>
-                    <a
-                      href="https://aistudio.google.com/app/apikey"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-xs font-medium text-primary-500 hover:underline flex items-center gap-1"
-                    >
-                      Get one from Google AI Studio <ArrowRight className="w-3 h-3" />
-                    </a>
-                  </div>
-                </div>
-              )}
 
-              {/* Groq API Key */}
-              {(state.selectedProvider === 'groq' || state.selectedProvider === 'both') && (
-                <div className={`${cardClass} p-6`}>
-                   <div className="flex items-center gap-3 mb-6 pb-4 border-b border-gray-100/10">
-                    <div className="p-2 rounded-lg bg-accent-500/10">
-                      <Zap className="w-6 h-6 text-accent-500" />
+                    <div className="space-y-5">
+                      <div>
+                        <label className={labelClass}>
+                          API Key <span className="text-red-400">*</span>
+                        </label>
+                        <div className="relative">
+                          <input
+                            type={visibleKeys[provider.id] ? 'text' : 'password'}
+                            value={state.apiKeys[provider.id]}
+                            onChange={(e) => updateState({ apiKeys: { ...state.apiKeys, [provider.id]: e.target.value } })}
+                            placeholder={provider.keyPlaceholder}
+                            className={`${inputClass} pr-12 ${error ? 'border-red-500 focus:border-red-500' : ''}`}
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setVisibleKeys(prev => ({ ...prev, [provider.id]: !prev[provider.id] }))}
+                            className={`absolute right-3 top-1/2 -translate-y-1/2 ${mutedClass} hover:text-primary-500 p-2`}
+                          >
+                            {visibleKeys[provider.id] ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                          </button>
+                        </div>
+                        {error && (
+                          <p className="text-red-400 text-sm mt-1 flex items-center gap-1">
+                            <AlertCircle className="w-4 h-4" />
+                            {error}
+                          </p>
+                        )}
+                      </div>
                     </div>
-                    <span className={`font-bold text-lg ${textClass}`}>Groq</span>
-                  </div>
 
-                  <div className="space-y-5">
-                    <div>
-                      <label className={labelClass}>
-                        API Key <span className="text-red-400">*</span>
-                      </label>
-                      <div className="relative">
-                        <input
-                          type={showGroqKey ? 'text' : 'password'}
-                          value={state.groqApiKey}
-                          onChange={(e) => updateState({ groqApiKey: e.target.value })}
-                          placeholder="gsk_..."
-                          className={`${inputClass} pr-12 ${errors.groqApiKey ? 'border-red-500 focus:border-red-500' : ''}`}
-                        />
-                        <button
-                          type="button"
-                          onClick={() => setShowGroqKey(!showGroqKey)}
-                          className={`absolute right-3 top-1/2 -translate-y-1/2 ${mutedClass} hover:text-primary-500 p-2`}
-                        >
-                          {showGroqKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                        </button>
-                      </div>
-                      {errors.groqApiKey && (
-                        <p className="text-red-400 text-sm mt-1 flex items-center gap-1">
-                          <AlertCircle className="w-4 h-4" />
-                          {errors.groqApiKey}
-                        </p>
-                      )}
+                    <div className={`mt-6 p-4 rounded-xl ${isDark ? 'bg-navy-900/50' : 'bg-slate-50'} flex items-center justify-between`}>
+                      <span className={`text-xs ${mutedClass}`}>Don't have a key?</span>
+                      <a
+                        href={provider.keyUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs font-medium text-primary-500 hover:underline flex items-center gap-1"
+                      >
+                        Get one from {provider.keyUrlLabel} <ArrowRight className="w-3 h-3" />
+                      </a>
                     </div>
                   </div>
-                   <div className={`mt-6 p-4 rounded-xl ${isDark ? 'bg-navy-900/50' : 'bg-slate-50'} flex items-center justify-between`}>
-                    <span className={`text-xs ${mutedClass}`}>Don't have a key?</span>
-                    <a
-                      href="https://console.groq.com/keys"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-xs font-medium text-primary-500 hover:underline flex items-center gap-1"
-                    >
-                      Get one from Groq Console <ArrowRight className="w-3 h-3" />
-                    </a>
-                  </div>
-                </div>
-              )}
+                );
+              })}
             </div>
           </div>
         );
@@ -902,6 +737,29 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
           </div>
         );
 
+      case 'budget':
+        return (
+          <div className="max-w-2xl mx-auto px-4">
+            <div className="text-center mb-8">
+              <h2 className={`text-2xl font-bold ${textClass} mb-2`}>
+                Set a Budget
+              </h2>
+              <p className={`${mutedClass}`}>
+                Optional limits that stop a run before it starts if its estimated cost is too high.
+              </p>
+            </div>
+
+            <div className={`${cardClass} p-6`}>
+              <BudgetEditor
+                budget={state.budget}
+                onChange={(budget) => updateState({ budget })}
+                theme={theme}
+                estimatedCostUsd={estimateRun(state.queries, state.selectedModels).costUsd}
+              />
+            </div>
+          </div>
+        );
+
       case 'review':
         return (
           <div className="max-w-3xl mx-auto px-4">
@@ -916,12 +774,12 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
 
             <div className="grid gap-6">
               {/* Summary Cards */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className={`${cardClass} p-6 flex flex-col items-center text-center`}>
                       <Sparkles className="w-8 h-8 text-primary-500 mb-3" />
-                      <h3 className={`font-bold ${textClass}`}>Provider</h3>
+                      <h3 className={`font-bold ${textClass}`}>Models</h3>
                       <p className={mutedClass}>
-                         {state.selectedProvider === 'both' ? 'Google + Groq' : state.selectedProvider === 'google' ? 'Google Gemini' : 'Groq'}
+                         {state.selectedModels.map(selection => getModelName(selection.model_name)).join(' + ')}
                       </p>
                       <button onClick={() => goToStep(1)} className="text-xs text-primary-500 hover:underline mt-2">Edit</button>
                   </div>
@@ -936,6 +794,18 @@ export default function SetupWizard({ theme }: SetupWizardProps) {
                       </div>
                       <button onClick={() => goToStep(3)} className="text-xs text-primary-500 hover:underline mt-2">Edit</button>
                   </div>
+
+                  <div className={`${cardClass} p-6 flex flex-col items-center text-center`}>
+                      <Wallet className="w-8 h-8 text-amber-500 mb-3" />
+                      <h3 className={`font-bold ${textClass}`}>Budget</h3>
+                      <p className={mutedClass}>
+                         {reviewBudget?.max_per_run_usd ? `Max ${formatUsd(reviewBudget.max_per_run_usd)} per run` : reviewBudget ? 'Custom limits' : 'No limit'}
+                      </p>
+                      <p className={`text-xs ${mutedClass}`}>
+                         Est. ~{formatUsd(estimateRun(state.queries, state.selectedModels).costUsd)} per run
+                      </p>
+                      <button onClick={() => goToStep(6)} className="text-xs text-primary-500 hover:underline mt-2">Edit</button>
+                  </div>
               </div>
               
               <div className={`${cardClass} p-6`}>
@@ -0,0 +1,131 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertCircle, Eye, LayoutGrid, List, Search } from 'lucide-react';
+
+import { isAbortError, shareApi } from '../api/client';
+import { IntentBrandHeatmap } from '../components/IntentBrandHeatmap';
+import { BrandRecommendation, IntentAnswers, StatsComparison, TokenUsageStats } from '../components/RunResultsView';
+import { runBrands } from '../analytics/metrics';
+import type { RunResults } from '../types';
+
+// Public, read-only view of a run's results behind a share token (no sign-in)
+export default function SharedResultsPage({ theme }: { theme: string }) {
+  const { token = '' } = useParams();
+  const [results, setResults] = useState<RunResults | null>(null);
+  const [error, setError] = useState('');
+  const [view, setView] = useState<'cards' | 'matrix'>('cards');
+  const [focusedIntent, setFocusedIntent] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    shareApi.getSharedResults(token, controller.signal)
+      .then(setResults)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        setError(err instanceof Error ? err.message : 'Failed to load shared results');
+      });
+    return () => controller.abort();
+  }, [token]);
+
+  // The owner's brand lists are not shared; rebuild them from the mentions
+  const brands = useMemo(() => runBrands(results?.intents_data ?? []), [results]);
+
+  const glassCardClass = theme === 'dark' ? 'glass-card' : 'glass-card-light';
+  const mutedClass = theme === 'dark' ? 'text-navy-400' : 'text-gray-500';
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'bg-navy-950 text-white' : 'light-mode-bg text-gray-900'}`}>
+      {/* Header */}
+      <header className={`border-b ${theme === 'dark' ? 'border-navy-800/50 bg-navy-900/50' : 'border-slate-200 bg-white/80'} backdrop-blur-xl`}>
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary-500 to-accent-500 flex items-center justify-center">
+              <Search className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold">LLM Answer Watcher</h1>
+              <p className={`text-sm flex items-center gap-1 ${mutedClass}`}>
+                <Eye className="w-3.5 h-3.5" /> Shared results - read-only
+              </p>
+            </div>
+          </div>
+          <Link to="/" className="btn-primary text-sm">Track your own brand</Link>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        {error ? (
+          <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        ) : !results ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          <div className={`${glassCardClass} p-8`}>
+            <h2 className={`text-2xl font-bold mb-1 ${theme === 'dark' ? 'text-navy-200' : 'text-gray-800'}`}>
+              Results for Run: <span className="text-primary-400">{results.run_summary.run_id}</span>
+              {results.run_summary.status === 'partial' && (
+                <span
+                  className={`ml-3 align-middle inline-flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs font-semibold ${theme === 'dark' ? 'bg-amber-500/10 border-amber-500/20 text-amber-300' : 'bg-amber-50 border-amber-200 text-amber-700'}`}
+                  title="Run was cancelled or some queries failed - only the answers collected are shown"
+                >
+                  Partial
+                </span>
+              )}
+            </h2>
+            <p className={`text-sm mb-6 ${mutedClass}`}>
+              {new Date(results.run_summary.timestamp_utc).toLocaleString()}
+            </p>
+
+            {results.intents_data.length === 0 ? (
+              <p className={`text-center italic py-12 ${mutedClass}`}>This run has no answers.</p>
+            ) : (
+              <>
+                <div className={`inline-flex rounded-xl border p-1 mb-6 ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+                  {([
+                    { id: 'cards', label: 'Answers', icon: List },
+                    { id: 'matrix', label: 'Matrix', icon: LayoutGrid },
+                  ] as const).map(({ id, label, icon: Icon }) => (
+                    <button
+                      key={id}
+                      onClick={() => setView(id)}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        view === id
+                          ? 'bg-primary-500 text-white'
+                          : theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {view === 'matrix' ? (
+                  <IntentBrandHeatmap
+                    results={results}
+                    brands={brands}
+                    theme={theme}
+                    onSelectIntent={(intentId) => {
+                      setFocusedIntent(intentId);
+                      setView('cards');
+                    }}
+                  />
+                ) : (
+                  <IntentAnswers results={results} theme={theme} focusedIntent={focusedIntent} />
+                )}
+                <StatsComparison results={results} theme={theme} />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
+                  <TokenUsageStats results={results} theme={theme} />
+                  <BrandRecommendation results={results} theme={theme} />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,326 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  Calendar,
+  Loader2,
+  TrendingUp,
+  TrendingDown,
+  Minus,
+} from 'lucide-react';
+
+import { useAuth } from '../auth/AuthContext';
+import { isAbortError, watcherApi } from '../api/client';
+import { METRICS, computeBrandMetrics, groupAnswers } from '../analytics/metrics';
+import type { Breakdown, MetricKey } from '../analytics/metrics';
+import { TrendChart } from '../components/TrendChart';
+import type { TrendPoint, TrendSeries } from '../components/TrendChart';
+import type { RunListItem, RunResults } from '../types';
+
+// Results are fetched per run, a few at a time to spare the backend
+const RESULTS_FETCH_CONCURRENCY = 4;
+
+const SERIES_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#3b82f6', '#ec4899', '#14b8a6', '#a855f7'];
+
+const RANGE_PRESETS = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'All time', days: null },
+];
+
+const BREAKDOWNS: { id: Breakdown; label: string }[] = [
+  { id: 'overall', label: 'Overall' },
+  { id: 'intent', label: 'By Intent' },
+  { id: 'model', label: 'By Model' },
+];
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function TrendsPage({ theme }: { theme: string }) {
+  const navigate = useNavigate();
+  const { token } = useAuth();
+  const [runs, setRuns] = useState<RunListItem[]>([]);
+  // null marks a run whose results could not be loaded
+  const [resultsByRun, setResultsByRun] = useState<Record<string, RunResults | null>>({});
+  const requestedRuns = useRef(new Set<string>());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [metric, setMetric] = useState<MetricKey>('shareOfVoice');
+  const [breakdown, setBreakdown] = useState<Breakdown>('overall');
+
+  useEffect(() => {
+    if (!token) return;
+
+    const controller = new AbortController();
+    watcherApi.listRuns(controller.signal)
+      .then(data => {
+        setRuns(data);
+        setLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(err);
+        setError('Failed to load runs. Make sure the backend is running.');
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [token]);
+
+  // Oldest first, failed runs have no answers to chart
+  const runsInRange = useMemo(() => runs
+    .filter(run => run.status !== 'failed')
+    .filter(run => !fromDate || run.timestamp_utc.slice(0, 10) >= fromDate)
+    .filter(run => !toDate || run.timestamp_utc.slice(0, 10) <= toDate)
+    .sort((a, b) => a.timestamp_utc.localeCompare(b.timestamp_utc)),
+  [runs, fromDate, toDate]);
+
+  useEffect(() => {
+    const requested = requestedRuns.current;
+    const missing = runsInRange.filter(run => !requested.has(run.run_id));
+    if (missing.length === 0) return;
+    missing.forEach(run => requested.add(run.run_id));
+
+    const controller = new AbortController();
+    // Runs of this effect that haven't finished loading, started or not
+    const pending = new Set(missing.map(run => run.run_id));
+    let next = 0;
+    const worker = async () => {
+      while (next < missing.length) {
+        const run = missing[next++];
+        try {
+          const data = await watcherApi.getResults(run.run_id, controller.signal);
+          setResultsByRun(prev => ({ ...prev, [run.run_id]: data }));
+        } catch (err) {
+          if (isAbortError(err)) return;
+          console.error(`Failed to load results for run ${run.run_id}`, err);
+          setResultsByRun(prev => ({ ...prev, [run.run_id]: null }));
+        }
+        pending.delete(run.run_id);
+      }
+    };
+    Array.from({ length: RESULTS_FETCH_CONCURRENCY }, worker);
+
+    return () => {
+      controller.abort();
+      // Aborted and unstarted runs are requested again by the next effect
+      pending.forEach(runId => requested.delete(runId));
+    };
+  }, [runsInRange]);
+
+  const loadedRuns = runsInRange.filter(run => run.run_id in resultsByRun);
+  const unavailableRuns = loadedRuns.filter(run => resultsByRun[run.run_id] === null);
+
+  const series = useMemo<TrendSeries[]>(() => {
+    const groups = new Map<string, TrendPoint[]>();
+    runsInRange.forEach(run => {
+      const results = resultsByRun[run.run_id];
+      if (!results) return;
+      const time = Date.parse(run.timestamp_utc);
+      groupAnswers(results.intents_data, breakdown).forEach((answers, key) => {
+        const value = computeBrandMetrics(answers)[metric];
+        if (value === null) return;
+        const points = groups.get(key) ?? [];
+        points.push({ time, value, runId: run.run_id });
+        groups.set(key, points);
+      });
+    });
+
+    return [...groups.keys()].sort().map((key, index) => ({
+      key,
+      label: key,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+      points: groups.get(key) ?? [],
+    }));
+  }, [runsInRange, resultsByRun, metric, breakdown]);
+
+  // First vs latest overall value of every metric within the range
+  const summaries = useMemo(() => {
+    const overall = runsInRange
+      .map(run => resultsByRun[run.run_id])
+      .filter((results): results is RunResults => Boolean(results))
+      .map(results => computeBrandMetrics(results.intents_data.flatMap(intent => intent.answers)));
+
+    return (Object.keys(METRICS) as MetricKey[]).map(key => {
+      const values = overall.map(m => m[key]).filter((v): v is number => v !== null);
+      return {
+        key,
+        latest: values.length > 0 ? values[values.length - 1] : null,
+        change: values.length > 1 ? values[values.length - 1] - values[0] : null,
+      };
+    });
+  }, [runsInRange, resultsByRun]);
+
+  const applyPreset = (days: number | null) => {
+    if (days === null) {
+      setFromDate('');
+      setToDate('');
+      return;
+    }
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+    setFromDate(toDateInput(from));
+    setToDate('');
+  };
+
+  const glassCardClass = theme === 'dark'
+    ? 'bg-navy-900/50 border-navy-700/50 backdrop-blur-xl'
+    : 'bg-white/80 border-gray-200/80 backdrop-blur-xl';
+
+  const dateInputClass = `pl-10 pr-3 py-2 rounded-xl border outline-none transition-all text-sm ${
+    theme === 'dark'
+      ? 'bg-navy-900/50 border-navy-700 text-white focus:border-primary-500/50 [color-scheme:dark]'
+      : 'bg-white border-gray-200 text-gray-900 focus:border-primary-500/50'
+  }`;
+
+  const toggleClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+    active
+      ? 'bg-primary-500 text-white'
+      : theme === 'dark' ? 'text-navy-300 hover:bg-navy-800' : 'text-gray-600 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className={`min-h-screen ${theme === 'dark' ? 'bg-navy-950 text-white' : 'bg-slate-50 text-black'} p-6 md:p-12`}>
+      <div className="max-w-6xl mx-auto">
+
+        {/* Header */}
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between mb-8 gap-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate('/app')}
+              className={`p-2 rounded-lg transition-colors ${theme === 'dark' ? 'hover:bg-navy-800 text-navy-300' : 'hover:bg-gray-200 text-gray-600'}`}
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold flex items-center gap-3">
+                <TrendingUp className="w-8 h-8 text-primary-500" />
+                Trends
+              </h1>
+              <p className={`mt-1 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                How your brand's visibility changes across runs
+              </p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <div className={`flex rounded-xl border p-1 ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+              {RANGE_PRESETS.map(preset => (
+                <button key={preset.label} onClick={() => applyPreset(preset.days)} className={toggleClass(false)}>
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="relative">
+              <Calendar className={`absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`} />
+              <input type="date" value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} className={dateInputClass} title="From" />
+            </div>
+            <div className="relative">
+              <Calendar className={`absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 ${theme === 'dark' ? 'text-navy-400' : 'text-gray-400'}`} />
+              <input type="date" value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} className={dateInputClass} title="To" />
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-20">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+          </div>
+        ) : error ? (
+          <div className="p-6 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 flex items-center gap-3">
+            <AlertCircle className="w-5 h-5" />
+            {error}
+          </div>
+        ) : runsInRange.length === 0 ? (
+          <div className={`text-center py-20 rounded-2xl border border-dashed ${theme === 'dark' ? 'border-navy-700 bg-navy-900/30' : 'border-gray-300 bg-gray-50'}`}>
+            <TrendingUp className={`w-12 h-12 mx-auto mb-4 ${theme === 'dark' ? 'text-navy-600' : 'text-gray-400'}`} />
+            <h3 className="text-xl font-medium mb-2">No runs in this range</h3>
+            <p className={`${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+              {runs.length > 0 ? 'Try a wider date range.' : 'Run an analysis in the Dashboard to start tracking trends.'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {loadedRuns.length < runsInRange.length && (
+              <div className={`flex items-center gap-2 text-sm ${theme === 'dark' ? 'text-navy-300' : 'text-gray-500'}`}>
+                <Loader2 className="w-4 h-4 animate-spin text-primary-400" />
+                Loading results {loadedRuns.length} of {runsInRange.length} runs...
+              </div>
+            )}
+            {unavailableRuns.length > 0 && (
+              <div className={`flex items-center gap-2 text-sm ${theme === 'dark' ? 'text-amber-300' : 'text-amber-700'}`}>
+                <AlertCircle className="w-4 h-4" />
+                {unavailableRuns.length} {unavailableRuns.length === 1 ? 'run' : 'runs'} could not be loaded and {unavailableRuns.length === 1 ? 'is' : 'are'} left out.
+              </div>
+            )}
+
+            {/* Summary cards */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {summaries.map(summary => {
+                const definition = METRICS[summary.key];
+                const improved = summary.change !== null && summary.change !== 0
+                  && (definition.lowerIsBetter ? summary.change < 0 : summary.change > 0);
+                const ChangeIcon = summary.change === null || summary.change === 0
+                  ? Minus
+                  : summary.change > 0 ? TrendingUp : TrendingDown;
+                return (
+                  <button
+                    key={summary.key}
+                    onClick={() => setMetric(summary.key)}
+                    title={definition.description}
+                    className={`text-left p-4 rounded-2xl border transition-colors ${glassCardClass} ${metric === summary.key ? 'ring-2 ring-primary-500/60' : ''}`}
+                  >
+                    <div className={`text-xs uppercase tracking-wider font-semibold ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>
+                      {definition.label}
+                    </div>
+                    <div className="text-2xl font-bold mt-1">
+                      {summary.latest === null ? '-' : definition.format(summary.latest)}
+                    </div>
+                    <div className={`flex items-center gap-1 text-xs mt-1 ${
+                      summary.change === null || summary.change === 0
+                        ? (theme === 'dark' ? 'text-navy-400' : 'text-gray-500')
+                        : improved ? 'text-emerald-400' : 'text-rose-400'
+                    }`}>
+                      <ChangeIcon className="w-3 h-3" />
+                      {summary.change === null ? 'Not enough runs' : `${summary.change > 0 ? '+' : ''}${summary.change.toFixed(1)} since first run`}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+
+            {/* Chart */}
+            <div className={`rounded-2xl border p-6 ${glassCardClass}`}>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+                <div>
+                  <h2 className="text-xl font-bold">{METRICS[metric].label}</h2>
+                  <p className={`text-sm ${theme === 'dark' ? 'text-navy-400' : 'text-gray-500'}`}>{METRICS[metric].description}</p>
+                </div>
+                <div className={`flex rounded-xl border p-1 ${theme === 'dark' ? 'border-navy-700' : 'border-gray-200'}`}>
+                  {BREAKDOWNS.map(option => (
+                    <button key={option.id} onClick={() => setBreakdown(option.id)} className={toggleClass(breakdown === option.id)}>
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <TrendChart
+                series={series}
+                theme={theme}
+                format={METRICS[metric].format}
+                domain={METRICS[metric].domain}
+                invert={METRICS[metric].lowerIsBetter}
+                onPointClick={runId => navigate(`/app?runId=${runId}&tab=results`)}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { Sparkles, Zap } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { ModelConfig, ModelSelection, Provider } from '../types';
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+  description: string;
+  // USD per 1M tokens, mirroring PRICING in llm_answer_watcher/utils/cost.py
+  pricing: { input: number; output: number };
+  // False for models of a web search provider that can't use its search tool
+  webSearch?: boolean;
+}
+
+export interface ProviderDefinition {
+  id: Provider;
+  name: string;
+  tagline: string;
+  icon: LucideIcon;
+  models: ProviderModel[];
+  // Environment variable the CLI reads the key from, written into the YAML config
+  envApiKey: string;
+  keyPlaceholder: string;
+  keyUrl: string;
+  keyUrlLabel: string;
+  // Google Search grounding via `tools: [{ google_search: {} }]`
+  supportsWebSearch: boolean;
+  defaultSystemPrompt: string;
+  // Approximate token count of the system prompt once resolved, for cost estimates
+  systemPromptTokens: number;
+}
+
+const ANALYST_SYSTEM_PROMPT = 'You are an unbiased market analyst. Provide factual, balanced recommendations. IMPORTANT: Structure your response using bullet points for lists and short paragraphs. Highlight key entities (brands, products, metrics) in **bold** to make them stand out. Avoid long blocks of text.';
+
+/**
+ * Providers the backend runner can call (see `build_client` in llm_runner/models.py).
+ * `model_capabilities.yaml` also lists OpenAI, Anthropic, Mistral, Grok and Perplexity,
+ * but those have no runner client yet - add them here once the backend accepts them.
+ */
+export const PROVIDERS: ProviderDefinition[] = [
+  {
+    id: 'google',
+    name: 'Google Gemini',
+    tagline: 'Includes web search grounding. Best for real-time accuracy.',
+    icon: Sparkles,
+    models: [
+      { id: 'models/gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Latest and fastest model (recommended)', pricing: { input: 0.075, output: 0.30 } },
+      { id: 'gemini-2.0-flash-exp', name: 'Gemini 2.0 Flash (Experimental)', description: 'Free during the experimental preview', pricing: { input: 0, output: 0 } },
+      { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', description: 'Stronger reasoning, higher cost', pricing: { input: 1.25, output: 5.00 }, webSearch: false },
+      { id: 'gemini-1.5-pro-002', name: 'Gemini 1.5 Pro 002', description: 'Pinned version of Gemini 1.5 Pro', pricing: { input: 1.25, output: 5.00 }, webSearch: false },
+      { id: 'gemini-1.5-pro-001', name: 'Gemini 1.5 Pro 001', description: 'Pinned version of Gemini 1.5 Pro', pricing: { input: 1.25, output: 5.00 }, webSearch: false },
+      { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash', description: 'Fast and inexpensive', pricing: { input: 0.075, output: 0.30 }, webSearch: false },
+      { id: 'gemini-1.5-flash-002', name: 'Gemini 1.5 Flash 002', description: 'Pinned version of Gemini 1.5 Flash', pricing: { input: 0.075, output: 0.30 }, webSearch: false },
+      { id: 'gemini-1.5-flash-001', name: 'Gemini 1.5 Flash 001', description: 'Pinned version of Gemini 1.5 Flash', pricing: { input: 0.075, output: 0.30 }, webSearch: false },
+      { id: 'gemini-1.5-flash-8b', name: 'Gemini 1.5 Flash-8B', description: 'Cheapest Gemini for high volume', pricing: { input: 0.0375, output: 0.15 }, webSearch: false },
+      { id: 'gemini-1.5-flash-8b-001', name: 'Gemini 1.5 Flash-8B 001', description: 'Pinned version of Gemini 1.5 Flash-8B', pricing: { input: 0.0375, output: 0.15 }, webSearch: false },
+      { id: 'gemini-1.0-pro', name: 'Gemini 1.0 Pro', description: 'Legacy model', pricing: { input: 0.50, output: 1.50 }, webSearch: false },
+      { id: 'gemini-1.0-pro-001', name: 'Gemini 1.0 Pro 001', description: 'Pinned version of Gemini 1.0 Pro', pricing: { input: 0.50, output: 1.50 }, webSearch: false },
+    ],
+    envApiKey: 'GEMINI_API_KEY',
+    keyPlaceholder: 'AIzaSy...',
+    keyUrl: 'https://aistudio.google.com/app/apikey',
+    keyUrlLabel: 'Google AI Studio',
+    supportsWebSearch: true,
+    defaultSystemPrompt: 'google/gemini-grounding',
+    // llm_answer_watcher/system_prompts/google/gemini-grounding.json
+    systemPromptTokens: 600,
+  },
+  {
+    id: 'groq',
+    name: 'Groq',
+    tagline: 'Ultra-fast open models (Llama, Mixtral, Gemma). Great for high volume analysis.',
+    icon: Zap,
+    models: [
+      { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', description: 'Best quality for general tasks', pricing: { input: 0.59, output: 0.79 } },
+      { id: 'llama-3.1-70b-versatile', name: 'Llama 3.1 70B', description: 'Previous-generation 70B', pricing: { input: 0.59, output: 0.79 } },
+      { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 8B Instant', description: 'Fastest and cheapest Llama', pricing: { input: 0.05, output: 0.08 } },
+      { id: 'llama-3.2-90b-vision-preview', name: 'Llama 3.2 90B Vision (Preview)', description: 'Large multimodal preview model', pricing: { input: 0.90, output: 0.90 } },
+      { id: 'llama-3.2-11b-vision-preview', name: 'Llama 3.2 11B Vision (Preview)', description: 'Small multimodal preview model', pricing: { input: 0.18, output: 0.18 } },
+      { id: 'llama-3.2-3b-preview', name: 'Llama 3.2 3B (Preview)', description: 'Lightweight preview model', pricing: { input: 0.06, output: 0.06 } },
+      { id: 'llama-3.2-1b-preview', name: 'Llama 3.2 1B (Preview)', description: 'Smallest preview model', pricing: { input: 0.04, output: 0.04 } },
+      { id: 'mixtral-8x7b-32768', name: 'Mixtral 8x7B', description: 'Mistral mixture of experts, 32k context', pricing: { input: 0.24, output: 0.24 } },
+      { id: 'gemma2-9b-it', name: 'Gemma 2 9B', description: 'Google open model', pricing: { input: 0.20, output: 0.20 } },
+      { id: 'gemma-7b-it', name: 'Gemma 7B', description: 'Previous-generation Gemma', pricing: { input: 0.07, output: 0.07 } },
+    ],
+    envApiKey: 'GROQ_API_KEY',
+    keyPlaceholder: 'gsk_...',
+    keyUrl: 'https://console.groq.com/keys',
+    keyUrlLabel: 'Groq Console',
+    supportsWebSearch: false,
+    defaultSystemPrompt: ANALYST_SYSTEM_PROMPT,
+    systemPromptTokens: 70,
+  },
+];
+
+export const DEFAULT_MODEL_SELECTIONS: ModelSelection[] = [
+  { provider: 'google', model_name: PROVIDERS[0].models[0].id },
+];
+
+// Model selection shared by the Setup Wizard and the Dashboard
+const MODEL_SELECTIONS_STORAGE_KEY = 'default_model_selections';
+
+export const getProvider = (id: Provider): ProviderDefinition =>
+  PROVIDERS.find(provider => provider.id === id) as ProviderDefinition;
+
+export const isProvider = (id: string): id is Provider =>
+  PROVIDERS.some(provider => provider.id === id);
+
+// Display name of a model id, falling back to the id for models no longer in the registry
+export function getModelName(modelId: string): string {
+  for (const provider of PROVIDERS) {
+    const model = provider.models.find(m => m.id === modelId);
+    if (model) return model.name;
+  }
+  return modelId.replace(/^models\//, '');
+}
+
+export const getModel = (selection: ModelSelection): ProviderModel | null =>
+  getProvider(selection.provider).models.find(m => m.id === selection.model_name) ?? null;
+
+// Registry id of a model name from a config; Gemini names work with or without the "models/" prefix
+export function findModelId(provider: Provider, modelName: string): string | null {
+  const models = getProvider(provider).models;
+  const candidates = provider === 'google' ? [modelName, `models/${modelName}`, modelName.replace(/^models\//, '')] : [modelName];
+  return candidates.find(name => models.some(m => m.id === name)) ?? null;
+}
+
+export const supportsWebSearch = (selection: ModelSelection): boolean =>
+  getProvider(selection.provider).supportsWebSearch && getModel(selection)?.webSearch !== false;
+
+// Provider a model id belongs to, or null when the registry doesn't know the model
+export const providerOfModel = (modelId: string): ProviderDefinition | null =>
+  PROVIDERS.find(provider => provider.models.some(m => m.id === modelId)) ?? null;
+
+export const selectedProviders = (selections: ModelSelection[]): ProviderDefinition[] =>
+  PROVIDERS.filter(provider => selections.some(s => s.provider === provider.id));
+
+export const emptyApiKeys = (): Record<Provider, string> =>
+  Object.fromEntries(PROVIDERS.map(provider => [provider.id, ''])) as Record<Provider, string>;
+
+export function toModelConfig(selection: ModelSelection, enableWebSearch: boolean): ModelConfig {
+  const provider = getProvider(selection.provider);
+  return {
+    provider: provider.id,
+    model_name: selection.model_name,
+    env_api_key: provider.envApiKey,
+    system_prompt: provider.defaultSystemPrompt,
+    ...(supportsWebSearch(selection) && enableWebSearch && { tools: [{ google_search: {} }] }),
+  };
+}
+
+/**
+ * Validate a stored model selection, dropping providers and models that are
+ * no longer in the registry. Falls back to the default selection.
+ */
+export function parseModelSelections(value: unknown): ModelSelection[] {
+  if (!Array.isArray(value)) return DEFAULT_MODEL_SELECTIONS;
+  const selections = value.filter((item): item is ModelSelection =>
+    typeof item?.provider === 'string'
+    && isProvider(item.provider)
+    && getProvider(item.provider).models.some(m => m.id === item.model_name)
+  );
+  return selections.length > 0 ? selections : DEFAULT_MODEL_SELECTIONS;
+}
+
+export function loadModelSelections(): ModelSelection[] {
+  try {
+    return parseModelSelections(JSON.parse(localStorage.getItem(MODEL_SELECTIONS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_MODEL_SELECTIONS;
+  }
+}
+
+export function saveModelSelections(selections: ModelSelection[]) {
+  localStorage.setItem(MODEL_SELECTIONS_STORAGE_KEY, JSON.stringify(selections));
+}
@@ -3,6 +3,7 @@ export interface WatcherConfig {
   extraction_settings?: ExtractionSettings;
   brands: Brands;
   intents: Intent[];
+  global_operations?: Operation[];
 }
 
 export interface RunSettings {
@@ -11,10 +12,19 @@ export interface RunSettings {
   max_concurrent_requests: number;
   models: ModelConfig[];
   use_llm_rank_extraction: boolean;
+  budget?: BudgetConfig;
+}
+
+// Mirrors BudgetConfig in config/schema.py; limits are in USD, null = no limit
+export interface BudgetConfig {
+  enabled: boolean;
+  max_per_run_usd: number | null;
+  max_per_intent_usd: number | null;
+  warn_threshold_usd: number | null;
 }
 
 export interface ModelConfig {
-  provider: 'google' | 'groq';
+  provider: Provider;
   model_name: string;
   env_api_key: string;
   system_prompt?: string;
@@ -33,21 +43,55 @@ export interface ExtractionSettings {
 export interface Brands {
   mine: string[];
   competitors: string[];
+  // Keyed by a name from mine or competitors
+  entities?: Record<string, Partial<BrandEntity>>;
+}
+
+/**
+ * Other names of a tracked brand (mirrors BrandEntity in config/schema.py).
+ * Mentions of aliases and product lines count as the canonical brand;
+ * excluded terms (e.g. "Notion Capital" for Notion) are never mentions.
+ */
+export interface BrandEntity {
+  aliases: string[];
+  products: string[];
+  exclude: string[];
 }
 
 export interface Intent {
   id: string;
   prompt: string;
+  operations?: Operation[];
 }
 
-export interface SearchResult {
-  run_id: string;
-  timestamp: string;
-  intents: IntentResult[];
-  total_cost_usd: number;
-  status: 'success' | 'partial' | 'failed';
+export type OperationType = 'standard' | 'structured' | 'webhook';
+
+/**
+ * Mirrors Operation in config/schema.py: a follow-up prompt run on every answer
+ * of an intent (or of every intent, for global_operations). Omitted fields take
+ * the backend defaults.
+ */
+export interface Operation {
+  id: string;
+  description?: string;
+  prompt: string;
+  // model_name of one of the run's models; the first model when omitted
+  model?: string;
+  enabled?: boolean;
+  depends_on?: string[];
+  condition?: string;
+  output_format?: 'text' | 'json';
+  type?: OperationType;
+  function_template?: string;
+  function_schema?: Record<string, unknown>;
 }
 
+// Stored completion status of a run (runs.status)
+export type RunResultStatus = 'success' | 'partial' | 'failed';
+
+export type MentionSentiment = 'positive' | 'neutral' | 'negative';
+
+// Shapes returned by GET /results/{run_id} - validated at runtime by parseRunResults()
 export interface IntentResult {
   intent_id: string;
   prompt: string;
@@ -57,28 +101,50 @@ export interface IntentResult {
 export interface Answer {
   answer: string;
   model: string;
-  cost_usd: number;
+  cost_usd: number | null;
   mentions: BrandMention[];
+  // Operations executed on this answer, in execution order
+  operations: OperationResult[];
+  // Empty object when the provider reported no usage
+  usage: TokenUsage;
+}
+
+export interface OperationResult {
+  operation_id: string;
+  description: string | null;
+  // Model that ran the operation, not the one that answered
+  model: string;
+  // Empty when the operation failed
+  result: string;
+  depends_on: string[];
+  cost_usd: number | null;
+  error: string | null;
+}
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
 }
 
 export interface BrandMention {
   brand: string;
+  normalized_name: string;
   is_mine: boolean;
   rank: number | null;
-  context: string;
-  sentiment?: 'positive' | 'neutral' | 'negative';
+  sentiment: MentionSentiment | null;
+  context: string | null;
 }
 
-export const GEMINI_MODELS = [
-  { id: 'models/gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Latest and fastest model (recommended)' },
-] as const;
-
-export const GROQ_MODELS = [
-  { id: 'llama-3.3-70b-versatile', name: 'Llama 3.3 70B', description: 'Best quality for general tasks' },
-] as const;
-
+// Providers accepted by the backend config schema; models and key settings live in providers/registry.ts
 export type Provider = 'google' | 'groq';
 
+// One model picked for a run
+export interface ModelSelection {
+  provider: Provider;
+  model_name: string;
+}
+
 // Authentication types
 export interface User {
   id: number;
@@ -116,11 +182,12 @@ export interface LoginRequest {
 export interface APIKeyCreateRequest {
   provider: string;
   api_key: string;
-  key_name?: string;
+  key_name?: string | null;
 }
 
-export interface UserBrand {
+export interface UserBrand extends BrandEntity {
   id: number;
+  // Canonical name
   brand_name: string;
   is_mine: boolean;
   created_at: string;
@@ -133,7 +200,7 @@ export interface UserIntent {
   created_at: string;
 }
 
-export interface BrandCreateRequest {
+export interface BrandCreateRequest extends Partial<BrandEntity> {
   brand_name: string;
   is_mine: boolean;
 }
@@ -143,6 +210,347 @@ export interface IntentCreateRequest {
   prompt: string;
 }
 
+export interface BrandUpdateRequest extends Partial<BrandEntity> {
+  brand_name?: string;
+  is_mine?: boolean;
+}
+
+export interface IntentUpdateRequest {
+  intent_alias?: string;
+  prompt?: string;
+}
+
+export interface APIKeyDetails {
+  id: number;
+  provider: string;
+  key_name: string | null;
+  api_key: string;
+  created_at: string;
+}
+
+export interface APIKeyUpdateRequest {
+  provider: string;
+  api_key: string;
+  key_name?: string | null;
+}
+
+export interface UserUpdateRequest {
+  username?: string;
+  email?: string;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+// User settings are stored as a free-form JSON document on the backend
+export interface UserSettings {
+  notifications?: {
+    email: boolean;
+    browser: boolean;
+    updates: boolean;
+    marketing: boolean;
+  };
+  appearance?: {
+    density: string;
+    fontSize: string;
+    theme?: string;
+  };
+  spending?: {
+    // Ask for confirmation before runs estimated above this many USD
+    confirmAboveUsd: number;
+  };
+  report?: ReportBranding;
+  [key: string]: unknown;
+}
+
+// Look of exported run reports (Settings > Report Branding)
+export interface ReportBranding {
+  companyName: string;
+  // http(s) URL or a data: URL of an uploaded image; empty for no logo
+  logoUrl: string;
+  primaryColor: string;
+  accentColor: string;
+}
+
+export interface UserDataExport {
+  user: Pick<User, 'username' | 'email' | 'created_at'>;
+  brands: UserBrand[];
+  intents: UserIntent[];
+  api_keys: Pick<StoredAPIKey, 'provider' | 'key_name' | 'created_at'>[];
+  settings: UserSettings;
+  runs_summary: RunListItem[];
+  export_date: string;
+}
+
+// Watcher run types
+export interface RunWatcherRequest {
+  api_keys: Record<string, string>;
+  yaml_config: string;
+}
+
+export interface RunError {
+  intent_id: string;
+  model_provider: string;
+  model_name: string;
+  error_message: string;
+}
+
+// Final run_all() summary, available once a run has completed
+export interface RunCompletionSummary {
+  run_id: string;
+  timestamp_utc: string;
+  output_dir: string;
+  total_intents: number;
+  total_models: number;
+  total_queries: number;
+  success_count: number;
+  error_count: number;
+  cancelled_count: number;
+  total_cost_usd: number;
+  status: RunResultStatus;
+  cancelled: boolean;
+  errors: RunError[];
+}
+
+export type RunStatus = 'running' | 'completed' | 'failed';
+
+export type QueryStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueryProgress {
+  intent_id: string;
+  model_provider: string;
+  model_name: string;
+  status: QueryStatus;
+  cost_usd: number;
+  error_message: string | null;
+}
+
+export interface RunProgress {
+  run_id: string;
+  status: RunStatus;
+  cancel_requested: boolean;
+  started_at: string;
+  finished_at: string | null;
+  total_queries: number;
+  completed_queries: number;
+  failed_queries: number;
+  total_cost_usd: number;
+  queries: QueryProgress[];
+  error: string | null;
+  // Set when the run was refused because its estimated cost exceeded a budget limit
+  budget_exceeded: BudgetExceeded | null;
+  summary: RunCompletionSummary | null;
+}
+
+export interface BudgetExceeded {
+  budget_type: 'per_run' | 'per_intent';
+  budget_limit: number;
+  estimated_cost: number;
+}
+
+export interface RunWatcherResponse extends RunProgress {
+  message: string;
+}
+
+export interface RunListItem {
+  run_id: string;
+  timestamp_utc: string;
+  total_intents: number;
+  total_models: number;
+  total_cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+  my_brands: string;
+  competitor_brands: string;
+  status: RunResultStatus;
+}
+
+export interface RunSummary {
+  run_id: string;
+  timestamp_utc: string;
+  total_intents: number;
+  total_models: number;
+  total_cost_usd: number;
+  status: RunResultStatus | null;
+}
+
+// An intent × model query of a run that has no answer (failed or cancelled)
+export interface QueryFailure {
+  intent_id: string;
+  model_provider: string;
+  model_name: string;
+  timestamp_utc: string;
+  error_message: string;
+}
+
+export interface RunResults {
+  run_summary: RunSummary;
+  intents_data: IntentResult[];
+  failures: QueryFailure[];
+}
+
+// Scheduled runs (/schedules); times are UTC timestamps, cron is evaluated in UTC
+export interface Schedule {
+  id: number;
+  name: string;
+  yaml_config: string;
+  cron: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_id: string | null;
+  last_run_at: string | null;
+  // 'running' until the latest run finishes
+  last_status: RunResultStatus | 'running' | null;
+  last_cost_usd: number | null;
+  last_error: string | null;
+  run_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduleCreateRequest {
+  name: string;
+  yaml_config: string;
+  cron: string;
+}
+
+export interface ScheduleUpdateRequest {
+  name?: string;
+  yaml_config?: string;
+  cron?: string;
+  enabled?: boolean;
+}
+
+// Alert rules (/alerts/rules), checked by the backend when a run completes
+export type AlertRuleType = 'rank_drop' | 'competitor_overtakes' | 'negative_sentiment' | 'share_of_voice_below';
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  rule_type: AlertRuleType;
+  // Config intent id; null = every intent
+  intent_id: string | null;
+  // competitor_overtakes only; null = any competitor
+  competitor: string | null;
+  // Top N for rank_drop, % for share_of_voice_below
+  threshold: number | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertRuleCreateRequest {
+  name: string;
+  rule_type: AlertRuleType;
+  intent_id?: string;
+  competitor?: string;
+  threshold?: number;
+}
+
+// Named to avoid clashing with the browser's Notification
+export interface InboxNotification {
+  id: number;
+  rule_id: number | null;
+  run_id: string | null;
+  title: string;
+  message: string;
+  read: boolean;
+  created_at: string;
+}
+
+export interface NotificationInbox {
+  unread_count: number;
+  notifications: InboxNotification[];
+}
+
+// Payload shape a webhook receives: the raw summary JSON, Slack text or a Teams card
+export type WebhookFormat = 'generic' | 'slack' | 'teams';
+
+export interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  payload_format: WebhookFormat;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookCreateRequest {
+  name: string;
+  url: string;
+  payload_format: WebhookFormat;
+}
+
+export interface WebhookDelivery {
+  id?: number;
+  run_id?: string | null;
+  event?: 'run.completed' | 'test';
+  // null when no response came back (timeout, DNS, refused connection)
+  status_code: number | null;
+  success: boolean;
+  error: string | null;
+  created_at?: string;
+}
+
+// Public, read-only link to a run's results
+export interface ShareLink {
+  id: number;
+  run_id: string;
+  token: string;
+  created_at: string;
+  // null when the link works until revoked
+  expires_at: string | null;
+}
+
+export interface ShareLinkCreateRequest {
+  run_id: string;
+  expires_in_days?: number;
+}
+
+// Named Dashboard configuration (/presets); every save adds a version
+export interface ConfigPreset {
+  id: number;
+  name: string;
+  latest_version: number;
+  // Dashboard YAML of the latest version
+  yaml_config: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConfigPresetVersion {
+  version: number;
+  yaml_config: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface ConfigPresetCreateRequest {
+  name: string;
+  yaml_config: string;
+  note?: string;
+}
+
+export interface ConfigPresetVersionCreateRequest {
+  yaml_config: string;
+  note?: string;
+}
+
+export interface OptimizePromptRequest {
+  prompt: string;
+  provider: string;
+  api_key: string;
+  model_name: string;
+  competitors: string[];
+  my_brands: string[];
+}
+
+export interface OptimizePromptResponse {
+  optimized_prompt: string;
+}
+
 export const INTENT_TEMPLATES = [
   { id: 'pricing-compare', label: 'Pricing Comparison', prompt: 'Compare the pricing models of [MyBrand] vs [Competitor]. Which offers better value for small businesses?' },
   { id: 'feature-analysis', label: 'Feature Analysis', prompt: 'What are the key feature differences between [MyBrand] and [Competitor]? Highlight unique selling points.' },